@@ -0,0 +1,85 @@
+/**
+ * @summary
+ * Public API controller for authentication.
+ * Handles credential exchange for access tokens and customer sign-up.
+ *
+ * @module api/external/auth/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import { authLogin, authRegister } from '@/services/auth';
+
+/**
+ * @api {post} /api/external/auth/login Login
+ * @apiName Login
+ * @apiGroup Auth
+ *
+ * @apiBody {String} email User email
+ * @apiBody {String} password User password
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.token Bearer access token
+ * @apiSuccess {String} data.expiresAt ISO 8601 expiration timestamp
+ * @apiSuccess {Object} data.user Authenticated user
+ * @apiSuccess {Number} data.user.id Unique identifier
+ * @apiSuccess {String} data.user.name User name
+ * @apiSuccess {String} data.user.email User email
+ * @apiSuccess {String} data.user.role Role (admin | editor | viewer | customer)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | UNAUTHORIZED)
+ * @apiError {String} error.message Error message
+ */
+export async function loginHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await authLogin(req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/auth/register Register
+ * @apiName Register
+ * @apiGroup Auth
+ * @apiDescription Creates a customer account and signs it in. Staff accounts are created by admins.
+ *
+ * @apiBody {String} name Customer name
+ * @apiBody {String} email Customer email
+ * @apiBody {String} password Password (8 to 72 characters)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.token Bearer access token
+ * @apiSuccess {String} data.expiresAt ISO 8601 expiration timestamp
+ * @apiSuccess {Object} data.user Created user
+ * @apiSuccess {Number} data.user.id Unique identifier
+ * @apiSuccess {String} data.user.name User name
+ * @apiSuccess {String} data.user.email User email
+ * @apiSuccess {String} data.user.role Role (always customer)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function registerHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await authRegister(req.body);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * @summary
+ * Public API controller for Cart entity.
+ * Handles the shopping cart of anonymous shoppers and signed-in users.
+ *
+ * @module api/external/cart/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { CART_DEFAULTS } from '@/constants';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import {
+  cartGet,
+  cartAddItem,
+  cartUpdateItem,
+  cartRemoveItem,
+  cartClear,
+  cartMerge,
+  type CartOwner,
+} from '@/services/cart';
+
+/**
+ * @summary
+ * Resolves the cart owner of a request from its identity and cart token header.
+ *
+ * @function cartOwner
+ * @param {Request} req - Express request object
+ * @returns {CartOwner} User ID and/or anonymous token
+ */
+function cartOwner(req: Request): CartOwner {
+  return { userId: req.auth?.userId, token: req.get(CART_DEFAULTS.TOKEN_HEADER) };
+}
+
+/**
+ * @api {get} /api/external/cart Get Cart
+ * @apiName GetCart
+ * @apiGroup Cart
+ *
+ * @apiDescription Signed-in users get their user cart; anonymous shoppers identify their cart
+ * with the token of the X-Cart-Token header. Prices and totals reflect current product prices.
+ * Anonymous carts not changed for 30 days expire; their token then yields an empty cart.
+ *
+ * @apiHeader {String} [Authorization] Bearer token of a signed-in user
+ * @apiHeader {String} [X-Cart-Token] Anonymous cart token
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String|null} data.token Anonymous cart token (null for user carts or when no cart exists)
+ * @apiSuccess {Object[]} data.items Cart lines in the order products were added
+ * @apiSuccess {Object} data.items.product Product as listed on the storefront, with resolved price
+ * @apiSuccess {Object|null} data.items.variant Chosen variant (id, sku, options, label, price, availability), whose price applies to the line
+ * @apiSuccess {Number} data.items.quantity Units of the product
+ * @apiSuccess {Number} data.items.unitPrice Current price of one unit
+ * @apiSuccess {Number} data.items.lineTotal Unit price times quantity
+ * @apiSuccess {String} data.items.dateAdded ISO 8601 timestamp
+ * @apiSuccess {Number} data.itemCount Total units
+ * @apiSuccess {Number} data.listTotal Total at regular prices
+ * @apiSuccess {Number} data.discount Savings from active promotions
+ * @apiSuccess {Number} data.subtotal Total at current prices
+ * @apiSuccess {Number[]} data.removedProductIds Unavailable products left out of the cart
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await cartGet(cartOwner(req));
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/cart/items Add Cart Item
+ * @apiName AddCartItem
+ * @apiGroup Cart
+ *
+ * @apiDescription Adds units of a product, creating the cart if needed. Anonymous shoppers
+ * without a cart receive the token of the new cart in data.token. Products not made to order
+ * cannot exceed the units in stock; error.details.available holds the units left.
+ *
+ * @apiHeader {String} [Authorization] Bearer token of a signed-in user
+ * @apiHeader {String} [X-Cart-Token] Anonymous cart token
+ *
+ * @apiBody {Number} productId Product ID
+ * @apiBody {Number} [variantId] Variant ID, required for products with variants
+ * @apiBody {Number} [quantity] Units to add (1-20, default: 1)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated cart (see Get Cart)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function addItemHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await cartAddItem(cartOwner(req), req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {patch} /api/external/cart/items/:productId/:variantId? Update Cart Item
+ * @apiName UpdateCartItem
+ * @apiGroup Cart
+ *
+ * @apiHeader {String} [Authorization] Bearer token of a signed-in user
+ * @apiHeader {String} [X-Cart-Token] Anonymous cart token
+ *
+ * @apiParam {Number} productId Product ID
+ * @apiParam {Number} [variantId] Variant ID of lines of products with variants
+ *
+ * @apiBody {Number} quantity New quantity (1-20, at most the units in stock unless made to order)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated cart (see Get Cart)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function updateItemHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await cartUpdateItem(cartOwner(req), req.params, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/external/cart/items/:productId/:variantId? Remove Cart Item
+ * @apiName RemoveCartItem
+ * @apiGroup Cart
+ *
+ * @apiHeader {String} [Authorization] Bearer token of a signed-in user
+ * @apiHeader {String} [X-Cart-Token] Anonymous cart token
+ *
+ * @apiParam {Number} productId Product ID
+ * @apiParam {Number} [variantId] Variant ID of lines of products with variants
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated cart (see Get Cart)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function removeItemHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await cartRemoveItem(cartOwner(req), req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/external/cart Clear Cart
+ * @apiName ClearCart
+ * @apiGroup Cart
+ *
+ * @apiHeader {String} [Authorization] Bearer token of a signed-in user
+ * @apiHeader {String} [X-Cart-Token] Anonymous cart token
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Empty cart (see Get Cart)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function clearHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await cartClear(cartOwner(req));
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/cart/merge Merge Cart
+ * @apiName MergeCart
+ * @apiGroup Cart
+ *
+ * @apiDescription Called right after login: moves the anonymous cart of the X-Cart-Token
+ * header into the user cart and removes it. Quantities of products in both carts are added.
+ *
+ * @apiHeader {String} Authorization Bearer token of the signed-in user
+ * @apiHeader {String} [X-Cart-Token] Anonymous cart token to merge
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data User cart (see Get Cart)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | UNAUTHORIZED)
+ * @apiError {String} error.message Error message
+ */
+export async function mergeHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await cartMerge(cartOwner(req));
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
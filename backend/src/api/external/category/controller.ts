@@ -0,0 +1,131 @@
+/**
+ * @summary
+ * Public API controller for Category entity.
+ * Handles storefront category navigation.
+ *
+ * @module api/external/category/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError, setPaginationHeaders } from '@/utils';
+import {
+  categoryListPublic,
+  categoryGetFeaturedPublic,
+  categoryGetBySlugPublic,
+} from '@/services/category';
+
+/**
+ * @api {get} /api/external/category List Categories
+ * @apiName ListPublicCategories
+ * @apiGroup Catalog
+ *
+ * @apiDescription Paginated requests return pagination in metadata.pagination and in the
+ * X-Total-Count, X-Page-Count and Link (first, prev, next, last) response headers.
+ *
+ * @apiQuery {Number} [parentId] Filter by parent category ID
+ * @apiQuery {Boolean} [featured] Show only featured categories
+ * @apiQuery {Number} [page] Page number; the list is paginated only when page or pageSize is given
+ * @apiQuery {Number} [pageSize] Items per page (default: 20, max: 100)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.items List of active categories
+ * @apiSuccess {Number} data.items.id Unique identifier
+ * @apiSuccess {String} data.items.name Category name
+ * @apiSuccess {String} data.items.slug URL-friendly slug
+ * @apiSuccess {Number|null} data.items.parentId Parent category ID
+ * @apiSuccess {Number} data.items.level Hierarchy level (1-3)
+ * @apiSuccess {String|null} data.items.description Category description
+ * @apiSuccess {String|null} data.items.imageUrl Category image URL
+ * @apiSuccess {Number} data.items.productCount Number of visible products including subcategories
+ * @apiSuccess {Object} [metadata.pagination] Pagination (total, page, pageSize, totalPages, hasNext, hasPrevious)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { pagination, ...data } = await categoryListPublic(req.query);
+    if (pagination) {
+      setPaginationHeaders(req, res, pagination);
+    }
+    res.json(successResponse(data, pagination && { pagination }));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/category/featured Get Featured Categories
+ * @apiName GetPublicFeaturedCategories
+ * @apiGroup Catalog
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data List of featured active categories
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name Category name
+ * @apiSuccess {String} data.slug URL-friendly slug
+ * @apiSuccess {String|null} data.description Category description
+ * @apiSuccess {String|null} data.imageUrl Category image URL
+ * @apiSuccess {Number} data.productCount Number of visible products including subcategories
+ */
+export async function getFeaturedHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await categoryGetFeaturedPublic();
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/category/slug/:slug Get Category by Slug
+ * @apiName GetPublicCategoryBySlug
+ * @apiGroup Catalog
+ *
+ * @apiParam {String} slug Category slug
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name Category name
+ * @apiSuccess {String} data.slug URL-friendly slug
+ * @apiSuccess {Number|null} data.parentId Parent category ID
+ * @apiSuccess {Number} data.level Hierarchy level (1-3)
+ * @apiSuccess {String|null} data.description Category description
+ * @apiSuccess {String|null} data.imageUrl Category image URL
+ * @apiSuccess {Number} data.productCount Number of visible products including subcategories
+ * @apiSuccess {String|null} data.metaTitle SEO title
+ * @apiSuccess {String|null} data.metaDescription SEO description
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function getBySlugHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await categoryGetBySlugPublic(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * @summary
+ * Public API controller for Order entity.
+ * Handles checkout and the order history of customers.
+ *
+ * @module api/external/order/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { CART_DEFAULTS } from '@/constants';
+import { successResponse, errorResponse, isServiceError, setPaginationHeaders } from '@/utils';
+import {
+  orderCheckout,
+  orderListPublic,
+  orderGetPublic,
+  orderCancelPublic,
+} from '@/services/order';
+
+/**
+ * @api {post} /api/external/order/checkout Checkout
+ * @apiName Checkout
+ * @apiGroup Order
+ *
+ * @apiDescription Places an order from the cart of the request (see Get Cart). Lines and
+ * prices are copied from the cart as priced now, the total is charged through the payment
+ * provider and the cart is emptied. Units in stock are reserved for the order; products
+ * short of stock fail the checkout (error.details.products) unless they are made to order.
+ * Declined payments cancel the order, whose code is sent in error.details, release the
+ * reserved units and leave the cart untouched.
+ *
+ * @apiHeader {String} [Authorization] Bearer token of a signed-in user
+ * @apiHeader {String} [X-Cart-Token] Anonymous cart token
+ *
+ * @apiBody {Object} customer Customer contact
+ * @apiBody {String} customer.name Full name (3-100 characters)
+ * @apiBody {String} customer.email Email address
+ * @apiBody {String} customer.phone Phone with area code (10-11 digits, formatting ignored)
+ * @apiBody {Object} deliveryAddress Delivery address
+ * @apiBody {String} deliveryAddress.cep CEP (00000-000 or 00000000)
+ * @apiBody {String} deliveryAddress.street Street
+ * @apiBody {String} deliveryAddress.number Number
+ * @apiBody {String} [deliveryAddress.complement] Complement
+ * @apiBody {String} deliveryAddress.neighborhood Neighborhood
+ * @apiBody {String} deliveryAddress.city City
+ * @apiBody {String} deliveryAddress.state State abbreviation (UF)
+ * @apiBody {Object} payment Payment
+ * @apiBody {String} payment.method Payment method (pix | credit_card | boleto)
+ * @apiBody {Number} [payment.installments] Installments, credit card only (default: 1); at most the
+ *   interest-free installments offered by every product of the cart
+ * @apiBody {String} [notes] Notes for the store (max 500 characters)
+ * @apiBody {Number} [expectedTotal] Cart total shown to the customer; checkout fails when it changed
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Placed order (see Get Order)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | BUSINESS_RULE_ERROR | CONFLICT)
+ * @apiError {String} error.message Error message
+ */
+export async function checkoutHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const owner = { userId: req.auth?.userId, token: req.get(CART_DEFAULTS.TOKEN_HEADER) };
+    const data = await orderCheckout(owner, req.body);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/order List My Orders
+ * @apiName ListMyOrders
+ * @apiGroup Order
+ *
+ * @apiDescription Order history of the signed-in customer, newest first. Pagination is also
+ * sent in the X-Total-Count, X-Page-Count and Link response headers.
+ *
+ * @apiHeader {String} Authorization Bearer token of the signed-in user
+ *
+ * @apiQuery {Number} [page] Page number (default: 1)
+ * @apiQuery {Number} [pageSize] Items per page (default: 20, max: 100)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.items Orders
+ * @apiSuccess {String} data.items.code Order code
+ * @apiSuccess {String} data.items.status Order status
+ * @apiSuccess {String} data.items.imageUrl Image of the first product
+ * @apiSuccess {Number} data.items.itemCount Total units
+ * @apiSuccess {Number} data.items.total Order total
+ * @apiSuccess {String} data.items.dateCreated ISO 8601 timestamp
+ * @apiSuccess {Object} metadata.pagination Pagination (total, page, pageSize, totalPages, hasNext, hasPrevious)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | UNAUTHORIZED)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { pagination, ...data } = await orderListPublic(req.auth?.userId, req.query);
+    setPaginationHeaders(req, res, pagination);
+    res.json(successResponse(data, { pagination }));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/order/:code Get Order
+ * @apiName GetOrder
+ * @apiGroup Order
+ *
+ * @apiDescription Signed-in customers get their own orders; guests identify an order by its
+ * code and the email given at checkout.
+ *
+ * @apiHeader {String} [Authorization] Bearer token of a signed-in user
+ *
+ * @apiParam {String} code Order code, e.g. PED-000042
+ *
+ * @apiQuery {String} [email] Email given at checkout, for guest lookups
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.code Order code
+ * @apiSuccess {String} data.status Order status (pending | confirmed | in_production | shipped | delivered | cancelled)
+ * @apiSuccess {Boolean} data.canCancel Whether the customer may still cancel the order
+ * @apiSuccess {Object} data.customer Customer name, email and phone
+ * @apiSuccess {Object} data.deliveryAddress Delivery address
+ * @apiSuccess {Object[]} data.items Lines copied at checkout (productId, variantId, sku,
+ *   variantLabel, name, imageUrl, categoryName, quantity, listPrice, unitPrice, lineTotal,
+ *   reservedQuantity, leadTimeDays)
+ * @apiSuccess {Number} data.itemCount Total units
+ * @apiSuccess {Number} data.listTotal Total at regular prices
+ * @apiSuccess {Number} data.discount Savings from promotions
+ * @apiSuccess {Number} data.total Order total
+ * @apiSuccess {Object} data.payment Payment method, installments and status
+ *   (pending | authorized | declined | refunded)
+ * @apiSuccess {String|null} data.notes Notes for the store
+ * @apiSuccess {Object[]} data.statusHistory Status changes (status, note, date)
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await orderGetPublic(req.auth?.userId, req.params, req.query);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/order/:code/cancel Cancel Order
+ * @apiName CancelOrder
+ * @apiGroup Order
+ *
+ * @apiDescription Customers may cancel their orders until the store confirms them.
+ * Authorized payments are refunded.
+ *
+ * @apiHeader {String} Authorization Bearer token of the signed-in user
+ *
+ * @apiParam {String} code Order code
+ *
+ * @apiBody {String} [note] Reason for the cancellation (max 500 characters)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Cancelled order (see Get Order)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | UNAUTHORIZED | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function cancelHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await orderCancelPublic(req.auth?.userId, req.params, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
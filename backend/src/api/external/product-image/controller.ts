@@ -0,0 +1,47 @@
+/**
+ * @summary
+ * Public API controller for Product Image entity.
+ * Handles storefront product gallery reads.
+ *
+ * @module api/external/product-image/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import { productImageListPublic } from '@/services/productImage';
+
+/**
+ * @api {get} /api/external/product/:productId/image List Product Images
+ * @apiName ListPublicProductImages
+ * @apiGroup Catalog
+ *
+ * @apiParam {Number} productId Product ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data List of images ordered by displayOrder
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.imageUrl Standard image URL
+ * @apiSuccess {String} data.thumbnailUrl Thumbnail URL
+ * @apiSuccess {String} data.highResUrl High resolution URL for zoom
+ * @apiSuccess {Number} data.displayOrder Display order
+ * @apiSuccess {String|null} data.caption Image caption
+ * @apiSuccess {String} data.altText Alternative text
+ * @apiSuccess {String} data.viewAngle View angle
+ * @apiSuccess {Number[]} data.variantIds Variants the image shows (empty = all variants)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await productImageListPublic(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
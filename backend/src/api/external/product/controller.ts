@@ -0,0 +1,197 @@
+/**
+ * @summary
+ * Public API controller for Product entity.
+ * Handles storefront catalog reads.
+ *
+ * @module api/external/product/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError, setPaginationHeaders } from '@/utils';
+import {
+  productListPublic,
+  productGetPublic,
+  productGetBatchPublic,
+  productSuggest,
+} from '@/services/product';
+
+/**
+ * @api {get} /api/external/product List Products
+ * @apiName ListPublicProducts
+ * @apiGroup Catalog
+ *
+ * @apiDescription Pagination is returned in metadata.pagination and in the X-Total-Count,
+ * X-Page-Count and Link (first, prev, next, last) response headers.
+ *
+ * @apiQuery {String} [search] Full-text search over name, category, materials and description (accent-insensitive, typo-tolerant)
+ * @apiQuery {String[]} [category] Filter by category slugs or IDs (repeated or comma-separated)
+ * @apiQuery {Boolean} [includeDescendants] Include products from subcategories (default: true)
+ * @apiQuery {Number} [minPrice] Minimum current price in BRL (hides products priced on request)
+ * @apiQuery {Number} [maxPrice] Maximum current price in BRL (hides products priced on request)
+ * @apiQuery {String[]} [material] Filter by materials, case-insensitive
+ * @apiQuery {String[]} [color] Filter by finishes/colors, case-insensitive
+ * @apiQuery {String[]} [priceRange] Filter by price buckets (0-1000 | 1000-2000 | 2000-3000 | 3000-)
+ * @apiQuery {String[]} [size] Filter by width buckets in cm (0-80 | 80-150 | 150-220 | 220-)
+ * @apiQuery {Boolean} [inStockOnly] Only products with units ready to ship (default: false)
+ * @apiQuery {String} [sortBy] Sort order (relevance | name_asc | name_desc | date_desc | date_asc | price_asc | price_desc); relevance is the default when searching
+ * @apiQuery {Number} [page] Page number (default: 1)
+ * @apiQuery {String} [cursor] Opaque cursor from metadata.pagination.nextCursor; continues after the last product seen, even if products were added meanwhile (not combinable with page)
+ * @apiQuery {Number} [pageSize] Items per page (9 | 18 | 27 | 36)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.items List of products in active categories
+ * @apiSuccess {Number} data.items.id Unique identifier
+ * @apiSuccess {String} data.items.name Product name
+ * @apiSuccess {Object} data.items.category Resolved category with ancestor path
+ * @apiSuccess {String} data.items.imageUrl Main product image URL
+ * @apiSuccess {Object|null} data.items.price Resolved price (null when priced on request)
+ * @apiSuccess {Object} data.items.availability Availability (status, available, leadTimeDays)
+ * @apiSuccess {Boolean} data.items.hasVariants Whether a variant must be chosen before buying
+ * @apiSuccess {Object} data.facets Facet values with counts (category, material, color, priceRange, size)
+ * @apiSuccess {Object[]} data.facets.material Values with label and count over the other active filters
+ * @apiSuccess {Number} metadata.pagination.total Total number of products
+ * @apiSuccess {Number} metadata.pagination.page Current page number
+ * @apiSuccess {Number} metadata.pagination.pageSize Items per page
+ * @apiSuccess {Number} metadata.pagination.totalPages Total number of pages
+ * @apiSuccess {Boolean} metadata.pagination.hasNext Has next page
+ * @apiSuccess {Boolean} metadata.pagination.hasPrevious Has previous page
+ * @apiSuccess {String|null} metadata.pagination.nextCursor Cursor of the next page (null on the last page)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { pagination, ...data } = await productListPublic(req.query);
+    setPaginationHeaders(req, res, pagination);
+    res.json(successResponse(data, { pagination }));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/product/suggest Suggest Searches
+ * @apiName SuggestProducts
+ * @apiGroup Catalog
+ *
+ * @apiDescription Search-as-you-type suggestions for a partially typed search.
+ * Matching ignores accents and treats every typed word as a prefix.
+ *
+ * @apiQuery {String} q Typed prefix (2-200 characters)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.products Best matching products (id, name, imageUrl, categoryName)
+ * @apiSuccess {Object[]} data.categories Categories whose name matches (id, name, slug)
+ * @apiSuccess {Object[]} data.queries Popular searches matching the prefix (query, count)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function suggestHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productSuggest(req.query);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/product/batch Get Products By ID
+ * @apiName GetPublicProductBatch
+ * @apiGroup Catalog
+ *
+ * @apiDescription Fetches several products in one call, e.g. to compare them side by side.
+ * Products that do not exist or are not visible on the storefront are left out.
+ *
+ * @apiQuery {String} ids Comma-separated product IDs, up to 20 (may also be repeated)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data Products in the order requested, shaped like Get Product
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function batchHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await productGetBatchPublic(req.query);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/product/:id Get Product
+ * @apiName GetPublicProduct
+ * @apiGroup Catalog
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name Product name
+ * @apiSuccess {String|null} data.description Product description
+ * @apiSuccess {Object} data.category Resolved category with ancestor path
+ * @apiSuccess {String} data.imageUrl Main product image URL
+ * @apiSuccess {String[]} data.additionalImages Additional image URLs
+ * @apiSuccess {Object} data.specifications Technical specifications (dimensions in cm, weight in kg)
+ * @apiSuccess {Object[]} data.attributeGroups Category attributes labeled and grouped for display
+ * @apiSuccess {Object|null} data.price Resolved price (null when priced on request)
+ * @apiSuccess {Number} data.price.listPrice Regular price
+ * @apiSuccess {Number} data.price.currentPrice Price currently charged
+ * @apiSuccess {Boolean} data.price.onSale Whether a promotion is active
+ * @apiSuccess {Number|null} data.price.discountPercent Discount of the active promotion
+ * @apiSuccess {String|null} data.price.saleEndsAt End of the active promotion
+ * @apiSuccess {Object|null} data.price.installments Installment plan (count, value, total, interestFree)
+ * @apiSuccess {Object} data.availability Resolved availability
+ * @apiSuccess {String} data.availability.status in_stock | low_stock | made_to_order | out_of_stock
+ * @apiSuccess {Number} data.availability.available Units ready to ship
+ * @apiSuccess {Number|null} data.availability.leadTimeDays Lead time of units made to order
+ * @apiSuccess {Object[]} data.options Option axes the product is sold in (name, values)
+ * @apiSuccess {Object[]} data.variants Variants, empty for products sold as a single item
+ * @apiSuccess {Number} data.variants.id Variant ID
+ * @apiSuccess {String} data.variants.sku SKU
+ * @apiSuccess {Object} data.variants.options Value of every option axis, keyed by axis name
+ * @apiSuccess {String} data.variants.label Option values joined for display
+ * @apiSuccess {Object|null} data.variants.price Resolved price of the variant
+ * @apiSuccess {Object} data.variants.availability Availability of the variant
+ * @apiSuccess {Object} data.variants.dimensions Width, height and depth of the variant
+ * @apiSuccess {Number|null} data.variants.weight Weight of the variant in kilograms
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await productGetPublic(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
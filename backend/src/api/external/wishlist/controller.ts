@@ -0,0 +1,305 @@
+/**
+ * @summary
+ * Public API controller for Wishlist entity.
+ * Handles the favorites lists of signed-in customers and shared lists.
+ *
+ * @module api/external/wishlist/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import {
+  wishlistList,
+  wishlistCreate,
+  wishlistUpdate,
+  wishlistDelete,
+  wishlistAddItem,
+  wishlistRemoveItem,
+  wishlistSync,
+  wishlistGetShared,
+} from '@/services/wishlist';
+
+/**
+ * @api {get} /api/external/wishlist List Wishlists
+ * @apiName ListWishlists
+ * @apiGroup Wishlist
+ *
+ * @apiDescription Lists of the signed-in customer, oldest first. The first list is the one
+ * favorites are saved to when no list is chosen.
+ *
+ * @apiHeader {String} Authorization Bearer token of a signed-in user
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data Lists
+ * @apiSuccess {Number} data.id List ID
+ * @apiSuccess {String} data.name List name
+ * @apiSuccess {Boolean} data.shared Whether the public link works
+ * @apiSuccess {String} data.shareToken Token of the public link
+ * @apiSuccess {Object[]} data.items Products in the order they were saved; products no longer available are left out
+ * @apiSuccess {Object} data.items.product Product as listed on the storefront, with resolved price
+ * @apiSuccess {String} data.items.dateAdded ISO 8601 timestamp
+ * @apiSuccess {Number} data.itemCount Products listed
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await wishlistList(req.auth?.userId);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/wishlist Create Wishlist
+ * @apiName CreateWishlist
+ * @apiGroup Wishlist
+ *
+ * @apiHeader {String} Authorization Bearer token of a signed-in user
+ *
+ * @apiBody {String} name List name (1-60 characters, unique among the customer's lists)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data New list (see List Wishlists)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | VALIDATION_ERROR | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await wishlistCreate(req.auth?.userId, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {patch} /api/external/wishlist/:id Update Wishlist
+ * @apiName UpdateWishlist
+ * @apiGroup Wishlist
+ *
+ * @apiDescription Renames a list or turns its public link on or off.
+ *
+ * @apiHeader {String} Authorization Bearer token of a signed-in user
+ *
+ * @apiParam {Number} id List ID
+ *
+ * @apiBody {String} [name] List name (1-60 characters)
+ * @apiBody {Boolean} [shared] Whether the public link works
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated list (see List Wishlists)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | VALIDATION_ERROR | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await wishlistUpdate(req.auth?.userId, req.params, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/external/wishlist/:id Delete Wishlist
+ * @apiName DeleteWishlist
+ * @apiGroup Wishlist
+ *
+ * @apiHeader {String} Authorization Bearer token of a signed-in user
+ *
+ * @apiParam {Number} id List ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.message Confirmation message
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await wishlistDelete(req.auth?.userId, req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/wishlist/:id/items Add Wishlist Item
+ * @apiName AddWishlistItem
+ * @apiGroup Wishlist
+ *
+ * @apiDescription Saves a product to a list; saving a product already in it changes nothing.
+ *
+ * @apiHeader {String} Authorization Bearer token of a signed-in user
+ *
+ * @apiParam {Number} id List ID
+ *
+ * @apiBody {Number} productId Product ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated list (see List Wishlists)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | VALIDATION_ERROR | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function addItemHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await wishlistAddItem(req.auth?.userId, req.params, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/external/wishlist/:id/items/:productId Remove Wishlist Item
+ * @apiName RemoveWishlistItem
+ * @apiGroup Wishlist
+ *
+ * @apiHeader {String} Authorization Bearer token of a signed-in user
+ *
+ * @apiParam {Number} id List ID
+ * @apiParam {Number} productId Product ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated list (see List Wishlists)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function removeItemHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await wishlistRemoveItem(req.auth?.userId, req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/wishlist/sync Sync Favorites
+ * @apiName SyncWishlist
+ * @apiGroup Wishlist
+ *
+ * @apiDescription Saves favorites kept on the device before signing in to the customer's first
+ * list, created as "Favoritos" when the customer has none. Products already saved, hidden
+ * products and products beyond the list limit are skipped.
+ *
+ * @apiHeader {String} Authorization Bearer token of a signed-in user
+ *
+ * @apiBody {Number[]} productIds Product IDs (at most 100)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data All lists of the customer (see List Wishlists)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function syncHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await wishlistSync(req.auth?.userId, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/wishlist/shared/:token Get Shared Wishlist
+ * @apiName GetSharedWishlist
+ * @apiGroup Wishlist
+ *
+ * @apiDescription Read-only view of a list through its public link. Lists whose owner stopped
+ * sharing them are not found.
+ *
+ * @apiParam {String} token Share token of the list
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.name List name
+ * @apiSuccess {Object[]} data.items Products (see List Wishlists)
+ * @apiSuccess {Number} data.itemCount Products listed
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function getSharedHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await wishlistGetShared(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @summary
+ * API controller for the authenticated session.
+ * Handles logout and current user lookup.
+ *
+ * @module api/internal/auth/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import { authLogout, authGetCurrentUser, type AuthContext } from '@/services/auth';
+
+/**
+ * @api {post} /api/internal/auth/logout Logout
+ * @apiName Logout
+ * @apiGroup Auth
+ *
+ * @apiHeader {String} Authorization Bearer access token
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.message Confirmation message
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED)
+ * @apiError {String} error.message Error message
+ */
+export async function logoutHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await authLogout(req.auth as AuthContext);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/internal/auth/me Get Current User
+ * @apiName GetCurrentUser
+ * @apiGroup Auth
+ *
+ * @apiHeader {String} Authorization Bearer access token
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name User name
+ * @apiSuccess {String} data.email User email
+ * @apiSuccess {String} data.role Role (admin | editor | viewer | customer)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED)
+ * @apiError {String} error.message Error message
+ */
+export async function meHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await authGetCurrentUser(req.auth as AuthContext);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -7,7 +7,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { successResponse, errorResponse, isServiceError } from '@/utils';
+import { successResponse, errorResponse, isServiceError, setPaginationHeaders } from '@/utils';
 import {
   categoryList,
   categoryGet,
@@ -16,6 +16,7 @@ import {
   categoryDelete,
   categoryGetBySlug,
   categoryGetFeatured,
+  categoryRecountProducts,
 } from '@/services/category';
 
 /**
@@ -23,9 +24,14 @@ import {
  * @apiName ListCategories
  * @apiGroup Category
  *
+ * @apiDescription Paginated requests return pagination in metadata.pagination and in the
+ * X-Total-Count, X-Page-Count and Link (first, prev, next, last) response headers.
+ *
  * @apiQuery {Number} [parentId] Filter by parent category ID
  * @apiQuery {Boolean} [activeOnly] Show only active categories (default: true)
  * @apiQuery {Boolean} [featured] Show only featured categories
+ * @apiQuery {Number} [page] Page number; the list is paginated only when page or pageSize is given
+ * @apiQuery {Number} [pageSize] Items per page (default: 20, max: 100)
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Object[]} data.items List of categories
@@ -39,8 +45,14 @@ import {
  * @apiSuccess {Number} data.items.displayOrder Display order
  * @apiSuccess {Boolean} data.items.active Active status
  * @apiSuccess {Boolean} data.items.featured Featured status
- * @apiSuccess {Number} data.items.productCount Number of products in category
+ * @apiSuccess {Number} data.items.directProductCount Number of products assigned directly
+ * @apiSuccess {Number} data.items.productCount Number of products including subcategories
+ * @apiSuccess {String|null} data.items.metaTitle SEO title
+ * @apiSuccess {String|null} data.items.metaDescription SEO description
+ * @apiSuccess {Object[]} data.items.attributes Attribute definitions of the category
  * @apiSuccess {String} data.items.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.items.dateModified ISO 8601 timestamp
+ * @apiSuccess {Object} [metadata.pagination] Pagination (total, page, pageSize, totalPages, hasNext, hasPrevious)
  *
  * @apiError {Boolean} success Success flag (always false)
  * @apiError {String} error.code Error code (VALIDATION_ERROR)
@@ -48,8 +60,11 @@ import {
  */
 export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const data = await categoryList(req.query);
-    res.json(successResponse(data));
+    const { pagination, ...data } = await categoryList(req.query);
+    if (pagination) {
+      setPaginationHeaders(req, res, pagination);
+    }
+    res.json(successResponse(data, pagination && { pagination }));
   } catch (error) {
     if (isServiceError(error)) {
       res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
@@ -71,7 +86,7 @@ export async function listHandler(req: Request, res: Response, next: NextFunctio
  * @apiSuccess {String} data.slug URL-friendly slug
  * @apiSuccess {String|null} data.description Category description
  * @apiSuccess {String|null} data.imageUrl Category image URL
- * @apiSuccess {Number} data.productCount Number of products in category
+ * @apiSuccess {Number} data.productCount Number of products including subcategories
  *
  * @apiError {Boolean} success Success flag (always false)
  * @apiError {String} error.code Error code (VALIDATION_ERROR)
@@ -114,7 +129,9 @@ export async function getFeaturedHandler(
  * @apiSuccess {Boolean} data.featured Featured status
  * @apiSuccess {String|null} data.metaTitle SEO title
  * @apiSuccess {String|null} data.metaDescription SEO description
- * @apiSuccess {Number} data.productCount Number of products in category
+ * @apiSuccess {Object[]} data.attributes Attribute definitions inherited by products and subcategories
+ * @apiSuccess {Number} data.directProductCount Number of products assigned directly
+ * @apiSuccess {Number} data.productCount Number of products including subcategories
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
  *
@@ -159,7 +176,9 @@ export async function getBySlugHandler(
  * @apiSuccess {Boolean} data.featured Featured status
  * @apiSuccess {String|null} data.metaTitle SEO title
  * @apiSuccess {String|null} data.metaDescription SEO description
- * @apiSuccess {Number} data.productCount Number of products in category
+ * @apiSuccess {Object[]} data.attributes Attribute definitions inherited by products and subcategories
+ * @apiSuccess {Number} data.directProductCount Number of products assigned directly
+ * @apiSuccess {Number} data.productCount Number of products including subcategories
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
  *
@@ -194,6 +213,13 @@ export async function getHandler(req: Request, res: Response, next: NextFunction
  * @apiBody {Boolean} [featured] Featured status (default: false)
  * @apiBody {String|null} metaTitle SEO title (max 70 chars)
  * @apiBody {String|null} metaDescription SEO description (max 160 chars)
+ * @apiBody {Object[]} [attributes] Attribute definitions (max 30, unique keys)
+ * @apiBody {String} attributes.key Identifier used by products (snake_case)
+ * @apiBody {String} attributes.label Display label
+ * @apiBody {String} attributes.group Group the attribute is shown in
+ * @apiBody {String} attributes.type Value type (text | number | boolean | option)
+ * @apiBody {String|null} attributes.unit Unit shown after numeric values
+ * @apiBody {String[]} attributes.options Allowed values of option attributes
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Number} data.id Unique identifier
@@ -208,7 +234,9 @@ export async function getHandler(req: Request, res: Response, next: NextFunction
  * @apiSuccess {Boolean} data.featured Featured status
  * @apiSuccess {String|null} data.metaTitle SEO title
  * @apiSuccess {String|null} data.metaDescription SEO description
- * @apiSuccess {Number} data.productCount Number of products in category
+ * @apiSuccess {Object[]} data.attributes Attribute definitions inherited by products and subcategories
+ * @apiSuccess {Number} data.directProductCount Number of products assigned directly
+ * @apiSuccess {Number} data.productCount Number of products including subcategories
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
  *
@@ -249,6 +277,13 @@ export async function createHandler(
  * @apiBody {Boolean} featured Featured status
  * @apiBody {String|null} metaTitle SEO title (max 70 chars)
  * @apiBody {String|null} metaDescription SEO description (max 160 chars)
+ * @apiBody {Object[]} attributes Attribute definitions (max 30, unique keys)
+ * @apiBody {String} attributes.key Identifier used by products (snake_case)
+ * @apiBody {String} attributes.label Display label
+ * @apiBody {String} attributes.group Group the attribute is shown in
+ * @apiBody {String} attributes.type Value type (text | number | boolean | option)
+ * @apiBody {String|null} attributes.unit Unit shown after numeric values
+ * @apiBody {String[]} attributes.options Allowed values of option attributes
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Number} data.id Unique identifier
@@ -263,7 +298,9 @@ export async function createHandler(
  * @apiSuccess {Boolean} data.featured Featured status
  * @apiSuccess {String|null} data.metaTitle SEO title
  * @apiSuccess {String|null} data.metaDescription SEO description
- * @apiSuccess {Number} data.productCount Number of products in category
+ * @apiSuccess {Object[]} data.attributes Attribute definitions inherited by products and subcategories
+ * @apiSuccess {Number} data.directProductCount Number of products assigned directly
+ * @apiSuccess {Number} data.productCount Number of products including subcategories
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
  *
@@ -318,3 +355,33 @@ export async function deleteHandler(
     next(error);
   }
 }
+
+/**
+ * @api {post} /api/internal/category/recount Recount Category Products
+ * @apiName RecountCategoryProducts
+ * @apiGroup Category
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.categoriesUpdated Number of categories whose counts were corrected
+ * @apiSuccess {Number} data.productsCounted Number of products assigned to existing categories
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code
+ * @apiError {String} error.message Error message
+ */
+export async function recountHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await categoryRecountProducts();
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
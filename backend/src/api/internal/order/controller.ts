@@ -0,0 +1,144 @@
+/**
+ * @summary
+ * API controller for Order entity.
+ * Handles order follow-up and status changes in the admin area.
+ *
+ * @module api/internal/order/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError, setPaginationHeaders } from '@/utils';
+import { orderList, orderGet, orderUpdateStatus } from '@/services/order';
+import type { AuthContext } from '@/services/auth';
+
+/**
+ * @api {get} /api/internal/order List Orders
+ * @apiName ListOrders
+ * @apiGroup Order
+ *
+ * @apiDescription Pagination is also sent in the X-Total-Count, X-Page-Count and Link
+ * (first, prev, next, last) response headers.
+ *
+ * @apiQuery {String} [status] Order statuses, repeated or comma-separated
+ * @apiQuery {String} [paymentStatus] Payment statuses, repeated or comma-separated
+ * @apiQuery {String} [search] Order code, customer name or customer email
+ * @apiQuery {String} [dateFrom] First day of orders placed (YYYY-MM-DD, UTC)
+ * @apiQuery {String} [dateTo] Last day of orders placed (YYYY-MM-DD, UTC)
+ * @apiQuery {String} [sortBy] date_desc | date_asc | total_desc | total_asc (default: date_desc)
+ * @apiQuery {Number} [page] Page number (default: 1)
+ * @apiQuery {Number} [pageSize] Items per page (default: 20, max: 100)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.items Orders
+ * @apiSuccess {Number} data.items.id Unique identifier
+ * @apiSuccess {String} data.items.code Order code
+ * @apiSuccess {String} data.items.status Order status
+ * @apiSuccess {String} data.items.customerName Customer name
+ * @apiSuccess {String} data.items.customerEmail Customer email
+ * @apiSuccess {String} data.items.city Delivery city
+ * @apiSuccess {String} data.items.state Delivery state
+ * @apiSuccess {Number} data.items.itemCount Total units
+ * @apiSuccess {Number} data.items.total Order total
+ * @apiSuccess {String} data.items.paymentMethod Payment method
+ * @apiSuccess {String} data.items.paymentStatus Payment status
+ * @apiSuccess {String} data.items.dateCreated ISO 8601 timestamp
+ * @apiSuccess {Object} metadata.pagination Pagination (total, page, pageSize, totalPages, hasNext, hasPrevious)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { pagination, ...data } = await orderList(req.query);
+    setPaginationHeaders(req, res, pagination);
+    res.json(successResponse(data, { pagination }));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/internal/order/:id Get Order
+ * @apiName GetOrder
+ * @apiGroup Order
+ *
+ * @apiParam {Number} id Order ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.code Order code
+ * @apiSuccess {Number|null} data.userId Customer user, null for guest checkouts
+ * @apiSuccess {String} data.status Order status
+ * @apiSuccess {String[]} data.allowedTransitions Statuses the order may move to next
+ * @apiSuccess {Object} data.customer Customer name, email and phone
+ * @apiSuccess {Object} data.deliveryAddress Delivery address
+ * @apiSuccess {Object[]} data.items Lines copied at checkout
+ * @apiSuccess {Number} data.itemCount Total units
+ * @apiSuccess {Number} data.listTotal Total at regular prices
+ * @apiSuccess {Number} data.discount Savings from promotions
+ * @apiSuccess {Number} data.total Order total
+ * @apiSuccess {Object} data.payment Provider, method, installments, status and transactionId
+ * @apiSuccess {String|null} data.notes Notes of the customer
+ * @apiSuccess {Object[]} data.statusHistory Status changes (status, note, userId, date)
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await orderGet(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/order/:id/status Update Order Status
+ * @apiName UpdateOrderStatus
+ * @apiGroup Order
+ *
+ * @apiDescription Orders move pending → confirmed → in_production → shipped → delivered and
+ * can be cancelled until they ship. Confirming requires an authorized payment; cancelling
+ * refunds it and releases the reserved stock. Shipping takes the shipped units out of stock.
+ *
+ * @apiParam {Number} id Order ID
+ *
+ * @apiBody {String} status Target status
+ * @apiBody {String} [note] Note kept in the status history (max 500 characters)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated order (see Get Order)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function updateStatusHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await orderUpdateStatus(req.params, req.body, (req.auth as AuthContext).userId);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -12,6 +12,7 @@ import {
   productImageList,
   productImageGet,
   productImageCreate,
+  productImageUpload,
   productImageUpdate,
   productImageDelete,
   productImageReorder,
@@ -35,6 +36,7 @@ import {
  * @apiSuccess {String|null} data.caption Image caption
  * @apiSuccess {String} data.altText Alt text for accessibility
  * @apiSuccess {String} data.viewAngle View angle (frontal | lateral_esquerda | lateral_direita | superior | inferior | traseira | detalhe | ambiente)
+ * @apiSuccess {Number[]} data.variantIds Variants the image shows (empty = all variants)
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  *
  * @apiError {Boolean} success Success flag (always false)
@@ -71,6 +73,7 @@ export async function listHandler(req: Request, res: Response, next: NextFunctio
  * @apiSuccess {String|null} data.caption Image caption
  * @apiSuccess {String} data.altText Alt text for accessibility
  * @apiSuccess {String} data.viewAngle View angle
+ * @apiSuccess {Number[]} data.variantIds Variants the image shows (empty = all variants)
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
  *
@@ -105,6 +108,7 @@ export async function getHandler(req: Request, res: Response, next: NextFunction
  * @apiBody {String|null} caption Image caption (max 100 chars)
  * @apiBody {String} altText Alt text for accessibility (max 100 chars)
  * @apiBody {String} viewAngle View angle (frontal | lateral_esquerda | lateral_direita | superior | inferior | traseira | detalhe | ambiente)
+ * @apiBody {Number[]} [variantIds] Variants of the product the image shows (default: [] = all variants)
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Number} data.id Unique identifier
@@ -116,6 +120,7 @@ export async function getHandler(req: Request, res: Response, next: NextFunction
  * @apiSuccess {String|null} data.caption Image caption
  * @apiSuccess {String} data.altText Alt text
  * @apiSuccess {String} data.viewAngle View angle
+ * @apiSuccess {Number[]} data.variantIds Variants the image shows (empty = all variants)
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
  *
@@ -140,6 +145,58 @@ export async function createHandler(
   }
 }
 
+/**
+ * @api {post} /api/internal/product/:productId/image/upload Upload Product Image
+ * @apiName UploadProductImage
+ * @apiGroup ProductImage
+ *
+ * @apiDescription Multipart upload (multipart/form-data). The original file is stored and
+ * thumbnail, standard and high-res WebP variants are generated to fill in the image URLs.
+ *
+ * @apiParam {Number} productId Product ID
+ *
+ * @apiBody {File} file Image file (jpeg | png | webp, at least 1500x1500 pixels)
+ * @apiBody {Number} [displayOrder] Display order (default: auto-assigned)
+ * @apiBody {String} [caption] Image caption (max 100 chars)
+ * @apiBody {String} altText Alt text for accessibility (max 100 chars)
+ * @apiBody {String} viewAngle View angle (frontal | lateral_esquerda | lateral_direita | superior | inferior | traseira | detalhe | ambiente)
+ * @apiBody {String} [variantIds] Comma-separated variants of the product the image shows (default: all variants)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {Number} data.productId Product ID
+ * @apiSuccess {String} data.imageUrl Standard variant URL
+ * @apiSuccess {String} data.thumbnailUrl Thumbnail variant URL
+ * @apiSuccess {String} data.highResUrl High-res variant URL
+ * @apiSuccess {Number} data.displayOrder Display order
+ * @apiSuccess {String|null} data.caption Image caption
+ * @apiSuccess {String} data.altText Alt text
+ * @apiSuccess {String} data.viewAngle View angle
+ * @apiSuccess {Number[]} data.variantIds Variants the image shows (empty = all variants)
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function uploadHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productImageUpload(req.params, req.file, req.body);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
 /**
  * @api {put} /api/internal/product-image/:id Update Product Image
  * @apiName UpdateProductImage
@@ -154,6 +211,7 @@ export async function createHandler(
  * @apiBody {String|null} caption Image caption (max 100 chars)
  * @apiBody {String} altText Alt text for accessibility (max 100 chars)
  * @apiBody {String} viewAngle View angle
+ * @apiBody {Number[]} [variantIds] Variants of the product the image shows (unchanged when omitted)
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Number} data.id Unique identifier
@@ -165,6 +223,7 @@ export async function createHandler(
  * @apiSuccess {String|null} data.caption Image caption
  * @apiSuccess {String} data.altText Alt text
  * @apiSuccess {String} data.viewAngle View angle
+ * @apiSuccess {Number[]} data.variantIds Variants the image shows (empty = all variants)
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
  *
@@ -1,39 +1,68 @@
 /**
  * @summary
  * API controller for Product entity.
- * Handles catalog display operations.
+ * Handles catalog display and management operations.
  *
  * @module api/internal/product/controller
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { successResponse, errorResponse, isServiceError } from '@/utils';
-import { productList, productGet } from '@/services/product';
+import { successResponse, errorResponse, isServiceError, setPaginationHeaders } from '@/utils';
+import {
+  productList,
+  productGet,
+  productCreate,
+  productUpdate,
+  productPatch,
+  productDelete,
+} from '@/services/product';
 
 /**
  * @api {get} /api/internal/product List Products
  * @apiName ListProducts
  * @apiGroup Product
  *
- * @apiQuery {String} [search] Search term for product name/description
- * @apiQuery {String} [category] Filter by category
- * @apiQuery {String} [sortBy] Sort criteria (name_asc | name_desc | date_desc | date_asc)
+ * @apiDescription Pagination is returned in metadata.pagination and in the X-Total-Count,
+ * X-Page-Count and Link (first, prev, next, last) response headers.
+ *
+ * @apiQuery {String} [search] Full-text search over name, category, materials and description (accent-insensitive, typo-tolerant)
+ * @apiQuery {String[]} [category] Filter by category slugs or IDs (repeated or comma-separated)
+ * @apiQuery {Boolean} [includeDescendants] Include products from subcategories (default: true)
+ * @apiQuery {Number} [minPrice] Minimum current price in BRL (hides products priced on request)
+ * @apiQuery {Number} [maxPrice] Maximum current price in BRL (hides products priced on request)
+ * @apiQuery {String[]} [material] Filter by materials, case-insensitive
+ * @apiQuery {String[]} [color] Filter by finishes/colors, case-insensitive
+ * @apiQuery {String[]} [priceRange] Filter by price buckets (0-1000 | 1000-2000 | 2000-3000 | 3000-)
+ * @apiQuery {String[]} [size] Filter by width buckets in cm (0-80 | 80-150 | 150-220 | 220-)
+ * @apiQuery {Boolean} [inStockOnly] Only products with units ready to ship (default: false)
+ * @apiQuery {String} [sortBy] Sort criteria (relevance | name_asc | name_desc | date_desc | date_asc | price_asc | price_desc); relevance is the default when searching
  * @apiQuery {Number} [page] Page number (default: 1)
+ * @apiQuery {String} [cursor] Opaque cursor from metadata.pagination.nextCursor; continues after the last product seen, even if products were added meanwhile (not combinable with page)
  * @apiQuery {Number} [pageSize] Items per page (default: 9, options: 9, 18, 27, 36)
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Object[]} data.items List of products
  * @apiSuccess {Number} data.items.id Unique identifier
  * @apiSuccess {String} data.items.name Product name
- * @apiSuccess {String} data.items.category Product category
+ * @apiSuccess {Number} data.items.categoryId Category ID
+ * @apiSuccess {Object} data.items.category Resolved category
+ * @apiSuccess {String} data.items.category.name Category name
+ * @apiSuccess {String} data.items.category.slug Category slug
+ * @apiSuccess {Object[]} data.items.category.path Ancestor path from the top level down
  * @apiSuccess {String} data.items.imageUrl Main product image URL
+ * @apiSuccess {Object|null} data.items.price Resolved price (null when priced on request)
+ * @apiSuccess {Object} data.items.availability Availability (status, available, leadTimeDays)
+ * @apiSuccess {Boolean} data.items.hasVariants Whether the product is sold in variants
  * @apiSuccess {String} data.items.dateCreated ISO 8601 timestamp
- * @apiSuccess {Number} data.total Total number of products
- * @apiSuccess {Number} data.page Current page number
- * @apiSuccess {Number} data.pageSize Items per page
- * @apiSuccess {Number} data.totalPages Total number of pages
- * @apiSuccess {Boolean} data.hasNext Has next page
- * @apiSuccess {Boolean} data.hasPrevious Has previous page
+ * @apiSuccess {Object} data.facets Facet values with counts (category, material, color, priceRange, size)
+ * @apiSuccess {Object[]} data.facets.material Values with label and count over the other active filters
+ * @apiSuccess {Number} metadata.pagination.total Total number of products
+ * @apiSuccess {Number} metadata.pagination.page Current page number
+ * @apiSuccess {Number} metadata.pagination.pageSize Items per page
+ * @apiSuccess {Number} metadata.pagination.totalPages Total number of pages
+ * @apiSuccess {Boolean} metadata.pagination.hasNext Has next page
+ * @apiSuccess {Boolean} metadata.pagination.hasPrevious Has previous page
+ * @apiSuccess {String|null} metadata.pagination.nextCursor Cursor of the next page (null on the last page)
  *
  * @apiError {Boolean} success Success flag (always false)
  * @apiError {String} error.code Error code (VALIDATION_ERROR)
@@ -41,8 +70,9 @@ import { productList, productGet } from '@/services/product';
  */
 export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const data = await productList(req.query);
-    res.json(successResponse(data));
+    const { pagination, ...data } = await productList(req.query);
+    setPaginationHeaders(req, res, pagination);
+    res.json(successResponse(data, { pagination }));
   } catch (error) {
     if (isServiceError(error)) {
       res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
@@ -63,12 +93,35 @@ export async function listHandler(req: Request, res: Response, next: NextFunctio
  * @apiSuccess {Number} data.id Unique identifier
  * @apiSuccess {String} data.name Product name
  * @apiSuccess {String|null} data.description Product description
- * @apiSuccess {String} data.category Product category
+ * @apiSuccess {Number} data.categoryId Category ID
+ * @apiSuccess {Object} data.category Resolved category
+ * @apiSuccess {String} data.category.name Category name
+ * @apiSuccess {String} data.category.slug Category slug
+ * @apiSuccess {Object[]} data.category.path Ancestor path from the top level down
  * @apiSuccess {String} data.imageUrl Main product image URL
  * @apiSuccess {String[]} data.additionalImages Additional product images
  * @apiSuccess {Object} data.specifications Product specifications
- * @apiSuccess {String|null} data.specifications.dimensions Product dimensions
- * @apiSuccess {String|null} data.specifications.material Product material
+ * @apiSuccess {Object} data.specifications.dimensions Width, height and depth in centimeters
+ * @apiSuccess {Number|null} data.specifications.weight Weight in kilograms
+ * @apiSuccess {String[]} data.specifications.materials Materials
+ * @apiSuccess {String[]} data.specifications.finishes Finishes and colors
+ * @apiSuccess {Object} data.specifications.attributes Category attribute values by key
+ * @apiSuccess {Object[]} data.attributeGroups Category attributes labeled and grouped for display
+ * @apiSuccess {Object|null} data.pricing Stored pricing settings
+ * @apiSuccess {Object|null} data.price Resolved price (null when priced on request)
+ * @apiSuccess {Number} data.price.listPrice Regular price
+ * @apiSuccess {Number} data.price.currentPrice Price currently charged
+ * @apiSuccess {Boolean} data.price.onSale Whether a promotion is active
+ * @apiSuccess {Number|null} data.price.discountPercent Discount of the active promotion
+ * @apiSuccess {String|null} data.price.saleEndsAt End of the active promotion
+ * @apiSuccess {Object|null} data.price.installments Installment plan (count, value, total, interestFree)
+ * @apiSuccess {Object} data.inventory Stock settings (stock, reserved, leadTimeDays, lowStockThreshold)
+ * @apiSuccess {Object[]} data.options Option axes (name, values)
+ * @apiSuccess {Object[]} data.variants Variants (id, sku, options, pricing, inventory, dimensions, weight)
+ * @apiSuccess {Object} data.availability Resolved availability
+ * @apiSuccess {String} data.availability.status in_stock | low_stock | made_to_order | out_of_stock
+ * @apiSuccess {Number} data.availability.available Units ready to ship (stock minus reserved)
+ * @apiSuccess {Number|null} data.availability.leadTimeDays Lead time of units made to order
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
  *
@@ -88,3 +141,310 @@ export async function getHandler(req: Request, res: Response, next: NextFunction
     next(error);
   }
 }
+
+/**
+ * @api {post} /api/internal/product Create Product
+ * @apiName CreateProduct
+ * @apiGroup Product
+ *
+ * @apiBody {String} name Product name (1-200 chars)
+ * @apiBody {String|null} description Product description (max 5000 chars)
+ * @apiBody {Number} categoryId Category ID
+ * @apiBody {String} imageUrl Main product image URL (max 500 chars)
+ * @apiBody {String[]} [additionalImages] Additional product images (default: [])
+ * @apiBody {Object} specifications Product specifications
+ * @apiBody {Object} specifications.dimensions Measurements in centimeters
+ * @apiBody {Number|null} specifications.dimensions.width Width (max 1000)
+ * @apiBody {Number|null} specifications.dimensions.height Height (max 1000)
+ * @apiBody {Number|null} specifications.dimensions.depth Depth (max 1000)
+ * @apiBody {Number|null} specifications.weight Weight in kilograms (max 2000)
+ * @apiBody {String[]} specifications.materials Materials (max 20, 100 chars each)
+ * @apiBody {String[]} specifications.finishes Finishes and colors (max 20, 100 chars each)
+ * @apiBody {Object} specifications.attributes Values of the attributes defined by the category
+ * @apiBody {Object|null} pricing Product pricing in BRL (null = price on request)
+ * @apiBody {Number} pricing.price Regular price
+ * @apiBody {Number|null} pricing.salePrice Promotional price, lower than the regular price
+ * @apiBody {String|null} pricing.saleStartsAt Promotion start (ISO 8601)
+ * @apiBody {String|null} pricing.saleEndsAt Promotion end (ISO 8601), after the start
+ * @apiBody {Number} pricing.maxInstallments Maximum installments (1-24)
+ * @apiBody {Number} pricing.installmentInterestRate Monthly interest rate in percent (0-10)
+ * @apiBody {Object} inventory Stock settings
+ * @apiBody {Number} inventory.stock Units in stock (0-100000)
+ * @apiBody {Number|null} inventory.leadTimeDays Lead time in days when made to order (1-365, null = not sold without stock)
+ * @apiBody {Number} inventory.lowStockThreshold Units at or below which stock is reported as low
+ * @apiBody {Object[]} [options] Option axes the product is sold in, e.g. Tecido and Cor (max 3, default: [])
+ * @apiBody {String} options.name Axis name (max 50 chars, unique)
+ * @apiBody {String[]} options.values Axis values (1-20, 100 chars each)
+ * @apiBody {Object[]} [variants] Variants, at least one when options are set (max 50); stored variants left out are removed
+ * @apiBody {Number} [variants.id] ID of a stored variant to keep
+ * @apiBody {String} variants.sku SKU, unique across products (letters, digits, dots, dashes and underscores)
+ * @apiBody {Object} variants.options Value of every option axis, keyed by axis name
+ * @apiBody {Object|null} variants.pricing Variant pricing (same fields as pricing), null to use the product pricing
+ * @apiBody {Object} variants.inventory Variant stock (same fields as inventory)
+ * @apiBody {Object|null} variants.dimensions Width, height and depth, null to use the product dimensions
+ * @apiBody {Number|null} variants.weight Weight in kilograms, null to use the product weight
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name Product name
+ * @apiSuccess {String|null} data.description Product description
+ * @apiSuccess {Number} data.categoryId Category ID
+ * @apiSuccess {Object} data.category Resolved category
+ * @apiSuccess {String} data.category.name Category name
+ * @apiSuccess {String} data.category.slug Category slug
+ * @apiSuccess {Object[]} data.category.path Ancestor path from the top level down
+ * @apiSuccess {String} data.imageUrl Main product image URL
+ * @apiSuccess {String[]} data.additionalImages Additional product images
+ * @apiSuccess {Object} data.specifications Product specifications
+ * @apiSuccess {Object} data.specifications.dimensions Width, height and depth in centimeters
+ * @apiSuccess {Number|null} data.specifications.weight Weight in kilograms
+ * @apiSuccess {String[]} data.specifications.materials Materials
+ * @apiSuccess {String[]} data.specifications.finishes Finishes and colors
+ * @apiSuccess {Object} data.specifications.attributes Category attribute values by key
+ * @apiSuccess {Object[]} data.attributeGroups Category attributes labeled and grouped for display
+ * @apiSuccess {Object|null} data.pricing Stored pricing settings
+ * @apiSuccess {Object|null} data.price Resolved price (null when priced on request)
+ * @apiSuccess {Number} data.price.listPrice Regular price
+ * @apiSuccess {Number} data.price.currentPrice Price currently charged
+ * @apiSuccess {Boolean} data.price.onSale Whether a promotion is active
+ * @apiSuccess {Number|null} data.price.discountPercent Discount of the active promotion
+ * @apiSuccess {String|null} data.price.saleEndsAt End of the active promotion
+ * @apiSuccess {Object|null} data.price.installments Installment plan (count, value, total, interestFree)
+ * @apiSuccess {Object} data.inventory Stock settings (stock, reserved, leadTimeDays, lowStockThreshold)
+ * @apiSuccess {Object[]} data.options Option axes (name, values)
+ * @apiSuccess {Object[]} data.variants Variants (id, sku, options, pricing, inventory, dimensions, weight)
+ * @apiSuccess {Object} data.availability Resolved availability
+ * @apiSuccess {String} data.availability.status in_stock | low_stock | made_to_order | out_of_stock
+ * @apiSuccess {Number} data.availability.available Units ready to ship (stock minus reserved)
+ * @apiSuccess {Number|null} data.availability.leadTimeDays Lead time of units made to order
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productCreate(req.body);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/internal/product/:id Update Product
+ * @apiName UpdateProduct
+ * @apiGroup Product
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiBody {String} name Product name (1-200 chars)
+ * @apiBody {String|null} description Product description (max 5000 chars)
+ * @apiBody {Number} categoryId Category ID
+ * @apiBody {String} imageUrl Main product image URL (max 500 chars)
+ * @apiBody {String[]} additionalImages Additional product images
+ * @apiBody {Object} specifications Product specifications
+ * @apiBody {Object} specifications.dimensions Measurements in centimeters
+ * @apiBody {Number|null} specifications.dimensions.width Width (max 1000)
+ * @apiBody {Number|null} specifications.dimensions.height Height (max 1000)
+ * @apiBody {Number|null} specifications.dimensions.depth Depth (max 1000)
+ * @apiBody {Number|null} specifications.weight Weight in kilograms (max 2000)
+ * @apiBody {String[]} specifications.materials Materials (max 20, 100 chars each)
+ * @apiBody {String[]} specifications.finishes Finishes and colors (max 20, 100 chars each)
+ * @apiBody {Object} specifications.attributes Values of the attributes defined by the category
+ * @apiBody {Object|null} pricing Product pricing in BRL (null = price on request)
+ * @apiBody {Number} pricing.price Regular price
+ * @apiBody {Number|null} pricing.salePrice Promotional price, lower than the regular price
+ * @apiBody {String|null} pricing.saleStartsAt Promotion start (ISO 8601)
+ * @apiBody {String|null} pricing.saleEndsAt Promotion end (ISO 8601), after the start
+ * @apiBody {Number} pricing.maxInstallments Maximum installments (1-24)
+ * @apiBody {Number} pricing.installmentInterestRate Monthly interest rate in percent (0-10)
+ * @apiBody {Object} inventory Stock settings
+ * @apiBody {Number} inventory.stock Units in stock (0-100000)
+ * @apiBody {Number|null} inventory.leadTimeDays Lead time in days when made to order (1-365, null = not sold without stock)
+ * @apiBody {Number} inventory.lowStockThreshold Units at or below which stock is reported as low
+ * @apiBody {Object[]} options Option axes the product is sold in, e.g. Tecido and Cor (max 3)
+ * @apiBody {String} options.name Axis name (max 50 chars, unique)
+ * @apiBody {String[]} options.values Axis values (1-20, 100 chars each)
+ * @apiBody {Object[]} variants Variants, at least one when options are set (max 50); stored variants left out are removed
+ * @apiBody {Number} [variants.id] ID of a stored variant to keep
+ * @apiBody {String} variants.sku SKU, unique across products (letters, digits, dots, dashes and underscores)
+ * @apiBody {Object} variants.options Value of every option axis, keyed by axis name
+ * @apiBody {Object|null} variants.pricing Variant pricing (same fields as pricing), null to use the product pricing
+ * @apiBody {Object} variants.inventory Variant stock (same fields as inventory)
+ * @apiBody {Object|null} variants.dimensions Width, height and depth, null to use the product dimensions
+ * @apiBody {Number|null} variants.weight Weight in kilograms, null to use the product weight
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name Product name
+ * @apiSuccess {String|null} data.description Product description
+ * @apiSuccess {Number} data.categoryId Category ID
+ * @apiSuccess {Object} data.category Resolved category
+ * @apiSuccess {String} data.category.name Category name
+ * @apiSuccess {String} data.category.slug Category slug
+ * @apiSuccess {Object[]} data.category.path Ancestor path from the top level down
+ * @apiSuccess {String} data.imageUrl Main product image URL
+ * @apiSuccess {String[]} data.additionalImages Additional product images
+ * @apiSuccess {Object} data.specifications Product specifications
+ * @apiSuccess {Object} data.specifications.dimensions Width, height and depth in centimeters
+ * @apiSuccess {Number|null} data.specifications.weight Weight in kilograms
+ * @apiSuccess {String[]} data.specifications.materials Materials
+ * @apiSuccess {String[]} data.specifications.finishes Finishes and colors
+ * @apiSuccess {Object} data.specifications.attributes Category attribute values by key
+ * @apiSuccess {Object[]} data.attributeGroups Category attributes labeled and grouped for display
+ * @apiSuccess {Object|null} data.pricing Stored pricing settings
+ * @apiSuccess {Object|null} data.price Resolved price (null when priced on request)
+ * @apiSuccess {Number} data.price.listPrice Regular price
+ * @apiSuccess {Number} data.price.currentPrice Price currently charged
+ * @apiSuccess {Boolean} data.price.onSale Whether a promotion is active
+ * @apiSuccess {Number|null} data.price.discountPercent Discount of the active promotion
+ * @apiSuccess {String|null} data.price.saleEndsAt End of the active promotion
+ * @apiSuccess {Object|null} data.price.installments Installment plan (count, value, total, interestFree)
+ * @apiSuccess {Object} data.inventory Stock settings (stock, reserved, leadTimeDays, lowStockThreshold)
+ * @apiSuccess {Object[]} data.options Option axes (name, values)
+ * @apiSuccess {Object[]} data.variants Variants (id, sku, options, pricing, inventory, dimensions, weight)
+ * @apiSuccess {Object} data.availability Resolved availability
+ * @apiSuccess {String} data.availability.status in_stock | low_stock | made_to_order | out_of_stock
+ * @apiSuccess {Number} data.availability.available Units ready to ship (stock minus reserved)
+ * @apiSuccess {Number|null} data.availability.leadTimeDays Lead time of units made to order
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productUpdate(req.params, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {patch} /api/internal/product/:id Patch Product
+ * @apiName PatchProduct
+ * @apiGroup Product
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiBody {String} [name] Product name (1-200 chars)
+ * @apiBody {String|null} [description] Product description (max 5000 chars)
+ * @apiBody {Number} [categoryId] Category ID
+ * @apiBody {String} [imageUrl] Main product image URL (max 500 chars)
+ * @apiBody {String[]} [additionalImages] Additional product images
+ * @apiBody {Object} [specifications] Product specifications (merged with existing values)
+ * @apiBody {Object} [specifications.dimensions] Measurements in centimeters
+ * @apiBody {Number|null} [specifications.weight] Weight in kilograms (max 2000)
+ * @apiBody {String[]} [specifications.materials] Materials (max 20)
+ * @apiBody {String[]} [specifications.finishes] Finishes and colors (max 20)
+ * @apiBody {Object} [specifications.attributes] Values of the attributes defined by the category
+ * @apiBody {Object|null} [pricing] Product pricing (merged with existing values; null = price on request)
+ * @apiBody {Object} [inventory] Stock settings (merged with existing values)
+ * @apiBody {Object[]} [options] Option axes; stored variants must match them unless variants are sent
+ * @apiBody {Object[]} [variants] Variants replacing the stored ones (see Update Product)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name Product name
+ * @apiSuccess {String|null} data.description Product description
+ * @apiSuccess {Number} data.categoryId Category ID
+ * @apiSuccess {Object} data.category Resolved category
+ * @apiSuccess {String} data.category.name Category name
+ * @apiSuccess {String} data.category.slug Category slug
+ * @apiSuccess {Object[]} data.category.path Ancestor path from the top level down
+ * @apiSuccess {String} data.imageUrl Main product image URL
+ * @apiSuccess {String[]} data.additionalImages Additional product images
+ * @apiSuccess {Object} data.specifications Product specifications
+ * @apiSuccess {Object} data.specifications.dimensions Width, height and depth in centimeters
+ * @apiSuccess {Number|null} data.specifications.weight Weight in kilograms
+ * @apiSuccess {String[]} data.specifications.materials Materials
+ * @apiSuccess {String[]} data.specifications.finishes Finishes and colors
+ * @apiSuccess {Object} data.specifications.attributes Category attribute values by key
+ * @apiSuccess {Object[]} data.attributeGroups Category attributes labeled and grouped for display
+ * @apiSuccess {Object|null} data.pricing Stored pricing settings
+ * @apiSuccess {Object|null} data.price Resolved price (null when priced on request)
+ * @apiSuccess {Number} data.price.listPrice Regular price
+ * @apiSuccess {Number} data.price.currentPrice Price currently charged
+ * @apiSuccess {Boolean} data.price.onSale Whether a promotion is active
+ * @apiSuccess {Number|null} data.price.discountPercent Discount of the active promotion
+ * @apiSuccess {String|null} data.price.saleEndsAt End of the active promotion
+ * @apiSuccess {Object|null} data.price.installments Installment plan (count, value, total, interestFree)
+ * @apiSuccess {Object} data.inventory Stock settings (stock, reserved, leadTimeDays, lowStockThreshold)
+ * @apiSuccess {Object[]} data.options Option axes (name, values)
+ * @apiSuccess {Object[]} data.variants Variants (id, sku, options, pricing, inventory, dimensions, weight)
+ * @apiSuccess {Object} data.availability Resolved availability
+ * @apiSuccess {String} data.availability.status in_stock | low_stock | made_to_order | out_of_stock
+ * @apiSuccess {Number} data.availability.available Units ready to ship (stock minus reserved)
+ * @apiSuccess {Number|null} data.availability.leadTimeDays Lead time of units made to order
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function patchHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await productPatch(req.params, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/internal/product/:id Delete Product
+ * @apiName DeleteProduct
+ * @apiGroup Product
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.message Confirmation message
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productDelete(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * @summary
+ * API controller for User entity.
+ * Handles administration of user accounts and roles.
+ *
+ * @module api/internal/user/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import { userList, userGet, userCreate, userUpdate, userDelete } from '@/services/user';
+
+/**
+ * @api {get} /api/internal/user List Users
+ * @apiName ListUsers
+ * @apiGroup User
+ *
+ * @apiHeader {String} Authorization Bearer access token (admin)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data List of users
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name User name
+ * @apiSuccess {String} data.email User email
+ * @apiSuccess {String} data.role Role (admin | editor | viewer | customer)
+ * @apiSuccess {Boolean} data.active Active status
+ * @apiSuccess {String|null} data.lastLoginAt ISO 8601 timestamp of last login
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | FORBIDDEN)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await userList();
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/internal/user/:id Get User
+ * @apiName GetUser
+ * @apiGroup User
+ *
+ * @apiHeader {String} Authorization Bearer access token (admin)
+ *
+ * @apiParam {Number} id User ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data User without credentials
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND)
+ * @apiError {String} error.message Error message
+ */
+export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await userGet(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/user Create User
+ * @apiName CreateUser
+ * @apiGroup User
+ *
+ * @apiHeader {String} Authorization Bearer access token (admin)
+ *
+ * @apiBody {String} name User name (2-100 chars)
+ * @apiBody {String} email Unique email
+ * @apiBody {String} password Password (8-72 chars)
+ * @apiBody {String} [role] Role (admin | editor | viewer | customer), defaults to viewer
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Created user without credentials
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await userCreate(req.body);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/internal/user/:id Update User
+ * @apiName UpdateUser
+ * @apiGroup User
+ *
+ * @apiHeader {String} Authorization Bearer access token (admin)
+ *
+ * @apiParam {Number} id User ID
+ *
+ * @apiBody {String} name User name (2-100 chars)
+ * @apiBody {String} email Unique email
+ * @apiBody {String} role Role (admin | editor | viewer | customer)
+ * @apiBody {Boolean} active Active status
+ * @apiBody {String} [password] New password (8-72 chars)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated user without credentials
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await userUpdate(req.params, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/internal/user/:id Delete User
+ * @apiName DeleteUser
+ * @apiGroup User
+ *
+ * @apiHeader {String} Authorization Bearer access token (admin)
+ *
+ * @apiParam {Number} id User ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.message Confirmation message
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | NOT_FOUND | BUSINESS_RULE_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await userDelete(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
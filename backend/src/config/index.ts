@@ -1,18 +1,37 @@
 /**
  * @summary
  * Application configuration management with environment variable support.
- * Provides centralized configuration for server, API, security, and cache settings.
+ * Provides centralized configuration for server, API, security, cache, storage, upload and
+ * payment settings.
  *
  * @module config
  */
 
 import dotenv from 'dotenv';
+import type { StorageDriver } from '@/instances/repository/repositoryTypes';
+import type { FileStorageDriver } from '@/instances/fileStorage/fileStorageTypes';
+import type { PaymentProviderDriver } from '@/instances/payment/paymentTypes';
 
 dotenv.config();
 
+const port = parseInt(process.env.PORT || '3000');
+
+/**
+ * Reads a secret from the environment. The development fallback is refused in production,
+ * where it would let anyone forge tokens or sign in as the seeded admin.
+ */
+const readSecret = (name: string, developmentFallback: string): string => {
+  const value = process.env[name];
+  if (value) return value;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`${name} must be set in production`);
+  }
+  return developmentFallback;
+};
+
 export const config = {
   api: {
-    port: parseInt(process.env.PORT || '3000'),
+    port,
     cors: {
       origin:
         process.env.NODE_ENV === 'production'
@@ -20,16 +39,38 @@ export const config = {
           : ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:5173'],
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-      exposedHeaders: ['X-Total-Count', 'X-Page-Count'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Cart-Token'],
+      exposedHeaders: ['X-Total-Count', 'X-Page-Count', 'Link', 'ETag', 'Last-Modified'],
       maxAge: 86400,
     },
   },
   security: {
     bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '10'),
+    tokenSecret: readSecret('AUTH_TOKEN_SECRET', 'development-secret-change-me'),
+    tokenExpiresInSeconds: parseInt(process.env.AUTH_TOKEN_EXPIRES_IN || '28800'),
+    adminEmail: process.env.ADMIN_EMAIL || 'admin@lozoriomoveis.com.br',
+    adminPassword: readSecret('ADMIN_PASSWORD', 'admin12345'),
   },
   cache: {
     ttl: parseInt(process.env.CACHE_TTL || '3600'),
     checkPeriod: parseInt(process.env.CACHE_CHECK_PERIOD || '600'),
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '500'),
+    maxAge: parseInt(process.env.CACHE_MAX_AGE || '60'),
+  },
+  storage: {
+    driver: (process.env.STORAGE_DRIVER ||
+      (process.env.NODE_ENV === 'test' ? 'memory' : 'file')) as StorageDriver,
+    dataDir: process.env.STORAGE_DATA_DIR || './data',
+    persistDelayMs: parseInt(process.env.STORAGE_PERSIST_DELAY_MS || '200'),
+  },
+  uploads: {
+    driver: (process.env.UPLOAD_DRIVER || 'local') as FileStorageDriver,
+    dir: process.env.UPLOAD_DIR || './uploads',
+    routePath: '/uploads',
+    publicUrl: process.env.UPLOAD_PUBLIC_URL || `http://localhost:${port}/uploads`,
+    maxFileSizeBytes: parseInt(process.env.UPLOAD_MAX_FILE_SIZE_MB || '15') * 1024 * 1024,
+  },
+  payment: {
+    driver: (process.env.PAYMENT_DRIVER || 'fake') as PaymentProviderDriver,
   },
 };
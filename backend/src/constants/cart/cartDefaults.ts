@@ -0,0 +1,48 @@
+/**
+ * @summary
+ * Default values and constants for Cart entity.
+ * Provides centralized configuration for anonymous cart tokens
+ * and line item limits.
+ *
+ * @module constants/cart/cartDefaults
+ */
+
+/**
+ * @interface CartDefaultsType
+ * @description Default configuration values for shopping carts.
+ *
+ * @property {string} TOKEN_HEADER - Request header carrying the anonymous cart token ('X-Cart-Token')
+ * @property {number} TOKEN_BYTES - Random bytes of an anonymous cart token (24, 32 characters in base64url)
+ * @property {number} MAX_RECORDS - Maximum number of carts allowed in storage (10000)
+ * @property {number} ANONYMOUS_TTL_DAYS - Days an anonymous cart is kept after its last change (30)
+ */
+export const CART_DEFAULTS = {
+  /** Header identifying an anonymous cart */
+  TOKEN_HEADER: 'X-Cart-Token',
+  /** Random bytes of an anonymous cart token */
+  TOKEN_BYTES: 24,
+  /** Maximum allowed carts in storage */
+  MAX_RECORDS: 10000,
+  /** Anonymous carts not changed for this long are deleted */
+  ANONYMOUS_TTL_DAYS: 30,
+} as const;
+
+/** Type representing the CART_DEFAULTS constant */
+export type CartDefaultsType = typeof CART_DEFAULTS;
+
+/**
+ * @interface CartLimitsType
+ * @description Validation constraints for Cart entity fields.
+ *
+ * @property {number} TOKEN_LENGTH - Characters of an anonymous cart token (32)
+ * @property {number} QUANTITY_MAX - Maximum quantity of one product (20)
+ * @property {number} ITEMS_MAX - Maximum distinct products in a cart (30)
+ */
+export const CART_LIMITS = {
+  TOKEN_LENGTH: 32,
+  QUANTITY_MAX: 20,
+  ITEMS_MAX: 30,
+} as const;
+
+/** Type representing the CART_LIMITS constant */
+export type CartLimitsType = typeof CART_LIMITS;
@@ -0,0 +1,13 @@
+/**
+ * @summary
+ * Centralized exports for Cart constants.
+ *
+ * @module constants/cart
+ */
+
+export {
+  CART_DEFAULTS,
+  CART_LIMITS,
+  type CartDefaultsType,
+  type CartLimitsType,
+} from './cartDefaults';
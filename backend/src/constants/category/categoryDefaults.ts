@@ -16,6 +16,7 @@
  * @property {number} DISPLAY_ORDER - Default display order for new categories (0)
  * @property {number} MAX_HIERARCHY_LEVEL - Maximum hierarchy depth allowed (3)
  * @property {number} MAX_RECORDS - Maximum number of categories allowed in memory storage (1000)
+ * @property {number} PAGE_SIZE - Items per page when a paginated list is requested without a size (20)
  */
 export const CATEGORY_DEFAULTS = {
   /** Default active status for new categories */
@@ -28,6 +29,8 @@ export const CATEGORY_DEFAULTS = {
   MAX_HIERARCHY_LEVEL: 3,
   /** Maximum allowed categories in memory */
   MAX_RECORDS: 1000,
+  /** Items per page of paginated lists; lists without page or pageSize are not paginated */
+  PAGE_SIZE: 20,
 } as const;
 
 /** Type representing the CATEGORY_DEFAULTS constant */
@@ -44,6 +47,12 @@ export type CategoryDefaultsType = typeof CATEGORY_DEFAULTS;
  * @property {number} IMAGE_URL_MAX_LENGTH - Maximum characters for image URL (500)
  * @property {number} META_TITLE_MAX_LENGTH - Maximum characters for SEO title (70)
  * @property {number} META_DESCRIPTION_MAX_LENGTH - Maximum characters for SEO description (160)
+ * @property {number} ATTRIBUTES_MAX - Maximum attribute definitions per category (30)
+ * @property {number} ATTRIBUTE_KEY_MAX_LENGTH - Maximum characters for an attribute key (40)
+ * @property {number} ATTRIBUTE_LABEL_MAX_LENGTH - Maximum characters for attribute label and group (60)
+ * @property {number} ATTRIBUTE_UNIT_MAX_LENGTH - Maximum characters for an attribute unit (10)
+ * @property {number} ATTRIBUTE_OPTIONS_MAX - Maximum options of a choice attribute (30)
+ * @property {number} PAGE_SIZE_MAX - Maximum items per page of paginated lists (100)
  */
 export const CATEGORY_LIMITS = {
   NAME_MIN_LENGTH: 2,
@@ -53,6 +62,12 @@ export const CATEGORY_LIMITS = {
   IMAGE_URL_MAX_LENGTH: 500,
   META_TITLE_MAX_LENGTH: 70,
   META_DESCRIPTION_MAX_LENGTH: 160,
+  ATTRIBUTES_MAX: 30,
+  ATTRIBUTE_KEY_MAX_LENGTH: 40,
+  ATTRIBUTE_LABEL_MAX_LENGTH: 60,
+  ATTRIBUTE_UNIT_MAX_LENGTH: 10,
+  ATTRIBUTE_OPTIONS_MAX: 30,
+  PAGE_SIZE_MAX: 100,
 } as const;
 
 /** Type representing the CATEGORY_LIMITS constant */
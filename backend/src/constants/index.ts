@@ -25,8 +25,17 @@ export {
 export {
   PRODUCT_DEFAULTS,
   PRODUCT_LIMITS,
+  PRODUCT_FACET_RANGES,
+  PRODUCT_SEARCH,
+  PRODUCT_INVENTORY_DEFAULTS,
+  PRODUCT_AVAILABILITY,
   type ProductDefaultsType,
+  type ProductFacetRangesType,
+  type ProductSearchType,
   type ProductLimitsType,
+  type ProductInventoryDefaultsType,
+  type ProductAvailabilityType,
+  type ProductAvailabilityStatus,
 } from './product';
 
 /**
@@ -48,3 +57,53 @@ export {
   type ProductImageDefaultsType,
   type ProductImageLimitsType,
 } from './productImage';
+
+/**
+ * User constants
+ */
+export {
+  USER_ROLES,
+  USER_DEFAULTS,
+  USER_LIMITS,
+  type UserRolesType,
+  type UserRole,
+  type UserDefaultsType,
+  type UserLimitsType,
+} from './user';
+
+/**
+ * Cart constants
+ */
+export { CART_DEFAULTS, CART_LIMITS, type CartDefaultsType, type CartLimitsType } from './cart';
+
+/**
+ * Order constants
+ */
+export {
+  ORDER_STATUSES,
+  ORDER_STATUS_TRANSITIONS,
+  PAYMENT_METHODS,
+  PAYMENT_STATUSES,
+  BRAZILIAN_STATES,
+  ORDER_DEFAULTS,
+  ORDER_LIMITS,
+  type OrderStatusesType,
+  type OrderStatus,
+  type PaymentMethodsType,
+  type PaymentMethod,
+  type PaymentStatusesType,
+  type PaymentStatus,
+  type BrazilianState,
+  type OrderDefaultsType,
+  type OrderLimitsType,
+} from './order';
+
+/**
+ * Wishlist constants
+ */
+export {
+  WISHLIST_DEFAULTS,
+  WISHLIST_LIMITS,
+  type WishlistDefaultsType,
+  type WishlistLimitsType,
+} from './wishlist';
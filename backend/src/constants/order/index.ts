@@ -0,0 +1,25 @@
+/**
+ * @summary
+ * Centralized exports for Order constants.
+ *
+ * @module constants/order
+ */
+
+export {
+  ORDER_STATUSES,
+  ORDER_STATUS_TRANSITIONS,
+  PAYMENT_METHODS,
+  PAYMENT_STATUSES,
+  BRAZILIAN_STATES,
+  ORDER_DEFAULTS,
+  ORDER_LIMITS,
+  type OrderStatusesType,
+  type OrderStatus,
+  type PaymentMethodsType,
+  type PaymentMethod,
+  type PaymentStatusesType,
+  type PaymentStatus,
+  type BrazilianState,
+  type OrderDefaultsType,
+  type OrderLimitsType,
+} from './orderDefaults';
@@ -0,0 +1,169 @@
+/**
+ * @summary
+ * Default values and constants for Order entity.
+ * Provides centralized configuration for order statuses and their transitions,
+ * payment methods and statuses, and validation limits.
+ *
+ * @module constants/order/orderDefaults
+ */
+
+/**
+ * @interface OrderStatusesType
+ * @description Lifecycle statuses of an order.
+ *
+ * @property {string} PENDING - Placed, awaiting confirmation by the store ('pending')
+ * @property {string} CONFIRMED - Accepted by the store ('confirmed')
+ * @property {string} IN_PRODUCTION - Being made or prepared ('in_production')
+ * @property {string} SHIPPED - Handed over for delivery ('shipped')
+ * @property {string} DELIVERED - Received by the customer ('delivered')
+ * @property {string} CANCELLED - Cancelled by the customer or the store ('cancelled')
+ */
+export const ORDER_STATUSES = {
+  PENDING: 'pending',
+  CONFIRMED: 'confirmed',
+  IN_PRODUCTION: 'in_production',
+  SHIPPED: 'shipped',
+  DELIVERED: 'delivered',
+  CANCELLED: 'cancelled',
+} as const;
+
+/** Type representing the ORDER_STATUSES constant */
+export type OrderStatusesType = typeof ORDER_STATUSES;
+
+/** Union type of all valid order status values */
+export type OrderStatus = (typeof ORDER_STATUSES)[keyof typeof ORDER_STATUSES];
+
+/**
+ * Statuses an order may move to from each status. Delivered and cancelled orders are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  [ORDER_STATUSES.PENDING]: [ORDER_STATUSES.CONFIRMED, ORDER_STATUSES.CANCELLED],
+  [ORDER_STATUSES.CONFIRMED]: [ORDER_STATUSES.IN_PRODUCTION, ORDER_STATUSES.CANCELLED],
+  [ORDER_STATUSES.IN_PRODUCTION]: [ORDER_STATUSES.SHIPPED, ORDER_STATUSES.CANCELLED],
+  [ORDER_STATUSES.SHIPPED]: [ORDER_STATUSES.DELIVERED],
+  [ORDER_STATUSES.DELIVERED]: [],
+  [ORDER_STATUSES.CANCELLED]: [],
+};
+
+/**
+ * @interface PaymentMethodsType
+ * @description Payment methods offered at checkout.
+ *
+ * @property {string} PIX - Instant transfer ('pix')
+ * @property {string} CREDIT_CARD - Credit card, optionally in installments ('credit_card')
+ * @property {string} BOLETO - Bank slip ('boleto')
+ */
+export const PAYMENT_METHODS = {
+  PIX: 'pix',
+  CREDIT_CARD: 'credit_card',
+  BOLETO: 'boleto',
+} as const;
+
+/** Type representing the PAYMENT_METHODS constant */
+export type PaymentMethodsType = typeof PAYMENT_METHODS;
+
+/** Union type of all valid payment method values */
+export type PaymentMethod = (typeof PAYMENT_METHODS)[keyof typeof PAYMENT_METHODS];
+
+/**
+ * @interface PaymentStatusesType
+ * @description Statuses of an order payment.
+ *
+ * @property {string} PENDING - Awaiting payment by the customer ('pending')
+ * @property {string} AUTHORIZED - Approved by the payment provider ('authorized')
+ * @property {string} DECLINED - Refused by the payment provider ('declined')
+ * @property {string} REFUNDED - Returned to the customer after a cancellation ('refunded')
+ */
+export const PAYMENT_STATUSES = {
+  PENDING: 'pending',
+  AUTHORIZED: 'authorized',
+  DECLINED: 'declined',
+  REFUNDED: 'refunded',
+} as const;
+
+/** Type representing the PAYMENT_STATUSES constant */
+export type PaymentStatusesType = typeof PAYMENT_STATUSES;
+
+/** Union type of all valid payment status values */
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[keyof typeof PAYMENT_STATUSES];
+
+/**
+ * Brazilian federative units accepted in delivery addresses
+ */
+export const BRAZILIAN_STATES = [
+  'AC',
+  'AL',
+  'AP',
+  'AM',
+  'BA',
+  'CE',
+  'DF',
+  'ES',
+  'GO',
+  'MA',
+  'MT',
+  'MS',
+  'MG',
+  'PA',
+  'PB',
+  'PR',
+  'PE',
+  'PI',
+  'RJ',
+  'RN',
+  'RS',
+  'RO',
+  'RR',
+  'SC',
+  'SP',
+  'SE',
+  'TO',
+] as const;
+
+/** Union type of all valid state abbreviations */
+export type BrazilianState = (typeof BRAZILIAN_STATES)[number];
+
+/**
+ * @interface OrderDefaultsType
+ * @description Default configuration values for orders.
+ *
+ * @property {string} CODE_PREFIX - Prefix of the order code shown to customers ('PED')
+ * @property {number} PAGE_SIZE - Default number of orders per page (20)
+ * @property {number} MAX_RECORDS - Maximum number of orders allowed in storage (100000)
+ */
+export const ORDER_DEFAULTS = {
+  /** Prefix of order codes */
+  CODE_PREFIX: 'PED',
+  /** Default orders per page */
+  PAGE_SIZE: 20,
+  /** Maximum allowed orders in storage */
+  MAX_RECORDS: 100000,
+} as const;
+
+/** Type representing the ORDER_DEFAULTS constant */
+export type OrderDefaultsType = typeof ORDER_DEFAULTS;
+
+/**
+ * @interface OrderLimitsType
+ * @description Validation constraints for Order entity fields.
+ *
+ * @property {number} NAME_MIN_LENGTH - Minimum characters for the customer name (3)
+ * @property {number} NAME_MAX_LENGTH - Maximum characters for the customer name (100)
+ * @property {number} EMAIL_MAX_LENGTH - Maximum characters for the customer email (100)
+ * @property {number} ADDRESS_FIELD_MAX_LENGTH - Maximum characters for address fields (120)
+ * @property {number} NOTES_MAX_LENGTH - Maximum characters for order and status notes (500)
+ * @property {number} SEARCH_MAX_LENGTH - Maximum characters for the admin search term (100)
+ * @property {number} PAGE_SIZE_MAX - Maximum orders per page (100)
+ */
+export const ORDER_LIMITS = {
+  NAME_MIN_LENGTH: 3,
+  NAME_MAX_LENGTH: 100,
+  EMAIL_MAX_LENGTH: 100,
+  ADDRESS_FIELD_MAX_LENGTH: 120,
+  NOTES_MAX_LENGTH: 500,
+  SEARCH_MAX_LENGTH: 100,
+  PAGE_SIZE_MAX: 100,
+} as const;
+
+/** Type representing the ORDER_LIMITS constant */
+export type OrderLimitsType = typeof ORDER_LIMITS;
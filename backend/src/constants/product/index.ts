@@ -8,6 +8,15 @@
 export {
   PRODUCT_DEFAULTS,
   PRODUCT_LIMITS,
+  PRODUCT_FACET_RANGES,
+  PRODUCT_SEARCH,
+  PRODUCT_INVENTORY_DEFAULTS,
+  PRODUCT_AVAILABILITY,
   type ProductDefaultsType,
+  type ProductFacetRangesType,
+  type ProductSearchType,
   type ProductLimitsType,
+  type ProductInventoryDefaultsType,
+  type ProductAvailabilityType,
+  type ProductAvailabilityStatus,
 } from './productDefaults';
@@ -15,6 +15,7 @@
  * @property {number} PAGE_SIZE - Default items per page (9)
  * @property {string} SORT_BY - Default sort order ('date_desc')
  * @property {number} MAX_RECORDS - Maximum number of products allowed in memory storage (10000)
+ * @property {number} MIN_INSTALLMENT_VALUE - Smallest installment offered, in BRL (50)
  */
 export const PRODUCT_DEFAULTS = {
   /** Default page number */
@@ -25,11 +26,77 @@ export const PRODUCT_DEFAULTS = {
   SORT_BY: 'date_desc' as const,
   /** Maximum allowed products in memory */
   MAX_RECORDS: 10000,
+  /** Smallest installment offered; limits the number of installments of cheap products */
+  MIN_INSTALLMENT_VALUE: 50,
 } as const;
 
 /** Type representing the PRODUCT_DEFAULTS constant */
 export type ProductDefaultsType = typeof PRODUCT_DEFAULTS;
 
+/**
+ * @interface ProductFacetRangesType
+ * @description Buckets offered by the range facets of the product listing.
+ * Each bucket covers [min, max); a null max leaves it open-ended.
+ *
+ * @property {Array} PRICE - Current price buckets in BRL
+ * @property {Array} WIDTH - Width buckets in centimeters, used by the size facet
+ */
+export const PRODUCT_FACET_RANGES = {
+  PRICE: [
+    { min: 0, max: 1000 },
+    { min: 1000, max: 2000 },
+    { min: 2000, max: 3000 },
+    { min: 3000, max: null },
+  ],
+  WIDTH: [
+    { min: 0, max: 80 },
+    { min: 80, max: 150 },
+    { min: 150, max: 220 },
+    { min: 220, max: null },
+  ],
+} as const;
+
+/** Type representing the PRODUCT_FACET_RANGES constant */
+export type ProductFacetRangesType = typeof PRODUCT_FACET_RANGES;
+
+/**
+ * @interface ProductSearchType
+ * @description Scoring of the product search index.
+ *
+ * @property {object} FIELD_WEIGHTS - Score multiplier of a match in each indexed field
+ * @property {number} PREFIX_MIN_LENGTH - Shortest query term matched as a prefix of longer terms (3)
+ * @property {number} PREFIX_FACTOR - Score factor of a prefix match (0.6)
+ * @property {number} FUZZY_MIN_LENGTH - Shortest query term matched with one typo (4)
+ * @property {number} FUZZY_TWO_TYPOS_MIN_LENGTH - Shortest query term matched with two typos (8)
+ * @property {number} FUZZY_FACTOR - Score factor of a match per typo (0.5)
+ * @property {number} SUGGEST_MIN_LENGTH - Shortest prefix that returns suggestions (2)
+ * @property {number} SUGGEST_PRODUCTS - Maximum product suggestions (5)
+ * @property {number} SUGGEST_CATEGORIES - Maximum category suggestions (3)
+ * @property {number} SUGGEST_QUERIES - Maximum popular query suggestions (3)
+ * @property {number} QUERY_LOG_MAX_RECORDS - Maximum distinct searches counted for popularity (1000)
+ */
+export const PRODUCT_SEARCH = {
+  FIELD_WEIGHTS: {
+    name: 4,
+    category: 2,
+    materials: 1.5,
+    description: 1,
+  },
+  PREFIX_MIN_LENGTH: 3,
+  PREFIX_FACTOR: 0.6,
+  FUZZY_MIN_LENGTH: 4,
+  FUZZY_TWO_TYPOS_MIN_LENGTH: 8,
+  FUZZY_FACTOR: 0.5,
+  SUGGEST_MIN_LENGTH: 2,
+  SUGGEST_PRODUCTS: 5,
+  SUGGEST_CATEGORIES: 3,
+  SUGGEST_QUERIES: 3,
+  QUERY_LOG_MAX_RECORDS: 1000,
+} as const;
+
+/** Type representing the PRODUCT_SEARCH constant */
+export type ProductSearchType = typeof PRODUCT_SEARCH;
+
 /**
  * @interface ProductLimitsType
  * @description Validation constraints for Product entity fields.
@@ -40,8 +107,25 @@ export type ProductDefaultsType = typeof PRODUCT_DEFAULTS;
  * @property {number} CATEGORY_MAX_LENGTH - Maximum characters for category field (100)
  * @property {number} IMAGE_URL_MAX_LENGTH - Maximum characters for image URL (500)
  * @property {number} SEARCH_MAX_LENGTH - Maximum characters for search query (200)
- * @property {number} DIMENSIONS_MAX_LENGTH - Maximum characters for dimensions (200)
- * @property {number} MATERIAL_MAX_LENGTH - Maximum characters for material (200)
+ * @property {number} FACET_VALUES_MAX - Maximum selected values per facet filter (20)
+ * @property {number} BATCH_IDS_MAX - Maximum products fetched by ID in one request (20)
+ * @property {number} CURSOR_MAX_LENGTH - Maximum characters for a pagination cursor (1000)
+ * @property {number} DIMENSION_MAX_CM - Maximum width, height or depth in centimeters (1000)
+ * @property {number} WEIGHT_MAX_KG - Maximum weight in kilograms (2000)
+ * @property {number} MATERIAL_MAX_LENGTH - Maximum characters for a material or finish (100)
+ * @property {number} MATERIALS_MAX - Maximum number of materials or finishes (20)
+ * @property {number} ATTRIBUTE_TEXT_MAX_LENGTH - Maximum characters for a text attribute value (200)
+ * @property {number} PRICE_MAX - Maximum price in BRL (1000000)
+ * @property {number} INSTALLMENTS_MAX - Maximum number of installments (24)
+ * @property {number} INTEREST_RATE_MAX - Maximum monthly installment interest rate in percent (10)
+ * @property {number} STOCK_MAX - Maximum units in stock (100000)
+ * @property {number} LEAD_TIME_DAYS_MAX - Maximum lead time of made-to-order products in days (365)
+ * @property {number} OPTIONS_MAX - Maximum option axes of a product, e.g. fabric and size (3)
+ * @property {number} OPTION_NAME_MAX_LENGTH - Maximum characters for an option axis name (50)
+ * @property {number} OPTION_VALUES_MAX - Maximum values of an option axis (20)
+ * @property {number} OPTION_VALUE_MAX_LENGTH - Maximum characters for an option value (100)
+ * @property {number} VARIANTS_MAX - Maximum variants of a product (50)
+ * @property {number} SKU_MAX_LENGTH - Maximum characters for a variant SKU (50)
  */
 export const PRODUCT_LIMITS = {
   NAME_MIN_LENGTH: 1,
@@ -50,9 +134,65 @@ export const PRODUCT_LIMITS = {
   CATEGORY_MAX_LENGTH: 100,
   IMAGE_URL_MAX_LENGTH: 500,
   SEARCH_MAX_LENGTH: 200,
-  DIMENSIONS_MAX_LENGTH: 200,
-  MATERIAL_MAX_LENGTH: 200,
+  FACET_VALUES_MAX: 20,
+  BATCH_IDS_MAX: 20,
+  CURSOR_MAX_LENGTH: 1000,
+  DIMENSION_MAX_CM: 1000,
+  WEIGHT_MAX_KG: 2000,
+  MATERIAL_MAX_LENGTH: 100,
+  MATERIALS_MAX: 20,
+  ATTRIBUTE_TEXT_MAX_LENGTH: 200,
+  PRICE_MAX: 1000000,
+  INSTALLMENTS_MAX: 24,
+  INTEREST_RATE_MAX: 10,
+  STOCK_MAX: 100000,
+  LEAD_TIME_DAYS_MAX: 365,
+  OPTIONS_MAX: 3,
+  OPTION_NAME_MAX_LENGTH: 50,
+  OPTION_VALUES_MAX: 20,
+  OPTION_VALUE_MAX_LENGTH: 100,
+  VARIANTS_MAX: 50,
+  SKU_MAX_LENGTH: 50,
 } as const;
 
 /** Type representing the PRODUCT_LIMITS constant */
 export type ProductLimitsType = typeof PRODUCT_LIMITS;
+
+/**
+ * @interface ProductInventoryDefaultsType
+ * @description Defaults of the stock tracking of products.
+ *
+ * @property {number} LOW_STOCK_THRESHOLD - Units available at or below which stock is shown as low (2)
+ * @property {number} LEAD_TIME_DAYS - Lead time given to products stored before stock was tracked (30)
+ */
+export const PRODUCT_INVENTORY_DEFAULTS = {
+  LOW_STOCK_THRESHOLD: 2,
+  /** Products stored before stock was tracked are sold sob encomenda */
+  LEAD_TIME_DAYS: 30,
+} as const;
+
+/** Type representing the PRODUCT_INVENTORY_DEFAULTS constant */
+export type ProductInventoryDefaultsType = typeof PRODUCT_INVENTORY_DEFAULTS;
+
+/**
+ * @interface ProductAvailabilityType
+ * @description Availability of a product as shown on the storefront.
+ *
+ * @property {string} IN_STOCK - Units ready to ship ('in_stock')
+ * @property {string} LOW_STOCK - Units ready to ship, at most the low-stock threshold ('low_stock')
+ * @property {string} MADE_TO_ORDER - No units available, made sob encomenda within the lead time ('made_to_order')
+ * @property {string} OUT_OF_STOCK - No units available and not made to order ('out_of_stock')
+ */
+export const PRODUCT_AVAILABILITY = {
+  IN_STOCK: 'in_stock',
+  LOW_STOCK: 'low_stock',
+  MADE_TO_ORDER: 'made_to_order',
+  OUT_OF_STOCK: 'out_of_stock',
+} as const;
+
+/** Type representing the PRODUCT_AVAILABILITY constant */
+export type ProductAvailabilityType = typeof PRODUCT_AVAILABILITY;
+
+/** Union type of all valid availability status values */
+export type ProductAvailabilityStatus =
+  (typeof PRODUCT_AVAILABILITY)[keyof typeof PRODUCT_AVAILABILITY];
@@ -15,6 +15,12 @@
  * @property {number} MIN_DIFFERENT_ANGLES - Minimum different view angles required (3)
  * @property {number} HIGH_RES_MIN_WIDTH - Minimum width for high-res images in pixels (1500)
  * @property {number} HIGH_RES_MIN_HEIGHT - Minimum height for high-res images in pixels (1500)
+ * @property {number} THUMBNAIL_WIDTH - Width of the generated thumbnail variant in pixels (400)
+ * @property {number} STANDARD_WIDTH - Width of the generated standard variant in pixels (1200)
+ * @property {number} HIGH_RES_WIDTH - Maximum width of the generated high-res variant in pixels (2400)
+ * @property {number} VARIANT_QUALITY - WebP quality used for generated variants (82)
+ * @property {string[]} UPLOAD_FORMATS - Image formats accepted for upload (jpeg, png, webp)
+ * @property {string} STORAGE_PREFIX - Storage key prefix for uploaded product images
  */
 export const PRODUCT_IMAGE_DEFAULTS = {
   /** Maximum images allowed per product */
@@ -27,6 +33,18 @@ export const PRODUCT_IMAGE_DEFAULTS = {
   HIGH_RES_MIN_WIDTH: 1500,
   /** Minimum height for high-res images (for zoom) */
   HIGH_RES_MIN_HEIGHT: 1500,
+  /** Width of the generated thumbnail variant */
+  THUMBNAIL_WIDTH: 400,
+  /** Width of the generated standard variant */
+  STANDARD_WIDTH: 1200,
+  /** Maximum width of the generated high-res variant (never upscaled) */
+  HIGH_RES_WIDTH: 2400,
+  /** WebP quality used for generated variants */
+  VARIANT_QUALITY: 82,
+  /** Image formats accepted for upload */
+  UPLOAD_FORMATS: ['jpeg', 'png', 'webp'],
+  /** Storage key prefix for uploaded product images */
+  STORAGE_PREFIX: 'products',
 } as const;
 
 /** Type representing the PRODUCT_IMAGE_DEFAULTS constant */
@@ -0,0 +1,74 @@
+/**
+ * @summary
+ * Default values and constants for User and Session entities.
+ * Provides centralized configuration for roles, authentication,
+ * and validation limits.
+ *
+ * @module constants/user/userDefaults
+ */
+
+/**
+ * @interface UserRolesType
+ * @description Available access roles.
+ *
+ * @property {string} ADMIN - Full access, including user management ('admin')
+ * @property {string} EDITOR - Can manage catalog content ('editor')
+ * @property {string} VIEWER - Read-only access ('viewer')
+ * @property {string} CUSTOMER - Storefront account without administrative access ('customer')
+ */
+export const USER_ROLES = {
+  ADMIN: 'admin',
+  EDITOR: 'editor',
+  VIEWER: 'viewer',
+  CUSTOMER: 'customer',
+} as const;
+
+/** Type representing the USER_ROLES constant */
+export type UserRolesType = typeof USER_ROLES;
+
+/** Union type of all valid role values */
+export type UserRole = (typeof USER_ROLES)[keyof typeof USER_ROLES];
+
+/**
+ * @interface UserDefaultsType
+ * @description Default configuration values for user management.
+ *
+ * @property {string} ROLE - Default role for users created by staff ('viewer')
+ * @property {boolean} ACTIVE - Default active status for new users (true)
+ * @property {number} MAX_RECORDS - Maximum number of users allowed in storage, customers included (100000)
+ * @property {number} MAX_SESSIONS - Maximum number of sessions allowed in storage (100000)
+ */
+export const USER_DEFAULTS = {
+  /** Default role for users created by staff */
+  ROLE: USER_ROLES.VIEWER,
+  /** Default active status for new users */
+  ACTIVE: true,
+  /** Maximum allowed users, customers included */
+  MAX_RECORDS: 100000,
+  /** Maximum allowed sessions */
+  MAX_SESSIONS: 100000,
+} as const;
+
+/** Type representing the USER_DEFAULTS constant */
+export type UserDefaultsType = typeof USER_DEFAULTS;
+
+/**
+ * @interface UserLimitsType
+ * @description Validation constraints for User entity fields.
+ *
+ * @property {number} NAME_MIN_LENGTH - Minimum characters for name field (2)
+ * @property {number} NAME_MAX_LENGTH - Maximum characters for name field (100)
+ * @property {number} EMAIL_MAX_LENGTH - Maximum characters for email field (100)
+ * @property {number} PASSWORD_MIN_LENGTH - Minimum characters for password field (8)
+ * @property {number} PASSWORD_MAX_LENGTH - Maximum characters for password field (72, bcrypt limit)
+ */
+export const USER_LIMITS = {
+  NAME_MIN_LENGTH: 2,
+  NAME_MAX_LENGTH: 100,
+  EMAIL_MAX_LENGTH: 100,
+  PASSWORD_MIN_LENGTH: 8,
+  PASSWORD_MAX_LENGTH: 72,
+} as const;
+
+/** Type representing the USER_LIMITS constant */
+export type UserLimitsType = typeof USER_LIMITS;
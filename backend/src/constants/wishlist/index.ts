@@ -0,0 +1,13 @@
+/**
+ * @summary
+ * Centralized exports for Wishlist constants.
+ *
+ * @module constants/wishlist
+ */
+
+export {
+  WISHLIST_DEFAULTS,
+  WISHLIST_LIMITS,
+  type WishlistDefaultsType,
+  type WishlistLimitsType,
+} from './wishlistDefaults';
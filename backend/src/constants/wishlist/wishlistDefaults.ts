@@ -0,0 +1,47 @@
+/**
+ * @summary
+ * Default values and constants for Wishlist entity.
+ * Provides centralized configuration for favorites lists, their share
+ * tokens and size limits.
+ *
+ * @module constants/wishlist/wishlistDefaults
+ */
+
+/**
+ * @interface WishlistDefaultsType
+ * @description Default configuration values for wishlists.
+ *
+ * @property {string} DEFAULT_NAME - Name of the list created for favorites saved without a list ('Favoritos')
+ * @property {number} SHARE_TOKEN_BYTES - Random bytes of a share token (18, 24 characters in base64url)
+ * @property {number} MAX_RECORDS - Maximum number of lists allowed in storage (10000)
+ */
+export const WISHLIST_DEFAULTS = {
+  /** Name of the list holding favorites saved without choosing a list */
+  DEFAULT_NAME: 'Favoritos',
+  /** Random bytes of a share token */
+  SHARE_TOKEN_BYTES: 18,
+  /** Maximum allowed lists in storage */
+  MAX_RECORDS: 10000,
+} as const;
+
+/** Type representing the WISHLIST_DEFAULTS constant */
+export type WishlistDefaultsType = typeof WISHLIST_DEFAULTS;
+
+/**
+ * @interface WishlistLimitsType
+ * @description Validation constraints for Wishlist entity fields.
+ *
+ * @property {number} NAME_MAX_LENGTH - Maximum characters of a list name (60)
+ * @property {number} LISTS_MAX - Maximum lists per user (20)
+ * @property {number} ITEMS_MAX - Maximum products per list (100)
+ * @property {number} SHARE_TOKEN_LENGTH - Characters of a share token (24)
+ */
+export const WISHLIST_LIMITS = {
+  NAME_MAX_LENGTH: 60,
+  LISTS_MAX: 20,
+  ITEMS_MAX: 100,
+  SHARE_TOKEN_LENGTH: 24,
+} as const;
+
+/** Type representing the WISHLIST_LIMITS constant */
+export type WishlistLimitsType = typeof WISHLIST_LIMITS;
@@ -0,0 +1,83 @@
+/**
+ * @summary
+ * Store instance for Cart entity.
+ * Holds anonymous carts, identified by a random token, and user carts.
+ *
+ * @module instances/cart/cartStore
+ */
+
+import { CART_DEFAULTS } from '@/constants/cart';
+import { RecordStore } from '@/instances/repository';
+
+/**
+ * Cart line record structure; prices are resolved when the cart is read
+ */
+export interface CartLineRecord {
+  productId: number;
+  /** Chosen variant, null for products without variants */
+  variantId: number | null;
+  quantity: number;
+  dateAdded: string;
+}
+
+/**
+ * Cart record structure
+ */
+export interface CartRecord {
+  id: number;
+  /** Anonymous cart token, null for user carts */
+  token: string | null;
+  /** Owner of a user cart, null for anonymous carts */
+  userId: number | null;
+  items: CartLineRecord[];
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * Store for Cart records
+ */
+class CartStore extends RecordStore<CartRecord> {
+  constructor() {
+    super({
+      name: 'cart',
+      maxRecords: CART_DEFAULTS.MAX_RECORDS,
+      // Carts stored before variants existed hold products without variants
+      upgrade: (record) =>
+        record.items.every((line) => line.variantId !== undefined)
+          ? record
+          : {
+              ...record,
+              items: record.items.map((line) => ({ ...line, variantId: line.variantId ?? null })),
+            },
+    });
+  }
+
+  /**
+   * Get an anonymous cart by token
+   */
+  getByToken(token: string): CartRecord | undefined {
+    return this.getAll().find((record) => record.token === token);
+  }
+
+  /**
+   * Get the anonymous carts, least recently changed first
+   */
+  getAnonymous(): CartRecord[] {
+    return this.getAll()
+      .filter((record) => record.token !== null)
+      .sort((a, b) => a.dateModified.localeCompare(b.dateModified));
+  }
+
+  /**
+   * Get the cart of a user
+   */
+  getByUserId(userId: number): CartRecord | undefined {
+    return this.getAll().find((record) => record.userId === userId);
+  }
+}
+
+/**
+ * Singleton instance of CartStore
+ */
+export const cartStore = new CartStore();
@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for Cart instances.
+ *
+ * @module instances/cart
+ */
+
+export { cartStore, type CartRecord, type CartLineRecord } from './cartStore';
@@ -1,13 +1,26 @@
 /**
  * @summary
- * In-memory store instance for Category entity.
- * Provides singleton pattern for data storage without database.
+ * Store instance for Category entity.
+ * Provides singleton access to records persisted through the configured repository.
  * Pre-populated with sample furniture categories for Lozorio Móveis.
  *
  * @module instances/category/categoryStore
  */
 
 import { CATEGORY_DEFAULTS } from '@/constants/category';
+import { RecordStore } from '@/instances/repository';
+
+/**
+ * Attribute that products of a category (and its subcategories) can specify
+ */
+export interface CategoryAttributeRecord {
+  key: string;
+  label: string;
+  group: string;
+  type: 'text' | 'number' | 'boolean' | 'option';
+  unit: string | null;
+  options: string[];
+}
 
 /**
  * Category record structure
@@ -25,196 +38,190 @@ export interface CategoryRecord {
   featured: boolean;
   metaTitle: string | null;
   metaDescription: string | null;
+  attributes: CategoryAttributeRecord[];
+  directProductCount: number;
   productCount: number;
   dateCreated: string;
   dateModified: string;
 }
 
 /**
- * In-memory store for Category records
+ * Sample Category records loaded into an empty store
  */
-class CategoryStore {
-  private records: Map<number, CategoryRecord> = new Map();
-  private slugIndex: Map<string, number> = new Map();
-  private currentId: number = 0;
+function sampleCategories(): Omit<CategoryRecord, 'id'>[] {
+  return [
+    {
+      name: 'Sala de Estar',
+      slug: 'sala-de-estar',
+      parentId: null,
+      level: 1,
+      description: 'Móveis elegantes e confortáveis para sua sala de estar',
+      imageUrl: 'https://via.placeholder.com/300x300/4A5568/FFFFFF?text=Sala+de+Estar',
+      displayOrder: 1,
+      active: true,
+      featured: true,
+      metaTitle: 'Móveis para Sala de Estar | Lozorio Móveis',
+      metaDescription: 'Encontre sofás, poltronas, racks e aparadores para sua sala de estar',
+      attributes: [
+        {
+          key: 'lugares',
+          label: 'Lugares',
+          group: 'Conforto',
+          type: 'number',
+          unit: null,
+          options: [],
+        },
+        {
+          key: 'reclinavel',
+          label: 'Reclinável',
+          group: 'Conforto',
+          type: 'boolean',
+          unit: null,
+          options: [],
+        },
+        {
+          key: 'densidade_espuma',
+          label: 'Densidade da espuma',
+          group: 'Conforto',
+          type: 'option',
+          unit: null,
+          options: ['D23', 'D28', 'D33', 'D45'],
+        },
+      ],
+      directProductCount: 4,
+      productCount: 4,
+      dateCreated: new Date('2024-01-01').toISOString(),
+      dateModified: new Date('2024-01-01').toISOString(),
+    },
+    {
+      name: 'Quarto',
+      slug: 'quarto',
+      parentId: null,
+      level: 1,
+      description: 'Móveis para criar o quarto dos seus sonhos',
+      imageUrl: 'https://via.placeholder.com/300x300/2C3E50/FFFFFF?text=Quarto',
+      displayOrder: 2,
+      active: true,
+      featured: true,
+      metaTitle: 'Móveis para Quarto | Lozorio Móveis',
+      metaDescription: 'Camas, guarda-roupas e cômodas para seu quarto',
+      attributes: [
+        {
+          key: 'tamanho_colchao',
+          label: 'Tamanho do colchão',
+          group: 'Cama',
+          type: 'option',
+          unit: null,
+          options: ['Solteiro', 'Casal', 'Queen', 'King'],
+        },
+        {
+          key: 'portas',
+          label: 'Portas',
+          group: 'Armazenamento',
+          type: 'number',
+          unit: null,
+          options: [],
+        },
+        {
+          key: 'gavetas',
+          label: 'Gavetas',
+          group: 'Armazenamento',
+          type: 'number',
+          unit: null,
+          options: [],
+        },
+      ],
+      directProductCount: 2,
+      productCount: 2,
+      dateCreated: new Date('2024-01-01').toISOString(),
+      dateModified: new Date('2024-01-01').toISOString(),
+    },
+    {
+      name: 'Cozinha',
+      slug: 'cozinha',
+      parentId: null,
+      level: 1,
+      description: 'Móveis funcionais e modernos para sua cozinha',
+      imageUrl: 'https://via.placeholder.com/300x300/8B4513/FFFFFF?text=Cozinha',
+      displayOrder: 3,
+      active: true,
+      featured: true,
+      metaTitle: 'Móveis para Cozinha | Lozorio Móveis',
+      metaDescription: 'Mesas, cadeiras e armários para sua cozinha',
+      attributes: [
+        { key: 'lugares', label: 'Lugares', group: 'Uso', type: 'number', unit: null, options: [] },
+        {
+          key: 'formato_tampo',
+          label: 'Formato do tampo',
+          group: 'Uso',
+          type: 'option',
+          unit: null,
+          options: ['Retangular', 'Quadrado', 'Redondo', 'Oval'],
+        },
+      ],
+      directProductCount: 2,
+      productCount: 2,
+      dateCreated: new Date('2024-01-01').toISOString(),
+      dateModified: new Date('2024-01-01').toISOString(),
+    },
+    {
+      name: 'Escritório',
+      slug: 'escritorio',
+      parentId: null,
+      level: 1,
+      description: 'Móveis ergonômicos para seu home office',
+      imageUrl: 'https://via.placeholder.com/300x300/34495E/FFFFFF?text=Escritorio',
+      displayOrder: 4,
+      active: true,
+      featured: true,
+      metaTitle: 'Móveis para Escritório | Lozorio Móveis',
+      metaDescription: 'Escrivaninhas e cadeiras ergonômicas para trabalhar em casa',
+      attributes: [
+        {
+          key: 'regulagem_altura',
+          label: 'Regulagem de altura',
+          group: 'Ergonomia',
+          type: 'boolean',
+          unit: null,
+          options: [],
+        },
+        {
+          key: 'carga_maxima',
+          label: 'Carga máxima',
+          group: 'Ergonomia',
+          type: 'number',
+          unit: 'kg',
+          options: [],
+        },
+      ],
+      directProductCount: 2,
+      productCount: 2,
+      dateCreated: new Date('2024-01-01').toISOString(),
+      dateModified: new Date('2024-01-01').toISOString(),
+    },
+  ];
+}
 
+/**
+ * Store for Category records
+ */
+class CategoryStore extends RecordStore<CategoryRecord> {
   constructor() {
-    this.seedInitialData();
-  }
-
-  /**
-   * Seed initial sample data for demonstration
-   */
-  private seedInitialData(): void {
-    const sampleCategories: Omit<CategoryRecord, 'id'>[] = [
-      {
-        name: 'Sala de Estar',
-        slug: 'sala-de-estar',
-        parentId: null,
-        level: 1,
-        description: 'Móveis elegantes e confortáveis para sua sala de estar',
-        imageUrl: 'https://via.placeholder.com/300x300/4A5568/FFFFFF?text=Sala+de+Estar',
-        displayOrder: 1,
-        active: true,
-        featured: true,
-        metaTitle: 'Móveis para Sala de Estar | Lozorio Móveis',
-        metaDescription: 'Encontre sofás, poltronas, racks e aparadores para sua sala de estar',
-        productCount: 4,
-        dateCreated: new Date('2024-01-01').toISOString(),
-        dateModified: new Date('2024-01-01').toISOString(),
-      },
-      {
-        name: 'Quarto',
-        slug: 'quarto',
-        parentId: null,
-        level: 1,
-        description: 'Móveis para criar o quarto dos seus sonhos',
-        imageUrl: 'https://via.placeholder.com/300x300/2C3E50/FFFFFF?text=Quarto',
-        displayOrder: 2,
-        active: true,
-        featured: true,
-        metaTitle: 'Móveis para Quarto | Lozorio Móveis',
-        metaDescription: 'Camas, guarda-roupas e cômodas para seu quarto',
-        productCount: 2,
-        dateCreated: new Date('2024-01-01').toISOString(),
-        dateModified: new Date('2024-01-01').toISOString(),
-      },
-      {
-        name: 'Cozinha',
-        slug: 'cozinha',
-        parentId: null,
-        level: 1,
-        description: 'Móveis funcionais e modernos para sua cozinha',
-        imageUrl: 'https://via.placeholder.com/300x300/8B4513/FFFFFF?text=Cozinha',
-        displayOrder: 3,
-        active: true,
-        featured: true,
-        metaTitle: 'Móveis para Cozinha | Lozorio Móveis',
-        metaDescription: 'Mesas, cadeiras e armários para sua cozinha',
-        productCount: 2,
-        dateCreated: new Date('2024-01-01').toISOString(),
-        dateModified: new Date('2024-01-01').toISOString(),
-      },
-      {
-        name: 'Escritório',
-        slug: 'escritorio',
-        parentId: null,
-        level: 1,
-        description: 'Móveis ergonômicos para seu home office',
-        imageUrl: 'https://via.placeholder.com/300x300/34495E/FFFFFF?text=Escritorio',
-        displayOrder: 4,
-        active: true,
-        featured: true,
-        metaTitle: 'Móveis para Escritório | Lozorio Móveis',
-        metaDescription: 'Escrivaninhas e cadeiras ergonômicas para trabalhar em casa',
-        productCount: 2,
-        dateCreated: new Date('2024-01-01').toISOString(),
-        dateModified: new Date('2024-01-01').toISOString(),
-      },
-    ];
-
-    sampleCategories.forEach((category) => {
-      const id = this.getNextId();
-      const record = { id, ...category };
-      this.records.set(id, record);
-      this.slugIndex.set(record.slug, id);
+    super({
+      name: 'category',
+      maxRecords: CATEGORY_DEFAULTS.MAX_RECORDS,
+      seed: sampleCategories,
+      // Categories stored before attribute sets existed define no attributes
+      upgrade: (record) =>
+        record.attributes === undefined ? { ...record, attributes: [] } : record,
     });
   }
 
-  /**
-   * Get next available ID
-   */
-  getNextId(): number {
-    this.currentId += 1;
-    return this.currentId;
-  }
-
-  /**
-   * Get all records
-   */
-  getAll(): CategoryRecord[] {
-    return Array.from(this.records.values());
-  }
-
-  /**
-   * Get record by ID
-   */
-  getById(id: number): CategoryRecord | undefined {
-    return this.records.get(id);
-  }
-
   /**
    * Get record by slug
    */
   getBySlug(slug: string): CategoryRecord | undefined {
-    const id = this.slugIndex.get(slug);
-    return id !== undefined ? this.records.get(id) : undefined;
-  }
-
-  /**
-   * Add new record
-   */
-  add(record: CategoryRecord): CategoryRecord {
-    if (this.records.size >= CATEGORY_DEFAULTS.MAX_RECORDS) {
-      throw new Error('Maximum records limit reached');
-    }
-    this.records.set(record.id, record);
-    this.slugIndex.set(record.slug, record.id);
-    return record;
-  }
-
-  /**
-   * Update existing record
-   */
-  update(id: number, data: Partial<CategoryRecord>): CategoryRecord | undefined {
-    const existing = this.records.get(id);
-    if (!existing) {
-      return undefined;
-    }
-
-    // Update slug index if slug changed
-    if (data.slug && data.slug !== existing.slug) {
-      this.slugIndex.delete(existing.slug);
-      this.slugIndex.set(data.slug, id);
-    }
-
-    const updated = { ...existing, ...data };
-    this.records.set(id, updated);
-    return updated;
-  }
-
-  /**
-   * Delete record by ID
-   */
-  delete(id: number): boolean {
-    const existing = this.records.get(id);
-    if (existing) {
-      this.slugIndex.delete(existing.slug);
-    }
-    return this.records.delete(id);
-  }
-
-  /**
-   * Check if record exists
-   */
-  exists(id: number): boolean {
-    return this.records.has(id);
-  }
-
-  /**
-   * Get total count of records
-   */
-  count(): number {
-    return this.records.size;
-  }
-
-  /**
-   * Clear all records (useful for testing)
-   */
-  clear(): void {
-    this.records.clear();
-    this.slugIndex.clear();
-    this.currentId = 0;
+    return this.getAll().find((record) => record.slug === slug);
   }
 }
 
@@ -0,0 +1,30 @@
+/**
+ * @summary
+ * File storage instance selected from the upload configuration.
+ *
+ * @module instances/fileStorage/fileStorage
+ */
+
+import { config } from '@/config';
+import { FileStorage, FileStorageDriver } from './fileStorageTypes';
+import { LocalDiskFileStorage } from './localDiskFileStorage';
+
+/**
+ * @summary
+ * Creates the file storage implementation for the given driver.
+ *
+ * @function createFileStorage
+ * @param {FileStorageDriver} driver - File storage driver
+ * @returns {FileStorage} File storage instance
+ */
+export function createFileStorage(driver: FileStorageDriver): FileStorage {
+  if (driver === 'local') {
+    return new LocalDiskFileStorage(config.uploads.dir, config.uploads.publicUrl);
+  }
+  throw new Error(`Unsupported file storage driver: ${driver}`);
+}
+
+/**
+ * Singleton instance of the configured file storage
+ */
+export const fileStorage = createFileStorage(config.uploads.driver);
@@ -0,0 +1,37 @@
+/**
+ * @summary
+ * Type definitions for the pluggable file storage used by uploads.
+ *
+ * @module instances/fileStorage/fileStorageTypes
+ */
+
+/**
+ * @interface StoredFile
+ * @description Location of a file written to storage
+ *
+ * @property {string} key - Storage key (relative path) of the file
+ * @property {string} url - Public URL the file is served from
+ */
+export interface StoredFile {
+  key: string;
+  url: string;
+}
+
+/**
+ * @interface FileStorage
+ * @description Storage backend contract for uploaded binary files
+ */
+export interface FileStorage {
+  /** Write a file under the given key, replacing any previous content */
+  save(key: string, data: Buffer, contentType: string): Promise<StoredFile>;
+  /** Remove every file stored under the given key prefix */
+  deletePrefix(prefix: string): Promise<void>;
+  /** Resolve the storage key of a public URL, or null when the URL is not managed here */
+  getKeyFromUrl(url: string): string | null;
+}
+
+/**
+ * @type FileStorageDriver
+ * @description Available file storage implementations
+ */
+export type FileStorageDriver = 'local';
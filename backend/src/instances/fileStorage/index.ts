@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for the pluggable file storage.
+ *
+ * @module instances/fileStorage
+ */
+
+export { type StoredFile, type FileStorage, type FileStorageDriver } from './fileStorageTypes';
+export { LocalDiskFileStorage } from './localDiskFileStorage';
+export { fileStorage, createFileStorage } from './fileStorage';
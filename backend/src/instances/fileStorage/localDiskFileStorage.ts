@@ -0,0 +1,61 @@
+/**
+ * @summary
+ * Local disk file storage implementation.
+ * Writes files below a root directory that the server exposes as static content.
+ *
+ * @module instances/fileStorage/localDiskFileStorage
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { FileStorage, StoredFile } from './fileStorageTypes';
+
+/**
+ * File storage backed by a directory on the local disk
+ */
+export class LocalDiskFileStorage implements FileStorage {
+  private readonly rootDir: string;
+  private readonly publicUrl: string;
+
+  constructor(rootDir: string, publicUrl: string) {
+    this.rootDir = path.resolve(rootDir);
+    this.publicUrl = publicUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Resolve a key to an absolute path, refusing keys that escape the root directory
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Write a file under the given key
+   */
+  async save(key: string, data: Buffer, _contentType: string): Promise<StoredFile> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return { key, url: `${this.publicUrl}/${key}` };
+  }
+
+  /**
+   * Remove a file or a whole directory below the root
+   */
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolvePath(prefix), { recursive: true, force: true });
+  }
+
+  /**
+   * Resolve the key of a URL produced by this storage
+   */
+  getKeyFromUrl(url: string): string | null {
+    const base = `${this.publicUrl}/`;
+    return url.startsWith(base) ? url.slice(base.length) : null;
+  }
+}
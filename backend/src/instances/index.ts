@@ -14,7 +14,12 @@ export { initExampleStore, type InitExampleRecord } from './initExample';
 /**
  * Product instances
  */
-export { productStore, type ProductRecord } from './product';
+export {
+  productStore,
+  type ProductRecord,
+  type ProductVariantRecord,
+  type ProductInventoryRecord,
+} from './product';
 
 /**
  * Category instances
@@ -25,3 +30,62 @@ export { categoryStore, type CategoryRecord } from './category';
  * Product Image instances
  */
 export { productImageStore, type ProductImageRecord } from './productImage';
+
+/**
+ * User instances
+ */
+export { userStore, type UserRecord } from './user';
+
+/**
+ * Session instances
+ */
+export { sessionStore, type SessionRecord } from './session';
+
+/**
+ * Cart instances
+ */
+export { cartStore, type CartRecord, type CartLineRecord } from './cart';
+
+/**
+ * Wishlist instances
+ */
+export { wishlistStore, type WishlistRecord, type WishlistItemRecord } from './wishlist';
+
+/**
+ * Order instances
+ */
+export {
+  orderStore,
+  type OrderRecord,
+  type OrderLineRecord,
+  type OrderCustomerRecord,
+  type OrderAddressRecord,
+  type OrderPaymentRecord,
+  type OrderStatusChangeRecord,
+} from './order';
+
+/**
+ * Payment instances
+ */
+export { paymentProvider, type PaymentProvider, type PaymentResult } from './payment';
+
+/**
+ * File storage instances
+ */
+export { fileStorage, type FileStorage, type StoredFile } from './fileStorage';
+
+/**
+ * Search instances
+ */
+export {
+  productSearchIndex,
+  type ProductSearchField,
+  type SearchDocument,
+  type SearchQueryOptions,
+} from './search';
+export { searchQueryStore, type SearchQueryRecord } from './searchQuery';
+
+/**
+ * Response cache instances
+ */
+export { responseCache, type CachedResponse } from './responseCache';
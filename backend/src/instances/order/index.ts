@@ -0,0 +1,16 @@
+/**
+ * @summary
+ * Centralized exports for Order instances.
+ *
+ * @module instances/order
+ */
+
+export {
+  orderStore,
+  type OrderRecord,
+  type OrderLineRecord,
+  type OrderCustomerRecord,
+  type OrderAddressRecord,
+  type OrderPaymentRecord,
+  type OrderStatusChangeRecord,
+} from './orderStore';
@@ -0,0 +1,155 @@
+/**
+ * @summary
+ * Store instance for Order entity.
+ * Holds placed orders with snapshots of their lines, prices and addresses.
+ *
+ * @module instances/order/orderStore
+ */
+
+import {
+  ORDER_DEFAULTS,
+  type BrazilianState,
+  type OrderStatus,
+  type PaymentMethod,
+  type PaymentStatus,
+} from '@/constants/order';
+import { RecordStore } from '@/instances/repository';
+
+/**
+ * Order line record structure; product data is copied at checkout
+ */
+export interface OrderLineRecord {
+  productId: number;
+  /** Ordered variant, null for products without variants */
+  variantId: number | null;
+  /** SKU of the variant at checkout */
+  sku: string | null;
+  /** Option values of the variant at checkout, e.g. 'Linho / Bege' */
+  variantLabel: string | null;
+  name: string;
+  imageUrl: string;
+  categoryName: string;
+  quantity: number;
+  /** Regular price of one unit at checkout */
+  listPrice: number;
+  /** Price paid for one unit */
+  unitPrice: number;
+  lineTotal: number;
+  /** Units held from stock until the order ships or is cancelled */
+  reservedQuantity: number;
+  /** Lead time of the units made to order, null when all units come from stock */
+  leadTimeDays: number | null;
+}
+
+/**
+ * Customer contact record structure
+ */
+export interface OrderCustomerRecord {
+  name: string;
+  email: string;
+  /** Digits only, with area code */
+  phone: string;
+}
+
+/**
+ * Delivery address record structure
+ */
+export interface OrderAddressRecord {
+  /** Formatted as 00000-000 */
+  cep: string;
+  street: string;
+  number: string;
+  complement: string | null;
+  neighborhood: string;
+  city: string;
+  state: BrazilianState;
+}
+
+/**
+ * Order payment record structure
+ */
+export interface OrderPaymentRecord {
+  provider: string;
+  method: PaymentMethod;
+  installments: number;
+  status: PaymentStatus;
+  transactionId: string | null;
+}
+
+/**
+ * Status change record structure
+ */
+export interface OrderStatusChangeRecord {
+  status: OrderStatus;
+  note: string | null;
+  /** User who made the change, null for changes made at checkout */
+  userId: number | null;
+  date: string;
+}
+
+/**
+ * Order record structure
+ */
+export interface OrderRecord {
+  id: number;
+  /** Code shown to customers, e.g. PED-000042 */
+  code: string;
+  /** Authenticated user who placed the order, null for guest checkouts */
+  userId: number | null;
+  status: OrderStatus;
+  customer: OrderCustomerRecord;
+  deliveryAddress: OrderAddressRecord;
+  items: OrderLineRecord[];
+  listTotal: number;
+  discount: number;
+  total: number;
+  payment: OrderPaymentRecord;
+  notes: string | null;
+  statusHistory: OrderStatusChangeRecord[];
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * Store for Order records
+ */
+class OrderStore extends RecordStore<OrderRecord> {
+  constructor() {
+    super({
+      name: 'order',
+      maxRecords: ORDER_DEFAULTS.MAX_RECORDS,
+      // Orders placed before variants existed have no variant lines
+      upgrade: (record) =>
+        record.items.every((line) => line.variantId !== undefined)
+          ? record
+          : {
+              ...record,
+              items: record.items.map((line) => ({
+                ...line,
+                variantId: line.variantId ?? null,
+                sku: line.sku ?? null,
+                variantLabel: line.variantLabel ?? null,
+              })),
+            },
+    });
+  }
+
+  /**
+   * Get an order by its code
+   */
+  getByCode(code: string): OrderRecord | undefined {
+    return this.getAll().find((record) => record.code === code);
+  }
+
+  /**
+   * Get the orders placed by a user
+   */
+  getByUserId(userId: number): OrderRecord[] {
+    return this.getAll().filter((record) => record.userId === userId);
+  }
+}
+
+/**
+ * Singleton instance of OrderStore
+ */
+export const orderStore = new OrderStore();
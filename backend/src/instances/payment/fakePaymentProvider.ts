@@ -0,0 +1,48 @@
+/**
+ * @summary
+ * Local fake payment provider for development and testing.
+ * Approves every charge without contacting a gateway, except for payers whose
+ * email local part ends in "+decline", so declines can be exercised end to end.
+ *
+ * @module instances/payment/fakePaymentProvider
+ */
+
+import crypto from 'crypto';
+import { PaymentChargeRequest, PaymentProvider, PaymentResult } from './paymentTypes';
+
+/**
+ * Payment provider that settles charges in memory
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  /**
+   * Create a provider-style transaction reference
+   */
+  private createTransactionId(): string {
+    return `fake_${crypto.randomBytes(8).toString('hex')}`;
+  }
+
+  /**
+   * Approve the charge, or decline it for "+decline" payers
+   */
+  async charge(request: PaymentChargeRequest): Promise<PaymentResult> {
+    const [localPart] = request.customer.email.split('@');
+
+    if (localPart.endsWith('+decline')) {
+      return {
+        status: 'declined',
+        transactionId: this.createTransactionId(),
+        message: 'Payment declined by the fake provider',
+      };
+    }
+    return { status: 'authorized', transactionId: this.createTransactionId(), message: null };
+  }
+
+  /**
+   * Refunds always succeed
+   */
+  async refund(_transactionId: string, _amount: number): Promise<PaymentResult> {
+    return { status: 'refunded', transactionId: this.createTransactionId(), message: null };
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * @summary
+ * Centralized exports for the pluggable payment provider.
+ *
+ * @module instances/payment
+ */
+
+export {
+  type PaymentChargeRequest,
+  type PaymentResult,
+  type PaymentProvider,
+  type PaymentProviderDriver,
+} from './paymentTypes';
+export { FakePaymentProvider } from './fakePaymentProvider';
+export { paymentProvider, createPaymentProvider } from './paymentProvider';
@@ -0,0 +1,30 @@
+/**
+ * @summary
+ * Payment provider instance selected from the payment configuration.
+ *
+ * @module instances/payment/paymentProvider
+ */
+
+import { config } from '@/config';
+import { FakePaymentProvider } from './fakePaymentProvider';
+import { PaymentProvider, PaymentProviderDriver } from './paymentTypes';
+
+/**
+ * @summary
+ * Creates the payment provider implementation for the given driver.
+ *
+ * @function createPaymentProvider
+ * @param {PaymentProviderDriver} driver - Payment provider driver
+ * @returns {PaymentProvider} Payment provider instance
+ */
+export function createPaymentProvider(driver: PaymentProviderDriver): PaymentProvider {
+  if (driver === 'fake') {
+    return new FakePaymentProvider();
+  }
+  throw new Error(`Unsupported payment provider driver: ${driver}`);
+}
+
+/**
+ * Singleton instance of the configured payment provider
+ */
+export const paymentProvider = createPaymentProvider(config.payment.driver);
@@ -0,0 +1,63 @@
+/**
+ * @summary
+ * Type definitions for the pluggable payment provider used at checkout.
+ *
+ * @module instances/payment/paymentTypes
+ */
+
+import type { PaymentMethod } from '@/constants/order';
+
+/**
+ * @interface PaymentChargeRequest
+ * @description Charge of an order total
+ *
+ * @property {string} orderCode - Order code, sent to the provider as reference
+ * @property {number} amount - Amount in BRL
+ * @property {PaymentMethod} method - Payment method chosen by the customer
+ * @property {number} installments - Number of installments (1 for single payments)
+ * @property {object} customer - Name and email of the payer
+ */
+export interface PaymentChargeRequest {
+  orderCode: string;
+  amount: number;
+  method: PaymentMethod;
+  installments: number;
+  customer: {
+    name: string;
+    email: string;
+  };
+}
+
+/**
+ * @interface PaymentResult
+ * @description Outcome of a charge or refund
+ *
+ * @property {string} status - 'authorized' and 'pending' accept the order, 'declined' refuses it;
+ *   refunds answer 'refunded'
+ * @property {string} transactionId - Provider reference of the transaction
+ * @property {string|null} message - Reason given by the provider, e.g. for declines
+ */
+export interface PaymentResult {
+  status: 'authorized' | 'pending' | 'declined' | 'refunded';
+  transactionId: string;
+  message: string | null;
+}
+
+/**
+ * @interface PaymentProvider
+ * @description Payment gateway contract
+ */
+export interface PaymentProvider {
+  /** Provider name stored with each payment */
+  readonly name: string;
+  /** Charge an order total */
+  charge(request: PaymentChargeRequest): Promise<PaymentResult>;
+  /** Return a charged amount to the customer */
+  refund(transactionId: string, amount: number): Promise<PaymentResult>;
+}
+
+/**
+ * @type PaymentProviderDriver
+ * @description Available payment provider implementations
+ */
+export type PaymentProviderDriver = 'fake';
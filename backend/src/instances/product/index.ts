@@ -5,4 +5,9 @@
  * @module instances/product
  */
 
-export { productStore, type ProductRecord } from './productStore';
+export {
+  productStore,
+  type ProductRecord,
+  type ProductVariantRecord,
+  type ProductInventoryRecord,
+} from './productStore';
@@ -1,13 +1,37 @@
 /**
  * @summary
- * In-memory store instance for Product entity.
- * Provides singleton pattern for data storage without database.
+ * Store instance for Product entity.
+ * Provides singleton access to records persisted through the configured repository.
  * Pre-populated with sample furniture products for Lozorio Móveis.
  *
  * @module instances/product/productStore
  */
 
-import { PRODUCT_DEFAULTS } from '@/constants/product';
+import { PRODUCT_DEFAULTS, PRODUCT_INVENTORY_DEFAULTS } from '@/constants/product';
+import { RecordStore } from '@/instances/repository';
+
+/**
+ * Stock tracking of a product or variant
+ */
+export interface ProductInventoryRecord {
+  stock: number;
+  reserved: number;
+  leadTimeDays: number | null;
+  lowStockThreshold: number;
+}
+
+/**
+ * Variant of a product; null pricing, dimensions and weight fall back to the product
+ */
+export interface ProductVariantRecord {
+  id: number;
+  sku: string;
+  options: Record<string, string>;
+  pricing: ProductRecord['pricing'];
+  inventory: ProductInventoryRecord;
+  dimensions: ProductRecord['specifications']['dimensions'] | null;
+  weight: number | null;
+}
 
 /**
  * Product record structure
@@ -16,259 +40,597 @@ export interface ProductRecord {
   id: number;
   name: string;
   description: string | null;
-  category: string;
+  categoryId: number;
   imageUrl: string;
   additionalImages: string[];
   specifications: {
-    dimensions: string | null;
-    material: string | null;
+    dimensions: { width: number | null; height: number | null; depth: number | null };
+    weight: number | null;
+    materials: string[];
+    finishes: string[];
+    attributes: Record<string, string | number | boolean>;
   };
+  pricing: {
+    price: number;
+    salePrice: number | null;
+    saleStartsAt: string | null;
+    saleEndsAt: string | null;
+    maxInstallments: number;
+    installmentInterestRate: number;
+  } | null;
+  inventory: ProductInventoryRecord;
+  options: { name: string; values: string[] }[];
+  variants: ProductVariantRecord[];
+  /** ID the next new variant gets; only ever raised, so IDs of removed variants are not reused */
+  nextVariantId: number;
   dateCreated: string;
   dateModified: string;
 }
 
 /**
- * In-memory store for Product records
+ * Specifications as stored before they were structured, e.g. '220cm x 90cm x 85cm'
  */
-class ProductStore {
-  private records: Map<number, ProductRecord> = new Map();
-  private currentId: number = 0;
+interface LegacyProductSpecifications {
+  dimensions: string | null;
+  material: string | null;
+}
 
-  constructor() {
-    this.seedInitialData();
-  }
+const LEGACY_UNIT_FACTORS: Record<string, number> = { mm: 0.1, cm: 1, m: 100 };
 
-  /**
-   * Seed initial sample data for demonstration
-   */
-  private seedInitialData(): void {
-    const sampleProducts: Omit<ProductRecord, 'id'>[] = [
-      {
-        name: 'Sofá Moderno 3 Lugares',
-        description:
-          'Sofá confortável e elegante, perfeito para sala de estar moderna. Estrutura em madeira maciça com estofado em tecido de alta qualidade.',
-        category: 'Sala de Estar',
-        imageUrl: 'https://via.placeholder.com/400x300/4A5568/FFFFFF?text=Sofa+Moderno',
-        additionalImages: [
-          'https://via.placeholder.com/400x300/4A5568/FFFFFF?text=Sofa+Lateral',
-          'https://via.placeholder.com/400x300/4A5568/FFFFFF?text=Sofa+Detalhe',
-        ],
-        specifications: {
-          dimensions: '220cm x 90cm x 85cm',
-          material: 'Madeira maciça, tecido premium',
-        },
-        dateCreated: new Date('2024-01-15').toISOString(),
-        dateModified: new Date('2024-01-15').toISOString(),
-      },
-      {
-        name: 'Mesa de Jantar Rústica',
-        description:
-          'Mesa de jantar em madeira maciça com acabamento rústico. Comporta até 8 pessoas confortavelmente.',
-        category: 'Cozinha',
-        imageUrl: 'https://via.placeholder.com/400x300/8B4513/FFFFFF?text=Mesa+Rustica',
-        additionalImages: ['https://via.placeholder.com/400x300/8B4513/FFFFFF?text=Mesa+Detalhe'],
-        specifications: {
-          dimensions: '200cm x 100cm x 75cm',
-          material: 'Madeira de demolição',
-        },
-        dateCreated: new Date('2024-01-20').toISOString(),
-        dateModified: new Date('2024-01-20').toISOString(),
-      },
-      {
-        name: 'Cama Box Queen Size',
-        description:
-          'Cama box confortável com colchão ortopédico incluído. Base reforçada e cabeceira estofada.',
-        category: 'Quarto',
-        imageUrl: 'https://via.placeholder.com/400x300/2C3E50/FFFFFF?text=Cama+Queen',
-        additionalImages: [],
-        specifications: {
-          dimensions: '158cm x 198cm x 60cm',
-          material: 'MDF, espuma D33',
-        },
-        dateCreated: new Date('2024-02-01').toISOString(),
-        dateModified: new Date('2024-02-01').toISOString(),
-      },
-      {
-        name: 'Escrivaninha Home Office',
-        description:
-          'Escrivaninha compacta ideal para home office. Design minimalista com gavetas organizadoras.',
-        category: 'Escritório',
-        imageUrl: 'https://via.placeholder.com/400x300/34495E/FFFFFF?text=Escrivaninha',
-        additionalImages: ['https://via.placeholder.com/400x300/34495E/FFFFFF?text=Gavetas'],
-        specifications: {
-          dimensions: '120cm x 60cm x 75cm',
-          material: 'MDP, pés em aço',
-        },
-        dateCreated: new Date('2024-02-10').toISOString(),
-        dateModified: new Date('2024-02-10').toISOString(),
-      },
-      {
-        name: 'Poltrona Decorativa',
-        description:
-          'Poltrona confortável com design contemporâneo. Ideal para compor ambientes aconchegantes.',
-        category: 'Sala de Estar',
-        imageUrl: 'https://via.placeholder.com/400x300/7F8C8D/FFFFFF?text=Poltrona',
-        additionalImages: [],
-        specifications: {
-          dimensions: '80cm x 85cm x 90cm',
-          material: 'Veludo, estrutura em madeira',
-        },
-        dateCreated: new Date('2024-02-15').toISOString(),
-        dateModified: new Date('2024-02-15').toISOString(),
-      },
-      {
-        name: 'Guarda-Roupa 6 Portas',
-        description:
-          'Guarda-roupa espaçoso com 6 portas e gavetas internas. Acabamento em laminado resistente.',
-        category: 'Quarto',
-        imageUrl: 'https://via.placeholder.com/400x300/95A5A6/FFFFFF?text=Guarda-Roupa',
-        additionalImages: ['https://via.placeholder.com/400x300/95A5A6/FFFFFF?text=Interior'],
-        specifications: {
-          dimensions: '270cm x 220cm x 60cm',
-          material: 'MDP laminado',
-        },
-        dateCreated: new Date('2024-02-20').toISOString(),
-        dateModified: new Date('2024-02-20').toISOString(),
-      },
-      {
-        name: 'Rack para TV',
-        description:
-          'Rack moderno para TV até 65 polegadas. Com nichos e gavetas para organização.',
-        category: 'Sala de Estar',
-        imageUrl: 'https://via.placeholder.com/400x300/5D6D7E/FFFFFF?text=Rack+TV',
-        additionalImages: [],
-        specifications: {
-          dimensions: '180cm x 45cm x 50cm',
-          material: 'MDF com pintura UV',
-        },
-        dateCreated: new Date('2024-03-01').toISOString(),
-        dateModified: new Date('2024-03-01').toISOString(),
-      },
-      {
-        name: 'Cadeira de Escritório Ergonômica',
-        description:
-          'Cadeira ergonômica com ajuste de altura e apoio lombar. Ideal para longas jornadas de trabalho.',
-        category: 'Escritório',
-        imageUrl: 'https://via.placeholder.com/400x300/566573/FFFFFF?text=Cadeira+Ergonomica',
-        additionalImages: ['https://via.placeholder.com/400x300/566573/FFFFFF?text=Ajustes'],
-        specifications: {
-          dimensions: '60cm x 60cm x 110cm',
-          material: 'Tela mesh, base giratória',
-        },
-        dateCreated: new Date('2024-03-05').toISOString(),
-        dateModified: new Date('2024-03-05').toISOString(),
-      },
-      {
-        name: 'Aparador Decorativo',
-        description:
-          'Aparador elegante para hall de entrada ou sala de jantar. Com espelho e gavetas.',
-        category: 'Sala de Estar',
-        imageUrl: 'https://via.placeholder.com/400x300/717D7E/FFFFFF?text=Aparador',
-        additionalImages: [],
-        specifications: {
-          dimensions: '120cm x 40cm x 85cm',
-          material: 'Madeira maciça',
-        },
-        dateCreated: new Date('2024-03-10').toISOString(),
-        dateModified: new Date('2024-03-10').toISOString(),
-      },
-      {
-        name: 'Conjunto de Cadeiras para Jantar',
-        description:
-          'Conjunto com 6 cadeiras estofadas para mesa de jantar. Design clássico e confortável.',
-        category: 'Cozinha',
-        imageUrl: 'https://via.placeholder.com/400x300/85929E/FFFFFF?text=Cadeiras+Jantar',
-        additionalImages: [
-          'https://via.placeholder.com/400x300/85929E/FFFFFF?text=Detalhe+Estofado',
-        ],
-        specifications: {
-          dimensions: '45cm x 50cm x 95cm (cada)',
-          material: 'Madeira, estofado em couro sintético',
-        },
-        dateCreated: new Date('2024-03-15').toISOString(),
-        dateModified: new Date('2024-03-15').toISOString(),
-      },
-    ];
+/**
+ * Parse a legacy "L x P x A" string (largura x profundidade x altura) into centimeters.
+ * Measurements that cannot be read are left empty.
+ */
+function parseLegacyDimensions(
+  value: string | null
+): ProductRecord['specifications']['dimensions'] {
+  const measurements = (value ?? '').split(/\s*[x×]\s*/i).map((part) => {
+    const match = part.match(/(\d+(?:[.,]\d+)?)\s*(mm|cm|m)?\b/i);
+    if (!match) {
+      return null;
+    }
+    const factor = LEGACY_UNIT_FACTORS[(match[2] ?? 'cm').toLowerCase()];
+    return Math.round(parseFloat(match[1].replace(',', '.')) * factor * 10) / 10;
+  });
 
-    sampleProducts.forEach((product) => {
-      const id = this.getNextId();
-      this.records.set(id, { id, ...product });
-    });
-  }
+  return {
+    width: measurements[0] ?? null,
+    depth: measurements[1] ?? null,
+    height: measurements[2] ?? null,
+  };
+}
 
-  /**
-   * Get next available ID
-   */
-  getNextId(): number {
-    this.currentId += 1;
-    return this.currentId;
-  }
+/**
+ * Bring records written by older versions up to the current shape
+ */
+function upgradeProduct(record: ProductRecord): ProductRecord {
+  let upgraded = record;
 
-  /**
-   * Get all records
-   */
-  getAll(): ProductRecord[] {
-    return Array.from(this.records.values());
+  // Products stored before pricing existed are shown as "price on request"
+  if (upgraded.pricing === undefined) {
+    upgraded = { ...upgraded, pricing: null };
   }
 
-  /**
-   * Get record by ID
-   */
-  getById(id: number): ProductRecord | undefined {
-    return this.records.get(id);
+  // Products stored before stock was tracked are made to order
+  if (upgraded.inventory === undefined) {
+    upgraded = {
+      ...upgraded,
+      inventory: {
+        stock: 0,
+        reserved: 0,
+        leadTimeDays: PRODUCT_INVENTORY_DEFAULTS.LEAD_TIME_DAYS,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+    };
   }
 
-  /**
-   * Add new record
-   */
-  add(record: ProductRecord): ProductRecord {
-    if (this.records.size >= PRODUCT_DEFAULTS.MAX_RECORDS) {
-      throw new Error('Maximum records limit reached');
-    }
-    this.records.set(record.id, record);
-    return record;
+  // Products stored before variants existed are sold as a single item
+  if (upgraded.variants === undefined) {
+    upgraded = { ...upgraded, options: [], variants: [] };
   }
 
-  /**
-   * Update existing record
-   */
-  update(id: number, data: Partial<ProductRecord>): ProductRecord | undefined {
-    const existing = this.records.get(id);
-    if (!existing) {
-      return undefined;
-    }
-    const updated = { ...existing, ...data };
-    this.records.set(id, updated);
-    return updated;
+  // Products stored before the variant counter existed continue after their highest variant ID
+  if (upgraded.nextVariantId === undefined) {
+    upgraded = {
+      ...upgraded,
+      nextVariantId: Math.max(0, ...upgraded.variants.map((variant) => variant.id)) + 1,
+    };
   }
 
-  /**
-   * Delete record by ID
-   */
-  delete(id: number): boolean {
-    return this.records.delete(id);
-  }
+  const specifications = upgraded.specifications as unknown as
+    | ProductRecord['specifications']
+    | LegacyProductSpecifications;
 
-  /**
-   * Check if record exists
-   */
-  exists(id: number): boolean {
-    return this.records.has(id);
+  if ('material' in specifications) {
+    upgraded = {
+      ...upgraded,
+      specifications: {
+        dimensions: parseLegacyDimensions(specifications.dimensions),
+        weight: null,
+        materials: (specifications.material ?? '')
+          .split(',')
+          .map((material) => material.trim())
+          .filter(Boolean),
+        finishes: [],
+        attributes: {},
+      },
+    };
   }
 
-  /**
-   * Get total count of records
-   */
-  count(): number {
-    return this.records.size;
-  }
+  return upgraded;
+}
+
+/**
+ * Sample Product records loaded into an empty store
+ */
+function sampleProducts(): Omit<ProductRecord, 'id'>[] {
+  return [
+    {
+      name: 'Sofá Moderno 3 Lugares',
+      description:
+        'Sofá confortável e elegante, perfeito para sala de estar moderna. Estrutura em madeira maciça com estofado em tecido de alta qualidade.',
+      categoryId: 1,
+      imageUrl: 'https://via.placeholder.com/400x300/4A5568/FFFFFF?text=Sofa+Moderno',
+      additionalImages: [
+        'https://via.placeholder.com/400x300/4A5568/FFFFFF?text=Sofa+Lateral',
+        'https://via.placeholder.com/400x300/4A5568/FFFFFF?text=Sofa+Detalhe',
+      ],
+      specifications: {
+        dimensions: { width: 220, height: 85, depth: 90 },
+        weight: 68,
+        materials: ['Madeira maciça', 'Tecido premium'],
+        finishes: ['Cinza grafite', 'Bege'],
+        attributes: { lugares: 3, reclinavel: false, densidade_espuma: 'D33' },
+      },
+      pricing: {
+        price: 3899.9,
+        salePrice: 3299.9,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 12,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 0,
+        reserved: 0,
+        leadTimeDays: 45,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [
+        { name: 'Tecido', values: ['Linho', 'Veludo'] },
+        { name: 'Cor', values: ['Cinza grafite', 'Bege'] },
+      ],
+      variants: [
+        {
+          id: 1,
+          sku: 'SOF-3L-LIN-CZ',
+          options: { Tecido: 'Linho', Cor: 'Cinza grafite' },
+          pricing: null,
+          inventory: {
+            stock: 5,
+            reserved: 0,
+            leadTimeDays: 45,
+            lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+          },
+          dimensions: null,
+          weight: null,
+        },
+        {
+          id: 2,
+          sku: 'SOF-3L-LIN-BG',
+          options: { Tecido: 'Linho', Cor: 'Bege' },
+          pricing: null,
+          inventory: {
+            stock: 3,
+            reserved: 0,
+            leadTimeDays: 45,
+            lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+          },
+          dimensions: null,
+          weight: null,
+        },
+        {
+          id: 3,
+          sku: 'SOF-3L-VEL-CZ',
+          options: { Tecido: 'Veludo', Cor: 'Cinza grafite' },
+          pricing: {
+            price: 4299.9,
+            salePrice: null,
+            saleStartsAt: null,
+            saleEndsAt: null,
+            maxInstallments: 12,
+            installmentInterestRate: 0,
+          },
+          inventory: {
+            stock: 0,
+            reserved: 0,
+            leadTimeDays: 60,
+            lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+          },
+          dimensions: null,
+          weight: 72,
+        },
+      ],
+      nextVariantId: 4,
+      dateCreated: new Date('2024-01-15').toISOString(),
+      dateModified: new Date('2024-01-15').toISOString(),
+    },
+    {
+      name: 'Mesa de Jantar Rústica',
+      description:
+        'Mesa de jantar em madeira maciça com acabamento rústico. Comporta até 8 pessoas confortavelmente.',
+      categoryId: 3,
+      imageUrl: 'https://via.placeholder.com/400x300/8B4513/FFFFFF?text=Mesa+Rustica',
+      additionalImages: ['https://via.placeholder.com/400x300/8B4513/FFFFFF?text=Mesa+Detalhe'],
+      specifications: {
+        dimensions: { width: 200, height: 75, depth: 100 },
+        weight: 55,
+        materials: ['Madeira de demolição'],
+        finishes: ['Natural'],
+        attributes: { lugares: 8, formato_tampo: 'Retangular' },
+      },
+      pricing: {
+        price: 2799,
+        salePrice: null,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 10,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 2,
+        reserved: 0,
+        leadTimeDays: null,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [],
+      variants: [],
+      nextVariantId: 1,
+      dateCreated: new Date('2024-01-20').toISOString(),
+      dateModified: new Date('2024-01-20').toISOString(),
+    },
+    {
+      name: 'Cama Box com Cabeceira Estofada',
+      description:
+        'Cama box confortável com colchão ortopédico incluído. Base reforçada e cabeceira estofada.',
+      categoryId: 2,
+      imageUrl: 'https://via.placeholder.com/400x300/2C3E50/FFFFFF?text=Cama+Queen',
+      additionalImages: [],
+      specifications: {
+        dimensions: { width: 158, height: 60, depth: 198 },
+        weight: 62,
+        materials: ['MDF', 'Espuma D33'],
+        finishes: ['Branco', 'Cinza'],
+        attributes: {},
+      },
+      pricing: {
+        price: 2499.9,
+        salePrice: null,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 12,
+        installmentInterestRate: 1.99,
+      },
+      inventory: {
+        stock: 0,
+        reserved: 0,
+        leadTimeDays: 20,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [{ name: 'Tamanho', values: ['Casal', 'Queen', 'King'] }],
+      variants: [
+        {
+          id: 1,
+          sku: 'CAM-BOX-CASAL',
+          options: { Tamanho: 'Casal' },
+          pricing: {
+            price: 2199.9,
+            salePrice: null,
+            saleStartsAt: null,
+            saleEndsAt: null,
+            maxInstallments: 12,
+            installmentInterestRate: 1.99,
+          },
+          inventory: {
+            stock: 3,
+            reserved: 0,
+            leadTimeDays: 20,
+            lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+          },
+          dimensions: { width: 138, height: 60, depth: 188 },
+          weight: 54,
+        },
+        {
+          id: 2,
+          sku: 'CAM-BOX-QUEEN',
+          options: { Tamanho: 'Queen' },
+          pricing: null,
+          inventory: {
+            stock: 0,
+            reserved: 0,
+            leadTimeDays: 20,
+            lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+          },
+          dimensions: null,
+          weight: null,
+        },
+        {
+          id: 3,
+          sku: 'CAM-BOX-KING',
+          options: { Tamanho: 'King' },
+          pricing: {
+            price: 2999.9,
+            salePrice: null,
+            saleStartsAt: null,
+            saleEndsAt: null,
+            maxInstallments: 12,
+            installmentInterestRate: 1.99,
+          },
+          inventory: {
+            stock: 1,
+            reserved: 0,
+            leadTimeDays: 30,
+            lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+          },
+          dimensions: { width: 193, height: 60, depth: 203 },
+          weight: 75,
+        },
+      ],
+      nextVariantId: 4,
+      dateCreated: new Date('2024-02-01').toISOString(),
+      dateModified: new Date('2024-02-01').toISOString(),
+    },
+    {
+      name: 'Escrivaninha Home Office',
+      description:
+        'Escrivaninha compacta ideal para home office. Design minimalista com gavetas organizadoras.',
+      categoryId: 4,
+      imageUrl: 'https://via.placeholder.com/400x300/34495E/FFFFFF?text=Escrivaninha',
+      additionalImages: ['https://via.placeholder.com/400x300/34495E/FFFFFF?text=Gavetas'],
+      specifications: {
+        dimensions: { width: 120, height: 75, depth: 60 },
+        weight: 22,
+        materials: ['MDP', 'Aço'],
+        finishes: ['Carvalho', 'Preto'],
+        attributes: { regulagem_altura: false, carga_maxima: 40 },
+      },
+      pricing: {
+        price: 899.9,
+        salePrice: null,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 10,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 15,
+        reserved: 0,
+        leadTimeDays: null,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [],
+      variants: [],
+      nextVariantId: 1,
+      dateCreated: new Date('2024-02-10').toISOString(),
+      dateModified: new Date('2024-02-10').toISOString(),
+    },
+    {
+      name: 'Poltrona Decorativa',
+      description:
+        'Poltrona confortável com design contemporâneo. Ideal para compor ambientes aconchegantes.',
+      categoryId: 1,
+      imageUrl: 'https://via.placeholder.com/400x300/7F8C8D/FFFFFF?text=Poltrona',
+      additionalImages: [],
+      specifications: {
+        dimensions: { width: 80, height: 90, depth: 85 },
+        weight: 18,
+        materials: ['Veludo', 'Madeira'],
+        finishes: ['Verde musgo', 'Rosa antigo'],
+        attributes: { lugares: 1, reclinavel: false },
+      },
+      pricing: {
+        price: 1299,
+        salePrice: 1099,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 10,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 1,
+        reserved: 0,
+        leadTimeDays: 30,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [],
+      variants: [],
+      nextVariantId: 1,
+      dateCreated: new Date('2024-02-15').toISOString(),
+      dateModified: new Date('2024-02-15').toISOString(),
+    },
+    {
+      name: 'Guarda-Roupa 6 Portas',
+      description:
+        'Guarda-roupa espaçoso com 6 portas e gavetas internas. Acabamento em laminado resistente.',
+      categoryId: 2,
+      imageUrl: 'https://via.placeholder.com/400x300/95A5A6/FFFFFF?text=Guarda-Roupa',
+      additionalImages: ['https://via.placeholder.com/400x300/95A5A6/FFFFFF?text=Interior'],
+      specifications: {
+        dimensions: { width: 270, height: 220, depth: 60 },
+        weight: 120,
+        materials: ['MDP laminado'],
+        finishes: ['Branco', 'Freijó'],
+        attributes: { portas: 6, gavetas: 4 },
+      },
+      pricing: {
+        price: 3499,
+        salePrice: null,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 12,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 0,
+        reserved: 0,
+        leadTimeDays: 40,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [],
+      variants: [],
+      nextVariantId: 1,
+      dateCreated: new Date('2024-02-20').toISOString(),
+      dateModified: new Date('2024-02-20').toISOString(),
+    },
+    {
+      name: 'Rack para TV',
+      description: 'Rack moderno para TV até 65 polegadas. Com nichos e gavetas para organização.',
+      categoryId: 1,
+      imageUrl: 'https://via.placeholder.com/400x300/5D6D7E/FFFFFF?text=Rack+TV',
+      additionalImages: [],
+      specifications: {
+        dimensions: { width: 180, height: 50, depth: 45 },
+        weight: 25,
+        materials: ['MDF com pintura UV'],
+        finishes: ['Off-white', 'Freijó'],
+        attributes: {},
+      },
+      pricing: {
+        price: 749.9,
+        salePrice: null,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 6,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 0,
+        reserved: 0,
+        leadTimeDays: null,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [],
+      variants: [],
+      nextVariantId: 1,
+      dateCreated: new Date('2024-03-01').toISOString(),
+      dateModified: new Date('2024-03-01').toISOString(),
+    },
+    {
+      name: 'Cadeira de Escritório Ergonômica',
+      description:
+        'Cadeira ergonômica com ajuste de altura e apoio lombar. Ideal para longas jornadas de trabalho.',
+      categoryId: 4,
+      imageUrl: 'https://via.placeholder.com/400x300/566573/FFFFFF?text=Cadeira+Ergonomica',
+      additionalImages: ['https://via.placeholder.com/400x300/566573/FFFFFF?text=Ajustes'],
+      specifications: {
+        dimensions: { width: 60, height: 110, depth: 60 },
+        weight: 14,
+        materials: ['Tela mesh', 'Base em nylon'],
+        finishes: ['Preto'],
+        attributes: { regulagem_altura: true, carga_maxima: 120 },
+      },
+      pricing: {
+        price: 1199.9,
+        salePrice: 999.9,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 10,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 25,
+        reserved: 0,
+        leadTimeDays: null,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [],
+      variants: [],
+      nextVariantId: 1,
+      dateCreated: new Date('2024-03-05').toISOString(),
+      dateModified: new Date('2024-03-05').toISOString(),
+    },
+    {
+      name: 'Aparador Decorativo',
+      description:
+        'Aparador elegante para hall de entrada ou sala de jantar. Com espelho e gavetas.',
+      categoryId: 1,
+      imageUrl: 'https://via.placeholder.com/400x300/717D7E/FFFFFF?text=Aparador',
+      additionalImages: [],
+      specifications: {
+        dimensions: { width: 120, height: 85, depth: 40 },
+        weight: 30,
+        materials: ['Madeira maciça'],
+        finishes: ['Nogueira'],
+        attributes: {},
+      },
+      pricing: {
+        price: 1590,
+        salePrice: null,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 10,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 4,
+        reserved: 0,
+        leadTimeDays: 60,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [],
+      variants: [],
+      nextVariantId: 1,
+      dateCreated: new Date('2024-03-10').toISOString(),
+      dateModified: new Date('2024-03-10').toISOString(),
+    },
+    {
+      name: 'Conjunto de Cadeiras para Jantar',
+      description:
+        'Conjunto com 6 cadeiras estofadas para mesa de jantar. Design clássico e confortável.',
+      categoryId: 3,
+      imageUrl: 'https://via.placeholder.com/400x300/85929E/FFFFFF?text=Cadeiras+Jantar',
+      additionalImages: ['https://via.placeholder.com/400x300/85929E/FFFFFF?text=Detalhe+Estofado'],
+      specifications: {
+        dimensions: { width: 45, height: 95, depth: 50 },
+        weight: 6,
+        materials: ['Madeira', 'Couro sintético'],
+        finishes: ['Tabaco', 'Preto'],
+        attributes: {},
+      },
+      pricing: {
+        price: 1899,
+        salePrice: null,
+        saleStartsAt: null,
+        saleEndsAt: null,
+        maxInstallments: 10,
+        installmentInterestRate: 0,
+      },
+      inventory: {
+        stock: 6,
+        reserved: 0,
+        leadTimeDays: null,
+        lowStockThreshold: PRODUCT_INVENTORY_DEFAULTS.LOW_STOCK_THRESHOLD,
+      },
+      options: [],
+      variants: [],
+      nextVariantId: 1,
+      dateCreated: new Date('2024-03-15').toISOString(),
+      dateModified: new Date('2024-03-15').toISOString(),
+    },
+  ];
+}
 
-  /**
-   * Clear all records (useful for testing)
-   */
-  clear(): void {
-    this.records.clear();
-    this.currentId = 0;
+/**
+ * Store for Product records
+ */
+class ProductStore extends RecordStore<ProductRecord> {
+  constructor() {
+    super({
+      name: 'product',
+      maxRecords: PRODUCT_DEFAULTS.MAX_RECORDS,
+      seed: sampleProducts,
+      upgrade: upgradeProduct,
+    });
   }
 }
 
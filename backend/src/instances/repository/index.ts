@@ -0,0 +1,16 @@
+/**
+ * @summary
+ * Centralized exports for the shared repository abstraction.
+ *
+ * @module instances/repository
+ */
+
+export {
+  type StoredRecord,
+  type RepositoryState,
+  type Repository,
+  type StorageDriver,
+} from './repositoryTypes';
+export { MemoryRepository } from './memoryRepository';
+export { JsonFileRepository } from './jsonFileRepository';
+export { RecordStore, createRepository, type RecordStoreOptions } from './recordStore';
@@ -0,0 +1,134 @@
+/**
+ * @summary
+ * File-backed repository implementation.
+ * Keeps records in memory for reads and writes a JSON snapshot to disk shortly
+ * after mutations, batching the mutations of that interval into one write, so
+ * data survives restarts without a file write per request.
+ *
+ * @module instances/repository/jsonFileRepository
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MemoryRepository } from './memoryRepository';
+import { RepositoryState, StoredRecord } from './repositoryTypes';
+
+/**
+ * Repositories with changes not yet on disk; written synchronously when the process exits
+ */
+const unsavedRepositories = new Set<{ flushSync(): void }>();
+
+process.on('exit', () => {
+  unsavedRepositories.forEach((repository) => repository.flushSync());
+});
+
+/**
+ * JSON-on-disk repository for records identified by a numeric ID
+ */
+export class JsonFileRepository<T extends StoredRecord> extends MemoryRepository<T> {
+  private readonly filePath: string;
+  private readonly persistDelayMs: number;
+  private writeTimer?: NodeJS.Timeout;
+  private writing?: Promise<void>;
+  private dirty = false;
+
+  /**
+   * @param {string} filePath - Snapshot file
+   * @param {number} [persistDelayMs] - Time mutations are collected before the snapshot is written
+   */
+  constructor(filePath: string, persistDelayMs: number = 0) {
+    super();
+    this.filePath = filePath;
+    this.persistDelayMs = persistDelayMs;
+    this.load();
+  }
+
+  /**
+   * Load the snapshot from disk when one exists
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf-8');
+    const state = JSON.parse(content) as RepositoryState<T>;
+    this.restore(state);
+  }
+
+  /**
+   * Schedule a snapshot write; mutations until it runs share the write
+   */
+  protected persist(): void {
+    this.dirty = true;
+    unsavedRepositories.add(this);
+    this.scheduleWrite();
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined;
+      void this.write();
+    }, this.persistDelayMs);
+    // Pending writes do not keep the process alive; they are flushed on exit
+    this.writeTimer.unref();
+  }
+
+  /**
+   * Write the snapshot atomically (temporary file + rename) without blocking the event loop.
+   * Mutations made while a write is in flight are written by a following one.
+   */
+  private async write(): Promise<void> {
+    if (this.writing || !this.dirty) {
+      return;
+    }
+
+    this.dirty = false;
+    const content = JSON.stringify(this.snapshot());
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.writing = (async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, content, 'utf-8');
+      await fs.promises.rename(tempPath, this.filePath);
+    })();
+
+    try {
+      await this.writing;
+    } catch (error) {
+      this.dirty = true;
+      console.error(`Failed to write ${this.filePath}:`, error);
+    } finally {
+      this.writing = undefined;
+    }
+
+    if (this.dirty) {
+      this.scheduleWrite();
+    } else {
+      unsavedRepositories.delete(this);
+    }
+  }
+
+  /**
+   * Write the snapshot synchronously, e.g. when the process exits with a write pending
+   */
+  flushSync(): void {
+    if (!this.dirty && !this.writing) {
+      return;
+    }
+
+    clearTimeout(this.writeTimer);
+    this.writeTimer = undefined;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    // A separate temporary file, as an interrupted asynchronous write may still hold the other
+    const tempPath = `${this.filePath}.exit.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.snapshot()), 'utf-8');
+    fs.renameSync(tempPath, this.filePath);
+    this.dirty = false;
+    unsavedRepositories.delete(this);
+  }
+}
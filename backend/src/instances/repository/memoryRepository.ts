@@ -0,0 +1,124 @@
+/**
+ * @summary
+ * In-memory repository implementation backed by a Map.
+ * Used directly for tests and as the base of persistent implementations.
+ *
+ * @module instances/repository/memoryRepository
+ */
+
+import { Repository, RepositoryState, StoredRecord } from './repositoryTypes';
+
+/**
+ * In-memory repository for records identified by a numeric ID
+ */
+export class MemoryRepository<T extends StoredRecord> implements Repository<T> {
+  protected records: Map<number, T> = new Map();
+  protected currentId: number = 0;
+
+  /**
+   * Get next available ID. Not persisted by itself: the ID is saved with the record that uses it
+   */
+  getNextId(): number {
+    this.currentId += 1;
+    return this.currentId;
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Get record by ID
+   */
+  getById(id: number): T | undefined {
+    return this.records.get(id);
+  }
+
+  /**
+   * Add new record
+   */
+  add(record: T): T {
+    this.records.set(record.id, record);
+    this.currentId = Math.max(this.currentId, record.id);
+    this.persist();
+    return record;
+  }
+
+  /**
+   * Update existing record
+   */
+  update(id: number, data: Partial<T>): T | undefined {
+    const existing = this.records.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...data };
+    this.records.set(id, updated);
+    this.persist();
+    return updated;
+  }
+
+  /**
+   * Delete record by ID
+   */
+  delete(id: number): boolean {
+    const deleted = this.records.delete(id);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Check if record exists
+   */
+  exists(id: number): boolean {
+    return this.records.has(id);
+  }
+
+  /**
+   * Get total count of records
+   */
+  count(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Clear all records (useful for testing)
+   */
+  clear(): void {
+    this.records.clear();
+    this.currentId = 0;
+    this.persist();
+  }
+
+  /**
+   * Check whether the repository has never held any record
+   */
+  isPristine(): boolean {
+    return this.records.size === 0 && this.currentId === 0;
+  }
+
+  /**
+   * Replace the repository contents with a previously saved snapshot
+   */
+  protected restore(state: RepositoryState<T>): void {
+    this.records = new Map(state.records.map((record) => [record.id, record]));
+    this.currentId = state.currentId;
+  }
+
+  /**
+   * Build a serializable snapshot of the repository contents
+   */
+  protected snapshot(): RepositoryState<T> {
+    return { currentId: this.currentId, records: this.getAll() };
+  }
+
+  /**
+   * Hook invoked after every mutation; no-op for the in-memory implementation
+   */
+  protected persist(): void {}
+}
@@ -0,0 +1,203 @@
+/**
+ * @summary
+ * Shared store base class for entity records.
+ * Selects the repository implementation from configuration, enforces
+ * record limits, upgrades records of older versions and loads seed data
+ * only into an empty store. Writes notify subscribers and advance the
+ * store's last-modified time.
+ *
+ * @module instances/repository/recordStore
+ */
+
+import path from 'path';
+import { config } from '@/config';
+import { JsonFileRepository } from './jsonFileRepository';
+import { MemoryRepository } from './memoryRepository';
+import { Repository, StorageDriver, StoredRecord } from './repositoryTypes';
+
+/**
+ * @interface RecordStoreOptions
+ * @description Configuration for a record store
+ *
+ * @property {string} name - Store name, used as the file name for persistent drivers
+ * @property {number} [maxRecords] - Maximum number of records allowed
+ * @property {Function} [seed] - Sample records loaded when the store is empty
+ * @property {StorageDriver} [driver] - Overrides the configured storage driver
+ * @property {Function} [upgrade] - Brings records written by older versions to the current shape
+ */
+export interface RecordStoreOptions<T extends StoredRecord> {
+  name: string;
+  maxRecords?: number;
+  seed?: () => Omit<T, 'id'>[];
+  driver?: StorageDriver;
+  upgrade?: (record: T) => T;
+}
+
+/**
+ * @summary
+ * Creates the repository implementation for the given driver.
+ *
+ * @function createRepository
+ * @param {string} name - Store name
+ * @param {StorageDriver} driver - Storage driver
+ * @returns {Repository<T>} Repository instance
+ */
+export function createRepository<T extends StoredRecord>(
+  name: string,
+  driver: StorageDriver
+): Repository<T> {
+  if (driver === 'file') {
+    return new JsonFileRepository<T>(
+      path.resolve(config.storage.dataDir, `${name}.json`),
+      config.storage.persistDelayMs
+    );
+  }
+  return new MemoryRepository<T>();
+}
+
+/**
+ * Base store delegating persistence to a configured repository
+ */
+export class RecordStore<T extends StoredRecord> {
+  protected readonly repository: Repository<T>;
+  private readonly maxRecords?: number;
+  private readonly listeners = new Set<() => void>();
+  private lastModified?: number;
+
+  constructor(options: RecordStoreOptions<T>) {
+    this.repository = createRepository<T>(options.name, options.driver ?? config.storage.driver);
+    this.maxRecords = options.maxRecords;
+
+    if (options.upgrade) {
+      this.upgradeRecords(options.upgrade);
+    }
+
+    if (options.seed && this.repository.isPristine()) {
+      options.seed().forEach((record) => {
+        const id = this.getNextId();
+        this.repository.add({ id, ...record } as T);
+      });
+    }
+  }
+
+  /**
+   * Rewrite stored records that the upgrade function changes
+   */
+  private upgradeRecords(upgrade: (record: T) => T): void {
+    this.repository.getAll().forEach((record) => {
+      const upgraded = upgrade(record);
+      if (upgraded !== record) {
+        this.repository.update(record.id, upgraded);
+      }
+    });
+  }
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.getNextId();
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): T[] {
+    return this.repository.getAll();
+  }
+
+  /**
+   * Get record by ID
+   */
+  getById(id: number): T | undefined {
+    return this.repository.getById(id);
+  }
+
+  /**
+   * Add new record
+   */
+  add(record: T): T {
+    if (this.maxRecords !== undefined && this.repository.count() >= this.maxRecords) {
+      throw new Error('Maximum records limit reached');
+    }
+    const added = this.repository.add(record);
+    this.notifyChange();
+    return added;
+  }
+
+  /**
+   * Update existing record
+   */
+  update(id: number, data: Partial<T>): T | undefined {
+    const updated = this.repository.update(id, data);
+    if (updated) {
+      this.notifyChange();
+    }
+    return updated;
+  }
+
+  /**
+   * Delete record by ID
+   */
+  delete(id: number): boolean {
+    const deleted = this.repository.delete(id);
+    if (deleted) {
+      this.notifyChange();
+    }
+    return deleted;
+  }
+
+  /**
+   * Check if record exists
+   */
+  exists(id: number): boolean {
+    return this.repository.exists(id);
+  }
+
+  /**
+   * Get total count of records
+   */
+  count(): number {
+    return this.repository.count();
+  }
+
+  /**
+   * Clear all records (useful for testing)
+   */
+  clear(): void {
+    this.repository.clear();
+    this.notifyChange();
+  }
+
+  /**
+   * Time of the latest write; before any write, the newest record dateModified
+   */
+  getLastModified(): Date {
+    if (this.lastModified === undefined) {
+      const newest = this.repository.getAll().reduce((latest, record) => {
+        const modified = Date.parse((record as { dateModified?: string }).dateModified ?? '');
+        return Number.isNaN(modified) ? latest : Math.max(latest, modified);
+      }, 0);
+      this.lastModified = newest || Date.now();
+    }
+    return new Date(this.lastModified);
+  }
+
+  /**
+   * Register a listener called after every write; returns a function that removes it
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Advance the last-modified time, strictly, so each write yields a new value, and notify listeners
+   */
+  private notifyChange(): void {
+    this.lastModified = Math.max(Date.now(), this.getLastModified().getTime() + 1);
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * @summary
+ * Type definitions for the shared repository abstraction.
+ *
+ * @module instances/repository/repositoryTypes
+ */
+
+/**
+ * @interface StoredRecord
+ * @description Minimum shape of a record kept in a repository
+ */
+export interface StoredRecord {
+  id: number;
+}
+
+/**
+ * @interface RepositoryState
+ * @description Serializable snapshot of a repository
+ */
+export interface RepositoryState<T extends StoredRecord> {
+  currentId: number;
+  records: T[];
+}
+
+/**
+ * @interface Repository
+ * @description Storage backend contract shared by all entity stores
+ */
+export interface Repository<T extends StoredRecord> {
+  getNextId(): number;
+  getAll(): T[];
+  getById(id: number): T | undefined;
+  add(record: T): T;
+  update(id: number, data: Partial<T>): T | undefined;
+  delete(id: number): boolean;
+  exists(id: number): boolean;
+  count(): number;
+  clear(): void;
+  /** True when the repository has never held any record */
+  isPristine(): boolean;
+}
+
+/**
+ * @type StorageDriver
+ * @description Available repository implementations
+ */
+export type StorageDriver = 'memory' | 'file';
@@ -0,0 +1,9 @@
+/**
+ * @summary
+ * Centralized exports for response cache instances.
+ *
+ * @module instances/responseCache
+ */
+
+export { TtlCache, type TtlCacheOptions } from './ttlCache';
+export { responseCache, type CachedResponse } from './responseCache';
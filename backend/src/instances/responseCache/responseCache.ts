@@ -0,0 +1,26 @@
+/**
+ * @summary
+ * Cache instance for read endpoint responses.
+ * Entries are keyed by route and normalized query and tagged with the
+ * stores the response was computed from.
+ *
+ * @module instances/responseCache/responseCache
+ */
+
+import { config } from '@/config';
+import { TtlCache } from './ttlCache';
+
+/**
+ * Cached response body with the validator it was sent with and the headers set by the handler
+ */
+export interface CachedResponse {
+  etag: string;
+  headers: Record<string, number | string | string[]>;
+  body: unknown;
+}
+
+export const responseCache = new TtlCache<CachedResponse>({
+  ttlSeconds: config.cache.ttl,
+  checkPeriodSeconds: config.cache.checkPeriod,
+  maxEntries: config.cache.maxEntries,
+});
@@ -0,0 +1,110 @@
+/**
+ * @summary
+ * In-process key/value cache with per-entry expiry and tag invalidation.
+ * Expired entries are skipped on read and swept periodically; the oldest
+ * entries are evicted when the cache is full.
+ *
+ * @module instances/responseCache/ttlCache
+ */
+
+/**
+ * @interface TtlCacheOptions
+ * @description Configuration of a TTL cache
+ *
+ * @property {number} ttlSeconds - Lifetime of an entry
+ * @property {number} checkPeriodSeconds - Interval between sweeps of expired entries, 0 disables sweeping
+ * @property {number} maxEntries - Entries kept before the oldest are evicted
+ */
+export interface TtlCacheOptions {
+  ttlSeconds: number;
+  checkPeriodSeconds: number;
+  maxEntries: number;
+}
+
+interface TtlCacheEntry<V> {
+  value: V;
+  tags: string[];
+  expiresAt: number;
+}
+
+/**
+ * Cache of values that expire after a fixed lifetime
+ */
+export class TtlCache<V> {
+  private readonly entries = new Map<string, TtlCacheEntry<V>>();
+  private readonly options: TtlCacheOptions;
+
+  constructor(options: TtlCacheOptions) {
+    this.options = options;
+
+    if (options.checkPeriodSeconds > 0) {
+      setInterval(() => this.prune(), options.checkPeriodSeconds * 1000).unref();
+    }
+  }
+
+  /**
+   * Get a live entry's value
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Store a value, tagged with the sources it was computed from
+   */
+  set(key: string, value: V, tags: string[] = []): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+    this.entries.set(key, { value, tags, expiresAt: Date.now() + this.options.ttlSeconds * 1000 });
+  }
+
+  /**
+   * Drop every entry carrying the tag
+   */
+  invalidate(tag: string): void {
+    this.entries.forEach((entry, key) => {
+      if (entry.tags.includes(tag)) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Drop expired entries
+   */
+  prune(): void {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Drop all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of stored entries, including expired ones not yet swept
+   */
+  size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * @summary
+ * Centralized exports for search instances.
+ *
+ * @module instances/search
+ */
+
+export {
+  SearchIndex,
+  type SearchDocument,
+  type SearchIndexOptions,
+  type SearchQueryOptions,
+} from './searchIndex';
+export { productSearchIndex, type ProductSearchField } from './productSearchIndex';
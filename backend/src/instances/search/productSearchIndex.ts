@@ -0,0 +1,25 @@
+/**
+ * @summary
+ * Search index instance for products.
+ * Indexes name, category, materials and description; the product service
+ * builds it on the first search and keeps it current on writes.
+ *
+ * @module instances/search/productSearchIndex
+ */
+
+import { PRODUCT_SEARCH } from '@/constants/product';
+import { SearchIndex } from './searchIndex';
+
+/**
+ * Indexed product fields
+ */
+export type ProductSearchField = keyof typeof PRODUCT_SEARCH.FIELD_WEIGHTS;
+
+export const productSearchIndex = new SearchIndex<ProductSearchField>({
+  fieldWeights: PRODUCT_SEARCH.FIELD_WEIGHTS,
+  prefixMinLength: PRODUCT_SEARCH.PREFIX_MIN_LENGTH,
+  prefixFactor: PRODUCT_SEARCH.PREFIX_FACTOR,
+  fuzzyMinLength: PRODUCT_SEARCH.FUZZY_MIN_LENGTH,
+  fuzzyTwoTyposMinLength: PRODUCT_SEARCH.FUZZY_TWO_TYPOS_MIN_LENGTH,
+  fuzzyFactor: PRODUCT_SEARCH.FUZZY_FACTOR,
+});
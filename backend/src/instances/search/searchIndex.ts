@@ -0,0 +1,220 @@
+/**
+ * @summary
+ * In-process inverted index with field-weighted, typo-tolerant scoring.
+ * Documents are analyzed into Portuguese stems; queries match terms exactly,
+ * as a prefix or within a small edit distance.
+ *
+ * @module instances/search/searchIndex
+ */
+
+import { analyzeText, editDistance } from '@/utils';
+
+/**
+ * @interface SearchIndexOptions
+ * @description Scoring configuration of a search index
+ *
+ * @property {object} fieldWeights - Score multiplier of a match in each field
+ * @property {number} prefixMinLength - Shortest query term matched as a prefix of longer terms
+ * @property {number} prefixFactor - Score factor of a prefix match
+ * @property {number} fuzzyMinLength - Shortest query term matched with one typo
+ * @property {number} fuzzyTwoTyposMinLength - Shortest query term matched with two typos
+ * @property {number} fuzzyFactor - Score factor of a match per typo
+ */
+export interface SearchIndexOptions<F extends string> {
+  fieldWeights: Readonly<Record<F, number>>;
+  prefixMinLength: number;
+  prefixFactor: number;
+  fuzzyMinLength: number;
+  fuzzyTwoTyposMinLength: number;
+  fuzzyFactor: number;
+}
+
+/**
+ * Text of each indexed field of a document
+ */
+export type SearchDocument<F extends string> = Record<F, string>;
+
+/**
+ * Per-query overrides of the index options
+ *
+ * @property {number} [prefixMinLength] - Shortest query term matched as a prefix, e.g. 1 while typing
+ */
+export interface SearchQueryOptions {
+  prefixMinLength?: number;
+}
+
+/**
+ * Occurrences of a term per field of one document
+ */
+type FieldFrequencies<F extends string> = Partial<Record<F, number>>;
+
+/**
+ * Inverted index over documents identified by record ID
+ */
+export class SearchIndex<F extends string> {
+  private readonly postings = new Map<string, Map<number, FieldFrequencies<F>>>();
+  private readonly documentTerms = new Map<number, Set<string>>();
+  private built = false;
+
+  constructor(private readonly options: SearchIndexOptions<F>) {}
+
+  /**
+   * Whether the index holds the current documents; a stale index must be rebuilt
+   */
+  isBuilt(): boolean {
+    return this.built;
+  }
+
+  /**
+   * Replace the indexed documents
+   */
+  build(documents: Map<number, SearchDocument<F>>): void {
+    this.postings.clear();
+    this.documentTerms.clear();
+    documents.forEach((document, id) => this.add(id, document));
+    this.built = true;
+  }
+
+  /**
+   * Mark the index stale, e.g. after a change to data shared by many documents
+   */
+  invalidate(): void {
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.built = false;
+  }
+
+  /**
+   * Index a new or changed document; ignored while the index is stale
+   */
+  upsert(id: number, document: SearchDocument<F>): void {
+    if (!this.built) {
+      return;
+    }
+    this.remove(id);
+    this.add(id, document);
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  remove(id: number): void {
+    this.documentTerms.get(id)?.forEach((term) => {
+      const documents = this.postings.get(term);
+      documents?.delete(id);
+      if (documents?.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    this.documentTerms.delete(id);
+  }
+
+  /**
+   * Score the documents matching every term of the query.
+   * Returns an empty map when the query has no searchable terms.
+   */
+  search(query: string, options: SearchQueryOptions = {}): Map<number, number> {
+    const queryTerms = [...new Set(analyzeText(query))];
+    let scores: Map<number, number> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const termScores = this.scoreTerm(queryTerm, options);
+      const previous: Map<number, number> | null = scores;
+      scores = new Map(
+        [...termScores].flatMap(([id, score]): [number, number][] => {
+          if (previous === null) {
+            return [[id, score]];
+          }
+          const previousScore = previous.get(id);
+          return previousScore === undefined ? [] : [[id, previousScore + score]];
+        })
+      );
+      if (scores.size === 0) {
+        break;
+      }
+    }
+
+    return scores ?? new Map();
+  }
+
+  /**
+   * Index the terms of each field of a document
+   */
+  private add(id: number, document: SearchDocument<F>): void {
+    const terms = new Set<string>();
+
+    (Object.keys(this.options.fieldWeights) as F[]).forEach((field) => {
+      analyzeText(document[field] ?? '').forEach((term) => {
+        const documents = this.postings.get(term) ?? new Map<number, FieldFrequencies<F>>();
+        const frequencies: FieldFrequencies<F> = documents.get(id) ?? {};
+        frequencies[field] = (frequencies[field] ?? 0) + 1;
+        documents.set(id, frequencies);
+        this.postings.set(term, documents);
+        terms.add(term);
+      });
+    });
+
+    this.documentTerms.set(id, terms);
+  }
+
+  /**
+   * Best score of each document for one query term over its exact, prefix and fuzzy matches
+   */
+  private scoreTerm(queryTerm: string, options: SearchQueryOptions): Map<number, number> {
+    const scores = new Map<number, number>();
+
+    this.matchTerms(queryTerm, options).forEach((factor, term) => {
+      const documents = this.postings.get(term);
+      if (!documents) {
+        return;
+      }
+      const idf = Math.log(1 + this.documentTerms.size / documents.size);
+
+      documents.forEach((frequencies, id) => {
+        const fieldScore = (Object.entries(frequencies) as [F, number][]).reduce(
+          (sum, [field, frequency]) =>
+            sum + this.options.fieldWeights[field] * (1 + Math.log(frequency)),
+          0
+        );
+        const score = factor * idf * fieldScore;
+        scores.set(id, Math.max(scores.get(id) ?? 0, score));
+      });
+    });
+
+    return scores;
+  }
+
+  /**
+   * Indexed terms a query term matches, with the score factor of each match.
+   * Typos are only tolerated when the term has no exact or prefix match, so a
+   * correctly spelled word does not also match similar words ("cadeira", "madeira").
+   */
+  private matchTerms(queryTerm: string, options: SearchQueryOptions): Map<string, number> {
+    const { prefixFactor, fuzzyMinLength, fuzzyTwoTyposMinLength, fuzzyFactor } = this.options;
+    const prefixMinLength = options.prefixMinLength ?? this.options.prefixMinLength;
+    const matches = new Map<string, number>();
+
+    this.postings.forEach((_, term) => {
+      if (term === queryTerm) {
+        matches.set(term, 1);
+      } else if (queryTerm.length >= prefixMinLength && term.startsWith(queryTerm)) {
+        matches.set(term, prefixFactor);
+      }
+    });
+
+    const maxTypos =
+      queryTerm.length >= fuzzyTwoTyposMinLength ? 2 : queryTerm.length >= fuzzyMinLength ? 1 : 0;
+    if (matches.size > 0 || maxTypos === 0) {
+      return matches;
+    }
+
+    this.postings.forEach((_, term) => {
+      const typos = editDistance(queryTerm, term, maxTypos);
+      if (typos <= maxTypos) {
+        matches.set(term, fuzzyFactor ** typos);
+      }
+    });
+
+    return matches;
+  }
+}
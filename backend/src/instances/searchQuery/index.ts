@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for SearchQuery instances.
+ *
+ * @module instances/searchQuery
+ */
+
+export { searchQueryStore, type SearchQueryRecord } from './searchQueryStore';
@@ -0,0 +1,69 @@
+/**
+ * @summary
+ * Store instance for SearchQuery entity.
+ * Counts storefront searches that found products, so popular ones can be suggested.
+ * Pre-populated with sample searches in development only, so real deployments
+ * suggest nothing until customers have searched.
+ *
+ * @module instances/searchQuery/searchQueryStore
+ */
+
+import { PRODUCT_SEARCH } from '@/constants/product';
+import { RecordStore } from '@/instances/repository';
+
+/**
+ * SearchQuery record structure
+ */
+export interface SearchQueryRecord {
+  id: number;
+  /** Accent-folded query used to group spellings, e.g. "sofa retratil" */
+  key: string;
+  /** Query as first typed, e.g. "sofá retrátil" */
+  query: string;
+  count: number;
+  lastSearchedAt: string;
+}
+
+/**
+ * Sample popular searches for development; the counts are made up
+ */
+function sampleSearchQueries(): Omit<SearchQueryRecord, 'id'>[] {
+  const now = new Date().toISOString();
+  return [
+    { key: 'sofa', query: 'sofá', count: 42, lastSearchedAt: now },
+    { key: 'mesa de jantar', query: 'mesa de jantar', count: 31, lastSearchedAt: now },
+    { key: 'guarda-roupa', query: 'guarda-roupa', count: 24, lastSearchedAt: now },
+    {
+      key: 'cadeira de escritorio',
+      query: 'cadeira de escritório',
+      count: 18,
+      lastSearchedAt: now,
+    },
+    { key: 'poltrona', query: 'poltrona', count: 12, lastSearchedAt: now },
+  ];
+}
+
+/**
+ * Store for SearchQuery records
+ */
+class SearchQueryStore extends RecordStore<SearchQueryRecord> {
+  constructor() {
+    super({
+      name: 'searchQuery',
+      maxRecords: PRODUCT_SEARCH.QUERY_LOG_MAX_RECORDS,
+      seed: process.env.NODE_ENV === 'development' ? sampleSearchQueries : undefined,
+    });
+  }
+
+  /**
+   * Get record by folded query
+   */
+  getByKey(key: string): SearchQueryRecord | undefined {
+    return this.getAll().find((record) => record.key === key);
+  }
+}
+
+/**
+ * Singleton instance of SearchQueryStore
+ */
+export const searchQueryStore = new SearchQueryStore();
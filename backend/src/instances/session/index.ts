@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for Session instances.
+ *
+ * @module instances/session
+ */
+
+export { sessionStore, type SessionRecord } from './sessionStore';
@@ -0,0 +1,51 @@
+/**
+ * @summary
+ * Store instance for Session entity.
+ * Tracks issued authentication tokens so they can be revoked on logout.
+ *
+ * @module instances/session/sessionStore
+ */
+
+import { USER_DEFAULTS } from '@/constants/user';
+import { RecordStore } from '@/instances/repository';
+
+/**
+ * Session record structure
+ */
+export interface SessionRecord {
+  id: number;
+  userId: number;
+  tokenId: string;
+  expiresAt: string;
+  dateCreated: string;
+}
+
+/**
+ * Store for Session records
+ */
+class SessionStore extends RecordStore<SessionRecord> {
+  constructor() {
+    super({ name: 'session', maxRecords: USER_DEFAULTS.MAX_SESSIONS });
+  }
+
+  /**
+   * Get record by token identifier
+   */
+  getByTokenId(tokenId: string): SessionRecord | undefined {
+    return this.getAll().find((record) => record.tokenId === tokenId);
+  }
+
+  /**
+   * Remove sessions whose expiration date has passed
+   */
+  deleteExpired(now: Date = new Date()): number {
+    const expired = this.getAll().filter((record) => new Date(record.expiresAt) <= now);
+    expired.forEach((record) => this.delete(record.id));
+    return expired.length;
+  }
+}
+
+/**
+ * Singleton instance of SessionStore
+ */
+export const sessionStore = new SessionStore();
@@ -0,0 +1,70 @@
+/**
+ * @summary
+ * Store instance for User entity.
+ * Provides singleton access to records persisted through the configured repository.
+ * Pre-populated with the administrator account from configuration.
+ *
+ * @module instances/user/userStore
+ */
+
+import bcrypt from 'bcryptjs';
+import { config } from '@/config';
+import { USER_DEFAULTS, USER_ROLES, type UserRole } from '@/constants/user';
+import { RecordStore } from '@/instances/repository';
+
+/**
+ * User record structure
+ */
+export interface UserRecord {
+  id: number;
+  name: string;
+  email: string;
+  passwordHash: string;
+  role: UserRole;
+  active: boolean;
+  lastLoginAt: string | null;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * Initial administrator account loaded into an empty store
+ */
+function sampleUsers(): Omit<UserRecord, 'id'>[] {
+  const now = new Date().toISOString();
+
+  return [
+    {
+      name: 'Administrador',
+      email: config.security.adminEmail.toLowerCase(),
+      passwordHash: bcrypt.hashSync(config.security.adminPassword, config.security.bcryptRounds),
+      role: USER_ROLES.ADMIN,
+      active: true,
+      lastLoginAt: null,
+      dateCreated: now,
+      dateModified: now,
+    },
+  ];
+}
+
+/**
+ * Store for User records
+ */
+class UserStore extends RecordStore<UserRecord> {
+  constructor() {
+    super({ name: 'user', maxRecords: USER_DEFAULTS.MAX_RECORDS, seed: sampleUsers });
+  }
+
+  /**
+   * Get record by email (case-insensitive)
+   */
+  getByEmail(email: string): UserRecord | undefined {
+    const normalized = email.toLowerCase();
+    return this.getAll().find((record) => record.email === normalized);
+  }
+}
+
+/**
+ * Singleton instance of UserStore
+ */
+export const userStore = new UserStore();
@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for Wishlist instances.
+ *
+ * @module instances/wishlist
+ */
+
+export { wishlistStore, type WishlistRecord, type WishlistItemRecord } from './wishlistStore';
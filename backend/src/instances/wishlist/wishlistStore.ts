@@ -0,0 +1,63 @@
+/**
+ * @summary
+ * Store instance for Wishlist entity.
+ * Holds the named favorites lists of users, each with a random share token.
+ *
+ * @module instances/wishlist/wishlistStore
+ */
+
+import { WISHLIST_DEFAULTS } from '@/constants/wishlist';
+import { RecordStore } from '@/instances/repository';
+
+/**
+ * Wishlist item record structure; products are resolved when the list is read
+ */
+export interface WishlistItemRecord {
+  productId: number;
+  dateAdded: string;
+}
+
+/**
+ * Wishlist record structure
+ */
+export interface WishlistRecord {
+  id: number;
+  userId: number;
+  name: string;
+  /** Token of the public link; the link only works while the list is shared */
+  shareToken: string;
+  shared: boolean;
+  items: WishlistItemRecord[];
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * Store for Wishlist records
+ */
+class WishlistStore extends RecordStore<WishlistRecord> {
+  constructor() {
+    super({ name: 'wishlist', maxRecords: WISHLIST_DEFAULTS.MAX_RECORDS });
+  }
+
+  /**
+   * Get the lists of a user, oldest first
+   */
+  getByUserId(userId: number): WishlistRecord[] {
+    return this.getAll()
+      .filter((record) => record.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Get a list by share token
+   */
+  getByShareToken(shareToken: string): WishlistRecord | undefined {
+    return this.getAll().find((record) => record.shareToken === shareToken);
+  }
+}
+
+/**
+ * Singleton instance of WishlistStore
+ */
+export const wishlistStore = new WishlistStore();
@@ -0,0 +1,124 @@
+/**
+ * @summary
+ * Authentication and authorization middleware.
+ * Resolves bearer tokens into a request identity and restricts routes by role.
+ *
+ * @module middleware/auth
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { UserRole } from '@/constants';
+import { authVerifyToken, type AuthContext } from '@/services/auth';
+import { errorResponse, isServiceError } from '@/utils';
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+/**
+ * @summary
+ * Requires a valid bearer token and attaches its identity to the request
+ *
+ * @function authMiddleware
+ * @module middleware/auth
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ *
+ * @returns {Promise<void>}
+ */
+export async function authMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+    return;
+  }
+
+  try {
+    req.auth = await authVerifyToken(token);
+    next();
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @summary
+ * Attaches the identity of a valid bearer token to the request. Requests
+ * without a token, or with an invalid or expired one, continue anonymously.
+ * Used by public routes that behave differently for signed-in users.
+ *
+ * @function optionalAuthMiddleware
+ * @module middleware/auth
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ *
+ * @returns {Promise<void>}
+ */
+export async function optionalAuthMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    next();
+    return;
+  }
+
+  try {
+    req.auth = await authVerifyToken(token);
+    next();
+  } catch (error) {
+    if (isServiceError(error)) {
+      next();
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @summary
+ * Restricts a route to authenticated users holding one of the given roles.
+ * Must be mounted after authMiddleware.
+ *
+ * @function requireRole
+ * @module middleware/auth
+ *
+ * @param {UserRole[]} roles - Roles allowed to access the route
+ *
+ * @returns {RequestHandler} Express middleware
+ */
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.auth) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!roles.includes(req.auth.role)) {
+      res.status(403).json(errorResponse('Insufficient permissions', 'FORBIDDEN'));
+      return;
+    }
+
+    next();
+  };
+}
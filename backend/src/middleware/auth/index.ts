@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for auth middleware.
+ *
+ * @module middleware/auth
+ */
+
+export { authMiddleware, optionalAuthMiddleware, requireRole } from './authMiddleware';
@@ -0,0 +1,212 @@
+/**
+ * @summary
+ * Response caching middleware for read endpoints.
+ * Serves repeated reads from the response cache, validates them with an
+ * ETag and Last-Modified derived from the source stores, answers
+ * conditional GETs with 304 and sets Cache-Control.
+ *
+ * @module middleware/cache
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '@/config';
+import {
+  categoryStore,
+  productImageStore,
+  productStore,
+  responseCache,
+  type CachedResponse,
+} from '@/instances';
+import { productLastModified } from '@/services/product';
+
+/**
+ * Stores a cached response can be computed from, with the time their data last changed
+ */
+const CACHE_SOURCES = {
+  product: { store: productStore, lastModified: productLastModified },
+  category: { store: categoryStore, lastModified: async () => categoryStore.getLastModified() },
+  productImage: {
+    store: productImageStore,
+    lastModified: async () => productImageStore.getLastModified(),
+  },
+};
+
+/**
+ * @type CacheSource
+ * @description Name of a store a cached response depends on
+ */
+export type CacheSource = keyof typeof CACHE_SOURCES;
+
+/**
+ * @interface CacheResponseOptions
+ * @description Configuration of a cached route
+ *
+ * @property {CacheSource[]} sources - Stores the response is computed from; writes to any of them invalidate it
+ * @property {string} [visibility] - 'public' lets browsers and proxies reuse the response for
+ *   config.cache.maxAge seconds; 'private' (default) makes the browser revalidate every time
+ * @property {Function} [bypass] - Requests for which caching is skipped entirely
+ */
+export interface CacheResponseOptions {
+  sources: CacheSource[];
+  visibility?: 'public' | 'private';
+  bypass?: (req: Request) => boolean;
+}
+
+(Object.keys(CACHE_SOURCES) as CacheSource[]).forEach((source) => {
+  CACHE_SOURCES[source].store.subscribe(() => responseCache.invalidate(source));
+});
+
+/**
+ * @summary
+ * Builds the cache key from the route and its query, with parameters sorted
+ * and empty values dropped so equivalent URLs share an entry.
+ *
+ * @function cacheKey
+ * @param {Request} req - Express request object
+ * @returns {string} Cache key
+ */
+function cacheKey(req: Request): string {
+  const url = new URL(req.originalUrl, 'http://localhost');
+  const query = new URLSearchParams(
+    Array.from(url.searchParams.entries()).filter(([, value]) => value !== '')
+  );
+  query.sort();
+  const search = query.toString();
+  return search ? `${url.pathname}?${search}` : url.pathname;
+}
+
+/**
+ * @summary
+ * Builds a weak ETag from the cache key and the last-modified times of the
+ * sources, so it changes whenever one of them is written.
+ *
+ * @function createEtag
+ * @param {string} key - Cache key
+ * @param {Date[]} modified - Last-modified time of each source
+ * @returns {string} Weak ETag
+ */
+function createEtag(key: string, modified: Date[]): string {
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${key}|${modified.map((date) => date.getTime()).join(',')}`)
+    .digest('base64url');
+  return `W/"${hash}"`;
+}
+
+/**
+ * @summary
+ * Evaluates the request's conditional headers. If-None-Match takes precedence
+ * and is compared weakly; If-Modified-Since has one-second precision.
+ *
+ * @function isNotModified
+ * @param {Request} req - Express request object
+ * @param {string} etag - Current ETag
+ * @param {Date} lastModified - Current last-modified time
+ * @returns {boolean} True when the client's copy is current
+ */
+function isNotModified(req: Request, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.get('If-None-Match');
+  if (ifNoneMatch) {
+    const opaque = etag.replace(/^W\//, '');
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim())
+      .some((tag) => tag === '*' || tag.replace(/^W\//, '') === opaque);
+  }
+
+  const ifModifiedSince = Date.parse(req.get('If-Modified-Since') ?? '');
+  return (
+    !Number.isNaN(ifModifiedSince) &&
+    Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince
+  );
+}
+
+/**
+ * @summary
+ * Caches successful JSON responses of a read route. Responses are validated
+ * against the sources' last-modified times, so a write is visible on the next
+ * request; error responses are neither cached nor validated, so conditional
+ * requests for them get the error rather than a 304.
+ *
+ * @function cacheResponse
+ * @module middleware/cache
+ *
+ * @param {CacheResponseOptions} options - Sources, visibility and bypass rule
+ *
+ * @returns {RequestHandler} Express middleware
+ */
+export function cacheResponse(options: CacheResponseOptions): RequestHandler {
+  const cacheControl =
+    options.visibility === 'public'
+      ? `public, max-age=${config.cache.maxAge}`
+      : 'private, no-cache';
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (options.bypass?.(req)) {
+      next();
+      return;
+    }
+
+    const key = cacheKey(req);
+    let modified: Date[];
+    try {
+      modified = await Promise.all(
+        options.sources.map((source) => CACHE_SOURCES[source].lastModified())
+      );
+    } catch (error) {
+      next(error);
+      return;
+    }
+    const lastModified = new Date(Math.max(...modified.map((date) => date.getTime())));
+    const etag = createEtag(key, modified);
+
+    res.set({
+      'Cache-Control': cacheControl,
+      ETag: etag,
+      'Last-Modified': lastModified.toUTCString(),
+    });
+
+    // 304 only confirms a response known to exist: a cached one, or one the handler just
+    // produced. Otherwise `If-None-Match: *` would answer 304 for missing resources.
+    const cached = responseCache.get(key);
+    if (cached && cached.etag === etag) {
+      Object.entries(cached.headers).forEach(([name, value]) => res.setHeader(name, value));
+      if (isNotModified(req, etag, lastModified)) {
+        res.status(304).end();
+        return;
+      }
+      res.json(cached.body);
+      return;
+    }
+
+    // Headers the handler adds (e.g. pagination) are cached along with the body
+    const presetHeaders = new Set(res.getHeaderNames());
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (res.statusCode === 200) {
+        const headers: CachedResponse['headers'] = {};
+        res
+          .getHeaderNames()
+          .filter((name) => !presetHeaders.has(name))
+          .forEach((name) => {
+            const value = res.getHeader(name);
+            if (value !== undefined) {
+              headers[name] = value;
+            }
+          });
+        responseCache.set(key, { etag, headers, body }, options.sources);
+        if (isNotModified(req, etag, lastModified)) {
+          return res.status(304).end();
+        }
+      } else {
+        res.removeHeader('ETag');
+        res.removeHeader('Last-Modified');
+        res.set('Cache-Control', 'no-store');
+      }
+      return json(body);
+    };
+
+    next();
+  };
+}
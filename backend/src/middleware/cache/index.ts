@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for cache middleware.
+ *
+ * @module middleware/cache
+ */
+
+export { cacheResponse, type CacheSource, type CacheResponseOptions } from './cacheMiddleware';
@@ -6,5 +6,8 @@
  * @module middleware
  */
 
+export { authMiddleware, optionalAuthMiddleware, requireRole } from './auth';
+export { cacheResponse, type CacheSource, type CacheResponseOptions } from './cache';
 export { errorMiddleware } from './error';
 export { notFoundMiddleware } from './notFound';
+export { singleFileUpload } from './upload';
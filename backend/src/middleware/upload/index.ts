@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for upload middleware.
+ *
+ * @module middleware/upload
+ */
+
+export { singleFileUpload } from './uploadMiddleware';
@@ -0,0 +1,47 @@
+/**
+ * @summary
+ * Multipart upload middleware.
+ * Buffers a single uploaded file in memory so services can validate and process it.
+ *
+ * @module middleware/upload
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import { config } from '@/config';
+import { errorResponse } from '@/utils';
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.uploads.maxFileSizeBytes, files: 1 },
+});
+
+/**
+ * @summary
+ * Accepts one file from the given multipart field and exposes it as req.file.
+ * Upload limit violations are answered with a 400 validation error.
+ *
+ * @function singleFileUpload
+ * @module middleware/upload
+ *
+ * @param {string} fieldName - Multipart field holding the file
+ *
+ * @returns {RequestHandler} Express middleware
+ */
+export function singleFileUpload(fieldName: string): RequestHandler {
+  const handler = upload.single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message =
+          error.code === 'LIMIT_FILE_SIZE'
+            ? `File exceeds the maximum size of ${config.uploads.maxFileSizeBytes / (1024 * 1024)} MB`
+            : error.message;
+        res.status(400).json(errorResponse(message, 'VALIDATION_ERROR', { field: error.field }));
+        return;
+      }
+      next(error);
+    });
+  };
+}
@@ -7,15 +7,107 @@
  */
 
 import { Router } from 'express';
+import * as authController from '@/api/external/auth/controller';
+import * as productController from '@/api/external/product/controller';
+import * as categoryController from '@/api/external/category/controller';
+import * as productImageController from '@/api/external/product-image/controller';
+import * as cartController from '@/api/external/cart/controller';
+import * as orderController from '@/api/external/order/controller';
+import * as wishlistController from '@/api/external/wishlist/controller';
+import { authMiddleware, optionalAuthMiddleware } from '@/middleware/auth';
+import { cacheResponse } from '@/middleware/cache';
 
 const router = Router();
 
+/**
+ * @rule {be-route-caching}
+ * Catalog reads are cached and shared with browsers for a short time. Searches bypass the
+ * cache so each one is counted towards the popular searches
+ */
+const productCache = cacheResponse({ sources: ['product', 'category'], visibility: 'public' });
+const productListCache = cacheResponse({
+  sources: ['product', 'category'],
+  visibility: 'public',
+  bypass: (req) => typeof req.query.search === 'string' && req.query.search.trim() !== '',
+});
+const categoryCache = cacheResponse({ sources: ['category', 'product'], visibility: 'public' });
+const productImageCache = cacheResponse({
+  sources: ['productImage', 'product', 'category'],
+  visibility: 'public',
+});
+
+/**
+ * @rule {be-route-configuration}
+ * Product routes - /api/external/product
+ */
+router.get('/product', productListCache, productController.listHandler);
+router.get('/product/suggest', productController.suggestHandler);
+router.get('/product/batch', productCache, productController.batchHandler);
+router.get('/product/:id', productCache, productController.getHandler);
+router.get('/product/:productId/image', productImageCache, productImageController.listHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Category routes - /api/external/category
+ */
+router.get('/category', categoryCache, categoryController.listHandler);
+router.get('/category/featured', categoryCache, categoryController.getFeaturedHandler);
+router.get('/category/slug/:slug', categoryCache, categoryController.getBySlugHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Cart routes - /api/external/cart
+ * Signed-in users get their user cart; anonymous shoppers send an X-Cart-Token header
+ */
+router.get('/cart', optionalAuthMiddleware, cartController.getHandler);
+router.delete('/cart', optionalAuthMiddleware, cartController.clearHandler);
+router.post('/cart/items', optionalAuthMiddleware, cartController.addItemHandler);
+router.patch(
+  '/cart/items/:productId/:variantId?',
+  optionalAuthMiddleware,
+  cartController.updateItemHandler
+);
+router.delete(
+  '/cart/items/:productId/:variantId?',
+  optionalAuthMiddleware,
+  cartController.removeItemHandler
+);
+router.post('/cart/merge', authMiddleware, cartController.mergeHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Wishlist routes - /api/external/wishlist
+ * Lists belong to signed-in customers; shared lists are readable by anyone with the link
+ */
+router.get('/wishlist', authMiddleware, wishlistController.listHandler);
+router.post('/wishlist', authMiddleware, wishlistController.createHandler);
+router.post('/wishlist/sync', authMiddleware, wishlistController.syncHandler);
+router.get('/wishlist/shared/:token', wishlistController.getSharedHandler);
+router.patch('/wishlist/:id', authMiddleware, wishlistController.updateHandler);
+router.delete('/wishlist/:id', authMiddleware, wishlistController.deleteHandler);
+router.post('/wishlist/:id/items', authMiddleware, wishlistController.addItemHandler);
+router.delete(
+  '/wishlist/:id/items/:productId',
+  authMiddleware,
+  wishlistController.removeItemHandler
+);
+
+/**
+ * @rule {be-route-configuration}
+ * Order routes - /api/external/order
+ * Checkout works for guests too; the order history requires a signed-in customer
+ */
+router.post('/order/checkout', optionalAuthMiddleware, orderController.checkoutHandler);
+router.get('/order', authMiddleware, orderController.listHandler);
+router.get('/order/:code', optionalAuthMiddleware, orderController.getHandler);
+router.post('/order/:code/cancel', authMiddleware, orderController.cancelHandler);
+
 /**
  * @rule {be-route-configuration}
- * External routes will be added here as features are implemented.
- * Example:
- * router.use('/security', securityRoutes);
- * router.use('/public', publicRoutes);
+ * Auth routes - /api/external/auth
+ * Anyone can sign up as a customer; staff accounts are created on the internal user routes
  */
+router.post('/auth/login', authController.loginHandler);
+router.post('/auth/register', authController.registerHandler);
 
 export default router;
@@ -11,47 +11,105 @@ import * as initExampleController from '@/api/internal/init-example/controller';
 import * as productController from '@/api/internal/product/controller';
 import * as categoryController from '@/api/internal/category/controller';
 import * as productImageController from '@/api/internal/product-image/controller';
+import * as authController from '@/api/internal/auth/controller';
+import * as userController from '@/api/internal/user/controller';
+import * as orderController from '@/api/internal/order/controller';
+import { USER_ROLES } from '@/constants';
+import { authMiddleware, requireRole } from '@/middleware/auth';
+import { cacheResponse } from '@/middleware/cache';
+import { singleFileUpload } from '@/middleware/upload';
 
 const router = Router();
 
+/**
+ * @rule {be-route-authorization}
+ * Write operations require an admin or editor session; user management is admin-only
+ */
+const canEdit = [authMiddleware, requireRole(USER_ROLES.ADMIN, USER_ROLES.EDITOR)];
+const adminOnly = [authMiddleware, requireRole(USER_ROLES.ADMIN)];
+
+/**
+ * @rule {be-route-caching}
+ * Catalog reads are cached server-side; browsers revalidate every time so edits show at once
+ */
+const productCache = cacheResponse({ sources: ['product', 'category'] });
+const categoryCache = cacheResponse({ sources: ['category', 'product'] });
+const productImageCache = cacheResponse({ sources: ['productImage', 'product'] });
+
 /**
  * @rule {be-route-configuration}
  * Init-Example routes - /api/internal/init-example
  */
 router.get('/init-example', initExampleController.listHandler);
-router.post('/init-example', initExampleController.createHandler);
+router.post('/init-example', canEdit, initExampleController.createHandler);
 router.get('/init-example/:id', initExampleController.getHandler);
-router.put('/init-example/:id', initExampleController.updateHandler);
-router.delete('/init-example/:id', initExampleController.deleteHandler);
+router.put('/init-example/:id', canEdit, initExampleController.updateHandler);
+router.delete('/init-example/:id', canEdit, initExampleController.deleteHandler);
 
 /**
  * @rule {be-route-configuration}
  * Product routes - /api/internal/product
  */
-router.get('/product', productController.listHandler);
-router.get('/product/:id', productController.getHandler);
+router.get('/product', productCache, productController.listHandler);
+router.get('/product/:id', productCache, productController.getHandler);
+router.post('/product', canEdit, productController.createHandler);
+router.put('/product/:id', canEdit, productController.updateHandler);
+router.patch('/product/:id', canEdit, productController.patchHandler);
+router.delete('/product/:id', canEdit, productController.deleteHandler);
 
 /**
  * @rule {be-route-configuration}
  * Category routes - /api/internal/category
  */
-router.get('/category', categoryController.listHandler);
-router.get('/category/featured', categoryController.getFeaturedHandler);
-router.get('/category/slug/:slug', categoryController.getBySlugHandler);
-router.get('/category/:id', categoryController.getHandler);
-router.post('/category', categoryController.createHandler);
-router.put('/category/:id', categoryController.updateHandler);
-router.delete('/category/:id', categoryController.deleteHandler);
+router.get('/category', categoryCache, categoryController.listHandler);
+router.get('/category/featured', categoryCache, categoryController.getFeaturedHandler);
+router.get('/category/slug/:slug', categoryCache, categoryController.getBySlugHandler);
+router.get('/category/:id', categoryCache, categoryController.getHandler);
+router.post('/category', canEdit, categoryController.createHandler);
+router.post('/category/recount', canEdit, categoryController.recountHandler);
+router.put('/category/:id', canEdit, categoryController.updateHandler);
+router.delete('/category/:id', canEdit, categoryController.deleteHandler);
 
 /**
  * @rule {be-route-configuration}
  * Product Image routes - /api/internal/product/:productId/image
  */
-router.get('/product/:productId/image', productImageController.listHandler);
-router.post('/product/:productId/image', productImageController.createHandler);
-router.put('/product/:productId/image/reorder', productImageController.reorderHandler);
-router.get('/product-image/:id', productImageController.getHandler);
-router.put('/product-image/:id', productImageController.updateHandler);
-router.delete('/product-image/:id', productImageController.deleteHandler);
+router.get('/product/:productId/image', productImageCache, productImageController.listHandler);
+router.post('/product/:productId/image', canEdit, productImageController.createHandler);
+router.post(
+  '/product/:productId/image/upload',
+  canEdit,
+  singleFileUpload('file'),
+  productImageController.uploadHandler
+);
+router.put('/product/:productId/image/reorder', canEdit, productImageController.reorderHandler);
+router.get('/product-image/:id', productImageCache, productImageController.getHandler);
+router.put('/product-image/:id', canEdit, productImageController.updateHandler);
+router.delete('/product-image/:id', canEdit, productImageController.deleteHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Order routes - /api/internal/order
+ */
+router.get('/order', canEdit, orderController.listHandler);
+router.get('/order/:id', canEdit, orderController.getHandler);
+router.post('/order/:id/status', canEdit, orderController.updateStatusHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Auth routes - /api/internal/auth
+ */
+router.post('/auth/logout', authMiddleware, authController.logoutHandler);
+router.get('/auth/me', authMiddleware, authController.meHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * User routes - /api/internal/user
+ */
+router.get('/user', adminOnly, userController.listHandler);
+router.get('/user/:id', adminOnly, userController.getHandler);
+router.post('/user', adminOnly, userController.createHandler);
+router.put('/user/:id', adminOnly, userController.updateHandler);
+router.delete('/user/:id', adminOnly, userController.deleteHandler);
 
 export default router;
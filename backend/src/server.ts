@@ -7,6 +7,7 @@
  * @module server
  */
 
+import path from 'path';
 import express, { Application, Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
@@ -15,6 +16,7 @@ import { config } from '@/config';
 import { errorMiddleware } from '@/middleware/error';
 import { notFoundMiddleware } from '@/middleware/notFound';
 import apiRoutes from '@/routes';
+import { categoryRecountProducts } from '@/services/category';
 
 const app: Application = express();
 
@@ -45,6 +47,21 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * @rule {be-uploaded-files}
+ * Serve files written by the local upload storage; keys are unique per upload so they never change
+ */
+if (config.uploads.driver === 'local') {
+  app.use(
+    config.uploads.routePath,
+    express.static(path.resolve(config.uploads.dir), {
+      immutable: true,
+      maxAge: '365d',
+      setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+    })
+  );
+}
+
 /**
  * @rule {be-api-versioning}
  * Mount API routes with version prefix
@@ -60,15 +77,24 @@ app.use(errorMiddleware);
 
 /**
  * @rule {be-graceful-shutdown}
- * Handle graceful shutdown on SIGTERM
+ * Handle graceful shutdown on SIGTERM and SIGINT; exiting writes pending file storage snapshots
  */
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, closing server gracefully');
+const shutdown = (signal: NodeJS.Signals) => {
+  console.log(`${signal} received, closing server gracefully`);
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
   });
-});
+};
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+
+/**
+ * @rule {be-derived-data}
+ * Rebuild category product counts from current product assignments
+ */
+categoryRecountProducts();
 
 /**
  * @rule {be-server-startup}
@@ -0,0 +1,227 @@
+/**
+ * @summary
+ * Business logic for authentication.
+ * Verifies credentials, issues signed tokens backed by revocable sessions
+ * and resolves the identity of incoming requests.
+ *
+ * @module services/auth/authService
+ */
+
+import { randomUUID } from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { config } from '@/config';
+import { USER_ROLES } from '@/constants';
+import { sessionStore, userStore, UserRecord } from '@/instances';
+import { userCreate } from '@/services/user';
+import { ServiceError } from '@/utils';
+import { AuthContext, AuthLoginResponse, AuthTokenPayload, AuthUser } from './authTypes';
+import { loginSchema, registerSchema } from './authValidation';
+
+/**
+ * Hash compared when the email matches no user, so unknown emails take as long
+ * to reject as wrong passwords and response timing does not reveal accounts
+ */
+const MISSING_USER_HASH = bcrypt.hashSync(randomUUID(), config.security.bcryptRounds);
+
+/**
+ * @summary
+ * Maps a stored user to its public representation.
+ *
+ * @function toAuthUser
+ * @param {UserRecord} record - Stored user record
+ * @returns {AuthUser} User without credentials
+ */
+function toAuthUser(record: UserRecord): AuthUser {
+  return { id: record.id, name: record.name, email: record.email, role: record.role };
+}
+
+/**
+ * @summary
+ * Opens a session for an authenticated user and signs its token.
+ *
+ * @function openSession
+ * @param {UserRecord} user - User to sign in
+ * @returns {AuthLoginResponse} Signed token, expiration date and user
+ */
+function openSession(user: UserRecord): AuthLoginResponse {
+  sessionStore.deleteExpired();
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + config.security.tokenExpiresInSeconds * 1000);
+  const tokenId = randomUUID();
+
+  sessionStore.add({
+    id: sessionStore.getNextId(),
+    userId: user.id,
+    tokenId,
+    expiresAt: expiresAt.toISOString(),
+    dateCreated: now.toISOString(),
+  });
+
+  userStore.update(user.id, { lastLoginAt: now.toISOString() });
+
+  const payload: AuthTokenPayload = { sub: String(user.id), jti: tokenId, role: user.role };
+  const token = jwt.sign(payload, config.security.tokenSecret, {
+    expiresIn: config.security.tokenExpiresInSeconds,
+  });
+
+  return { token, expiresAt: expiresAt.toISOString(), user: toAuthUser(user) };
+}
+
+/**
+ * @summary
+ * Authenticates a user by email and password and opens a session.
+ *
+ * @function authLogin
+ * @module services/auth
+ *
+ * @param {unknown} body - Raw request body containing email and password
+ * @returns {Promise<AuthLoginResponse>} Signed token, expiration date and user
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails validation
+ * @throws {ServiceError} UNAUTHORIZED (401) - When credentials are invalid or user is inactive
+ *
+ * @example
+ * const session = await authLogin({ email: 'admin@lozoriomoveis.com.br', password: '...' });
+ * // Returns: { token: 'eyJ...', expiresAt: '...', user: { id: 1, role: 'admin', ... } }
+ */
+export async function authLogin(body: unknown): Promise<AuthLoginResponse> {
+  const validation = loginSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const { email, password } = validation.data;
+  const user = userStore.getByEmail(email);
+
+  const passwordMatches = await bcrypt.compare(password, user?.passwordHash ?? MISSING_USER_HASH);
+
+  if (!user || !passwordMatches || !user.active) {
+    throw new ServiceError('UNAUTHORIZED', 'Invalid email or password', 401);
+  }
+
+  return openSession(user);
+}
+
+/**
+ * @summary
+ * Creates a customer account from the storefront and signs it in.
+ * Staff accounts are still created by admins through the user service.
+ *
+ * @function authRegister
+ * @module services/auth
+ *
+ * @param {unknown} body - Raw request body containing name, email and password
+ * @returns {Promise<AuthLoginResponse>} Signed token, expiration date and the new user
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails validation
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When email is already in use
+ *
+ * @example
+ * const session = await authRegister({ name: 'Ana Souza', email: 'ana@example.com', password: '...' });
+ * // Returns: { token: 'eyJ...', expiresAt: '...', user: { id: 2, role: 'customer', ... } }
+ */
+export async function authRegister(body: unknown): Promise<AuthLoginResponse> {
+  const validation = registerSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const created = await userCreate({ ...validation.data, role: USER_ROLES.CUSTOMER });
+  const user = userStore.getById(created.id);
+
+  if (!user) {
+    throw new ServiceError('NOT_FOUND', 'User not found', 404);
+  }
+
+  return openSession(user);
+}
+
+/**
+ * @summary
+ * Resolves a bearer token into the identity of its session.
+ *
+ * @function authVerifyToken
+ * @module services/auth
+ *
+ * @param {string} token - Signed access token
+ * @returns {Promise<AuthContext>} User, session and role of the token owner
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When token is invalid, expired or revoked
+ *
+ * @example
+ * const auth = await authVerifyToken('eyJ...');
+ * // Returns: { userId: 1, sessionId: 3, role: 'admin' }
+ */
+export async function authVerifyToken(token: string): Promise<AuthContext> {
+  let payload: AuthTokenPayload;
+
+  try {
+    payload = jwt.verify(token, config.security.tokenSecret) as AuthTokenPayload;
+  } catch {
+    throw new ServiceError('UNAUTHORIZED', 'Invalid or expired token', 401);
+  }
+
+  const session = sessionStore.getByTokenId(payload.jti);
+
+  if (!session || new Date(session.expiresAt) <= new Date()) {
+    throw new ServiceError('UNAUTHORIZED', 'Session is no longer valid', 401);
+  }
+
+  const user = userStore.getById(session.userId);
+
+  if (!user || !user.active) {
+    throw new ServiceError('UNAUTHORIZED', 'User is not active', 401);
+  }
+
+  // Role comes from the stored user so role changes apply to open sessions
+  return { userId: user.id, sessionId: session.id, role: user.role };
+}
+
+/**
+ * @summary
+ * Ends the session of the current request.
+ *
+ * @function authLogout
+ * @module services/auth
+ *
+ * @param {AuthContext} auth - Identity of the current request
+ * @returns {Promise<{ message: string }>} Success confirmation message
+ *
+ * @example
+ * const result = await authLogout(req.auth);
+ * // Returns: { message: 'Logged out successfully' }
+ */
+export async function authLogout(auth: AuthContext): Promise<{ message: string }> {
+  sessionStore.delete(auth.sessionId);
+  return { message: 'Logged out successfully' };
+}
+
+/**
+ * @summary
+ * Retrieves the user that owns the current session.
+ *
+ * @function authGetCurrentUser
+ * @module services/auth
+ *
+ * @param {AuthContext} auth - Identity of the current request
+ * @returns {Promise<AuthUser>} Authenticated user
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When the user no longer exists
+ *
+ * @example
+ * const user = await authGetCurrentUser(req.auth);
+ * // Returns: { id: 1, name: 'Administrador', email: '...', role: 'admin' }
+ */
+export async function authGetCurrentUser(auth: AuthContext): Promise<AuthUser> {
+  const user = userStore.getById(auth.userId);
+
+  if (!user) {
+    throw new ServiceError('UNAUTHORIZED', 'User not found', 401);
+  }
+
+  return toAuthUser(user);
+}
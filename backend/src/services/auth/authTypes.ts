@@ -0,0 +1,68 @@
+/**
+ * @summary
+ * Type definitions for authentication.
+ *
+ * @module services/auth/authTypes
+ */
+
+import type { UserRole } from '@/constants';
+
+/**
+ * @interface AuthUser
+ * @description Public representation of the authenticated user
+ */
+export interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * @interface AuthContext
+ * @description Identity attached to an authenticated request
+ */
+export interface AuthContext {
+  userId: number;
+  sessionId: number;
+  role: UserRole;
+}
+
+/**
+ * @interface AuthLoginRequest
+ * @description Request payload for login
+ */
+export interface AuthLoginRequest {
+  email: string;
+  password: string;
+}
+
+/**
+ * @interface AuthRegisterRequest
+ * @description Request payload for customer sign-up
+ */
+export interface AuthRegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
+/**
+ * @interface AuthLoginResponse
+ * @description Response structure for a successful login or sign-up
+ */
+export interface AuthLoginResponse {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+}
+
+/**
+ * @interface AuthTokenPayload
+ * @description Claims carried by a signed access token
+ */
+export interface AuthTokenPayload {
+  sub: string;
+  jti: string;
+  role: UserRole;
+}
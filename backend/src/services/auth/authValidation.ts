@@ -0,0 +1,33 @@
+/**
+ * @summary
+ * Validation schemas for authentication.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/auth/authValidation
+ */
+
+import { z } from 'zod';
+import { USER_LIMITS } from '@/constants';
+
+/**
+ * Schema for login request validation
+ */
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(USER_LIMITS.EMAIL_MAX_LENGTH),
+  password: z.string().min(1).max(USER_LIMITS.PASSWORD_MAX_LENGTH),
+});
+
+/**
+ * Schema for customer sign-up request validation
+ */
+export const registerSchema = z.object({
+  name: z.string().trim().min(USER_LIMITS.NAME_MIN_LENGTH).max(USER_LIMITS.NAME_MAX_LENGTH),
+  email: z.string().trim().toLowerCase().email().max(USER_LIMITS.EMAIL_MAX_LENGTH),
+  password: z.string().min(USER_LIMITS.PASSWORD_MIN_LENGTH).max(USER_LIMITS.PASSWORD_MAX_LENGTH),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type LoginInput = z.infer<typeof loginSchema>;
+export type RegisterInput = z.infer<typeof registerSchema>;
@@ -0,0 +1,629 @@
+/**
+ * @summary
+ * Business logic for Cart entity.
+ * Keeps shopping carts for anonymous shoppers, identified by a random token,
+ * and for authenticated users. Lines store only product, variant and quantity; prices
+ * and totals are recomputed from current product prices on every read. Anonymous carts
+ * expire after a period without changes.
+ *
+ * @module services/cart/cartService
+ */
+
+import crypto from 'crypto';
+import { CART_DEFAULTS, CART_LIMITS } from '@/constants';
+import { cartStore, CartLineRecord, CartRecord } from '@/instances';
+import {
+  productGetManyPublic,
+  productGetVariantsPublic,
+  type ProductAvailability,
+  type ProductPublicListItem,
+  type ProductPublicVariant,
+} from '@/services/product';
+import { ServiceError } from '@/utils';
+import { CartLine, CartResponse } from './cartTypes';
+import {
+  addItemSchema,
+  cartItemParamsSchema,
+  cartOwnerSchema,
+  CartOwnerInput,
+  updateItemSchema,
+} from './cartValidation';
+
+/**
+ * @summary
+ * Rounds a monetary value to cents.
+ *
+ * @function roundCurrency
+ * @param {number} value - Amount in BRL
+ * @returns {number} Amount rounded to two decimals
+ */
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * @summary
+ * Validates the cart owner resolved from the request.
+ *
+ * @function parseOwner
+ * @param {unknown} owner - User ID and/or anonymous token
+ * @returns {CartOwnerInput} Validated owner
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the cart token is malformed
+ */
+function parseOwner(owner: unknown): CartOwnerInput {
+  const validation = cartOwnerSchema.safeParse(owner);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid cart token', 400, validation.error.errors);
+  }
+
+  return validation.data;
+}
+
+/**
+ * @summary
+ * Tells whether an anonymous cart was left unchanged for longer than it is kept.
+ * User carts do not expire.
+ *
+ * @function isExpired
+ * @param {CartRecord} cart - Cart to check
+ * @param {number} [now] - Current time in milliseconds
+ * @returns {boolean} True when the cart is an expired anonymous cart
+ */
+function isExpired(cart: CartRecord, now: number = Date.now()): boolean {
+  const ttl = CART_DEFAULTS.ANONYMOUS_TTL_DAYS * 24 * 60 * 60 * 1000;
+  return cart.token !== null && Date.parse(cart.dateModified) < now - ttl;
+}
+
+/**
+ * @summary
+ * Finds the anonymous cart of a token, ignoring expired carts.
+ *
+ * @function findAnonymousCart
+ * @param {string | undefined} token - Anonymous cart token
+ * @returns {CartRecord | undefined} The cart, if one exists and has not expired
+ */
+function findAnonymousCart(token: string | undefined): CartRecord | undefined {
+  const cart = token ? cartStore.getByToken(token) : undefined;
+  return cart && !isExpired(cart) ? cart : undefined;
+}
+
+/**
+ * @summary
+ * Deletes expired anonymous carts. When storage is still full, the least recently
+ * changed anonymous cart is deleted to make room for a new one.
+ *
+ * @function removeExpiredCarts
+ * @returns {void}
+ */
+function removeExpiredCarts(): void {
+  const now = Date.now();
+  const anonymous = cartStore.getAnonymous();
+  const expired = anonymous.filter((cart) => isExpired(cart, now));
+
+  expired.forEach((cart) => cartStore.delete(cart.id));
+
+  const oldest = anonymous[expired.length];
+  if (oldest && cartStore.count() >= CART_DEFAULTS.MAX_RECORDS) {
+    cartStore.delete(oldest.id);
+  }
+}
+
+/**
+ * @summary
+ * Finds the cart of an owner. Authenticated users always use their user cart.
+ *
+ * @function findCart
+ * @param {CartOwnerInput} owner - Validated owner
+ * @returns {CartRecord | undefined} The cart, if one exists
+ */
+function findCart(owner: CartOwnerInput): CartRecord | undefined {
+  if (owner.userId !== undefined) {
+    return cartStore.getByUserId(owner.userId);
+  }
+  return findAnonymousCart(owner.token);
+}
+
+/**
+ * @summary
+ * Finds the cart of an owner, creating an empty one when none exists.
+ * Anonymous owners without a known token get a cart with a new token; expired
+ * anonymous carts are cleaned up first, so storage holds only recent carts.
+ *
+ * @function findOrCreateCart
+ * @param {CartOwnerInput} owner - Validated owner
+ * @returns {CartRecord} Existing or new cart
+ */
+function findOrCreateCart(owner: CartOwnerInput): CartRecord {
+  const existing = findCart(owner);
+  if (existing) {
+    return existing;
+  }
+
+  if (owner.userId === undefined) {
+    removeExpiredCarts();
+  }
+
+  const now = new Date().toISOString();
+  return cartStore.add({
+    id: cartStore.getNextId(),
+    token:
+      owner.userId === undefined
+        ? crypto.randomBytes(CART_DEFAULTS.TOKEN_BYTES).toString('base64url')
+        : null,
+    userId: owner.userId ?? null,
+    items: [],
+    dateCreated: now,
+    dateModified: now,
+  });
+}
+
+/**
+ * @summary
+ * Replaces the lines of a cart.
+ *
+ * @function saveItems
+ * @param {CartRecord} cart - Cart to update
+ * @param {CartLineRecord[]} items - New lines
+ * @returns {CartRecord} Updated cart
+ */
+function saveItems(cart: CartRecord, items: CartLineRecord[]): CartRecord {
+  return cartStore.update(cart.id, { items, dateModified: new Date().toISOString() }) ?? cart;
+}
+
+/**
+ * @summary
+ * Tells whether a stored line is the line of a product and variant.
+ *
+ * @function isLine
+ * @param {CartLineRecord} line - Stored line
+ * @param {number} productId - Product ID
+ * @param {number | null} variantId - Variant ID, null for products without variants
+ * @returns {boolean} True when the line holds that product and variant
+ */
+function isLine(line: CartLineRecord, productId: number, variantId: number | null): boolean {
+  return line.productId === productId && line.variantId === variantId;
+}
+
+/**
+ * @summary
+ * Resolves the product and chosen variant of cart lines at current prices. Lines whose
+ * product no longer exists or is hidden, whose variant no longer exists, or that lack a
+ * variant the product now requires resolve to undefined.
+ *
+ * @function resolveLines
+ * @param {Pick<CartLineRecord, 'productId' | 'variantId'>[]} lines - Lines to resolve
+ * @returns {Promise<Array>} Product and variant per line, in the order of the lines
+ */
+async function resolveLines(
+  lines: Pick<CartLineRecord, 'productId' | 'variantId'>[]
+): Promise<
+  ({ product: ProductPublicListItem; variant: ProductPublicVariant | null } | undefined)[]
+> {
+  const productIds = [...new Set(lines.map((line) => line.productId))];
+  const products = new Map(
+    (await productGetManyPublic(productIds)).map((product) => [product.id, product])
+  );
+  const variants = await productGetVariantsPublic(productIds);
+
+  return lines.map(({ productId, variantId }) => {
+    const product = products.get(productId);
+    if (!product || product.hasVariants !== (variantId !== null)) {
+      return undefined;
+    }
+
+    const variant = variants.get(productId)?.find((v) => v.id === variantId) ?? null;
+    return variantId === null || variant ? { product, variant } : undefined;
+  });
+}
+
+/**
+ * @summary
+ * Checks that the units wanted can be sold. Products and variants that are not made to
+ * order are limited to the units available.
+ *
+ * @function validateAvailability
+ * @param {ProductAvailability} availability - Availability of the product or chosen variant
+ * @param {number} quantity - Units wanted in the cart
+ * @throws {ServiceError} When the product lacks units
+ */
+function validateAvailability(availability: ProductAvailability, quantity: number): void {
+  const { available, leadTimeDays } = availability;
+
+  if (leadTimeDays === null && quantity > available) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      available === 0 ? 'Product is out of stock' : `Only ${available} units are available`,
+      400,
+      { available }
+    );
+  }
+}
+
+/**
+ * @summary
+ * Prices the lines of a cart at current product prices. Lines whose product no
+ * longer exists, is hidden or is now priced on request, or whose variant is gone,
+ * are left out of the response; they are removed from storage only when pruning,
+ * so reads never write.
+ *
+ * @function toCartResponse
+ * @param {CartRecord | undefined} cart - Cart to price; undefined yields an empty cart
+ * @param {boolean} [prune] - Whether to remove the unavailable lines from storage
+ * @returns {Promise<CartResponse>} Priced cart with totals
+ */
+async function toCartResponse(
+  cart: CartRecord | undefined,
+  prune: boolean = false
+): Promise<CartResponse> {
+  if (!cart) {
+    return {
+      token: null,
+      items: [],
+      itemCount: 0,
+      listTotal: 0,
+      discount: 0,
+      subtotal: 0,
+      removedProductIds: [],
+    };
+  }
+
+  const resolved = await resolveLines(cart.items);
+
+  const items: CartLine[] = [];
+  const removedLines = new Set<CartLineRecord>();
+  let listTotal = 0;
+
+  cart.items.forEach((line, index) => {
+    const { product, variant } = resolved[index] ?? {};
+    const price = (variant ?? product)?.price;
+    if (!product || !price) {
+      removedLines.add(line);
+      return;
+    }
+    listTotal += price.listPrice * line.quantity;
+    items.push({
+      product,
+      variant: variant ?? null,
+      quantity: line.quantity,
+      unitPrice: price.currentPrice,
+      lineTotal: roundCurrency(price.currentPrice * line.quantity),
+      dateAdded: line.dateAdded,
+    });
+  });
+
+  if (prune && removedLines.size > 0) {
+    saveItems(
+      cart,
+      cart.items.filter((line) => !removedLines.has(line))
+    );
+  }
+
+  const subtotal = roundCurrency(items.reduce((sum, line) => sum + line.lineTotal, 0));
+
+  return {
+    token: cart.token,
+    items,
+    itemCount: items.reduce((sum, line) => sum + line.quantity, 0),
+    listTotal: roundCurrency(listTotal),
+    discount: roundCurrency(listTotal - subtotal),
+    subtotal,
+    removedProductIds: [...new Set([...removedLines].map((line) => line.productId))],
+  };
+}
+
+/**
+ * @summary
+ * Gets the cart of the request owner, priced at current product prices.
+ * Owners without a cart get an empty one with a null token.
+ *
+ * @function cartGet
+ * @module services/cart
+ *
+ * @param {unknown} owner - User ID and/or anonymous token of the request
+ * @returns {Promise<CartResponse>} The cart
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the cart token is malformed
+ *
+ * @example
+ * const cart = await cartGet({ token: 'q3J...' });
+ * // Returns: { token: 'q3J...', items: [...], itemCount: 2, subtotal: 4398, ... }
+ */
+export async function cartGet(owner: unknown): Promise<CartResponse> {
+  return toCartResponse(findCart(parseOwner(owner)));
+}
+
+/**
+ * @summary
+ * Gets the cart of the request owner like cartGet, and removes the lines no longer
+ * available from storage. Called by checkout, so a cart reported with removed
+ * products can be checked out on the next attempt.
+ *
+ * @function cartRefresh
+ * @module services/cart
+ *
+ * @param {unknown} owner - User ID and/or anonymous token of the request
+ * @returns {Promise<CartResponse>} The cart; removedProductIds lists the lines just removed
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the cart token is malformed
+ *
+ * @example
+ * const cart = await cartRefresh({ userId: 1 });
+ */
+export async function cartRefresh(owner: unknown): Promise<CartResponse> {
+  return toCartResponse(findCart(parseOwner(owner)), true);
+}
+
+/**
+ * @summary
+ * Adds units of a product to the cart, creating the cart if needed. Products with
+ * variants are added per variant, which must be chosen.
+ * Anonymous shoppers receive the token of the new cart in the response.
+ *
+ * @function cartAddItem
+ * @module services/cart
+ *
+ * @param {unknown} owner - User ID and/or anonymous token of the request
+ * @param {unknown} body - Raw request body with productId, variantId and quantity
+ * @returns {Promise<CartResponse>} The updated cart
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the token or the body is invalid, or the
+ *   product has variants and none is chosen
+ * @throws {ServiceError} NOT_FOUND (404) - When the product does not exist or is hidden, or the
+ *   variant does not exist
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the product is priced on request, lacks
+ *   stock or a cart limit would be exceeded
+ *
+ * @example
+ * const cart = await cartAddItem({}, { productId: 1, variantId: 2, quantity: 2 });
+ */
+export async function cartAddItem(owner: unknown, body: unknown): Promise<CartResponse> {
+  const cartOwner = parseOwner(owner);
+  const validation = addItemSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const { productId, variantId, quantity } = validation.data;
+  const [product] = await productGetManyPublic([productId]);
+
+  if (!product) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  if (product.hasVariants && variantId === null) {
+    throw new ServiceError('VALIDATION_ERROR', 'Choose a variant of the product', 400, [
+      { path: ['variantId'], message: 'Required for products with variants' },
+    ]);
+  }
+
+  const [line] = await resolveLines([{ productId, variantId }]);
+
+  if (!line) {
+    throw new ServiceError('NOT_FOUND', 'Product variant not found', 404);
+  }
+
+  const { price, availability } = line.variant ?? line.product;
+
+  if (!price) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      'Products priced on request cannot be added to the cart',
+      400
+    );
+  }
+
+  const cart = findOrCreateCart(cartOwner);
+  const existing = cart.items.find((item) => isLine(item, productId, variantId));
+
+  if (existing && existing.quantity + quantity > CART_LIMITS.QUANTITY_MAX) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `At most ${CART_LIMITS.QUANTITY_MAX} units of a product are allowed per cart`,
+      400
+    );
+  }
+
+  validateAvailability(availability, (existing?.quantity ?? 0) + quantity);
+
+  if (!existing && cart.items.length >= CART_LIMITS.ITEMS_MAX) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `At most ${CART_LIMITS.ITEMS_MAX} different products are allowed per cart`,
+      400
+    );
+  }
+
+  const items = existing
+    ? cart.items.map((item) =>
+        item === existing ? { ...item, quantity: item.quantity + quantity } : item
+      )
+    : [...cart.items, { productId, variantId, quantity, dateAdded: new Date().toISOString() }];
+
+  return toCartResponse(saveItems(cart, items), true);
+}
+
+/**
+ * @summary
+ * Sets the quantity of a product already in the cart.
+ *
+ * @function cartUpdateItem
+ * @module services/cart
+ *
+ * @param {unknown} owner - User ID and/or anonymous token of the request
+ * @param {unknown} params - Raw request params containing the product ID and, for products with
+ *   variants, the variant ID
+ * @param {unknown} body - Raw request body with the new quantity
+ * @returns {Promise<CartResponse>} The updated cart
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the token, params or body are invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When the product is not in the cart
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the product lacks stock
+ *
+ * @example
+ * const cart = await cartUpdateItem({ userId: 1 }, { productId: '3', variantId: '1' }, { quantity: 4 });
+ */
+export async function cartUpdateItem(
+  owner: unknown,
+  params: unknown,
+  body: unknown
+): Promise<CartResponse> {
+  const cartOwner = parseOwner(owner);
+  const paramsValidation = cartItemParamsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid product ID',
+      400,
+      paramsValidation.error.errors
+    );
+  }
+
+  const validation = updateItemSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const { productId, variantId } = paramsValidation.data;
+  const cart = findCart(cartOwner);
+
+  if (!cart || !cart.items.some((line) => isLine(line, productId, variantId))) {
+    throw new ServiceError('NOT_FOUND', 'Product is not in the cart', 404);
+  }
+
+  // Products no longer available are dropped by the response instead
+  const [line] = await resolveLines([{ productId, variantId }]);
+  if (line) {
+    validateAvailability((line.variant ?? line.product).availability, validation.data.quantity);
+  }
+
+  const items = cart.items.map((item) =>
+    isLine(item, productId, variantId) ? { ...item, quantity: validation.data.quantity } : item
+  );
+
+  return toCartResponse(saveItems(cart, items), true);
+}
+
+/**
+ * @summary
+ * Removes a product from the cart.
+ *
+ * @function cartRemoveItem
+ * @module services/cart
+ *
+ * @param {unknown} owner - User ID and/or anonymous token of the request
+ * @param {unknown} params - Raw request params containing the product ID and, for products with
+ *   variants, the variant ID
+ * @returns {Promise<CartResponse>} The updated cart
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the token or params are invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When the product is not in the cart
+ *
+ * @example
+ * const cart = await cartRemoveItem({ token: 'q3J...' }, { productId: '3' });
+ */
+export async function cartRemoveItem(owner: unknown, params: unknown): Promise<CartResponse> {
+  const cartOwner = parseOwner(owner);
+  const validation = cartItemParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid product ID', 400, validation.error.errors);
+  }
+
+  const { productId, variantId } = validation.data;
+  const cart = findCart(cartOwner);
+
+  if (!cart || !cart.items.some((line) => isLine(line, productId, variantId))) {
+    throw new ServiceError('NOT_FOUND', 'Product is not in the cart', 404);
+  }
+
+  return toCartResponse(
+    saveItems(
+      cart,
+      cart.items.filter((line) => !isLine(line, productId, variantId))
+    ),
+    true
+  );
+}
+
+/**
+ * @summary
+ * Removes every line from the cart. The cart and its token are kept.
+ *
+ * @function cartClear
+ * @module services/cart
+ *
+ * @param {unknown} owner - User ID and/or anonymous token of the request
+ * @returns {Promise<CartResponse>} The empty cart
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the cart token is malformed
+ *
+ * @example
+ * const cart = await cartClear({ userId: 1 });
+ */
+export async function cartClear(owner: unknown): Promise<CartResponse> {
+  const cart = findCart(parseOwner(owner));
+  return toCartResponse(cart && saveItems(cart, []));
+}
+
+/**
+ * @summary
+ * Moves the anonymous cart of a token into the cart of the authenticated user.
+ * Quantities of products (and variants) in both carts are added up to the per-product limit;
+ * products beyond the cart limit are dropped. The anonymous cart is removed.
+ *
+ * @function cartMerge
+ * @module services/cart
+ *
+ * @param {unknown} owner - Authenticated user ID and the anonymous token to merge
+ * @returns {Promise<CartResponse>} The user cart
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the cart token is malformed
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ *
+ * @example
+ * const cart = await cartMerge({ userId: 1, token: 'q3J...' });
+ */
+export async function cartMerge(owner: unknown): Promise<CartResponse> {
+  const { userId, token } = parseOwner(owner);
+
+  if (userId === undefined) {
+    throw new ServiceError('UNAUTHORIZED', 'Authentication required', 401);
+  }
+
+  const anonymous = findAnonymousCart(token);
+  const userCart = cartStore.getByUserId(userId);
+
+  if (!anonymous) {
+    return toCartResponse(userCart);
+  }
+
+  if (!userCart) {
+    const adopted = cartStore.update(anonymous.id, {
+      token: null,
+      userId,
+      dateModified: new Date().toISOString(),
+    });
+    return toCartResponse(adopted, true);
+  }
+
+  const items = [...userCart.items];
+  anonymous.items.forEach((line) => {
+    const index = items.findIndex((item) => isLine(item, line.productId, line.variantId));
+    if (index !== -1) {
+      items[index] = {
+        ...items[index],
+        quantity: Math.min(items[index].quantity + line.quantity, CART_LIMITS.QUANTITY_MAX),
+      };
+    } else if (items.length < CART_LIMITS.ITEMS_MAX) {
+      items.push(line);
+    }
+  });
+
+  cartStore.delete(anonymous.id);
+  return toCartResponse(saveItems(userCart, items), true);
+}
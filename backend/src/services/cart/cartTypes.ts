@@ -0,0 +1,86 @@
+/**
+ * @summary
+ * Type definitions for Cart entity.
+ *
+ * @module services/cart/cartTypes
+ */
+
+import type { ProductPublicListItem, ProductPublicVariant } from '@/services/product';
+
+/**
+ * @interface CartOwner
+ * @description Identifies the cart of a request: the user cart when authenticated,
+ * otherwise the anonymous cart of the token
+ *
+ * @property {number} [userId] - Authenticated user
+ * @property {string} [token] - Anonymous cart token sent in the X-Cart-Token header
+ */
+export interface CartOwner {
+  userId?: number;
+  token?: string;
+}
+
+/**
+ * @interface CartLine
+ * @description Cart line priced at the product's current price
+ *
+ * @property {ProductPublicListItem} product - Product as listed on the storefront
+ * @property {ProductPublicVariant|null} variant - Chosen variant, whose price and availability
+ *   apply to the line; null for products without variants
+ * @property {number} quantity - Units of the product
+ * @property {number} unitPrice - Current price of one unit, in BRL
+ * @property {number} lineTotal - Unit price times quantity
+ * @property {string} dateAdded - When the product was first added (ISO 8601)
+ */
+export interface CartLine {
+  product: ProductPublicListItem;
+  variant: ProductPublicVariant | null;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  dateAdded: string;
+}
+
+/**
+ * @interface CartResponse
+ * @description Cart with totals recomputed from current product prices
+ *
+ * @property {string|null} token - Anonymous cart token to send back in X-Cart-Token, null for user carts
+ *   and when no cart exists yet
+ * @property {CartLine[]} items - Lines in the order products were added
+ * @property {number} itemCount - Total units
+ * @property {number} listTotal - Total at regular prices
+ * @property {number} discount - Savings from active promotions
+ * @property {number} subtotal - Total at current prices
+ * @property {number[]} removedProductIds - Products left out of the cart because they no longer
+ *   exist, are hidden, lost their price or the chosen variant; reported until the cart next changes
+ */
+export interface CartResponse {
+  token: string | null;
+  items: CartLine[];
+  itemCount: number;
+  listTotal: number;
+  discount: number;
+  subtotal: number;
+  removedProductIds: number[];
+}
+
+/**
+ * @interface CartAddItemRequest
+ * @description Request payload for adding a product to the cart
+ */
+export interface CartAddItemRequest {
+  productId: number;
+  /** Required for products with variants */
+  variantId?: number;
+  /** Units to add (default: 1); added to the units already in the cart */
+  quantity?: number;
+}
+
+/**
+ * @interface CartUpdateItemRequest
+ * @description Request payload for changing the quantity of a cart line
+ */
+export interface CartUpdateItemRequest {
+  quantity: number;
+}
@@ -0,0 +1,54 @@
+/**
+ * @summary
+ * Validation schemas for Cart entity.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/cart/cartValidation
+ */
+
+import { z } from 'zod';
+import { CART_LIMITS } from '@/constants';
+
+/**
+ * Schema for the cart owner resolved from the request
+ */
+export const cartOwnerSchema = z.object({
+  userId: z.number().int().positive().optional(),
+  token: z
+    .string()
+    .length(CART_LIMITS.TOKEN_LENGTH)
+    .regex(/^[A-Za-z0-9_-]+$/, 'Invalid cart token')
+    .optional(),
+});
+
+/**
+ * Schema for add item request validation
+ */
+export const addItemSchema = z.object({
+  productId: z.number().int().positive(),
+  variantId: z.number().int().positive().nullable().default(null),
+  quantity: z.number().int().min(1).max(CART_LIMITS.QUANTITY_MAX).default(1),
+});
+
+/**
+ * Schema for update item request validation
+ */
+export const updateItemSchema = z.object({
+  quantity: z.number().int().min(1).max(CART_LIMITS.QUANTITY_MAX),
+});
+
+/**
+ * Schema for cart line parameter validation; lines of products without variants have no variantId
+ */
+export const cartItemParamsSchema = z.object({
+  productId: z.coerce.number().int().positive(),
+  variantId: z.coerce.number().int().positive().nullable().default(null),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type CartOwnerInput = z.infer<typeof cartOwnerSchema>;
+export type AddItemInput = z.infer<typeof addItemSchema>;
+export type UpdateItemInput = z.infer<typeof updateItemSchema>;
+export type CartItemParamsInput = z.infer<typeof cartItemParamsSchema>;
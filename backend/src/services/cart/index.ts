@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for Cart service.
+ *
+ * @module services/cart
+ */
+
+export * from './cartTypes';
+export * from './cartService';
+export * from './cartValidation';
@@ -8,13 +8,23 @@
  */
 
 import { CATEGORY_DEFAULTS } from '@/constants';
-import { categoryStore } from '@/instances';
-import { ServiceError } from '@/utils';
-import { CategoryEntity, CategoryListItem, CategoryFeaturedItem } from './categoryTypes';
+import { categoryStore, productStore, productSearchIndex } from '@/instances';
+import { ServiceError, createPagination, foldAccents } from '@/utils';
+import {
+  CategoryEntity,
+  CategoryListItem,
+  CategoryFeaturedItem,
+  CategoryPublicListItem,
+  CategoryPublicDetail,
+  CategoryListResponse,
+  CategoryRecountResponse,
+  CategoryAttributeDefinition,
+} from './categoryTypes';
 import {
   createSchema,
   updateSchema,
   listQuerySchema,
+  publicListQuerySchema,
   categoryParamsSchema,
   categorySlugParamsSchema,
 } from './categoryValidation';
@@ -28,10 +38,7 @@ import {
  * @returns {string} URL-friendly slug
  */
 function generateSlug(name: string): string {
-  return name
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
+  return foldAccents(name)
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/^-+|-+$/g, '');
 }
@@ -66,6 +73,37 @@ function calculateLevel(parentId: number | null): number {
   return newLevel;
 }
 
+/**
+ * @summary
+ * Calculates how many hierarchy levels exist below a category.
+ *
+ * @function calculateSubtreeDepth
+ * @param {number} categoryId - Category ID
+ * @returns {number} Number of levels below the category (0 for a leaf)
+ */
+function calculateSubtreeDepth(categoryId: number): number {
+  const children = categoryStore.getAll().filter((c) => c.parentId === categoryId);
+  return children.reduce((depth, c) => Math.max(depth, calculateSubtreeDepth(c.id) + 1), 0);
+}
+
+/**
+ * @summary
+ * Recomputes the level of every descendant after a category moves.
+ *
+ * @function updateDescendantLevels
+ * @param {number} categoryId - Category ID whose level changed
+ * @param {number} level - New level of the category
+ */
+function updateDescendantLevels(categoryId: number, level: number): void {
+  categoryStore
+    .getAll()
+    .filter((c) => c.parentId === categoryId)
+    .forEach((c) => {
+      categoryStore.update(c.id, { level: level + 1 });
+      updateDescendantLevels(c.id, level + 1);
+    });
+}
+
 /**
  * @summary
  * Validates that category name is unique at the same hierarchy level.
@@ -160,11 +198,11 @@ function validateNoCycle(categoryId: number, parentId: number | null): void {
 
 /**
  * @summary
- * Updates product count for a category and its ancestors.
+ * Updates the rolled-up product count for a category and its ancestors.
  *
  * @function updateProductCount
  * @param {number} categoryId - Category ID
- * @param {number} delta - Change in product count (+1 or -1)
+ * @param {number} delta - Change in product count (positive or negative)
  */
 function updateProductCount(categoryId: number, delta: number): void {
   const category = categoryStore.getById(categoryId);
@@ -184,13 +222,112 @@ function updateProductCount(categoryId: number, delta: number): void {
 
 /**
  * @summary
- * Lists categories with optional filtering.
+ * Collects the IDs of categories visible on the storefront:
+ * active categories whose ancestors are all active.
+ *
+ * @function collectVisibleCategoryIds
+ * @returns {Set<number>} Visible category IDs
+ */
+function collectVisibleCategoryIds(): Set<number> {
+  const categories = categoryStore.getAll();
+  const visible = new Set<number>();
+  let frontier = categories.filter((c) => c.parentId === null && c.active).map((c) => c.id);
+
+  while (frontier.length > 0) {
+    frontier.forEach((id) => visible.add(id));
+    frontier = categories
+      .filter((c) => c.parentId !== null && frontier.includes(c.parentId) && c.active)
+      .filter((c) => !visible.has(c.id))
+      .map((c) => c.id);
+  }
+
+  return visible;
+}
+
+/**
+ * @summary
+ * Counts products in a category and its visible descendants.
+ *
+ * @function countVisibleProducts
+ * @param {number} categoryId - Category ID
+ * @param {Set<number>} visibleIds - Visible category IDs
+ * @returns {number} Number of products shoppers can reach through the category
+ */
+function countVisibleProducts(categoryId: number, visibleIds: Set<number>): number {
+  const category = categoryStore.getById(categoryId);
+  if (!category) {
+    return 0;
+  }
+
+  return categoryStore
+    .getAll()
+    .filter((c) => c.parentId === categoryId && visibleIds.has(c.id))
+    .reduce(
+      (total, c) => total + countVisibleProducts(c.id, visibleIds),
+      category.directProductCount
+    );
+}
+
+/**
+ * @summary
+ * Maps a category to its storefront listing representation.
+ *
+ * @function toPublicListItem
+ * @param {CategoryEntity} category - Category record
+ * @param {Set<number>} visibleIds - Visible category IDs
+ * @returns {CategoryPublicListItem} Category without administrative fields
+ */
+function toPublicListItem(
+  category: CategoryEntity,
+  visibleIds: Set<number>
+): CategoryPublicListItem {
+  return {
+    id: category.id,
+    name: category.name,
+    slug: category.slug,
+    parentId: category.parentId,
+    level: category.level,
+    description: category.description,
+    imageUrl: category.imageUrl,
+    productCount: countVisibleProducts(category.id, visibleIds),
+  };
+}
+
+/**
+ * @summary
+ * Slices the requested page of a category list. Lists requested without page
+ * and pageSize are returned whole, without pagination metadata.
+ *
+ * @function paginateCategories
+ * @param {T[]} items - Filtered and sorted list items
+ * @param {number} [page] - Requested page
+ * @param {number} [pageSize] - Requested page size
+ * @returns {CategoryListResponse<T>} Items of the page with pagination metadata
+ */
+function paginateCategories<T>(
+  items: T[],
+  page?: number,
+  pageSize?: number
+): CategoryListResponse<T> {
+  if (page === undefined && pageSize === undefined) {
+    return { items };
+  }
+
+  const size = pageSize ?? CATEGORY_DEFAULTS.PAGE_SIZE;
+  const offset = ((page ?? 1) - 1) * size;
+  const pagination = createPagination(items.length, offset, size);
+  return { items: items.slice(offset, offset + size), pagination };
+}
+
+/**
+ * @summary
+ * Lists categories with optional filtering and pagination.
  *
  * @function categoryList
  * @module services/category
  *
  * @param {unknown} query - Raw query parameters to validate
- * @returns {Promise<{ items: CategoryListItem[] }>} List of categories
+ * @returns {Promise<CategoryListResponse<CategoryListItem>>} List of categories
  *
  * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
  *
@@ -198,7 +335,9 @@ function updateProductCount(categoryId: number, delta: number): void {
  * const result = await categoryList({ parentId: 1, activeOnly: true });
  * // Returns: { items: [{ id: 2, name: 'Subcategory', ... }] }
  */
-export async function categoryList(query: unknown): Promise<{ items: CategoryListItem[] }> {
+export async function categoryList(
+  query: unknown
+): Promise<CategoryListResponse<CategoryListItem>> {
   const validation = listQuerySchema.safeParse(query);
 
   if (!validation.success) {
@@ -245,11 +384,64 @@ export async function categoryList(query: unknown): Promise<{ items: CategoryLis
     displayOrder: c.displayOrder,
     active: c.active,
     featured: c.featured,
+    metaTitle: c.metaTitle,
+    metaDescription: c.metaDescription,
+    attributes: c.attributes,
+    directProductCount: c.directProductCount,
     productCount: c.productCount,
     dateCreated: c.dateCreated,
+    dateModified: c.dateModified,
   }));
 
-  return { items };
+  return paginateCategories(items, params.page, params.pageSize);
+}
+
+/**
+ * @summary
+ * Lists storefront categories, optionally paginated. Inactive categories and everything
+ * below them are hidden.
+ *
+ * @function categoryListPublic
+ * @module services/category
+ *
+ * @param {unknown} query - Raw query parameters to validate
+ * @returns {Promise<CategoryListResponse<CategoryPublicListItem>>} List of visible categories
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const result = await categoryListPublic({ parentId: '1' });
+ * // Returns: { items: [{ id: 5, name: 'Sofás', productCount: 3, ... }] }
+ */
+export async function categoryListPublic(
+  query: unknown
+): Promise<CategoryListResponse<CategoryPublicListItem>> {
+  const validation = publicListQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  const params = validation.data;
+  const visibleIds = collectVisibleCategoryIds();
+
+  const categories = categoryStore
+    .getAll()
+    .filter((c) => visibleIds.has(c.id))
+    .filter((c) => params.parentId === undefined || c.parentId === params.parentId)
+    .filter((c) => params.featured !== true || c.featured)
+    .sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name));
+
+  return paginateCategories(
+    categories.map((c) => toPublicListItem(c, visibleIds)),
+    params.page,
+    params.pageSize
+  );
 }
 
 /**
@@ -315,6 +507,74 @@ export async function categoryGetBySlug(params: unknown): Promise<CategoryEntity
   return record as CategoryEntity;
 }
 
+/**
+ * @summary
+ * Gets featured storefront categories for homepage display.
+ *
+ * @function categoryGetFeaturedPublic
+ * @module services/category
+ *
+ * @returns {Promise<CategoryFeaturedItem[]>} List of visible featured categories
+ *
+ * @example
+ * const featured = await categoryGetFeaturedPublic();
+ * // Returns: [{ id: 1, name: 'Sala de Estar', productCount: 4, ... }]
+ */
+export async function categoryGetFeaturedPublic(): Promise<CategoryFeaturedItem[]> {
+  const visibleIds = collectVisibleCategoryIds();
+
+  return categoryStore
+    .getAll()
+    .filter((c) => visibleIds.has(c.id) && c.featured)
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map((c) => ({
+      id: c.id,
+      name: c.name,
+      slug: c.slug,
+      description: c.description,
+      imageUrl: c.imageUrl,
+      productCount: countVisibleProducts(c.id, visibleIds),
+    }));
+}
+
+/**
+ * @summary
+ * Retrieves a visible storefront category by its slug.
+ *
+ * @function categoryGetBySlugPublic
+ * @module services/category
+ *
+ * @param {unknown} params - Raw request params containing the slug to validate
+ * @returns {Promise<CategoryPublicDetail>} The found category without administrative fields
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When slug parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When category does not exist or is not visible
+ *
+ * @example
+ * const category = await categoryGetBySlugPublic({ slug: 'sala-de-estar' });
+ * // Returns: { id: 1, name: 'Sala de Estar', slug: 'sala-de-estar', metaTitle: ..., ... }
+ */
+export async function categoryGetBySlugPublic(params: unknown): Promise<CategoryPublicDetail> {
+  const validation = categorySlugParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid slug', 400, validation.error.errors);
+  }
+
+  const record = categoryStore.getBySlug(validation.data.slug);
+  const visibleIds = collectVisibleCategoryIds();
+
+  if (!record || !visibleIds.has(record.id)) {
+    throw new ServiceError('NOT_FOUND', 'Category not found', 404);
+  }
+
+  return {
+    ...toPublicListItem(record, visibleIds),
+    metaTitle: record.metaTitle,
+    metaDescription: record.metaDescription,
+  };
+}
+
 /**
  * @summary
  * Retrieves a specific category by its unique identifier.
@@ -397,6 +657,8 @@ export async function categoryCreate(body: unknown): Promise<CategoryEntity> {
     featured: params.featured ?? CATEGORY_DEFAULTS.FEATURED,
     metaTitle: params.metaTitle,
     metaDescription: params.metaDescription,
+    attributes: params.attributes ?? [],
+    directProductCount: 0,
     productCount: 0,
     dateCreated: now,
     dateModified: now,
@@ -460,6 +722,21 @@ export async function categoryUpdate(params: unknown, body: unknown): Promise<Ca
   validateUniqueSlug(slug, id);
 
   const level = calculateLevel(updateData.parentId);
+  const isReparented = updateData.parentId !== existing.parentId;
+
+  // Descendants move along with the category and must stay within the hierarchy limit
+  if (isReparented && level + calculateSubtreeDepth(id) > CATEGORY_DEFAULTS.MAX_HIERARCHY_LEVEL) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `Cannot create more than ${CATEGORY_DEFAULTS.MAX_HIERARCHY_LEVEL} levels of categories`,
+      400
+    );
+  }
+
+  // Move the subtree's products out of the old ancestor chain
+  if (isReparented && existing.parentId !== null) {
+    updateProductCount(existing.parentId, -existing.productCount);
+  }
 
   const updated = categoryStore.update(id, {
     name: updateData.name,
@@ -473,9 +750,24 @@ export async function categoryUpdate(params: unknown, body: unknown): Promise<Ca
     featured: updateData.featured,
     metaTitle: updateData.metaTitle,
     metaDescription: updateData.metaDescription,
+    attributes: updateData.attributes,
     dateModified: new Date().toISOString(),
   });
 
+  // ...and into the new one
+  if (isReparented && updateData.parentId !== null) {
+    updateProductCount(updateData.parentId, existing.productCount);
+  }
+
+  if (level !== existing.level) {
+    updateDescendantLevels(id, level);
+  }
+
+  // Products of the subtree are searchable by category name
+  if (updateData.name !== existing.name || isReparented) {
+    productSearchIndex.invalidate();
+  }
+
   return updated as CategoryEntity;
 }
 
@@ -491,7 +783,7 @@ export async function categoryUpdate(params: unknown, body: unknown): Promise<Ca
  *
  * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
  * @throws {ServiceError} NOT_FOUND (404) - When category with given ID does not exist
- * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When category has subcategories
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When category has subcategories or products
  *
  * @example
  * const result = await categoryDelete({ id: '1' });
@@ -516,14 +808,71 @@ export async function categoryDelete(params: unknown): Promise<{ message: string
     throw new ServiceError('BUSINESS_RULE_ERROR', 'Cannot delete category with subcategories', 400);
   }
 
+  // Check if category still has products assigned
+  const hasProducts = productStore.getAll().some((p) => p.categoryId === id);
+  if (hasProducts) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'Cannot delete category with products', 400);
+  }
+
   categoryStore.delete(id);
   return { message: 'Category deleted successfully' };
 }
 
 /**
  * @summary
- * Associates a product with a category and updates product count.
- * Called by product service when products are created/updated.
+ * Returns the IDs of categories visible on the storefront.
+ * Used by catalog services to hide products of inactive categories.
+ *
+ * @function categoryGetVisibleIds
+ * @module services/category
+ *
+ * @returns {Promise<Set<number>>} Active category IDs whose ancestors are all active
+ */
+export async function categoryGetVisibleIds(): Promise<Set<number>> {
+  return collectVisibleCategoryIds();
+}
+
+/**
+ * @summary
+ * Returns the attributes products of a category can specify, including those
+ * inherited from its ancestors. A subcategory overrides an ancestor attribute
+ * with the same key.
+ * Used by product service to validate and label product attributes.
+ *
+ * @function categoryGetAttributeDefinitions
+ * @module services/category
+ *
+ * @param {number} categoryId - Category ID
+ * @returns {Promise<CategoryAttributeDefinition[]>} Attribute definitions, top-level ones first
+ */
+export async function categoryGetAttributeDefinitions(
+  categoryId: number
+): Promise<CategoryAttributeDefinition[]> {
+  const chain: CategoryAttributeDefinition[][] = [];
+  const visited = new Set<number>();
+  let current = categoryStore.getById(categoryId);
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    chain.unshift(current.attributes);
+    current = current.parentId !== null ? categoryStore.getById(current.parentId) : undefined;
+  }
+
+  const definitions = new Map<string, CategoryAttributeDefinition>();
+  chain.flat().forEach((definition) => {
+    definitions.delete(definition.key);
+    definitions.set(definition.key, definition);
+  });
+
+  return [...definitions.values()];
+}
+
+/**
+ * @summary
+ * Associates a product with a category and updates product counts.
+ * Increments the direct count of the category and the rolled-up count
+ * of the category and all of its ancestors.
+ * Called by product service when products are created or moved.
  *
  * @function categoryAddProduct
  * @module services/category
@@ -533,17 +882,22 @@ export async function categoryDelete(params: unknown): Promise<{ message: string
  * @throws {ServiceError} NOT_FOUND (404) - When category does not exist
  */
 export async function categoryAddProduct(categoryId: number): Promise<void> {
-  if (!categoryStore.exists(categoryId)) {
+  const category = categoryStore.getById(categoryId);
+
+  if (!category) {
     throw new ServiceError('NOT_FOUND', 'Category not found', 404);
   }
 
+  categoryStore.update(categoryId, { directProductCount: category.directProductCount + 1 });
   updateProductCount(categoryId, 1);
 }
 
 /**
  * @summary
- * Removes a product from a category and updates product count.
- * Called by product service when products are deleted/updated.
+ * Removes a product from a category and updates product counts.
+ * Decrements the direct count of the category and the rolled-up count
+ * of the category and all of its ancestors.
+ * Called by product service when products are deleted or moved.
  *
  * @function categoryRemoveProduct
  * @module services/category
@@ -553,9 +907,67 @@ export async function categoryAddProduct(categoryId: number): Promise<void> {
  * @throws {ServiceError} NOT_FOUND (404) - When category does not exist
  */
 export async function categoryRemoveProduct(categoryId: number): Promise<void> {
-  if (!categoryStore.exists(categoryId)) {
+  const category = categoryStore.getById(categoryId);
+
+  if (!category) {
     throw new ServiceError('NOT_FOUND', 'Category not found', 404);
   }
 
+  categoryStore.update(categoryId, {
+    directProductCount: Math.max(0, category.directProductCount - 1),
+  });
   updateProductCount(categoryId, -1);
 }
+
+/**
+ * @summary
+ * Rebuilds direct and rolled-up product counts for every category
+ * from the current product assignments.
+ *
+ * @function categoryRecountProducts
+ * @module services/category
+ *
+ * @returns {Promise<CategoryRecountResponse>} Summary of the rebuild
+ *
+ * @example
+ * const result = await categoryRecountProducts();
+ * // Returns: { categoriesUpdated: 1, productsCounted: 10 } when one category had drifted
+ */
+export async function categoryRecountProducts(): Promise<CategoryRecountResponse> {
+  const categories = categoryStore.getAll();
+  const directCounts = new Map<number, number>();
+  let productsCounted = 0;
+
+  for (const product of productStore.getAll()) {
+    if (categoryStore.exists(product.categoryId)) {
+      directCounts.set(product.categoryId, (directCounts.get(product.categoryId) ?? 0) + 1);
+      productsCounted += 1;
+    }
+  }
+
+  // Roll each direct count up the ancestor chain
+  const totalCounts = new Map<number, number>();
+  for (const [categoryId, count] of directCounts) {
+    let current = categoryStore.getById(categoryId);
+    const visited = new Set<number>();
+
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id);
+      totalCounts.set(current.id, (totalCounts.get(current.id) ?? 0) + count);
+      current = current.parentId !== null ? categoryStore.getById(current.parentId) : undefined;
+    }
+  }
+
+  // Only write changed counts, so an unchanged catalog keeps its last-modified time
+  let categoriesUpdated = 0;
+  categories.forEach((c) => {
+    const directProductCount = directCounts.get(c.id) ?? 0;
+    const productCount = totalCounts.get(c.id) ?? 0;
+    if (c.directProductCount !== directProductCount || c.productCount !== productCount) {
+      categoryStore.update(c.id, { directProductCount, productCount });
+      categoriesUpdated += 1;
+    }
+  });
+
+  return { categoriesUpdated, productsCounted };
+}
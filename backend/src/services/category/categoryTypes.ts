@@ -5,6 +5,28 @@
  * @module services/category/categoryTypes
  */
 
+import type { PaginationMetadata } from '@/utils';
+
+/**
+ * @interface CategoryAttributeDefinition
+ * @description Attribute that products of a category and of its subcategories can specify
+ *
+ * @property {string} key - Identifier used in product specifications (snake_case)
+ * @property {string} label - Display label
+ * @property {string} group - Name of the group the attribute is shown in
+ * @property {string} type - Value type (text | number | boolean | option)
+ * @property {string|null} unit - Unit shown after numeric values
+ * @property {string[]} options - Allowed values of option attributes
+ */
+export interface CategoryAttributeDefinition {
+  key: string;
+  label: string;
+  group: string;
+  type: 'text' | 'number' | 'boolean' | 'option';
+  unit: string | null;
+  options: string[];
+}
+
 /**
  * @interface CategoryEntity
  * @description Represents a category entity with full details
@@ -22,6 +44,11 @@ export interface CategoryEntity {
   featured: boolean;
   metaTitle: string | null;
   metaDescription: string | null;
+  /** Attributes defined by this category; subcategories inherit them */
+  attributes: CategoryAttributeDefinition[];
+  /** Products assigned directly to this category */
+  directProductCount: number;
+  /** Products in this category and all of its descendants */
   productCount: number;
   dateCreated: string;
   dateModified: string;
@@ -42,8 +69,13 @@ export interface CategoryListItem {
   displayOrder: number;
   active: boolean;
   featured: boolean;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  attributes: CategoryAttributeDefinition[];
+  directProductCount: number;
   productCount: number;
   dateCreated: string;
+  dateModified: string;
 }
 
 /**
@@ -59,6 +91,31 @@ export interface CategoryFeaturedItem {
   productCount: number;
 }
 
+/**
+ * @interface CategoryPublicListItem
+ * @description Storefront representation of a category in listings.
+ * Counts only products reachable through active categories.
+ */
+export interface CategoryPublicListItem {
+  id: number;
+  name: string;
+  slug: string;
+  parentId: number | null;
+  level: number;
+  description: string | null;
+  imageUrl: string | null;
+  productCount: number;
+}
+
+/**
+ * @interface CategoryPublicDetail
+ * @description Storefront representation of a single category
+ */
+export interface CategoryPublicDetail extends CategoryPublicListItem {
+  metaTitle: string | null;
+  metaDescription: string | null;
+}
+
 /**
  * @interface CategoryCreateRequest
  * @description Request payload for creating a category
@@ -73,6 +130,7 @@ export interface CategoryCreateRequest {
   featured?: boolean;
   metaTitle: string | null;
   metaDescription: string | null;
+  attributes?: CategoryAttributeDefinition[];
 }
 
 /**
@@ -89,6 +147,7 @@ export interface CategoryUpdateRequest {
   featured: boolean;
   metaTitle: string | null;
   metaDescription: string | null;
+  attributes: CategoryAttributeDefinition[];
 }
 
 /**
@@ -99,4 +158,26 @@ export interface CategoryListQuery {
   parentId?: number;
   activeOnly?: boolean;
   featured?: boolean;
+  /** Page number; the list is paginated only when page or pageSize is given */
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * @interface CategoryListResponse
+ * @description Response structure for category listing; pagination is present only when a
+ * page was requested
+ */
+export interface CategoryListResponse<T> {
+  items: T[];
+  pagination?: PaginationMetadata;
+}
+
+/**
+ * @interface CategoryRecountResponse
+ * @description Response structure for the product count rebuild
+ */
+export interface CategoryRecountResponse {
+  categoriesUpdated: number;
+  productsCounted: number;
 }
@@ -9,6 +9,38 @@
 import { z } from 'zod';
 import { CATEGORY_LIMITS } from '@/constants';
 
+/**
+ * Schema for a single category attribute definition
+ */
+export const attributeDefinitionSchema = z
+  .object({
+    key: z
+      .string()
+      .max(CATEGORY_LIMITS.ATTRIBUTE_KEY_MAX_LENGTH)
+      .regex(/^[a-z][a-z0-9_]*$/, 'Key must be snake_case'),
+    label: z.string().min(1).max(CATEGORY_LIMITS.ATTRIBUTE_LABEL_MAX_LENGTH),
+    group: z.string().min(1).max(CATEGORY_LIMITS.ATTRIBUTE_LABEL_MAX_LENGTH),
+    type: z.enum(['text', 'number', 'boolean', 'option']),
+    unit: z.string().min(1).max(CATEGORY_LIMITS.ATTRIBUTE_UNIT_MAX_LENGTH).nullable(),
+    options: z
+      .array(z.string().min(1).max(CATEGORY_LIMITS.ATTRIBUTE_LABEL_MAX_LENGTH))
+      .max(CATEGORY_LIMITS.ATTRIBUTE_OPTIONS_MAX),
+  })
+  .refine((attribute) => attribute.type !== 'option' || attribute.options.length > 0, {
+    message: 'Option attributes need at least one option',
+    path: ['options'],
+  });
+
+/**
+ * Schema for the attribute set of a category; keys must be unique
+ */
+export const attributesSchema = z
+  .array(attributeDefinitionSchema)
+  .max(CATEGORY_LIMITS.ATTRIBUTES_MAX)
+  .refine((attributes) => new Set(attributes.map((a) => a.key)).size === attributes.length, {
+    message: 'Attribute keys must be unique',
+  });
+
 /**
  * Schema for category create request validation
  */
@@ -22,6 +54,7 @@ export const createSchema = z.object({
   featured: z.boolean().optional(),
   metaTitle: z.string().max(CATEGORY_LIMITS.META_TITLE_MAX_LENGTH).nullable(),
   metaDescription: z.string().max(CATEGORY_LIMITS.META_DESCRIPTION_MAX_LENGTH).nullable(),
+  attributes: attributesSchema.optional(),
 });
 
 /**
@@ -37,6 +70,7 @@ export const updateSchema = z.object({
   featured: z.boolean(),
   metaTitle: z.string().max(CATEGORY_LIMITS.META_TITLE_MAX_LENGTH).nullable(),
   metaDescription: z.string().max(CATEGORY_LIMITS.META_DESCRIPTION_MAX_LENGTH).nullable(),
+  attributes: attributesSchema,
 });
 
 /**
@@ -52,6 +86,8 @@ export const listQuerySchema = z.object({
     .string()
     .transform((val) => val === 'true')
     .optional(),
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(CATEGORY_LIMITS.PAGE_SIZE_MAX).optional(),
 });
 
 /**
@@ -61,6 +97,11 @@ export const categoryParamsSchema = z.object({
   id: z.coerce.number().int().positive(),
 });
 
+/**
+ * Schema for public list query validation (only active categories are listed)
+ */
+export const publicListQuerySchema = listQuerySchema.omit({ activeOnly: true });
+
 /**
  * Schema for slug parameter validation
  */
@@ -74,5 +115,6 @@ export const categorySlugParamsSchema = z.object({
 export type CreateInput = z.infer<typeof createSchema>;
 export type UpdateInput = z.infer<typeof updateSchema>;
 export type ListQueryInput = z.infer<typeof listQuerySchema>;
+export type PublicListQueryInput = z.infer<typeof publicListQuerySchema>;
 export type CategoryParamsInput = z.infer<typeof categoryParamsSchema>;
 export type CategorySlugParamsInput = z.infer<typeof categorySlugParamsSchema>;
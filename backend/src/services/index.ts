@@ -26,48 +26,115 @@ export type {
   InitExampleParamsInput,
 } from './initExample';
 
-export { productList, productGet } from './product';
+export {
+  productList,
+  productListPublic,
+  productSuggest,
+  productGet,
+  productGetPublic,
+  productGetBatchPublic,
+  productGetManyPublic,
+  productGetVariantsPublic,
+  productCreate,
+  productUpdate,
+  productPatch,
+  productDelete,
+  productLastModified,
+  productReserveStock,
+  productReleaseStock,
+  productShipStock,
+} from './product';
 
 export type {
   ProductEntity,
+  ProductDetail,
+  ProductCategory,
+  ProductCategoryPathItem,
   ProductListResponse,
   ProductListItem,
+  ProductPublicListItem,
+  ProductPublicDetail,
+  ProductPublicListResponse,
   ProductSpecifications,
+  ProductDimensions,
+  ProductAttributeValue,
+  ProductAttributeGroup,
+  ProductPricing,
+  ProductPrice,
+  ProductInstallmentPlan,
+  ProductInventory,
+  ProductAvailability,
+  ProductOption,
+  ProductVariant,
+  ProductPublicVariant,
+  ProductVariantRequest,
+  ProductStockLine,
+  ProductStockReservation,
+  ProductFacets,
+  ProductFacetValue,
+  ProductFacetKey,
+  ProductSuggestResponse,
   ProductListQuery,
+  ProductCreateRequest,
+  ProductUpdateRequest,
+  SpecificationsInput as ProductSpecificationsInput,
+  PricingInput as ProductPricingInput,
+  InventoryInput as ProductInventoryInput,
+  OptionsInput as ProductOptionsInput,
+  VariantInput as ProductVariantInput,
+  CreateInput as ProductCreateInput,
+  UpdateInput as ProductUpdateInput,
+  PatchInput as ProductPatchInput,
   ListQueryInput as ProductListQueryInput,
+  SuggestQueryInput as ProductSuggestQueryInput,
+  BatchQueryInput as ProductBatchQueryInput,
   ProductParamsInput,
 } from './product';
 
 export {
   categoryList,
+  categoryListPublic,
   categoryGet,
   categoryCreate,
   categoryUpdate,
   categoryDelete,
   categoryGetBySlug,
+  categoryGetBySlugPublic,
   categoryGetFeatured,
+  categoryGetFeaturedPublic,
+  categoryGetVisibleIds,
+  categoryGetAttributeDefinitions,
   categoryAddProduct,
   categoryRemoveProduct,
+  categoryRecountProducts,
 } from './category';
 
 export type {
   CategoryEntity,
   CategoryListItem,
   CategoryFeaturedItem,
+  CategoryPublicListItem,
+  CategoryPublicDetail,
   CategoryCreateRequest,
   CategoryUpdateRequest,
   CategoryListQuery,
+  CategoryListResponse,
+  CategoryRecountResponse,
+  CategoryAttributeDefinition,
   CreateInput as CategoryCreateInput,
   UpdateInput as CategoryUpdateInput,
   ListQueryInput as CategoryListQueryInput,
+  PublicListQueryInput as CategoryPublicListQueryInput,
   CategoryParamsInput,
   CategorySlugParamsInput,
 } from './category';
 
 export {
   productImageList,
+  productImageListPublic,
   productImageGet,
   productImageCreate,
+  productImageUpload,
   productImageUpdate,
   productImageDelete,
   productImageReorder,
@@ -75,14 +142,125 @@ export {
 
 export type {
   ProductImageEntity,
+  ProductImagePublic,
   ProductImageCreateRequest,
+  ProductImageUploadRequest,
+  ProductImageUploadFile,
   ProductImageUpdateRequest,
   ProductImageReorderRequest,
   ImageReorderItem,
   ViewAngle,
   CreateInput as ProductImageCreateInput,
+  UploadInput as ProductImageUploadInput,
   UpdateInput as ProductImageUpdateInput,
   ReorderInput as ProductImageReorderInput,
   ProductImageParamsInput,
   ProductIdParamsInput,
 } from './productImage';
+
+export {
+  cartGet,
+  cartRefresh,
+  cartAddItem,
+  cartUpdateItem,
+  cartRemoveItem,
+  cartClear,
+  cartMerge,
+} from './cart';
+
+export type {
+  CartOwner,
+  CartLine,
+  CartResponse,
+  CartAddItemRequest,
+  CartUpdateItemRequest,
+  CartOwnerInput,
+  AddItemInput as CartAddItemInput,
+  UpdateItemInput as CartUpdateItemInput,
+  CartItemParamsInput,
+} from './cart';
+
+export {
+  wishlistList,
+  wishlistCreate,
+  wishlistUpdate,
+  wishlistDelete,
+  wishlistAddItem,
+  wishlistRemoveItem,
+  wishlistSync,
+  wishlistGetShared,
+} from './wishlist';
+
+export type {
+  WishlistItem,
+  WishlistResponse,
+  WishlistSharedResponse,
+  WishlistCreateRequest,
+  WishlistUpdateRequest,
+  WishlistAddItemRequest,
+  WishlistSyncRequest,
+  CreateInput as WishlistCreateInput,
+  UpdateInput as WishlistUpdateInput,
+  AddItemInput as WishlistAddItemInput,
+  SyncInput as WishlistSyncInput,
+  WishlistParamsInput,
+  WishlistItemParamsInput,
+  ShareTokenParamsInput as WishlistShareTokenParamsInput,
+} from './wishlist';
+
+export {
+  orderCheckout,
+  orderListPublic,
+  orderGetPublic,
+  orderCancelPublic,
+  orderList,
+  orderGet,
+  orderUpdateStatus,
+} from './order';
+
+export type {
+  OrderLine,
+  OrderCustomer,
+  OrderAddress,
+  OrderPayment,
+  OrderStatusChange,
+  OrderDetail,
+  OrderListItem,
+  OrderPublicDetail,
+  OrderPublicListItem,
+  OrderListResponse,
+  OrderCheckoutRequest,
+  OrderStatusUpdateRequest,
+  OrderListQuery,
+  CheckoutInput as OrderCheckoutInput,
+  DeliveryAddressInput as OrderDeliveryAddressInput,
+  StatusUpdateInput as OrderStatusUpdateInput,
+  CancelInput as OrderCancelInput,
+  ListQueryInput as OrderListQueryInput,
+  PublicListQueryInput as OrderPublicListQueryInput,
+  OrderParamsInput,
+  OrderCodeParamsInput,
+  LookupQueryInput as OrderLookupQueryInput,
+} from './order';
+
+export { authLogin, authLogout, authVerifyToken, authGetCurrentUser } from './auth';
+
+export type {
+  AuthUser,
+  AuthContext,
+  AuthLoginRequest,
+  AuthLoginResponse,
+  AuthTokenPayload,
+  LoginInput as AuthLoginInput,
+} from './auth';
+
+export { userList, userGet, userCreate, userUpdate, userDelete } from './user';
+
+export type {
+  UserEntity,
+  UserCreateRequest,
+  UserUpdateRequest,
+  CreateInput as UserCreateInput,
+  UpdateInput as UserUpdateInput,
+  UserParamsInput,
+} from './user';
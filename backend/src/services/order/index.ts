@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for Order service.
+ *
+ * @module services/order
+ */
+
+export * from './orderTypes';
+export * from './orderService';
+export * from './orderValidation';
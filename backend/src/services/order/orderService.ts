@@ -0,0 +1,827 @@
+/**
+ * @summary
+ * Business logic for Order entity.
+ * Turns the current cart into an order with a snapshot of its lines and prices,
+ * charges it through the configured payment provider and moves orders through
+ * their status lifecycle, refunding payments of cancelled orders. Orders whose
+ * payment is declined are kept as cancelled. Ordered units are reserved from product
+ * stock at checkout, released on cancellation and taken out of stock when shipped.
+ *
+ * @module services/order/orderService
+ */
+
+import {
+  ORDER_DEFAULTS,
+  ORDER_STATUS_TRANSITIONS,
+  ORDER_STATUSES,
+  PAYMENT_STATUSES,
+  type OrderStatus,
+} from '@/constants';
+import { orderStore, paymentProvider, OrderRecord } from '@/instances';
+import { cartClear, cartOwnerSchema, cartRefresh, type CartOwnerInput } from '@/services/cart';
+import {
+  productReleaseStock,
+  productReserveStock,
+  productShipStock,
+  type ProductStockLine,
+} from '@/services/product';
+import { ServiceError, createPagination, foldAccents } from '@/utils';
+import {
+  OrderDetail,
+  OrderListItem,
+  OrderListResponse,
+  OrderPublicDetail,
+  OrderPublicListItem,
+} from './orderTypes';
+import {
+  cancelSchema,
+  checkoutSchema,
+  listQuerySchema,
+  lookupQuerySchema,
+  orderCodeParamsSchema,
+  orderParamsSchema,
+  publicListQuerySchema,
+  statusUpdateSchema,
+} from './orderValidation';
+
+/**
+ * @summary
+ * Builds the customer-facing code of an order from its ID.
+ *
+ * @function createOrderCode
+ * @param {number} id - Order ID
+ * @returns {string} Order code, e.g. PED-000042
+ */
+function createOrderCode(id: number): string {
+  return `${ORDER_DEFAULTS.CODE_PREFIX}-${String(id).padStart(6, '0')}`;
+}
+
+/**
+ * @summary
+ * Counts the units of an order.
+ *
+ * @function countItems
+ * @param {OrderRecord} order - Order record
+ * @returns {number} Total units
+ */
+function countItems(order: OrderRecord): number {
+  return order.items.reduce((sum, line) => sum + line.quantity, 0);
+}
+
+/**
+ * @summary
+ * Converts an order record to its admin representation.
+ *
+ * @function toOrderDetail
+ * @param {OrderRecord} order - Order record
+ * @returns {OrderDetail} Admin order detail
+ */
+function toOrderDetail(order: OrderRecord): OrderDetail {
+  return {
+    ...order,
+    allowedTransitions: [...ORDER_STATUS_TRANSITIONS[order.status]],
+    itemCount: countItems(order),
+  };
+}
+
+/**
+ * @summary
+ * Converts an order record to an admin list item.
+ *
+ * @function toOrderListItem
+ * @param {OrderRecord} order - Order record
+ * @returns {OrderListItem} Admin list item
+ */
+function toOrderListItem(order: OrderRecord): OrderListItem {
+  return {
+    id: order.id,
+    code: order.code,
+    status: order.status,
+    customerName: order.customer.name,
+    customerEmail: order.customer.email,
+    city: order.deliveryAddress.city,
+    state: order.deliveryAddress.state,
+    itemCount: countItems(order),
+    total: order.total,
+    paymentMethod: order.payment.method,
+    paymentStatus: order.payment.status,
+    dateCreated: order.dateCreated,
+  };
+}
+
+/**
+ * @summary
+ * Converts an order record to the representation shown to its customer.
+ * Staff identities and provider references are left out.
+ *
+ * @function toOrderPublicDetail
+ * @param {OrderRecord} order - Order record
+ * @returns {OrderPublicDetail} Customer order detail
+ */
+function toOrderPublicDetail(order: OrderRecord): OrderPublicDetail {
+  return {
+    code: order.code,
+    status: order.status,
+    canCancel: order.status === ORDER_STATUSES.PENDING,
+    customer: order.customer,
+    deliveryAddress: order.deliveryAddress,
+    items: order.items,
+    itemCount: countItems(order),
+    listTotal: order.listTotal,
+    discount: order.discount,
+    total: order.total,
+    payment: {
+      method: order.payment.method,
+      installments: order.payment.installments,
+      status: order.payment.status,
+    },
+    notes: order.notes,
+    statusHistory: order.statusHistory.map(({ status, note, date }) => ({ status, note, date })),
+    dateCreated: order.dateCreated,
+  };
+}
+
+/**
+ * @summary
+ * Converts an order record to an entry of the customer's order history.
+ *
+ * @function toOrderPublicListItem
+ * @param {OrderRecord} order - Order record
+ * @returns {OrderPublicListItem} Order history entry
+ */
+function toOrderPublicListItem(order: OrderRecord): OrderPublicListItem {
+  return {
+    code: order.code,
+    status: order.status,
+    imageUrl: order.items[0]?.imageUrl ?? '',
+    itemCount: countItems(order),
+    total: order.total,
+    dateCreated: order.dateCreated,
+  };
+}
+
+/**
+ * @summary
+ * Returns one page of a list of orders.
+ *
+ * @function paginateOrders
+ * @param {T[]} items - Filtered and sorted list items
+ * @param {number} page - Requested page
+ * @param {number} pageSize - Requested page size
+ * @returns {OrderListResponse<T>} Items of the page with pagination metadata
+ */
+function paginateOrders<T>(items: T[], page: number, pageSize: number): OrderListResponse<T> {
+  const offset = (page - 1) * pageSize;
+  const pagination = createPagination(items.length, offset, pageSize);
+  return { items: items.slice(offset, offset + pageSize), pagination };
+}
+
+/**
+ * @summary
+ * Lists the units an order holds from product stock.
+ *
+ * @function reservedStock
+ * @param {OrderRecord} order - Order record
+ * @returns {ProductStockLine[]} Reserved units per product and variant
+ */
+function reservedStock(order: OrderRecord): ProductStockLine[] {
+  return order.items.map((line) => ({
+    productId: line.productId,
+    variantId: line.variantId,
+    quantity: line.reservedQuantity,
+  }));
+}
+
+/**
+ * @summary
+ * Moves an order to another status. Only transitions of ORDER_STATUS_TRANSITIONS are
+ * allowed; confirming requires an authorized payment, and cancelling refunds it.
+ * Cancelling releases the reserved stock; shipping takes it out of stock.
+ *
+ * @function changeStatus
+ * @param {OrderRecord} order - Order to change
+ * @param {OrderStatus} status - Target status
+ * @param {string|null} note - Note left with the change
+ * @param {number|null} userId - User making the change
+ * @returns {Promise<OrderRecord>} Updated order
+ *
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the transition is not allowed, the
+ *   payment is not authorized yet or the refund fails
+ */
+async function changeStatus(
+  order: OrderRecord,
+  status: OrderStatus,
+  note: string | null,
+  userId: number | null
+): Promise<OrderRecord> {
+  if (!ORDER_STATUS_TRANSITIONS[order.status].includes(status)) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `Cannot change an order from ${order.status} to ${status}`,
+      400,
+      { allowedTransitions: ORDER_STATUS_TRANSITIONS[order.status] }
+    );
+  }
+
+  if (status === ORDER_STATUSES.CONFIRMED && order.payment.status !== PAYMENT_STATUSES.AUTHORIZED) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      'Orders can only be confirmed after the payment is authorized',
+      400
+    );
+  }
+
+  let payment = order.payment;
+  if (
+    status === ORDER_STATUSES.CANCELLED &&
+    payment.status === PAYMENT_STATUSES.AUTHORIZED &&
+    payment.transactionId
+  ) {
+    const refund = await paymentProvider.refund(payment.transactionId, order.total);
+    if (refund.status !== 'refunded') {
+      throw new ServiceError('BUSINESS_RULE_ERROR', 'The payment could not be refunded', 400, {
+        reason: refund.message,
+      });
+    }
+    payment = { ...payment, status: PAYMENT_STATUSES.REFUNDED };
+  }
+
+  const now = new Date().toISOString();
+  const updated =
+    orderStore.update(order.id, {
+      status,
+      payment,
+      statusHistory: [...order.statusHistory, { status, note, userId, date: now }],
+      dateModified: now,
+    }) ?? order;
+
+  if (status === ORDER_STATUSES.CANCELLED) {
+    await productReleaseStock(reservedStock(order));
+  } else if (status === ORDER_STATUSES.SHIPPED) {
+    await productShipStock(reservedStock(order));
+  }
+
+  return updated;
+}
+
+/**
+ * @summary
+ * Finds an order of the customer by code. Authenticated customers see their own orders;
+ * guests identify an order by code and the email given at checkout.
+ *
+ * @function findCustomerOrder
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} params - Raw request params containing the order code
+ * @param {string} [email] - Email given at checkout, for guest lookups
+ * @returns {OrderRecord} The order
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the code is malformed
+ * @throws {ServiceError} NOT_FOUND (404) - When no order of the customer has the code
+ */
+function findCustomerOrder(
+  userId: number | undefined,
+  params: unknown,
+  email?: string
+): OrderRecord {
+  const validation = orderCodeParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid order code', 400, validation.error.errors);
+  }
+
+  const order = orderStore.getByCode(validation.data.code);
+  const isOwner =
+    !!order &&
+    ((userId !== undefined && order.userId === userId) || order.customer.email === email);
+
+  if (!order || !isOwner) {
+    throw new ServiceError('NOT_FOUND', 'Order not found', 404);
+  }
+
+  return order;
+}
+
+/**
+ * Carts with a checkout in progress, by checkoutLockKey
+ */
+const checkoutsInProgress = new Set<string>();
+
+/**
+ * @summary
+ * Identifies the cart a checkout orders from: the user cart when signed in,
+ * else the anonymous cart of the token.
+ *
+ * @function checkoutLockKey
+ * @param {CartOwnerInput} owner - Validated cart owner
+ * @returns {string|null} Cart key, null when the request has no cart
+ */
+function checkoutLockKey(owner: CartOwnerInput): string | null {
+  if (owner.userId) {
+    return `user:${owner.userId}`;
+  }
+  return owner.token ? `token:${owner.token}` : null;
+}
+
+/**
+ * @summary
+ * Places an order from the cart of the request owner. Lines and prices are copied from
+ * the cart as priced now, the total is charged through the payment provider and the
+ * cart is emptied. Declined payments cancel the order and keep the cart.
+ * Ordered units are reserved from stock; products without enough units are accepted
+ * only when they are made to order.
+ *
+ * @function orderCheckout
+ * @module services/order
+ *
+ * @param {unknown} owner - User ID and/or anonymous cart token of the request
+ * @param {unknown} body - Raw request body with customer, delivery address and payment
+ * @returns {Promise<OrderPublicDetail>} The placed order
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the cart token or the body is invalid
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the cart is empty or changed, the
+ *   installments are not offered, a product lacks stock or the payment is declined
+ * @throws {ServiceError} CONFLICT (409) - When the same cart is already being checked out
+ *
+ * @example
+ * const order = await orderCheckout({ token: 'q3J...' }, {
+ *   customer: { name: 'Ana Souza', email: 'ana@example.com', phone: '(27) 99999-0000' },
+ *   deliveryAddress: { cep: '29100-000', street: 'Rua A', number: '10', ... },
+ *   payment: { method: 'pix' },
+ * });
+ * // Returns: { code: 'PED-000001', status: 'pending', total: 4398, ... }
+ */
+export async function orderCheckout(owner: unknown, body: unknown): Promise<OrderPublicDetail> {
+  const parsedOwner = cartOwnerSchema.safeParse(owner);
+  const lockKey = parsedOwner.success ? checkoutLockKey(parsedOwner.data) : null;
+
+  // Held from before the first await, so a repeated request cannot order and charge the cart twice
+  if (lockKey && checkoutsInProgress.has(lockKey)) {
+    throw new ServiceError('CONFLICT', 'This cart is already being checked out', 409);
+  }
+
+  if (lockKey) {
+    checkoutsInProgress.add(lockKey);
+  }
+
+  try {
+    return await placeOrder(owner, body);
+  } finally {
+    if (lockKey) {
+      checkoutsInProgress.delete(lockKey);
+    }
+  }
+}
+
+/**
+ * @summary
+ * Places the order for orderCheckout, which keeps other checkouts of the cart out meanwhile.
+ *
+ * @function placeOrder
+ * @param {unknown} owner - User ID and/or anonymous cart token of the request
+ * @param {unknown} body - Raw request body with customer, delivery address and payment
+ * @returns {Promise<OrderPublicDetail>} The placed order
+ */
+async function placeOrder(owner: unknown, body: unknown): Promise<OrderPublicDetail> {
+  const cart = await cartRefresh(owner);
+  const { userId } = cartOwnerSchema.parse(owner);
+  const validation = checkoutSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const { customer, deliveryAddress, payment, notes, expectedTotal } = validation.data;
+
+  if (cart.removedProductIds.length > 0) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      'Some products are no longer available and were removed from the cart',
+      400,
+      { removedProductIds: cart.removedProductIds }
+    );
+  }
+
+  if (cart.items.length === 0) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'The cart is empty', 400);
+  }
+
+  if (expectedTotal !== undefined && expectedTotal !== cart.subtotal) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      'Prices changed since the cart was reviewed',
+      400,
+      {
+        total: cart.subtotal,
+      }
+    );
+  }
+
+  // Orders are split only as far as every product offers interest-free installments
+  const maxInstallments = Math.min(
+    ...cart.items.map(({ product, variant }) => {
+      const { price } = variant ?? product;
+      return price?.installments?.interestFree ? price.installments.count : 1;
+    })
+  );
+
+  if (payment.installments > maxInstallments) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `This order can be split in at most ${maxInstallments} interest-free installments`,
+      400
+    );
+  }
+
+  // Stock is held first and released again when the order cannot be placed
+  const reservations = await productReserveStock(
+    cart.items.map((line) => ({
+      productId: line.product.id,
+      variantId: line.variant?.id ?? null,
+      quantity: line.quantity,
+    }))
+  );
+  const releaseStock = () =>
+    productReleaseStock(
+      reservations.map(({ productId, variantId, reservedQuantity }) => ({
+        productId,
+        variantId,
+        quantity: reservedQuantity,
+      }))
+    );
+
+  // The order is stored before charging so concurrent checkouts never share an ID
+  const now = new Date().toISOString();
+  const id = orderStore.getNextId();
+  let order: OrderRecord;
+  try {
+    order = orderStore.add({
+      id,
+      code: createOrderCode(id),
+      userId: userId ?? null,
+      status: ORDER_STATUSES.PENDING,
+      customer,
+      deliveryAddress,
+      items: cart.items.map((line, index) => ({
+        productId: line.product.id,
+        variantId: line.variant?.id ?? null,
+        sku: line.variant?.sku ?? null,
+        variantLabel: line.variant?.label ?? null,
+        name: line.product.name,
+        imageUrl: line.product.imageUrl,
+        categoryName: line.product.category.name,
+        quantity: line.quantity,
+        listPrice: (line.variant ?? line.product).price?.listPrice ?? line.unitPrice,
+        unitPrice: line.unitPrice,
+        lineTotal: line.lineTotal,
+        reservedQuantity: reservations[index].reservedQuantity,
+        leadTimeDays: reservations[index].leadTimeDays,
+      })),
+      listTotal: cart.listTotal,
+      discount: cart.discount,
+      total: cart.subtotal,
+      payment: {
+        provider: paymentProvider.name,
+        method: payment.method,
+        installments: payment.installments,
+        status: PAYMENT_STATUSES.PENDING,
+        transactionId: null,
+      },
+      notes,
+      statusHistory: [{ status: ORDER_STATUSES.PENDING, note: null, userId: null, date: now }],
+      dateCreated: now,
+      dateModified: now,
+    });
+  } catch (error) {
+    await releaseStock();
+    throw error;
+  }
+
+  const charge = await paymentProvider
+    .charge({
+      orderCode: order.code,
+      amount: order.total,
+      method: payment.method,
+      installments: payment.installments,
+      customer: { name: customer.name, email: customer.email },
+    })
+    .catch(async (error: unknown) => {
+      orderStore.delete(order.id);
+      await releaseStock();
+      throw error;
+    });
+
+  if (charge.status === 'declined' || charge.status === 'refunded') {
+    // Declined orders are kept, cancelled, so the store can follow up on failed payments
+    const declinedAt = new Date().toISOString();
+    orderStore.update(order.id, {
+      status: ORDER_STATUSES.CANCELLED,
+      payment: {
+        ...order.payment,
+        status: PAYMENT_STATUSES.DECLINED,
+        transactionId: charge.transactionId,
+      },
+      statusHistory: [
+        ...order.statusHistory,
+        {
+          status: ORDER_STATUSES.CANCELLED,
+          note: charge.message ?? 'Payment declined',
+          userId: null,
+          date: declinedAt,
+        },
+      ],
+      dateModified: declinedAt,
+    });
+    await releaseStock();
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'Payment was declined', 400, {
+      code: order.code,
+      reason: charge.message,
+    });
+  }
+
+  const placed =
+    orderStore.update(order.id, {
+      payment: {
+        ...order.payment,
+        status:
+          charge.status === 'authorized' ? PAYMENT_STATUSES.AUTHORIZED : PAYMENT_STATUSES.PENDING,
+        transactionId: charge.transactionId,
+      },
+    }) ?? order;
+
+  await cartClear(owner);
+  return toOrderPublicDetail(placed);
+}
+
+/**
+ * @summary
+ * Lists the orders of an authenticated customer, newest first.
+ *
+ * @function orderListPublic
+ * @module services/order
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} query - Raw query parameters with page and pageSize
+ * @returns {Promise<OrderListResponse<OrderPublicListItem>>} Page of the order history
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const history = await orderListPublic(3, { page: '1' });
+ * // Returns: { items: [{ code: 'PED-000012', status: 'shipped', ... }], pagination: {...} }
+ */
+export async function orderListPublic(
+  userId: number | undefined,
+  query: unknown
+): Promise<OrderListResponse<OrderPublicListItem>> {
+  if (userId === undefined) {
+    throw new ServiceError('UNAUTHORIZED', 'Authentication required', 401);
+  }
+
+  const validation = publicListQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  const { page, pageSize } = validation.data;
+  const items = orderStore
+    .getByUserId(userId)
+    .sort((a, b) => b.dateCreated.localeCompare(a.dateCreated))
+    .map(toOrderPublicListItem);
+
+  return paginateOrders(items, page, pageSize);
+}
+
+/**
+ * @summary
+ * Gets an order of the customer by code. Guests pass the email given at checkout.
+ *
+ * @function orderGetPublic
+ * @module services/order
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} params - Raw request params containing the order code
+ * @param {unknown} query - Raw query parameters with the checkout email
+ * @returns {Promise<OrderPublicDetail>} The order
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the code or the email is malformed
+ * @throws {ServiceError} NOT_FOUND (404) - When no order of the customer has the code
+ *
+ * @example
+ * const order = await orderGetPublic(undefined, { code: 'PED-000012' }, { email: 'ana@example.com' });
+ */
+export async function orderGetPublic(
+  userId: number | undefined,
+  params: unknown,
+  query: unknown
+): Promise<OrderPublicDetail> {
+  const validation = lookupQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  return toOrderPublicDetail(findCustomerOrder(userId, params, validation.data.email));
+}
+
+/**
+ * @summary
+ * Cancels an order on behalf of the authenticated customer who placed it.
+ * Customers may only cancel orders the store has not confirmed yet.
+ *
+ * @function orderCancelPublic
+ * @module services/order
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} params - Raw request params containing the order code
+ * @param {unknown} body - Raw request body with an optional note
+ * @returns {Promise<OrderPublicDetail>} The cancelled order
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the code or the body is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When no order of the customer has the code
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the order was already confirmed
+ *
+ * @example
+ * const order = await orderCancelPublic(3, { code: 'PED-000012' }, { note: 'Comprei errado' });
+ */
+export async function orderCancelPublic(
+  userId: number | undefined,
+  params: unknown,
+  body: unknown
+): Promise<OrderPublicDetail> {
+  if (userId === undefined) {
+    throw new ServiceError('UNAUTHORIZED', 'Authentication required', 401);
+  }
+
+  const order = findCustomerOrder(userId, params);
+  const validation = cancelSchema.safeParse(body ?? {});
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  if (order.status !== ORDER_STATUSES.PENDING) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      'Only orders awaiting confirmation can be cancelled; please contact the store',
+      400
+    );
+  }
+
+  return toOrderPublicDetail(
+    await changeStatus(order, ORDER_STATUSES.CANCELLED, validation.data.note, userId)
+  );
+}
+
+/**
+ * @summary
+ * Lists orders for the admin area with filters, sorting and pagination.
+ *
+ * @function orderList
+ * @module services/order
+ *
+ * @param {unknown} query - Raw query parameters to validate
+ * @returns {Promise<OrderListResponse<OrderListItem>>} Page of orders
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const result = await orderList({ status: 'pending,confirmed', search: 'ana' });
+ * // Returns: { items: [{ id: 12, code: 'PED-000012', ... }], pagination: {...} }
+ */
+export async function orderList(query: unknown): Promise<OrderListResponse<OrderListItem>> {
+  const validation = listQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  const params = validation.data;
+  const search = params.search ? foldAccents(params.search) : '';
+
+  const orders = orderStore.getAll().filter((order) => {
+    // Order dates are compared as UTC calendar days
+    const day = order.dateCreated.slice(0, 10);
+    return (
+      (!params.status?.length || params.status.includes(order.status)) &&
+      (!params.paymentStatus?.length || params.paymentStatus.includes(order.payment.status)) &&
+      (!params.dateFrom || day >= params.dateFrom) &&
+      (!params.dateTo || day <= params.dateTo) &&
+      (!search ||
+        foldAccents(order.code).includes(search) ||
+        foldAccents(order.customer.name).includes(search) ||
+        order.customer.email.includes(search))
+    );
+  });
+
+  orders.sort((a, b) => {
+    switch (params.sortBy) {
+      case 'date_asc':
+        return a.dateCreated.localeCompare(b.dateCreated);
+      case 'total_desc':
+        return b.total - a.total;
+      case 'total_asc':
+        return a.total - b.total;
+      default:
+        return b.dateCreated.localeCompare(a.dateCreated);
+    }
+  });
+
+  return paginateOrders(orders.map(toOrderListItem), params.page, params.pageSize);
+}
+
+/**
+ * @summary
+ * Gets an order by ID for the admin area.
+ *
+ * @function orderGet
+ * @module services/order
+ *
+ * @param {unknown} params - Raw request params containing the ID
+ * @returns {Promise<OrderDetail>} The order
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When order does not exist
+ *
+ * @example
+ * const order = await orderGet({ id: '12' });
+ */
+export async function orderGet(params: unknown): Promise<OrderDetail> {
+  const validation = orderParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const order = orderStore.getById(validation.data.id);
+
+  if (!order) {
+    throw new ServiceError('NOT_FOUND', 'Order not found', 404);
+  }
+
+  return toOrderDetail(order);
+}
+
+/**
+ * @summary
+ * Moves an order to another status on behalf of a staff user.
+ *
+ * @function orderUpdateStatus
+ * @module services/order
+ *
+ * @param {unknown} params - Raw request params containing the ID
+ * @param {unknown} body - Raw request body with the target status and an optional note
+ * @param {number} userId - Staff user making the change
+ * @returns {Promise<OrderDetail>} The updated order
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or body is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When order does not exist
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the transition is not allowed
+ *
+ * @example
+ * const order = await orderUpdateStatus({ id: '12' }, { status: 'shipped', note: 'Transportadora X' }, 1);
+ */
+export async function orderUpdateStatus(
+  params: unknown,
+  body: unknown,
+  userId: number
+): Promise<OrderDetail> {
+  const paramsValidation = orderParamsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
+  }
+
+  const validation = statusUpdateSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const order = orderStore.getById(paramsValidation.data.id);
+
+  if (!order) {
+    throw new ServiceError('NOT_FOUND', 'Order not found', 404);
+  }
+
+  return toOrderDetail(
+    await changeStatus(order, validation.data.status, validation.data.note, userId)
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * @summary
+ * Type definitions for Order entity.
+ *
+ * @module services/order/orderTypes
+ */
+
+import type { BrazilianState, OrderStatus, PaymentMethod, PaymentStatus } from '@/constants';
+import type { PaginationMetadata } from '@/utils';
+
+/**
+ * @interface OrderLine
+ * @description Product line copied from the cart at checkout
+ *
+ * @property {number} productId - Ordered product
+ * @property {number|null} variantId - Ordered variant, null for products without variants
+ * @property {string|null} sku - SKU of the variant at checkout
+ * @property {string|null} variantLabel - Option values of the variant at checkout
+ * @property {string} name - Product name at checkout
+ * @property {string} imageUrl - Product image at checkout
+ * @property {string} categoryName - Product category at checkout
+ * @property {number} quantity - Units ordered
+ * @property {number} listPrice - Regular price of one unit at checkout, in BRL
+ * @property {number} unitPrice - Price paid for one unit, in BRL
+ * @property {number} lineTotal - Unit price times quantity
+ * @property {number} reservedQuantity - Units held from stock; the rest are made to order
+ * @property {number|null} leadTimeDays - Lead time of the units made to order, null when all
+ *   units come from stock
+ */
+export interface OrderLine {
+  productId: number;
+  variantId: number | null;
+  sku: string | null;
+  variantLabel: string | null;
+  name: string;
+  imageUrl: string;
+  categoryName: string;
+  quantity: number;
+  listPrice: number;
+  unitPrice: number;
+  lineTotal: number;
+  reservedQuantity: number;
+  leadTimeDays: number | null;
+}
+
+/**
+ * @interface OrderCustomer
+ * @description Contact of the customer who placed the order
+ */
+export interface OrderCustomer {
+  name: string;
+  email: string;
+  /** Digits only, with area code */
+  phone: string;
+}
+
+/**
+ * @interface OrderAddress
+ * @description Delivery address; the CEP is formatted as 00000-000
+ */
+export interface OrderAddress {
+  cep: string;
+  street: string;
+  number: string;
+  complement: string | null;
+  neighborhood: string;
+  city: string;
+  state: BrazilianState;
+}
+
+/**
+ * @interface OrderPayment
+ * @description Payment of an order as seen by the store
+ *
+ * @property {string} provider - Payment provider that processed the charge
+ * @property {PaymentMethod} method - Payment method chosen at checkout
+ * @property {number} installments - Number of installments
+ * @property {PaymentStatus} status - Current payment status
+ * @property {string|null} transactionId - Provider reference of the charge
+ */
+export interface OrderPayment {
+  provider: string;
+  method: PaymentMethod;
+  installments: number;
+  status: PaymentStatus;
+  transactionId: string | null;
+}
+
+/**
+ * @interface OrderStatusChange
+ * @description Entry of the status history of an order
+ *
+ * @property {OrderStatus} status - Status the order moved to
+ * @property {string|null} note - Note left with the change
+ * @property {number|null} userId - Staff user or customer who made the change, null at checkout
+ * @property {string} date - When the change happened (ISO 8601)
+ */
+export interface OrderStatusChange {
+  status: OrderStatus;
+  note: string | null;
+  userId: number | null;
+  date: string;
+}
+
+/**
+ * @interface OrderDetail
+ * @description Response structure for a single order in the admin area
+ */
+export interface OrderDetail {
+  id: number;
+  code: string;
+  userId: number | null;
+  status: OrderStatus;
+  /** Statuses the order may move to next */
+  allowedTransitions: OrderStatus[];
+  customer: OrderCustomer;
+  deliveryAddress: OrderAddress;
+  items: OrderLine[];
+  itemCount: number;
+  listTotal: number;
+  discount: number;
+  total: number;
+  payment: OrderPayment;
+  notes: string | null;
+  statusHistory: OrderStatusChange[];
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * @interface OrderListItem
+ * @description Response structure for admin order list items
+ */
+export interface OrderListItem {
+  id: number;
+  code: string;
+  status: OrderStatus;
+  customerName: string;
+  customerEmail: string;
+  city: string;
+  state: BrazilianState;
+  itemCount: number;
+  total: number;
+  paymentMethod: PaymentMethod;
+  paymentStatus: PaymentStatus;
+  dateCreated: string;
+}
+
+/**
+ * @interface OrderPublicDetail
+ * @description Order as shown to the customer who placed it
+ *
+ * @property {boolean} canCancel - Whether the customer may still cancel the order
+ */
+export interface OrderPublicDetail {
+  code: string;
+  status: OrderStatus;
+  canCancel: boolean;
+  customer: OrderCustomer;
+  deliveryAddress: OrderAddress;
+  items: OrderLine[];
+  itemCount: number;
+  listTotal: number;
+  discount: number;
+  total: number;
+  payment: {
+    method: PaymentMethod;
+    installments: number;
+    status: PaymentStatus;
+  };
+  notes: string | null;
+  statusHistory: {
+    status: OrderStatus;
+    note: string | null;
+    date: string;
+  }[];
+  dateCreated: string;
+}
+
+/**
+ * @interface OrderPublicListItem
+ * @description Entry of a customer's order history
+ */
+export interface OrderPublicListItem {
+  code: string;
+  status: OrderStatus;
+  /** Image of the first line */
+  imageUrl: string;
+  itemCount: number;
+  total: number;
+  dateCreated: string;
+}
+
+/**
+ * @interface OrderListResponse
+ * @description Response structure for a page of orders
+ */
+export interface OrderListResponse<T> {
+  items: T[];
+  /** Also sent in the response metadata and pagination headers */
+  pagination: PaginationMetadata;
+}
+
+/**
+ * @interface OrderCheckoutRequest
+ * @description Request payload for placing an order from the current cart
+ */
+export interface OrderCheckoutRequest {
+  customer: OrderCustomer;
+  deliveryAddress: Omit<OrderAddress, 'complement'> & { complement?: string | null };
+  payment: {
+    method: PaymentMethod;
+    /** Credit card only (default: 1) */
+    installments?: number;
+  };
+  notes?: string | null;
+  /** Cart total the customer agreed to; checkout fails when prices changed since */
+  expectedTotal?: number;
+}
+
+/**
+ * @interface OrderStatusUpdateRequest
+ * @description Request payload for moving an order to another status
+ */
+export interface OrderStatusUpdateRequest {
+  status: OrderStatus;
+  note?: string | null;
+}
+
+/**
+ * @interface OrderListQuery
+ * @description Query parameters for the admin order list
+ */
+export interface OrderListQuery {
+  /** Order statuses (multi-select) */
+  status?: OrderStatus | OrderStatus[];
+  /** Payment statuses (multi-select) */
+  paymentStatus?: PaymentStatus | PaymentStatus[];
+  /** Order code, customer name or customer email */
+  search?: string;
+  /** First day of orders placed (YYYY-MM-DD, inclusive) */
+  dateFrom?: string;
+  /** Last day of orders placed (YYYY-MM-DD, inclusive) */
+  dateTo?: string;
+  sortBy?: 'date_desc' | 'date_asc' | 'total_desc' | 'total_asc';
+  page?: number;
+  pageSize?: number;
+}
@@ -0,0 +1,234 @@
+/**
+ * @summary
+ * Validation schemas for Order entity.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/order/orderValidation
+ */
+
+import { z } from 'zod';
+import {
+  BRAZILIAN_STATES,
+  ORDER_DEFAULTS,
+  ORDER_LIMITS,
+  ORDER_STATUSES,
+  PAYMENT_METHODS,
+  PAYMENT_STATUSES,
+  PRODUCT_LIMITS,
+} from '@/constants';
+
+/**
+ * Schema for order status validation
+ */
+export const orderStatusSchema = z.enum([
+  ORDER_STATUSES.PENDING,
+  ORDER_STATUSES.CONFIRMED,
+  ORDER_STATUSES.IN_PRODUCTION,
+  ORDER_STATUSES.SHIPPED,
+  ORDER_STATUSES.DELIVERED,
+  ORDER_STATUSES.CANCELLED,
+]);
+
+/**
+ * Schema for payment status validation
+ */
+export const paymentStatusSchema = z.enum([
+  PAYMENT_STATUSES.PENDING,
+  PAYMENT_STATUSES.AUTHORIZED,
+  PAYMENT_STATUSES.DECLINED,
+  PAYMENT_STATUSES.REFUNDED,
+]);
+
+/**
+ * Schema for CEP validation. Accepts 00000-000 or 00000000 and normalizes to 00000-000.
+ */
+export const cepSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{5}-?\d{3}$/, 'CEP must have 8 digits (00000-000)')
+  .transform((value) => {
+    const digits = value.replace('-', '');
+    return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+  });
+
+/**
+ * Schema for Brazilian phone numbers with area code; keeps only the digits
+ */
+const phoneSchema = z
+  .string()
+  .transform((value) => value.replace(/\D/g, ''))
+  .refine((digits) => digits.length === 10 || digits.length === 11, {
+    message: 'Phone must have 10 or 11 digits including the area code',
+  });
+
+/**
+ * Schema for a required address text field
+ */
+const addressFieldSchema = z.string().trim().min(1).max(ORDER_LIMITS.ADDRESS_FIELD_MAX_LENGTH);
+
+/**
+ * Schema for the delivery address
+ */
+export const deliveryAddressSchema = z.object({
+  cep: cepSchema,
+  street: addressFieldSchema,
+  number: z.string().trim().min(1).max(20),
+  complement: z
+    .string()
+    .trim()
+    .max(ORDER_LIMITS.ADDRESS_FIELD_MAX_LENGTH)
+    .nullable()
+    .optional()
+    .transform((value) => value || null),
+  neighborhood: addressFieldSchema,
+  city: addressFieldSchema,
+  state: z.enum(BRAZILIAN_STATES),
+});
+
+/**
+ * Schema for checkout request validation
+ */
+export const checkoutSchema = z
+  .object({
+    customer: z.object({
+      name: z.string().trim().min(ORDER_LIMITS.NAME_MIN_LENGTH).max(ORDER_LIMITS.NAME_MAX_LENGTH),
+      email: z.string().trim().toLowerCase().email().max(ORDER_LIMITS.EMAIL_MAX_LENGTH),
+      phone: phoneSchema,
+    }),
+    deliveryAddress: deliveryAddressSchema,
+    payment: z.object({
+      method: z.enum([PAYMENT_METHODS.PIX, PAYMENT_METHODS.CREDIT_CARD, PAYMENT_METHODS.BOLETO]),
+      installments: z.number().int().min(1).max(PRODUCT_LIMITS.INSTALLMENTS_MAX).default(1),
+    }),
+    notes: z
+      .string()
+      .trim()
+      .max(ORDER_LIMITS.NOTES_MAX_LENGTH)
+      .nullable()
+      .optional()
+      .transform((value) => value || null),
+    expectedTotal: z.number().min(0).optional(),
+  })
+  .refine(
+    (body) =>
+      body.payment.method === PAYMENT_METHODS.CREDIT_CARD || body.payment.installments === 1,
+    { message: 'Only credit card payments can be split in installments', path: ['payment'] }
+  );
+
+/**
+ * Schema for status change request validation
+ */
+export const statusUpdateSchema = z.object({
+  status: orderStatusSchema,
+  note: z
+    .string()
+    .trim()
+    .max(ORDER_LIMITS.NOTES_MAX_LENGTH)
+    .nullable()
+    .optional()
+    .transform((value) => value || null),
+});
+
+/**
+ * Schema for customer cancellation request validation
+ */
+export const cancelSchema = statusUpdateSchema.pick({ note: true });
+
+/**
+ * Schema for a multi-select status filter. Accepts a repeated parameter and/or
+ * comma-separated values.
+ */
+const statusValuesSchema = <T extends z.ZodTypeAny>(valueSchema: T) =>
+  z
+    .preprocess(
+      (value) =>
+        [value]
+          .flat()
+          .flatMap((item) => String(item).split(','))
+          .map((item) => item.trim())
+          .filter(Boolean),
+      z.array(valueSchema)
+    )
+    .optional();
+
+/**
+ * Schema for a calendar date filter (YYYY-MM-DD)
+ */
+const dateFilterSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must use the YYYY-MM-DD format')
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' })
+  .optional();
+
+/**
+ * Schema for page parameters validation
+ */
+const pageSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .positive()
+    .max(ORDER_LIMITS.PAGE_SIZE_MAX)
+    .default(ORDER_DEFAULTS.PAGE_SIZE),
+});
+
+/**
+ * Schema for admin order list query validation
+ */
+export const listQuerySchema = pageSchema
+  .extend({
+    status: statusValuesSchema(orderStatusSchema),
+    paymentStatus: statusValuesSchema(paymentStatusSchema),
+    search: z.string().trim().max(ORDER_LIMITS.SEARCH_MAX_LENGTH).optional(),
+    dateFrom: dateFilterSchema,
+    dateTo: dateFilterSchema,
+    sortBy: z.enum(['date_desc', 'date_asc', 'total_desc', 'total_asc']).default('date_desc'),
+  })
+  .refine((query) => !query.dateFrom || !query.dateTo || query.dateFrom <= query.dateTo, {
+    message: 'dateFrom must not be after dateTo',
+    path: ['dateFrom'],
+  });
+
+/**
+ * Schema for customer order history query validation
+ */
+export const publicListQuerySchema = pageSchema;
+
+/**
+ * Schema for ID parameter validation
+ */
+export const orderParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+/**
+ * Schema for order code parameter validation
+ */
+export const orderCodeParamsSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(new RegExp(`^${ORDER_DEFAULTS.CODE_PREFIX}-\\d{6,}$`), 'Invalid order code'),
+});
+
+/**
+ * Schema for guest order lookup query validation
+ */
+export const lookupQuerySchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(ORDER_LIMITS.EMAIL_MAX_LENGTH).optional(),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type CheckoutInput = z.infer<typeof checkoutSchema>;
+export type DeliveryAddressInput = z.infer<typeof deliveryAddressSchema>;
+export type StatusUpdateInput = z.infer<typeof statusUpdateSchema>;
+export type CancelInput = z.infer<typeof cancelSchema>;
+export type ListQueryInput = z.infer<typeof listQuerySchema>;
+export type PublicListQueryInput = z.infer<typeof publicListQuerySchema>;
+export type OrderParamsInput = z.infer<typeof orderParamsSchema>;
+export type OrderCodeParamsInput = z.infer<typeof orderCodeParamsSchema>;
+export type LookupQueryInput = z.infer<typeof lookupQuerySchema>;
@@ -1,36 +1,1512 @@
 /**
  * @summary
  * Business logic for Product entity.
- * Handles catalog display operations using in-memory storage.
+ * Handles catalog display and management operations using in-memory storage.
  * All validation and business logic is centralized here.
  *
  * @module services/product/productService
  */
 
-import { PRODUCT_DEFAULTS } from '@/constants';
-import { productStore } from '@/instances';
-import { ServiceError } from '@/utils';
-import { ProductEntity, ProductListResponse, ProductListItem } from './productTypes';
-import { listQuerySchema, productParamsSchema } from './productValidation';
+import {
+  PRODUCT_AVAILABILITY,
+  PRODUCT_DEFAULTS,
+  PRODUCT_FACET_RANGES,
+  PRODUCT_IMAGE_DEFAULTS,
+  PRODUCT_SEARCH,
+} from '@/constants';
+import {
+  productStore,
+  productImageStore,
+  categoryStore,
+  fileStorage,
+  productSearchIndex,
+  searchQueryStore,
+  ProductRecord,
+  ProductSearchField,
+  SearchDocument,
+  SearchQueryOptions,
+} from '@/instances';
+import { ServiceError, createPagination, foldAccents } from '@/utils';
+import {
+  categoryAddProduct,
+  categoryRemoveProduct,
+  categoryGetVisibleIds,
+  categoryGetAttributeDefinitions,
+  CategoryAttributeDefinition,
+} from '@/services/category';
+import {
+  ProductEntity,
+  ProductDetail,
+  ProductCategory,
+  ProductCategoryPathItem,
+  ProductListResponse,
+  ProductListItem,
+  ProductPublicListItem,
+  ProductPublicDetail,
+  ProductPublicListResponse,
+  ProductPricing,
+  ProductPrice,
+  ProductInstallmentPlan,
+  ProductInventory,
+  ProductAvailability,
+  ProductVariant,
+  ProductPublicVariant,
+  ProductStockLine,
+  ProductStockReservation,
+  ProductSpecifications,
+  ProductAttributeGroup,
+  ProductAttributeValue,
+  ProductFacets,
+  ProductFacetKey,
+  ProductFacetValue,
+  ProductSuggestResponse,
+} from './productTypes';
+import {
+  createSchema,
+  updateSchema,
+  patchSchema,
+  listQuerySchema,
+  suggestQuerySchema,
+  batchQuerySchema,
+  productParamsSchema,
+  pricingSchema,
+  facetRangeKey,
+  ListQueryInput,
+  OptionsInput,
+  VariantInput,
+} from './productValidation';
+
+/**
+ * @summary
+ * Validates that the referenced category exists.
+ *
+ * @function validateCategoryExists
+ * @param {number} categoryId - Category ID
+ * @throws {ServiceError} When category does not exist
+ */
+function validateCategoryExists(categoryId: number): void {
+  if (!categoryStore.exists(categoryId)) {
+    throw new ServiceError('VALIDATION_ERROR', 'Category does not exist', 400);
+  }
+}
+
+/**
+ * @summary
+ * Resolves a category filter value (slug or numeric ID) to a category ID.
+ *
+ * @function resolveCategoryFilter
+ * @param {string} value - Category slug or ID
+ * @returns {number | null} Category ID, or null when no category matches
+ */
+function resolveCategoryFilter(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    const id = parseInt(value, 10);
+    return categoryStore.exists(id) ? id : null;
+  }
+
+  const category = categoryStore.getBySlug(value);
+  return category ? category.id : null;
+}
+
+/**
+ * @summary
+ * Collects a category ID together with the IDs of all its descendants.
+ *
+ * @function collectCategorySubtree
+ * @param {number} rootId - Category ID at the top of the subtree
+ * @returns {Set<number>} IDs of the root category and its descendants
+ */
+function collectCategorySubtree(rootId: number): Set<number> {
+  const categories = categoryStore.getAll();
+  const subtree = new Set<number>([rootId]);
+  let frontier = [rootId];
+
+  while (frontier.length > 0) {
+    const children = categories.filter(
+      (c) => c.parentId !== null && frontier.includes(c.parentId) && !subtree.has(c.id)
+    );
+    children.forEach((c) => subtree.add(c.id));
+    frontier = children.map((c) => c.id);
+  }
+
+  return subtree;
+}
+
+/**
+ * @summary
+ * Builds the embedded category reference with its ancestor path.
+ *
+ * @function resolveCategory
+ * @param {number} categoryId - Category ID
+ * @returns {ProductCategory} Resolved category with path from the top level down
+ */
+function resolveCategory(categoryId: number): ProductCategory {
+  const path: ProductCategoryPathItem[] = [];
+  const visited = new Set<number>();
+  let current = categoryStore.getById(categoryId);
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift({ id: current.id, name: current.name, slug: current.slug });
+    current = current.parentId !== null ? categoryStore.getById(current.parentId) : undefined;
+  }
+
+  const category = path[path.length - 1];
+
+  return {
+    id: categoryId,
+    name: category?.name ?? '',
+    slug: category?.slug ?? '',
+    path,
+  };
+}
+
+/**
+ * @summary
+ * Builds the searchable text of a product.
+ *
+ * @function toSearchDocument
+ * @param {ProductRecord} product - Product record
+ * @returns {SearchDocument<ProductSearchField>} Text of each indexed field
+ */
+function toSearchDocument(product: ProductRecord): SearchDocument<ProductSearchField> {
+  return {
+    name: product.name,
+    category: resolveCategory(product.categoryId)
+      .path.map((item) => item.name)
+      .join(' '),
+    materials: [
+      ...product.specifications.materials,
+      ...product.specifications.finishes,
+      ...product.options.flatMap((option) => option.values),
+    ].join(' '),
+    description: product.description ?? '',
+  };
+}
+
+/**
+ * @summary
+ * Scores products against a search term, building the index on first use.
+ *
+ * @function searchProducts
+ * @param {string} search - Search term
+ * @param {SearchQueryOptions} [options] - Per-query overrides of the index options
+ * @returns {Map<number, number>} Relevance score of each matching product ID
+ */
+function searchProducts(search: string, options?: SearchQueryOptions): Map<number, number> {
+  if (!productSearchIndex.isBuilt()) {
+    productSearchIndex.build(
+      new Map(productStore.getAll().map((p) => [p.id, toSearchDocument(p)]))
+    );
+  }
+  return productSearchIndex.search(search, options);
+}
+
+/**
+ * @summary
+ * Counts a storefront search towards the popular searches. Once the log is full,
+ * only searches already in it are counted.
+ *
+ * @function recordSearchQuery
+ * @param {string} search - Search term that found products
+ */
+function recordSearchQuery(search: string): void {
+  const query = search.trim().replace(/\s+/g, ' ').toLocaleLowerCase('pt-BR');
+  const key = foldAccents(query);
+  const existing = searchQueryStore.getByKey(key);
+  const now = new Date().toISOString();
+
+  if (existing) {
+    searchQueryStore.update(existing.id, { count: existing.count + 1, lastSearchedAt: now });
+  } else if (searchQueryStore.count() < PRODUCT_SEARCH.QUERY_LOG_MAX_RECORDS) {
+    searchQueryStore.add({
+      id: searchQueryStore.getNextId(),
+      key,
+      query,
+      count: 1,
+      lastSearchedAt: now,
+    });
+  }
+}
+
+/**
+ * @summary
+ * Checks whether every word of a prefix starts a word of the text, ignoring accents,
+ * so "cad esc" matches "Cadeira de Escritório".
+ *
+ * @function matchesWordPrefixes
+ * @param {string} text - Text to match
+ * @param {string} prefix - Typed prefix
+ * @returns {boolean} True when all prefix words match
+ */
+function matchesWordPrefixes(text: string, prefix: string): boolean {
+  const words = foldAccents(text).split(/[^a-z0-9]+/);
+  return foldAccents(prefix)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .every((part) => words.some((word) => word.startsWith(part)));
+}
+
+/**
+ * @summary
+ * Moves a product's contribution to category counts when its category changes.
+ *
+ * @function moveProductCategory
+ * @param {number} fromCategoryId - Previous category ID
+ * @param {number} toCategoryId - New category ID
+ */
+async function moveProductCategory(fromCategoryId: number, toCategoryId: number): Promise<void> {
+  if (fromCategoryId === toCategoryId) {
+    return;
+  }
+
+  if (categoryStore.exists(fromCategoryId)) {
+    await categoryRemoveProduct(fromCategoryId);
+  }
+  await categoryAddProduct(toCategoryId);
+}
+
+/**
+ * @summary
+ * Rounds a monetary value to cents.
+ *
+ * @function roundCurrency
+ * @param {number} value - Amount in BRL
+ * @returns {number} Amount rounded to two decimals
+ */
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * @summary
+ * Checks whether the promotional price applies at the given moment.
+ *
+ * @function isSaleActive
+ * @param {ProductPricing} pricing - Product pricing
+ * @param {Date} now - Reference moment
+ * @returns {boolean} True when a sale price is set and its window contains the moment
+ */
+function isSaleActive(pricing: ProductPricing, now: Date): boolean {
+  if (pricing.salePrice === null) {
+    return false;
+  }
+  if (pricing.saleStartsAt && now < new Date(pricing.saleStartsAt)) {
+    return false;
+  }
+  if (pricing.saleEndsAt && now >= new Date(pricing.saleEndsAt)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * @summary
+ * Gets the price a customer pays at the given moment.
+ *
+ * @function getCurrentPrice
+ * @param {ProductPricing | null} pricing - Product pricing
+ * @param {Date} now - Reference moment
+ * @returns {number | null} Current price, or null when the price is given on request
+ */
+function getCurrentPrice(pricing: ProductPricing | null, now: Date): number | null {
+  if (!pricing) {
+    return null;
+  }
+  return isSaleActive(pricing, now) ? (pricing.salePrice as number) : pricing.price;
+}
+
+/**
+ * @summary
+ * Builds the longest installment plan whose installments stay above the minimum value.
+ * Interest is compounded monthly using the price table (PMT) formula.
+ *
+ * @function resolveInstallments
+ * @param {number} amount - Amount to split
+ * @param {ProductPricing} pricing - Product pricing with installment settings
+ * @returns {ProductInstallmentPlan | null} Installment plan, or null when only cash payment applies
+ */
+function resolveInstallments(
+  amount: number,
+  pricing: ProductPricing
+): ProductInstallmentPlan | null {
+  const count = Math.min(
+    pricing.maxInstallments,
+    Math.floor(amount / PRODUCT_DEFAULTS.MIN_INSTALLMENT_VALUE)
+  );
+
+  if (count < 2) {
+    return null;
+  }
+
+  const rate = pricing.installmentInterestRate / 100;
+  const value = rate === 0 ? amount / count : (amount * rate) / (1 - Math.pow(1 + rate, -count));
+
+  return {
+    count,
+    value: roundCurrency(value),
+    total: roundCurrency(value * count),
+    interestFree: rate === 0,
+  };
+}
+
+/**
+ * @summary
+ * Resolves the price block returned to clients from the stored pricing.
+ *
+ * @function resolvePrice
+ * @param {ProductPricing | null} pricing - Product pricing
+ * @param {Date} now - Reference moment
+ * @returns {ProductPrice | null} Resolved price, or null when the price is given on request
+ */
+function resolvePrice(pricing: ProductPricing | null, now: Date = new Date()): ProductPrice | null {
+  if (!pricing) {
+    return null;
+  }
+
+  const onSale = isSaleActive(pricing, now);
+  const currentPrice = onSale ? (pricing.salePrice as number) : pricing.price;
+
+  return {
+    listPrice: pricing.price,
+    currentPrice,
+    onSale,
+    discountPercent: onSale ? Math.round((1 - currentPrice / pricing.price) * 100) : null,
+    saleEndsAt: onSale ? pricing.saleEndsAt : null,
+    installments: resolveInstallments(currentPrice, pricing),
+  };
+}
+
+/**
+ * @summary
+ * Resolves the availability returned to clients from the stored inventory.
+ *
+ * @function resolveAvailability
+ * @param {ProductInventory} inventory - Product inventory
+ * @returns {ProductAvailability} Availability status, units ready to ship and lead time
+ */
+function resolveAvailability(inventory: ProductInventory): ProductAvailability {
+  const available = Math.max(inventory.stock - inventory.reserved, 0);
+  let status: ProductAvailability['status'] = PRODUCT_AVAILABILITY.OUT_OF_STOCK;
+
+  if (available > inventory.lowStockThreshold) {
+    status = PRODUCT_AVAILABILITY.IN_STOCK;
+  } else if (available > 0) {
+    status = PRODUCT_AVAILABILITY.LOW_STOCK;
+  } else if (inventory.leadTimeDays !== null) {
+    status = PRODUCT_AVAILABILITY.MADE_TO_ORDER;
+  }
+
+  return { status, available, leadTimeDays: inventory.leadTimeDays };
+}
+
+/**
+ * @summary
+ * Checks that edited stock still covers the units reserved for open orders.
+ *
+ * @function validateInventory
+ * @param {ProductInventory} inventory - Inventory to store
+ * @throws {ServiceError} When the stock is lower than the reserved units
+ */
+function validateInventory(inventory: ProductInventory): void {
+  if (inventory.stock < inventory.reserved) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `Stock cannot be lower than the ${inventory.reserved} units reserved for open orders`,
+      400,
+      { reserved: inventory.reserved }
+    );
+  }
+}
+
+/**
+ * Availability statuses from most to least favorable to the shopper
+ */
+const AVAILABILITY_RANK: ProductAvailability['status'][] = [
+  PRODUCT_AVAILABILITY.IN_STOCK,
+  PRODUCT_AVAILABILITY.LOW_STOCK,
+  PRODUCT_AVAILABILITY.MADE_TO_ORDER,
+  PRODUCT_AVAILABILITY.OUT_OF_STOCK,
+];
+
+/**
+ * @summary
+ * Resolves the availability of a product. Products with variants are as available as
+ * their best variant, with the units of all variants and the shortest lead time.
+ *
+ * @function resolveProductAvailability
+ * @param {ProductRecord} record - Product record
+ * @returns {ProductAvailability} Availability of the product
+ */
+function resolveProductAvailability(record: ProductRecord): ProductAvailability {
+  if (record.variants.length === 0) {
+    return resolveAvailability(record.inventory);
+  }
+
+  const availabilities = record.variants.map((v) => resolveAvailability(v.inventory));
+  const leadTimes = availabilities
+    .map((a) => a.leadTimeDays)
+    .filter((days): days is number => days !== null);
+
+  return {
+    status:
+      AVAILABILITY_RANK[
+        Math.min(...availabilities.map((a) => AVAILABILITY_RANK.indexOf(a.status)))
+      ],
+    available: availabilities.reduce((sum, a) => sum + a.available, 0),
+    leadTimeDays: leadTimes.length > 0 ? Math.min(...leadTimes) : null,
+  };
+}
+
+/**
+ * @summary
+ * Maps a variant to its storefront representation, falling back to the product pricing,
+ * dimensions and weight where the variant sets none.
+ *
+ * @function toPublicVariant
+ * @param {ProductRecord} record - Product the variant belongs to
+ * @param {ProductVariant} variant - Stored variant
+ * @returns {ProductPublicVariant} Variant with resolved price and availability
+ */
+function toPublicVariant(record: ProductRecord, variant: ProductVariant): ProductPublicVariant {
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    options: variant.options,
+    label: record.options.map((option) => variant.options[option.name]).join(' / '),
+    price: resolvePrice(variant.pricing ?? record.pricing),
+    availability: resolveAvailability(variant.inventory),
+    dimensions: variant.dimensions ?? record.specifications.dimensions,
+    weight: variant.weight ?? record.specifications.weight,
+  };
+}
+
+/**
+ * @summary
+ * Checks the variants of a product against its option axes and builds the variants to store.
+ * Variants sent with an ID keep the units reserved for open orders; variants without one get
+ * a new ID. Every variant must pick one value of each axis, in a combination no other variant
+ * uses, and carry a SKU no other variant or product uses.
+ *
+ * @function resolveVariants
+ * @param {number | null} productId - Product being edited, null when it is being created
+ * @param {OptionsInput} options - Option axes of the product
+ * @param {VariantInput[]} variants - Variants from the request
+ * @param {ProductVariant[]} existing - Variants stored for the product
+ * @param {number} nextVariantId - ID the next new variant gets; IDs of removed variants are not reused
+ * @returns {{ variants: ProductVariant[], nextVariantId: number }} Variants to store and the
+ *   ID the next new variant gets afterwards
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When variants do not match the option axes,
+ *   repeat a combination or SKU, or reference an unknown variant ID
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When a variant with reserved units is
+ *   removed or its stock drops below them
+ */
+function resolveVariants(
+  productId: number | null,
+  options: OptionsInput,
+  variants: VariantInput[],
+  existing: ProductVariant[],
+  nextVariantId: number
+): { variants: ProductVariant[]; nextVariantId: number } {
+  const issues: { path: (string | number)[]; message: string }[] = [];
+
+  if (options.length === 0 && variants.length > 0) {
+    issues.push({ path: ['variants'], message: 'Variants require option axes' });
+  } else if (options.length > 0 && variants.length === 0) {
+    issues.push({ path: ['variants'], message: 'Products with options need at least one variant' });
+  }
+
+  const existingById = new Map(existing.map((v) => [v.id, v]));
+  const otherSkus = new Set(
+    productStore
+      .getAll()
+      .filter((p) => p.id !== productId)
+      .flatMap((p) => p.variants.map((v) => v.sku))
+  );
+  const seenIds = new Set<number>();
+  const seenSkus = new Set<string>();
+  const seenCombinations = new Set<string>();
+
+  variants.forEach((variant, index) => {
+    const path = ['variants', index];
+
+    if (variant.id !== undefined && (!existingById.has(variant.id) || seenIds.has(variant.id))) {
+      issues.push({ path: [...path, 'id'], message: 'Unknown or repeated variant ID' });
+    }
+    if (variant.id !== undefined) {
+      seenIds.add(variant.id);
+    }
+
+    if (seenSkus.has(variant.sku)) {
+      issues.push({ path: [...path, 'sku'], message: 'SKU is repeated' });
+    } else if (otherSkus.has(variant.sku)) {
+      issues.push({ path: [...path, 'sku'], message: 'SKU is already used by another product' });
+    }
+    seenSkus.add(variant.sku);
+
+    Object.keys(variant.options)
+      .filter((name) => !options.some((option) => option.name === name))
+      .forEach((name) => {
+        issues.push({ path: [...path, 'options', name], message: 'Option is not defined' });
+      });
+    options.forEach((option) => {
+      if (!option.values.includes(variant.options[option.name])) {
+        issues.push({
+          path: [...path, 'options', option.name],
+          message: `Expected one of: ${option.values.join(', ')}`,
+        });
+      }
+    });
+
+    const combination = JSON.stringify(options.map((option) => variant.options[option.name]));
+    if (seenCombinations.has(combination)) {
+      issues.push({
+        path: [...path, 'options'],
+        message: 'Another variant has the same options',
+      });
+    }
+    seenCombinations.add(combination);
+  });
+
+  if (issues.length > 0) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, issues);
+  }
+
+  const locked = existing.find((v) => !seenIds.has(v.id) && v.inventory.reserved > 0);
+  if (locked) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `Variant ${locked.sku} cannot be removed while ${locked.inventory.reserved} units are reserved for open orders`,
+      400,
+      { variantId: locked.id, reserved: locked.inventory.reserved }
+    );
+  }
+
+  let nextId = nextVariantId;
+
+  const resolved = variants.map((variant) => {
+    const stored = variant.id !== undefined ? existingById.get(variant.id) : undefined;
+    const inventory = { ...variant.inventory, reserved: stored?.inventory.reserved ?? 0 };
+    validateInventory(inventory);
+
+    return {
+      id: stored?.id ?? nextId++,
+      sku: variant.sku,
+      options: Object.fromEntries(
+        options.map((option) => [option.name, variant.options[option.name]])
+      ),
+      pricing: variant.pricing,
+      inventory,
+      dimensions: variant.dimensions,
+      weight: variant.weight,
+    };
+  });
+
+  return { variants: resolved, nextVariantId: nextId };
+}
+
+/**
+ * @summary
+ * Maps a stored variant back to request form, so stored variants can be checked against
+ * new option axes.
+ *
+ * @function toVariantInput
+ * @param {ProductVariant} variant - Stored variant
+ * @returns {VariantInput} Variant as it would be sent in a request
+ */
+function toVariantInput({ inventory, ...variant }: ProductVariant): VariantInput {
+  return {
+    ...variant,
+    inventory: {
+      stock: inventory.stock,
+      leadTimeDays: inventory.leadTimeDays,
+      lowStockThreshold: inventory.lowStockThreshold,
+    },
+  };
+}
+
+/**
+ * @summary
+ * Unlinks the gallery images of a product from variants it no longer has.
+ *
+ * @function pruneImageVariants
+ * @param {number} productId - Product ID
+ * @param {ProductVariant[]} variants - Variants the product keeps
+ */
+function pruneImageVariants(productId: number, variants: ProductVariant[]): void {
+  const variantIds = new Set(variants.map((v) => v.id));
+
+  productImageStore
+    .getAll()
+    .filter(
+      (img) => img.productId === productId && img.variantIds.some((id) => !variantIds.has(id))
+    )
+    .forEach((img) => {
+      productImageStore.update(img.id, {
+        variantIds: img.variantIds.filter((id) => variantIds.has(id)),
+      });
+    });
+}
+
+/**
+ * @summary
+ * Finds the inventory an order line draws from: its variant's, or the product's when the
+ * line names no variant.
+ *
+ * @function findStockInventory
+ * @param {ProductRecord} record - Product record
+ * @param {number | null} variantId - Variant of the line
+ * @returns {ProductInventory | undefined} Inventory, undefined when the variant does not exist
+ */
+function findStockInventory(
+  record: ProductRecord,
+  variantId: number | null
+): ProductInventory | undefined {
+  return variantId === null
+    ? record.inventory
+    : record.variants.find((v) => v.id === variantId)?.inventory;
+}
+
+/**
+ * @summary
+ * Stores a change to the inventory an order line draws from.
+ *
+ * @function updateStockInventory
+ * @param {ProductRecord} record - Product record
+ * @param {number | null} variantId - Variant of the line
+ * @param {(inventory: ProductInventory) => ProductInventory} change - Computes the new inventory
+ */
+function updateStockInventory(
+  record: ProductRecord,
+  variantId: number | null,
+  change: (inventory: ProductInventory) => ProductInventory
+): void {
+  if (variantId === null) {
+    productStore.update(record.id, { inventory: change(record.inventory) });
+    return;
+  }
+
+  productStore.update(record.id, {
+    variants: record.variants.map((v) =>
+      v.id === variantId ? { ...v, inventory: change(v.inventory) } : v
+    ),
+  });
+}
+
+/**
+ * Predicate a product must satisfy for one facet filter
+ */
+type FacetPredicate = (product: ProductRecord) => boolean;
+
+/**
+ * Bucket of a range facet
+ */
+type FacetRange = { min: number; max: number | null };
+
+const numberFormatter = new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 2 });
+
+/**
+ * @summary
+ * Normalizes a material or color so values differing only in case are grouped.
+ *
+ * @function facetValueKey
+ * @param {string} value - Material or color
+ * @returns {string} Comparison key
+ */
+function facetValueKey(value: string): string {
+  return value.trim().toLocaleLowerCase('pt-BR');
+}
+
+/**
+ * @summary
+ * Checks whether a value falls in a facet range.
+ *
+ * @function isInRange
+ * @param {number | null} value - Value to check; null never matches
+ * @param {FacetRange} range - Range with inclusive min and exclusive max
+ * @returns {boolean} True when the value is inside the range
+ */
+function isInRange(value: number | null, range: FacetRange): boolean {
+  return value !== null && value >= range.min && (range.max === null || value < range.max);
+}
+
+/**
+ * @summary
+ * Builds the display label of a facet range, e.g. "R$ 1.000 a R$ 2.000" or "Até 80 cm".
+ *
+ * @function formatRangeLabel
+ * @param {FacetRange} range - Facet range
+ * @param {function} format - Formats one bound
+ * @returns {string} Range label
+ */
+function formatRangeLabel(range: FacetRange, format: (value: number) => string): string {
+  if (range.min === 0 && range.max !== null) {
+    return `Até ${format(range.max)}`;
+  }
+  if (range.max === null) {
+    return `Acima de ${format(range.min)}`;
+  }
+  return `${format(range.min)} a ${format(range.max)}`;
+}
+
+/**
+ * @summary
+ * Resolves category filter values to the IDs of the categories they select.
+ *
+ * @function resolveCategoryIds
+ * @param {string[]} values - Category slugs or IDs
+ * @param {boolean} includeDescendants - Whether subcategories are selected too
+ * @returns {Set<number>} Selected category IDs; unknown values select nothing
+ */
+function resolveCategoryIds(values: string[], includeDescendants: boolean): Set<number> {
+  const categoryIds = new Set<number>();
+
+  values.forEach((value) => {
+    const categoryId = resolveCategoryFilter(value);
+    if (categoryId === null) {
+      return;
+    }
+    const ids = includeDescendants ? collectCategorySubtree(categoryId) : [categoryId];
+    ids.forEach((id) => categoryIds.add(id));
+  });
+
+  return categoryIds;
+}
+
+/**
+ * @summary
+ * Builds one predicate per active facet filter. Values within a facet are combined
+ * with OR; different facets are combined with AND.
+ *
+ * @function buildFacetPredicates
+ * @param {ListQueryInput} params - Validated list query
+ * @param {Date} now - Reference moment for current prices
+ * @returns {Partial<Record<ProductFacetKey, FacetPredicate>>} Predicates of the active filters
+ */
+function buildFacetPredicates(
+  params: ListQueryInput,
+  now: Date
+): Partial<Record<ProductFacetKey, FacetPredicate>> {
+  const predicates: Partial<Record<ProductFacetKey, FacetPredicate>> = {};
+
+  if (params.category?.length) {
+    const categoryIds = resolveCategoryIds(params.category, params.includeDescendants !== false);
+    predicates.category = (p) => categoryIds.has(p.categoryId);
+  }
+
+  if (params.material?.length) {
+    const selected = new Set(params.material.map(facetValueKey));
+    predicates.material = (p) =>
+      p.specifications.materials.some((material) => selected.has(facetValueKey(material)));
+  }
+
+  if (params.color?.length) {
+    const selected = new Set(params.color.map(facetValueKey));
+    predicates.color = (p) =>
+      p.specifications.finishes.some((finish) => selected.has(facetValueKey(finish)));
+  }
+
+  if (params.priceRange?.length) {
+    const selected = params.priceRange;
+    const ranges = PRODUCT_FACET_RANGES.PRICE.filter((r) => selected.includes(facetRangeKey(r)));
+    predicates.priceRange = (p) =>
+      ranges.some((range) => isInRange(getCurrentPrice(p.pricing, now), range));
+  }
+
+  if (params.size?.length) {
+    const selected = params.size;
+    const ranges = PRODUCT_FACET_RANGES.WIDTH.filter((r) => selected.includes(facetRangeKey(r)));
+    predicates.size = (p) =>
+      ranges.some((range) => isInRange(p.specifications.dimensions.width, range));
+  }
+
+  return predicates;
+}
+
+/**
+ * @summary
+ * Counts the products carrying each value of a list facet (materials, colors).
+ *
+ * @function countListFacet
+ * @param {ProductRecord[]} products - Products matching the other facet filters
+ * @param {function} getValues - Reads the facet values of a product
+ * @param {string[]} selected - Currently selected values
+ * @returns {ProductFacetValue[]} Values by descending count; selected values are always listed
+ */
+function countListFacet(
+  products: ProductRecord[],
+  getValues: (product: ProductRecord) => string[],
+  selected: string[]
+): ProductFacetValue[] {
+  const values = new Map<string, ProductFacetValue>();
+
+  products.forEach((product) => {
+    new Set(getValues(product).map((value) => value.trim())).forEach((value) => {
+      const key = facetValueKey(value);
+      const entry = values.get(key) ?? { value, label: value, count: 0 };
+      entry.count += 1;
+      values.set(key, entry);
+    });
+  });
+
+  selected.forEach((value) => {
+    if (!values.has(facetValueKey(value))) {
+      values.set(facetValueKey(value), { value, label: value, count: 0 });
+    }
+  });
+
+  return [...values.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/**
+ * @summary
+ * Counts the products falling in each bucket of a range facet.
+ *
+ * @function countRangeFacet
+ * @param {ProductRecord[]} products - Products matching the other facet filters
+ * @param {readonly FacetRange[]} ranges - Facet buckets
+ * @param {function} getValue - Reads the value of a product
+ * @param {function} formatBound - Formats a bucket bound for the label
+ * @param {string[]} selected - Currently selected bucket keys
+ * @returns {ProductFacetValue[]} Buckets in ascending order; empty unselected buckets are left out
+ */
+function countRangeFacet(
+  products: ProductRecord[],
+  ranges: readonly FacetRange[],
+  getValue: (product: ProductRecord) => number | null,
+  formatBound: (value: number) => string,
+  selected: string[]
+): ProductFacetValue[] {
+  return ranges
+    .map((range) => ({
+      value: facetRangeKey(range),
+      label: formatRangeLabel(range, formatBound),
+      count: products.filter((p) => isInRange(getValue(p), range)).length,
+      min: range.min,
+      max: range.max,
+    }))
+    .filter((entry) => entry.count > 0 || selected.includes(entry.value));
+}
+
+/**
+ * @summary
+ * Counts the products in each category, in category tree order. A product counts for
+ * its category and, unless descendants are excluded, for every ancestor.
+ *
+ * @function countCategoryFacet
+ * @param {ProductRecord[]} products - Products matching the other facet filters
+ * @param {ListQueryInput} params - Validated list query
+ * @returns {ProductFacetValue[]} Categories keyed by slug
+ */
+function countCategoryFacet(
+  products: ProductRecord[],
+  params: ListQueryInput
+): ProductFacetValue[] {
+  const counts = new Map<number, number>();
+
+  products.forEach((product) => {
+    const path = resolveCategory(product.categoryId).path;
+    const ids =
+      params.includeDescendants !== false ? path.map((item) => item.id) : [product.categoryId];
+    ids.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1));
+  });
+
+  const selected = params.category ?? [];
+  const categories = categoryStore.getAll();
+  const ordered: ProductFacetValue[] = [];
+  const visit = (parentId: number | null) => {
+    categories
+      .filter((c) => c.parentId === parentId)
+      .sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name))
+      .forEach((c) => {
+        const count = counts.get(c.id) ?? 0;
+        if (count > 0 || selected.includes(c.slug) || selected.includes(String(c.id))) {
+          ordered.push({ value: c.slug, label: c.name, count });
+        }
+        visit(c.id);
+      });
+  };
+  visit(null);
+
+  return ordered;
+}
+
+/**
+ * @summary
+ * Computes the facets of a listing. Each facet is counted over the products that match
+ * every other facet filter, so selecting a value never hides its alternatives.
+ *
+ * @function computeFacets
+ * @param {ProductRecord[]} products - Products matching the search and price bounds
+ * @param {Partial<Record<ProductFacetKey, FacetPredicate>>} predicates - Active facet filters
+ * @param {ListQueryInput} params - Validated list query
+ * @param {Date} now - Reference moment for current prices
+ * @returns {ProductFacets} Facet values with counts
+ */
+function computeFacets(
+  products: ProductRecord[],
+  predicates: Partial<Record<ProductFacetKey, FacetPredicate>>,
+  params: ListQueryInput,
+  now: Date
+): ProductFacets {
+  const matchingOthers = (facet: ProductFacetKey) =>
+    products.filter((p) =>
+      Object.entries(predicates).every(([key, predicate]) => key === facet || predicate(p))
+    );
+
+  return {
+    category: countCategoryFacet(matchingOthers('category'), params),
+    material: countListFacet(
+      matchingOthers('material'),
+      (p) => p.specifications.materials,
+      params.material ?? []
+    ),
+    color: countListFacet(
+      matchingOthers('color'),
+      (p) => p.specifications.finishes,
+      params.color ?? []
+    ),
+    priceRange: countRangeFacet(
+      matchingOthers('priceRange'),
+      PRODUCT_FACET_RANGES.PRICE,
+      (p) => getCurrentPrice(p.pricing, now),
+      (value) => `R$ ${numberFormatter.format(value)}`,
+      params.priceRange ?? []
+    ),
+    size: countRangeFacet(
+      matchingOthers('size'),
+      PRODUCT_FACET_RANGES.WIDTH,
+      (p) => p.specifications.dimensions.width,
+      (value) => `${numberFormatter.format(value)} cm`,
+      params.size ?? []
+    ),
+  };
+}
+
+/**
+ * Sort order of the product listing
+ */
+type ProductSortBy = NonNullable<ListQueryInput['sortBy']>;
+
+/**
+ * Values a product is ordered by, most significant first; the ID always comes last
+ * so that every product has a distinct position
+ */
+type SortKey = (string | number)[];
+
+/**
+ * Type and direction (1 ascending, -1 descending) of each sort key component
+ */
+const SORT_KEY_COMPONENTS: Record<
+  ProductSortBy,
+  { type: 'string' | 'number'; direction: 1 | -1 }[]
+> = {
+  relevance: [
+    { type: 'number', direction: -1 },
+    { type: 'string', direction: 1 },
+    { type: 'number', direction: 1 },
+  ],
+  name_asc: [
+    { type: 'string', direction: 1 },
+    { type: 'number', direction: 1 },
+  ],
+  name_desc: [
+    { type: 'string', direction: -1 },
+    { type: 'number', direction: 1 },
+  ],
+  date_asc: [
+    { type: 'number', direction: 1 },
+    { type: 'number', direction: 1 },
+  ],
+  date_desc: [
+    { type: 'number', direction: -1 },
+    { type: 'number', direction: -1 },
+  ],
+  price_asc: [
+    { type: 'number', direction: 1 },
+    { type: 'number', direction: 1 },
+    { type: 'number', direction: 1 },
+  ],
+  price_desc: [
+    { type: 'number', direction: 1 },
+    { type: 'number', direction: -1 },
+    { type: 'number', direction: 1 },
+  ],
+};
+
+/**
+ * @summary
+ * Builds the sort key of a product for a sort order.
+ *
+ * @function getSortKey
+ * @param {ProductRecord} product - Product record
+ * @param {ProductSortBy} sortBy - Sort order
+ * @param {Map<number, number>} scores - Search relevance by product ID
+ * @param {Date} now - Reference moment for current prices
+ * @returns {SortKey} Sort key matching SORT_KEY_COMPONENTS[sortBy]
+ */
+function getSortKey(
+  product: ProductRecord,
+  sortBy: ProductSortBy,
+  scores: Map<number, number>,
+  now: Date
+): SortKey {
+  switch (sortBy) {
+    case 'relevance':
+      return [scores.get(product.id) ?? 0, product.name, product.id];
+    case 'name_asc':
+    case 'name_desc':
+      return [product.name, product.id];
+    case 'date_asc':
+    case 'date_desc':
+      return [new Date(product.dateCreated).getTime(), product.id];
+    case 'price_asc':
+    case 'price_desc': {
+      // Products priced on request always go last
+      const price = getCurrentPrice(product.pricing, now);
+      return [price === null ? 1 : 0, price ?? 0, product.id];
+    }
+  }
+}
+
+/**
+ * @summary
+ * Compares two sort keys of the same sort order.
+ *
+ * @function compareSortKeys
+ * @param {ProductSortBy} sortBy - Sort order
+ * @param {SortKey} a - First key
+ * @param {SortKey} b - Second key
+ * @returns {number} Negative when a comes first, positive when b comes first, 0 when equal
+ */
+function compareSortKeys(sortBy: ProductSortBy, a: SortKey, b: SortKey): number {
+  for (const [index, { type, direction }] of SORT_KEY_COMPONENTS[sortBy].entries()) {
+    const diff =
+      type === 'string'
+        ? String(a[index]).localeCompare(String(b[index]))
+        : Number(a[index]) - Number(b[index]);
+    if (diff !== 0) {
+      return diff * direction;
+    }
+  }
+  return 0;
+}
+
+/**
+ * @summary
+ * Encodes the position after a product as an opaque cursor.
+ *
+ * @function encodeCursor
+ * @param {ProductSortBy} sortBy - Sort order the cursor belongs to
+ * @param {SortKey} key - Sort key of the last product returned
+ * @returns {string} URL-safe cursor
+ */
+function encodeCursor(sortBy: ProductSortBy, key: SortKey): string {
+  return Buffer.from(JSON.stringify({ sortBy, key })).toString('base64url');
+}
+
+/**
+ * @summary
+ * Decodes a cursor issued by encodeCursor. Because it holds a sort key rather than an
+ * offset, products added or removed before it do not shift the next page.
+ *
+ * @function decodeCursor
+ * @param {string} cursor - Cursor from a previous response
+ * @param {ProductSortBy} sortBy - Sort order of the current request
+ * @returns {SortKey} Sort key the next page starts after
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the cursor is malformed or for another sort order
+ */
+function decodeCursor(cursor: string, sortBy: ProductSortBy): SortKey {
+  const invalid = (message: string) =>
+    new ServiceError('VALIDATION_ERROR', 'Invalid cursor', 400, [{ path: ['cursor'], message }]);
+
+  let decoded: { sortBy?: unknown; key?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw invalid('Cursor is malformed');
+  }
+
+  if (decoded?.sortBy !== sortBy) {
+    throw invalid('Cursor was issued for another sort order');
+  }
+
+  const components = SORT_KEY_COMPONENTS[sortBy];
+  const key = decoded.key;
+  if (
+    !Array.isArray(key) ||
+    key.length !== components.length ||
+    key.some((value, index) => typeof value !== components[index].type)
+  ) {
+    throw invalid('Cursor is malformed');
+  }
+
+  return key;
+}
+
+/**
+ * @summary
+ * Applies search, price bounds, facet filters, sorting and pagination to product records.
+ *
+ * @function selectProducts
+ * @param {ListQueryInput} params - Validated list query
+ * @param {ProductRecord[]} products - Candidate product records
+ * @returns {object} Records of the requested page with facets and pagination metadata, including the next cursor
+ */
+function selectProducts(params: ListQueryInput, products: ProductRecord[]) {
+  const page = params.page ?? PRODUCT_DEFAULTS.PAGE;
+  const pageSize = params.pageSize ?? PRODUCT_DEFAULTS.PAGE_SIZE;
+  const search = params.search?.trim();
+  // Relevance is the default order of a search and means nothing without one
+  const sortBy = search
+    ? (params.sortBy ?? 'relevance')
+    : params.sortBy === 'relevance' || params.sortBy === undefined
+      ? PRODUCT_DEFAULTS.SORT_BY
+      : params.sortBy;
+
+  let selected = [...products];
+
+  // Apply full-text search over name, category, materials and description
+  const scores = search ? searchProducts(search) : new Map<number, number>();
+  if (search) {
+    selected = selected.filter((p) => scores.has(p.id));
+  }
+
+  // Apply price range filter; products priced on request have no price to compare
+  const now = new Date();
+  const { minPrice, maxPrice } = params;
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    selected = selected.filter((p) => {
+      const price = getCurrentPrice(p.pricing, now);
+      return (
+        price !== null &&
+        (minPrice === undefined || price >= minPrice) &&
+        (maxPrice === undefined || price <= maxPrice)
+      );
+    });
+  }
+
+  // Keep only products with units ready to ship
+  if (params.inStockOnly) {
+    selected = selected.filter((p) => resolveProductAvailability(p).available > 0);
+  }
+
+  // Count facets, then apply the facet filters (category, material, color, price, size)
+  const predicates = buildFacetPredicates(params, now);
+  const facets = computeFacets(selected, predicates, params, now);
+  selected = selected.filter((p) => Object.values(predicates).every((predicate) => predicate(p)));
+
+  // Apply sorting
+  const sortKeys = new Map(selected.map((p) => [p.id, getSortKey(p, sortBy, scores, now)]));
+  selected.sort((a, b) =>
+    compareSortKeys(sortBy, sortKeys.get(a.id) as SortKey, sortKeys.get(b.id) as SortKey)
+  );
+
+  // Calculate pagination; a cursor resumes right after the product it was issued for
+  const total = selected.length;
+  let offset = (page - 1) * pageSize;
+  if (params.cursor) {
+    const after = decodeCursor(params.cursor, sortBy);
+    const index = selected.findIndex(
+      (p) => compareSortKeys(sortBy, sortKeys.get(p.id) as SortKey, after) > 0
+    );
+    offset = index === -1 ? total : index;
+  }
+  const records = selected.slice(offset, offset + pageSize);
+  const last = records[records.length - 1];
+  const pagination = createPagination(total, offset, pageSize);
+
+  return {
+    records,
+    facets,
+    pagination: {
+      ...pagination,
+      nextCursor:
+        pagination.hasNext && last ? encodeCursor(sortBy, sortKeys.get(last.id) as SortKey) : null,
+    },
+  };
+}
+
+/**
+ * @summary
+ * Checks product attribute values against the attributes defined by its category.
+ *
+ * @function validateAttributes
+ * @param {CategoryAttributeDefinition[]} definitions - Attributes the category defines
+ * @param {Record<string, ProductAttributeValue>} attributes - Attribute values to check
+ * @throws {ServiceError} When a key is unknown or a value does not match its definition
+ */
+function validateAttributes(
+  definitions: CategoryAttributeDefinition[],
+  attributes: Record<string, ProductAttributeValue>
+): void {
+  const definitionsByKey = new Map(definitions.map((d) => [d.key, d]));
+  const issues: { path: string[]; message: string }[] = [];
+
+  Object.entries(attributes).forEach(([key, value]) => {
+    const definition = definitionsByKey.get(key);
+    const path = ['specifications', 'attributes', key];
+
+    if (!definition) {
+      issues.push({ path, message: 'Attribute is not defined by the product category' });
+    } else if (definition.type === 'number' && (typeof value !== 'number' || value < 0)) {
+      issues.push({ path, message: 'Expected a non-negative number' });
+    } else if (definition.type === 'boolean' && typeof value !== 'boolean') {
+      issues.push({ path, message: 'Expected a boolean' });
+    } else if (definition.type === 'text' && typeof value !== 'string') {
+      issues.push({ path, message: 'Expected a string' });
+    } else if (definition.type === 'option' && !definition.options.includes(value as string)) {
+      issues.push({ path, message: `Expected one of: ${definition.options.join(', ')}` });
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, issues);
+  }
+}
+
+/**
+ * @summary
+ * Drops attribute values the category no longer defines, e.g. after a category change.
+ *
+ * @function pruneAttributes
+ * @param {CategoryAttributeDefinition[]} definitions - Attributes the category defines
+ * @param {Record<string, ProductAttributeValue>} attributes - Stored attribute values
+ * @returns {Record<string, ProductAttributeValue>} Values of defined attributes only
+ */
+function pruneAttributes(
+  definitions: CategoryAttributeDefinition[],
+  attributes: Record<string, ProductAttributeValue>
+): Record<string, ProductAttributeValue> {
+  const keys = new Set(definitions.map((d) => d.key));
+  return Object.fromEntries(Object.entries(attributes).filter(([key]) => keys.has(key)));
+}
+
+/**
+ * @summary
+ * Labels the category attributes of a product and groups them for display,
+ * in the order the category defines them.
+ *
+ * @function resolveAttributeGroups
+ * @param {number} categoryId - Product category ID
+ * @param {ProductSpecifications} specifications - Product specifications
+ * @returns {Promise<ProductAttributeGroup[]>} Attribute groups with at least one value
+ */
+async function resolveAttributeGroups(
+  categoryId: number,
+  specifications: ProductSpecifications
+): Promise<ProductAttributeGroup[]> {
+  const definitions = await categoryGetAttributeDefinitions(categoryId);
+  const groups = new Map<string, ProductAttributeGroup>();
+
+  definitions.forEach((definition) => {
+    const value = specifications.attributes[definition.key];
+    if (value === undefined) {
+      return;
+    }
+
+    const group = groups.get(definition.group) ?? { name: definition.group, attributes: [] };
+    group.attributes.push({
+      key: definition.key,
+      label: definition.label,
+      value,
+      unit: definition.unit,
+    });
+    groups.set(definition.group, group);
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * @summary
+ * Maps a stored product record to its detail response.
+ *
+ * @function toProductDetail
+ * @param {ProductRecord} record - Product record
+ * @returns {Promise<ProductDetail>} Product with resolved category, attributes and price
+ */
+async function toProductDetail(record: ProductRecord): Promise<ProductDetail> {
+  // The variant ID counter is internal bookkeeping, not part of the product
+  const { nextVariantId: _nextVariantId, ...product } = record;
+
+  return {
+    ...product,
+    category: resolveCategory(record.categoryId),
+    attributeGroups: await resolveAttributeGroups(record.categoryId, record.specifications),
+    price: resolvePrice(record.pricing),
+    availability: resolveProductAvailability(record),
+  };
+}
+
+/**
+ * @summary
+ * Maps a stored product record to its storefront detail response.
+ *
+ * @function toPublicDetail
+ * @param {ProductRecord} record - Product record
+ * @returns {Promise<ProductPublicDetail>} Product without administrative fields
+ */
+async function toPublicDetail(record: ProductRecord): Promise<ProductPublicDetail> {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    category: resolveCategory(record.categoryId),
+    imageUrl: record.imageUrl,
+    additionalImages: record.additionalImages,
+    specifications: record.specifications,
+    attributeGroups: await resolveAttributeGroups(record.categoryId, record.specifications),
+    price: resolvePrice(record.pricing),
+    availability: resolveProductAvailability(record),
+    options: record.options,
+    variants: record.variants.map((variant) => toPublicVariant(record, variant)),
+  };
+}
+
+/**
+ * @summary
+ * Returns when product data last changed. A sale starting or ending changes
+ * current prices without a write, so past sale boundaries count as changes.
+ * Used by the response cache to validate cached catalog reads.
+ *
+ * @function productLastModified
+ * @module services/product
+ *
+ * @returns {Promise<Date>} Latest of the last product write and the last passed sale boundary
+ */
+export async function productLastModified(): Promise<Date> {
+  const now = Date.now();
+  const latest = productStore.getAll().reduce((result, product) => {
+    const { pricing } = product;
+    if (!pricing || pricing.salePrice === null) {
+      return result;
+    }
+    const passedBoundaries = [pricing.saleStartsAt, pricing.saleEndsAt]
+      .filter((value): value is string => value !== null)
+      .map((value) => Date.parse(value))
+      .filter((time) => time <= now);
+    return Math.max(result, ...passedBoundaries);
+  }, productStore.getLastModified().getTime());
+  return new Date(latest);
+}
 
 /**
  * @summary
  * Lists products with filtering, sorting, and pagination.
  *
- * @function productList
+ * @function productList
+ * @module services/product
+ *
+ * @param {unknown} query - Raw query parameters to validate
+ * @returns {Promise<ProductListResponse>} Paginated list of products
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const result = await productList({ page: 1, pageSize: 9, sortBy: 'date_desc' });
+ * // Returns: { items: [...], facets: {...}, pagination: { total: 50, page: 1, pageSize: 9, totalPages: 6, ... } }
+ */
+export async function productList(query: unknown): Promise<ProductListResponse> {
+  const validation = listQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  const { records, facets, pagination } = selectProducts(validation.data, productStore.getAll());
+
+  const items: ProductListItem[] = records.map((p) => ({
+    id: p.id,
+    name: p.name,
+    categoryId: p.categoryId,
+    category: resolveCategory(p.categoryId),
+    imageUrl: p.imageUrl,
+    price: resolvePrice(p.pricing),
+    availability: resolveProductAvailability(p),
+    hasVariants: p.variants.length > 0,
+    dateCreated: p.dateCreated,
+  }));
+
+  return { items, facets, pagination };
+}
+
+/**
+ * @summary
+ * Lists storefront products with filtering, sorting, and pagination.
+ * Products of inactive categories are hidden.
+ *
+ * @function productListPublic
+ * @module services/product
+ *
+ * @param {unknown} query - Raw query parameters to validate
+ * @returns {Promise<ProductPublicListResponse>} Paginated list of visible products
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const result = await productListPublic({ category: 'sala-de-estar', page: '1' });
+ * // Returns: { items: [{ id: 1, name: 'Sofá Moderno', category: {...}, imageUrl: '...' }], facets: {...}, pagination: { total: 4, ... } }
+ */
+export async function productListPublic(query: unknown): Promise<ProductPublicListResponse> {
+  const validation = listQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  const visibleCategoryIds = await categoryGetVisibleIds();
+  const visibleProducts = productStore.getAll().filter((p) => visibleCategoryIds.has(p.categoryId));
+
+  const { records, facets, pagination } = selectProducts(validation.data, visibleProducts);
+
+  if (validation.data.search?.trim() && pagination.total > 0) {
+    recordSearchQuery(validation.data.search);
+  }
+
+  const items: ProductPublicListItem[] = records.map((p) => ({
+    id: p.id,
+    name: p.name,
+    category: resolveCategory(p.categoryId),
+    imageUrl: p.imageUrl,
+    price: resolvePrice(p.pricing),
+    availability: resolveProductAvailability(p),
+    hasVariants: p.variants.length > 0,
+  }));
+
+  return { items, facets, pagination };
+}
+
+/**
+ * @summary
+ * Suggests products, categories and popular searches for a partially typed search.
+ * Only products and categories visible on the storefront are suggested.
+ *
+ * @function productSuggest
  * @module services/product
  *
- * @param {unknown} query - Raw query parameters to validate
- * @returns {Promise<ProductListResponse>} Paginated list of products
+ * @param {unknown} query - Raw query parameters containing the prefix `q`
+ * @returns {Promise<ProductSuggestResponse>} Suggestions, best first
  *
- * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the prefix is missing, too short or too long
  *
  * @example
- * const result = await productList({ page: 1, pageSize: 9, sortBy: 'date_desc' });
- * // Returns: { items: [...], total: 50, page: 1, pageSize: 9, totalPages: 6, hasNext: true, hasPrevious: false }
+ * const suggestions = await productSuggest({ q: 'sof' });
+ * // Returns: { products: [{ id: 1, name: 'Sofá Moderno 3 Lugares', ... }], categories: [], queries: [{ query: 'sofá', count: 42 }] }
  */
-export async function productList(query: unknown): Promise<ProductListResponse> {
-  const validation = listQuerySchema.safeParse(query);
+export async function productSuggest(query: unknown): Promise<ProductSuggestResponse> {
+  const validation = suggestQuerySchema.safeParse(query);
 
   if (!validation.success) {
     throw new ServiceError(
@@ -41,87 +1517,630 @@ export async function productList(query: unknown): Promise<ProductListResponse>
     );
   }
 
-  const params = validation.data;
-  const page = params.page ?? PRODUCT_DEFAULTS.PAGE;
-  const pageSize = params.pageSize ?? PRODUCT_DEFAULTS.PAGE_SIZE;
-  const sortBy = params.sortBy ?? PRODUCT_DEFAULTS.SORT_BY;
+  const { q } = validation.data;
+  const visibleCategoryIds = await categoryGetVisibleIds();
+
+  // The last word is still being typed, so every word may match as a prefix
+  const scores = searchProducts(q, { prefixMinLength: 1 });
+  const products = [...scores]
+    .map(([id, score]) => ({ product: productStore.getById(id), score }))
+    .filter(
+      (entry): entry is { product: ProductRecord; score: number } =>
+        entry.product !== undefined && visibleCategoryIds.has(entry.product.categoryId)
+    )
+    .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name))
+    .slice(0, PRODUCT_SEARCH.SUGGEST_PRODUCTS)
+    .map(({ product }) => ({
+      id: product.id,
+      name: product.name,
+      imageUrl: product.imageUrl,
+      categoryName: resolveCategory(product.categoryId).name,
+    }));
+
+  const categories = categoryStore
+    .getAll()
+    .filter((c) => visibleCategoryIds.has(c.id) && matchesWordPrefixes(c.name, q))
+    .sort((a, b) => a.level - b.level || a.name.localeCompare(b.name))
+    .slice(0, PRODUCT_SEARCH.SUGGEST_CATEGORIES)
+    .map((c) => ({ id: c.id, name: c.name, slug: c.slug }));
+
+  const queries = searchQueryStore
+    .getAll()
+    .filter((record) => matchesWordPrefixes(record.query, q))
+    .sort((a, b) => b.count - a.count || b.lastSearchedAt.localeCompare(a.lastSearchedAt))
+    .slice(0, PRODUCT_SEARCH.SUGGEST_QUERIES)
+    .map((record) => ({ query: record.query, count: record.count }));
+
+  return { products, categories, queries };
+}
+
+/**
+ * @summary
+ * Retrieves a specific product by its unique identifier.
+ *
+ * @function productGet
+ * @module services/product
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @returns {Promise<ProductDetail>} The found product with its resolved category
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ *
+ * @example
+ * const product = await productGet({ id: '1' });
+ * // Returns: { id: 1, name: 'Sofá Moderno', categoryId: 1, category: { slug: 'sala-de-estar', ... } }
+ */
+export async function productGet(params: unknown): Promise<ProductDetail> {
+  const validation = productParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const { id } = validation.data;
+  const record = productStore.getById(id);
+
+  if (!record) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  return toProductDetail(record);
+}
+
+/**
+ * @summary
+ * Retrieves a storefront product by its unique identifier.
+ *
+ * @function productGetPublic
+ * @module services/product
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @returns {Promise<ProductPublicDetail>} The found product without administrative fields
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product does not exist or its category is hidden
+ *
+ * @example
+ * const product = await productGetPublic({ id: '1' });
+ * // Returns: { id: 1, name: 'Sofá Moderno', category: { slug: 'sala-de-estar', ... }, ... }
+ */
+export async function productGetPublic(params: unknown): Promise<ProductPublicDetail> {
+  const validation = productParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const record = productStore.getById(validation.data.id);
+  const visibleCategoryIds = await categoryGetVisibleIds();
+
+  if (!record || !visibleCategoryIds.has(record.categoryId)) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  return toPublicDetail(record);
+}
 
-  let products = productStore.getAll();
+/**
+ * @summary
+ * Retrieves several storefront products by ID in one call, e.g. for comparing them.
+ * Products that no longer exist or whose category is hidden are left out.
+ *
+ * @function productGetBatchPublic
+ * @module services/product
+ *
+ * @param {unknown} query - Raw query parameters containing the comma-separated `ids`
+ * @returns {Promise<ProductPublicDetail[]>} Visible products, in the order of the given IDs
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When IDs are missing, invalid or too many
+ *
+ * @example
+ * const products = await productGetBatchPublic({ ids: '3,1' });
+ * // Returns: [{ id: 3, name: 'Guarda-Roupa Casal', ... }, { id: 1, name: 'Sofá Moderno', ... }]
+ */
+export async function productGetBatchPublic(query: unknown): Promise<ProductPublicDetail[]> {
+  const validation = batchQuerySchema.safeParse(query);
 
-  // Apply search filter
-  if (params.search) {
-    const searchLower = params.search.toLowerCase();
-    products = products.filter(
-      (p) =>
-        p.name.toLowerCase().includes(searchLower) ||
-        (p.description && p.description.toLowerCase().includes(searchLower))
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
     );
   }
 
-  // Apply category filter
-  if (params.category) {
-    products = products.filter((p) => p.category === params.category);
+  const visibleCategoryIds = await categoryGetVisibleIds();
+  const records = validation.data.ids
+    .map((id) => productStore.getById(id))
+    .filter(
+      (record): record is ProductRecord =>
+        record !== undefined && visibleCategoryIds.has(record.categoryId)
+    );
+
+  return Promise.all(records.map(toPublicDetail));
+}
+
+/**
+ * @summary
+ * Gets the storefront listing representation of several products at once.
+ * Products that no longer exist or whose category is hidden are left out.
+ * Called by services that reference products, such as the cart.
+ *
+ * @function productGetManyPublic
+ * @module services/product
+ *
+ * @param {number[]} ids - Product IDs
+ * @returns {Promise<ProductPublicListItem[]>} Visible products, in the order of the given IDs
+ */
+export async function productGetManyPublic(ids: number[]): Promise<ProductPublicListItem[]> {
+  const visibleCategoryIds = await categoryGetVisibleIds();
+
+  return ids
+    .map((id) => productStore.getById(id))
+    .filter(
+      (record): record is ProductRecord =>
+        record !== undefined && visibleCategoryIds.has(record.categoryId)
+    )
+    .map((record) => ({
+      id: record.id,
+      name: record.name,
+      category: resolveCategory(record.categoryId),
+      imageUrl: record.imageUrl,
+      price: resolvePrice(record.pricing),
+      availability: resolveProductAvailability(record),
+      hasVariants: record.variants.length > 0,
+    }));
+}
+
+/**
+ * @summary
+ * Gets the storefront variants of several products at once, keyed by product ID.
+ * Products without variants map to an empty list; visibility is checked by
+ * productGetManyPublic.
+ *
+ * @function productGetVariantsPublic
+ * @module services/product
+ *
+ * @param {number[]} ids - Product IDs
+ * @returns {Promise<Map<number, ProductPublicVariant[]>>} Variants of the products that exist
+ */
+export async function productGetVariantsPublic(
+  ids: number[]
+): Promise<Map<number, ProductPublicVariant[]>> {
+  return new Map(
+    ids
+      .map((id) => productStore.getById(id))
+      .filter((record): record is ProductRecord => record !== undefined)
+      .map((record) => [
+        record.id,
+        record.variants.map((variant) => toPublicVariant(record, variant)),
+      ])
+  );
+}
+
+/**
+ * @summary
+ * Holds stock for the lines of a new order. Every line is checked before any stock is held,
+ * and nothing is awaited in between, so concurrent checkouts cannot take the same units.
+ * Units beyond those available are made to order when the product has a lead time.
+ * Lines naming a variant draw from the stock of that variant.
+ * Called by the order service at checkout.
+ *
+ * @function productReserveStock
+ * @module services/product
+ *
+ * @param {ProductStockLine[]} lines - Ordered units per product and variant
+ * @returns {Promise<ProductStockReservation[]>} Units held per line, in the order of the lines
+ *
+ * @throws {ServiceError} NOT_FOUND (404) - When a product or variant no longer exists
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When a product that is not made to order
+ *   lacks units; details list the units available per product and variant
+ */
+export async function productReserveStock(
+  lines: ProductStockLine[]
+): Promise<ProductStockReservation[]> {
+  const inventories = lines.map((line) => {
+    const record = productStore.getById(line.productId);
+    return record && findStockInventory(record, line.variantId);
+  });
+
+  if (inventories.some((inventory) => inventory === undefined)) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
   }
 
-  // Apply sorting
-  products.sort((a, b) => {
-    switch (sortBy) {
-      case 'name_asc':
-        return a.name.localeCompare(b.name);
-      case 'name_desc':
-        return b.name.localeCompare(a.name);
-      case 'date_asc':
-        return new Date(a.dateCreated).getTime() - new Date(b.dateCreated).getTime();
-      case 'date_desc':
-      default:
-        return new Date(b.dateCreated).getTime() - new Date(a.dateCreated).getTime();
-    }
+  const reservations = lines.map((line, index) => {
+    const inventory = inventories[index] as ProductInventory;
+    const { available } = resolveAvailability(inventory);
+    const reservedQuantity = Math.min(line.quantity, available);
+    return {
+      productId: line.productId,
+      variantId: line.variantId,
+      reservedQuantity,
+      leadTimeDays: reservedQuantity < line.quantity ? inventory.leadTimeDays : null,
+      missing: reservedQuantity < line.quantity && inventory.leadTimeDays === null,
+      available,
+    };
   });
 
-  // Calculate pagination
-  const total = products.length;
-  const totalPages = Math.ceil(total / pageSize);
-  const offset = (page - 1) * pageSize;
-  const paginatedProducts = products.slice(offset, offset + pageSize);
+  const shortages = reservations.filter((reservation) => reservation.missing);
+  if (shortages.length > 0) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'Not enough stock', 400, {
+      products: shortages.map(({ productId, variantId, available }) => ({
+        productId,
+        variantId,
+        available,
+      })),
+    });
+  }
 
-  // Map to list items
-  const items: ProductListItem[] = paginatedProducts.map((p) => ({
-    id: p.id,
-    name: p.name,
-    category: p.category,
-    imageUrl: p.imageUrl,
-    dateCreated: p.dateCreated,
+  reservations.forEach(({ productId, variantId, reservedQuantity }) => {
+    if (reservedQuantity > 0) {
+      updateStockInventory(
+        productStore.getById(productId) as ProductRecord,
+        variantId,
+        (inventory) => ({ ...inventory, reserved: inventory.reserved + reservedQuantity })
+      );
+    }
+  });
+
+  return reservations.map(({ productId, variantId, reservedQuantity, leadTimeDays }) => ({
+    productId,
+    variantId,
+    reservedQuantity,
+    leadTimeDays,
   }));
+}
 
-  return {
-    items,
-    total,
-    page,
-    pageSize,
-    totalPages,
-    hasNext: page < totalPages,
-    hasPrevious: page > 1,
+/**
+ * @summary
+ * Returns units held by productReserveStock, e.g. when an order is cancelled or its payment
+ * is declined. Products and variants deleted in the meantime are skipped.
+ *
+ * @function productReleaseStock
+ * @module services/product
+ *
+ * @param {ProductStockLine[]} lines - Reserved units per product and variant
+ * @returns {Promise<void>}
+ */
+export async function productReleaseStock(lines: ProductStockLine[]): Promise<void> {
+  lines.forEach(({ productId, variantId, quantity }) => {
+    const record = productStore.getById(productId);
+    if (record && quantity > 0) {
+      updateStockInventory(record, variantId, (inventory) => ({
+        ...inventory,
+        reserved: Math.max(inventory.reserved - quantity, 0),
+      }));
+    }
+  });
+}
+
+/**
+ * @summary
+ * Takes shipped units out of stock along with their reservation.
+ * Products and variants deleted in the meantime are skipped.
+ *
+ * @function productShipStock
+ * @module services/product
+ *
+ * @param {ProductStockLine[]} lines - Reserved units per product and variant
+ * @returns {Promise<void>}
+ */
+export async function productShipStock(lines: ProductStockLine[]): Promise<void> {
+  lines.forEach(({ productId, variantId, quantity }) => {
+    const record = productStore.getById(productId);
+    if (record && quantity > 0) {
+      updateStockInventory(record, variantId, (inventory) => ({
+        ...inventory,
+        stock: Math.max(inventory.stock - quantity, 0),
+        reserved: Math.max(inventory.reserved - quantity, 0),
+      }));
+    }
+  });
+}
+
+/**
+ * @summary
+ * Creates a new product entity with validated data.
+ *
+ * @function productCreate
+ * @module services/product
+ *
+ * @param {unknown} body - Raw request body to validate against createSchema
+ * @returns {Promise<ProductDetail>} The newly created product with its resolved category
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails validation, category is unknown
+ *   or variants do not match the options
+ *
+ * @example
+ * const product = await productCreate({
+ *   name: 'Sofá Retrátil',
+ *   description: null,
+ *   categoryId: 1,
+ *   imageUrl: 'https://...',
+ *   specifications: {
+ *     dimensions: { width: 230, height: 90, depth: 100 },
+ *     weight: 70,
+ *     materials: ['Suede'],
+ *     finishes: ['Cinza'],
+ *     attributes: { lugares: 3, reclinavel: true },
+ *   },
+ *   pricing: null,
+ * });
+ * // Returns: { id: 11, name: 'Sofá Retrátil', ... }
+ */
+export async function productCreate(body: unknown): Promise<ProductDetail> {
+  const validation = createSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const params = validation.data;
+  validateCategoryExists(params.categoryId);
+  validateAttributes(
+    await categoryGetAttributeDefinitions(params.categoryId),
+    params.specifications.attributes
+  );
+
+  const now = new Date().toISOString();
+  const id = productStore.getNextId();
+  const { variants, nextVariantId } = resolveVariants(null, params.options, params.variants, [], 1);
+
+  const newProduct: ProductRecord = {
+    id,
+    name: params.name,
+    description: params.description,
+    categoryId: params.categoryId,
+    imageUrl: params.imageUrl,
+    additionalImages: params.additionalImages ?? [],
+    specifications: params.specifications,
+    pricing: params.pricing,
+    inventory: { ...params.inventory, reserved: 0 },
+    options: params.options,
+    variants,
+    nextVariantId,
+    dateCreated: now,
+    dateModified: now,
   };
+
+  productStore.add(newProduct);
+  productSearchIndex.upsert(newProduct.id, toSearchDocument(newProduct));
+  await categoryAddProduct(newProduct.categoryId);
+
+  return toProductDetail(newProduct);
 }
 
 /**
  * @summary
- * Retrieves a specific product by its unique identifier.
+ * Replaces all editable fields of an existing product.
  *
- * @function productGet
+ * @function productUpdate
+ * @module services/product
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {unknown} body - Raw request body with the full product data to validate
+ * @returns {Promise<ProductDetail>} The updated product with its resolved category
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID, body, category reference or variants are invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When stock drops below the reserved units or
+ *   a variant with reserved units is removed
+ *
+ * @example
+ * const updated = await productUpdate({ id: '1' }, { name: 'Sofá 4 Lugares', ... });
+ * // Returns: { id: 1, name: 'Sofá 4 Lugares', ... }
+ */
+export async function productUpdate(params: unknown, body: unknown): Promise<ProductDetail> {
+  const paramsValidation = productParamsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
+  }
+
+  const bodyValidation = updateSchema.safeParse(body);
+
+  if (!bodyValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Validation failed',
+      400,
+      bodyValidation.error.errors
+    );
+  }
+
+  const { id } = paramsValidation.data;
+  const existing = productStore.getById(id);
+
+  if (!existing) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  const updateData = bodyValidation.data;
+  const inventory = { ...updateData.inventory, reserved: existing.inventory.reserved };
+  validateInventory(inventory);
+  const { variants, nextVariantId } = resolveVariants(
+    id,
+    updateData.options,
+    updateData.variants,
+    existing.variants,
+    existing.nextVariantId
+  );
+  validateCategoryExists(updateData.categoryId);
+  validateAttributes(
+    await categoryGetAttributeDefinitions(updateData.categoryId),
+    updateData.specifications.attributes
+  );
+
+  const updated = productStore.update(id, {
+    name: updateData.name,
+    description: updateData.description,
+    categoryId: updateData.categoryId,
+    imageUrl: updateData.imageUrl,
+    additionalImages: updateData.additionalImages,
+    specifications: updateData.specifications,
+    pricing: updateData.pricing,
+    inventory,
+    options: updateData.options,
+    variants,
+    nextVariantId,
+    dateModified: new Date().toISOString(),
+  });
+
+  pruneImageVariants(id, variants);
+
+  await moveProductCategory(existing.categoryId, updateData.categoryId);
+
+  productSearchIndex.upsert(id, toSearchDocument(updated as ProductRecord));
+
+  return toProductDetail(updated as ProductRecord);
+}
+
+/**
+ * @summary
+ * Partially updates an existing product. Only the provided fields are changed;
+ * specifications and pricing are merged field by field. Stored attribute values the
+ * (new) category does not define are dropped unless attributes are provided.
+ * Pricing can only be patched partially once the product has a regular price.
+ * Options and variants are replaced as a whole; when only options are sent, the stored
+ * variants must still match them.
+ *
+ * @function productPatch
+ * @module services/product
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {unknown} body - Raw request body with the fields to change
+ * @returns {Promise<ProductDetail>} The updated product with its resolved category
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID, body, category reference or variants are invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When stock drops below the reserved units or
+ *   a variant with reserved units is removed
+ *
+ * @example
+ * const updated = await productPatch({ id: '1' }, { specifications: { materials: ['Linho'] } });
+ * // Returns: { id: 1, specifications: { dimensions: {...}, materials: ['Linho'], ... }, ... }
+ */
+export async function productPatch(params: unknown, body: unknown): Promise<ProductDetail> {
+  const paramsValidation = productParamsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
+  }
+
+  const bodyValidation = patchSchema.safeParse(body);
+
+  if (!bodyValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Validation failed',
+      400,
+      bodyValidation.error.errors
+    );
+  }
+
+  const { id } = paramsValidation.data;
+  const existing = productStore.getById(id);
+
+  if (!existing) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  const { specifications, pricing, inventory, options, variants, ...patchData } =
+    bodyValidation.data;
+  const mergedInventory = { ...existing.inventory, ...inventory };
+  validateInventory(mergedInventory);
+
+  const mergedOptions = options ?? existing.options;
+  const { variants: mergedVariants, nextVariantId } =
+    options === undefined && variants === undefined
+      ? { variants: existing.variants, nextVariantId: existing.nextVariantId }
+      : resolveVariants(
+          id,
+          mergedOptions,
+          variants ?? existing.variants.map(toVariantInput),
+          existing.variants,
+          existing.nextVariantId
+        );
+
+  if (patchData.categoryId !== undefined) {
+    validateCategoryExists(patchData.categoryId);
+  }
+
+  const definitions = await categoryGetAttributeDefinitions(
+    patchData.categoryId ?? existing.categoryId
+  );
+  if (specifications?.attributes) {
+    validateAttributes(definitions, specifications.attributes);
+  }
+
+  let mergedPricing = existing.pricing;
+  if (pricing === null) {
+    mergedPricing = null;
+  } else if (pricing !== undefined) {
+    const pricingValidation = pricingSchema.safeParse({ ...existing.pricing, ...pricing });
+
+    if (!pricingValidation.success) {
+      throw new ServiceError(
+        'VALIDATION_ERROR',
+        'Validation failed',
+        400,
+        pricingValidation.error.errors.map((issue) => ({
+          ...issue,
+          path: ['pricing', ...issue.path],
+        }))
+      );
+    }
+    mergedPricing = pricingValidation.data;
+  }
+
+  const updated = productStore.update(id, {
+    ...patchData,
+    specifications: {
+      ...existing.specifications,
+      ...specifications,
+      attributes:
+        specifications?.attributes ??
+        pruneAttributes(definitions, existing.specifications.attributes),
+    },
+    pricing: mergedPricing,
+    inventory: mergedInventory,
+    options: mergedOptions,
+    variants: mergedVariants,
+    nextVariantId,
+    dateModified: new Date().toISOString(),
+  });
+
+  pruneImageVariants(id, mergedVariants);
+
+  if (patchData.categoryId !== undefined) {
+    await moveProductCategory(existing.categoryId, patchData.categoryId);
+  }
+
+  productSearchIndex.upsert(id, toSearchDocument(updated as ProductRecord));
+
+  return toProductDetail(updated as ProductRecord);
+}
+
+/**
+ * @summary
+ * Permanently deletes a product and its gallery images.
+ *
+ * @function productDelete
  * @module services/product
  *
  * @param {unknown} params - Raw request params containing the ID to validate
- * @returns {Promise<ProductEntity>} The found product entity
+ * @returns {Promise<{ message: string }>} Success confirmation message
  *
  * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
  * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
  *
  * @example
- * const product = await productGet({ id: '1' });
- * // Returns: { id: 1, name: 'Sofá Moderno', category: 'Sala de Estar', ... }
+ * const result = await productDelete({ id: '1' });
+ * // Returns: { message: 'Product deleted successfully' }
  */
-export async function productGet(params: unknown): Promise<ProductEntity> {
+export async function productDelete(params: unknown): Promise<{ message: string }> {
   const validation = productParamsSchema.safeParse(params);
 
   if (!validation.success) {
@@ -129,11 +2148,24 @@ export async function productGet(params: unknown): Promise<ProductEntity> {
   }
 
   const { id } = validation.data;
-  const record = productStore.getById(id);
+  const existing = productStore.getById(id);
 
-  if (!record) {
+  if (!existing) {
     throw new ServiceError('NOT_FOUND', 'Product not found', 404);
   }
 
-  return record as ProductEntity;
+  productImageStore
+    .getAll()
+    .filter((img) => img.productId === id)
+    .forEach((img) => productImageStore.delete(img.id));
+
+  productStore.delete(id);
+  productSearchIndex.remove(id);
+  await fileStorage.deletePrefix(`${PRODUCT_IMAGE_DEFAULTS.STORAGE_PREFIX}/${id}`);
+
+  if (categoryStore.exists(existing.categoryId)) {
+    await categoryRemoveProduct(existing.categoryId);
+  }
+
+  return { message: 'Product deleted successfully' };
 }
@@ -5,13 +5,221 @@
  * @module services/product/productTypes
  */
 
+import type { ProductAvailabilityStatus } from '@/constants';
+import type { PaginationMetadata } from '@/utils';
+
+/**
+ * @interface ProductDimensions
+ * @description Outer measurements of a product in centimeters; unknown measurements are null
+ */
+export interface ProductDimensions {
+  width: number | null;
+  height: number | null;
+  depth: number | null;
+}
+
+/**
+ * @type ProductAttributeValue
+ * @description Value of a category-defined attribute
+ */
+export type ProductAttributeValue = string | number | boolean;
+
 /**
  * @interface ProductSpecifications
  * @description Product technical specifications
+ *
+ * @property {ProductDimensions} dimensions - Width, height and depth in centimeters
+ * @property {number|null} weight - Weight in kilograms
+ * @property {string[]} materials - Materials the product is made of
+ * @property {string[]} finishes - Available finishes and colors
+ * @property {Record<string, ProductAttributeValue>} attributes - Values of the attributes
+ *   defined by the product category, keyed by attribute key
  */
 export interface ProductSpecifications {
-  dimensions: string | null;
-  material: string | null;
+  dimensions: ProductDimensions;
+  weight: number | null;
+  materials: string[];
+  finishes: string[];
+  attributes: Record<string, ProductAttributeValue>;
+}
+
+/**
+ * @interface ProductAttributeGroup
+ * @description Category attributes of a product with their labels, grouped for display
+ */
+export interface ProductAttributeGroup {
+  name: string;
+  attributes: {
+    key: string;
+    label: string;
+    value: ProductAttributeValue;
+    unit: string | null;
+  }[];
+}
+
+/**
+ * @interface ProductPricing
+ * @description Editable pricing of a product, in BRL
+ *
+ * @property {number} price - Regular price
+ * @property {number|null} salePrice - Promotional price, lower than the regular price
+ * @property {string|null} saleStartsAt - Start of the promotion (ISO 8601), open when null
+ * @property {string|null} saleEndsAt - End of the promotion (ISO 8601, exclusive), open when null
+ * @property {number} maxInstallments - Maximum number of installments offered
+ * @property {number} installmentInterestRate - Monthly interest rate in percent (0 = sem juros)
+ */
+export interface ProductPricing {
+  price: number;
+  salePrice: number | null;
+  saleStartsAt: string | null;
+  saleEndsAt: string | null;
+  maxInstallments: number;
+  installmentInterestRate: number;
+}
+
+/**
+ * @interface ProductInstallmentPlan
+ * @description Best installment plan available for the current price
+ */
+export interface ProductInstallmentPlan {
+  count: number;
+  value: number;
+  total: number;
+  interestFree: boolean;
+}
+
+/**
+ * @interface ProductPrice
+ * @description Price resolved at request time, taking active promotions into account
+ */
+export interface ProductPrice {
+  listPrice: number;
+  currentPrice: number;
+  onSale: boolean;
+  discountPercent: number | null;
+  saleEndsAt: string | null;
+  installments: ProductInstallmentPlan | null;
+}
+
+/**
+ * @interface ProductInventory
+ * @description Stock tracking of a product
+ *
+ * @property {number} stock - Units on hand, including reserved units
+ * @property {number} reserved - Units held for open orders until they ship
+ * @property {number|null} leadTimeDays - Days to make the product sob encomenda when no units are
+ *   available; null when it is not made to order
+ * @property {number} lowStockThreshold - Units available at or below which stock is shown as low
+ */
+export interface ProductInventory {
+  stock: number;
+  reserved: number;
+  leadTimeDays: number | null;
+  lowStockThreshold: number;
+}
+
+/**
+ * @interface ProductAvailability
+ * @description Availability resolved from the inventory at request time
+ *
+ * @property {ProductAvailabilityStatus} status - in_stock | low_stock | made_to_order | out_of_stock
+ * @property {number} available - Units ready to ship (stock not reserved)
+ * @property {number|null} leadTimeDays - Days to make units beyond those available, null when
+ *   the product is not made to order
+ */
+export interface ProductAvailability {
+  status: ProductAvailabilityStatus;
+  available: number;
+  leadTimeDays: number | null;
+}
+
+/**
+ * @interface ProductOption
+ * @description Option axis a product is sold in, e.g. Tecido with its fabrics
+ *
+ * @property {string} name - Axis name, unique within the product
+ * @property {string[]} values - Selectable values, in display order
+ */
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+/**
+ * @interface ProductVariant
+ * @description Purchasable combination of option values, with its own SKU and stock.
+ * Pricing, dimensions and weight fall back to the product when null.
+ *
+ * @property {number} id - Variant ID, unique within the product
+ * @property {string} sku - Stock keeping unit, unique across products
+ * @property {Record<string, string>} options - Value of every option axis, keyed by axis name
+ * @property {ProductPricing|null} pricing - Pricing of the variant, null to use the product pricing
+ * @property {ProductInventory} inventory - Stock of the variant
+ * @property {ProductDimensions|null} dimensions - Measurements, null to use the product dimensions
+ * @property {number|null} weight - Weight in kilograms, null to use the product weight
+ */
+export interface ProductVariant {
+  id: number;
+  sku: string;
+  options: Record<string, string>;
+  pricing: ProductPricing | null;
+  inventory: ProductInventory;
+  dimensions: ProductDimensions | null;
+  weight: number | null;
+}
+
+/**
+ * @interface ProductPublicVariant
+ * @description Storefront representation of a variant with the product fallbacks applied
+ *
+ * @property {string} label - Option values joined for display, e.g. 'Linho / Cinza'
+ */
+export interface ProductPublicVariant {
+  id: number;
+  sku: string;
+  options: Record<string, string>;
+  label: string;
+  price: ProductPrice | null;
+  availability: ProductAvailability;
+  dimensions: ProductDimensions;
+  weight: number | null;
+}
+
+/**
+ * @interface ProductVariantRequest
+ * @description Variant in create and update payloads. Variants sent without an ID are added;
+ * stored variants left out are removed.
+ */
+export interface ProductVariantRequest {
+  id?: number;
+  sku: string;
+  options: Record<string, string>;
+  pricing: ProductPricing | null;
+  /** Reserved units are kept by orders and cannot be set */
+  inventory: Omit<ProductInventory, 'reserved'>;
+  dimensions: ProductDimensions | null;
+  weight: number | null;
+}
+
+/**
+ * @interface ProductCategoryPathItem
+ * @description Ancestor entry of a product category, ordered from the top level down
+ */
+export interface ProductCategoryPathItem {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+/**
+ * @interface ProductCategory
+ * @description Resolved category embedded in product responses
+ */
+export interface ProductCategory {
+  id: number;
+  name: string;
+  slug: string;
+  path: ProductCategoryPathItem[];
 }
 
 /**
@@ -22,14 +230,31 @@ export interface ProductEntity {
   id: number;
   name: string;
   description: string | null;
-  category: string;
+  categoryId: number;
   imageUrl: string;
   additionalImages: string[];
   specifications: ProductSpecifications;
+  /** Null when the price is given on request */
+  pricing: ProductPricing | null;
+  /** Stock of products without variants; products with variants are stocked per variant */
+  inventory: ProductInventory;
+  options: ProductOption[];
+  variants: ProductVariant[];
   dateCreated: string;
   dateModified: string;
 }
 
+/**
+ * @interface ProductDetail
+ * @description Response structure for a single product with its resolved category
+ */
+export interface ProductDetail extends ProductEntity {
+  category: ProductCategory;
+  attributeGroups: ProductAttributeGroup[];
+  price: ProductPrice | null;
+  availability: ProductAvailability;
+}
+
 /**
  * @interface ProductListItem
  * @description Response structure for product list items
@@ -37,23 +262,167 @@ export interface ProductEntity {
 export interface ProductListItem {
   id: number;
   name: string;
-  category: string;
+  categoryId: number;
+  category: ProductCategory;
   imageUrl: string;
+  price: ProductPrice | null;
+  availability: ProductAvailability;
+  hasVariants: boolean;
   dateCreated: string;
 }
 
+/**
+ * @interface ProductFacetValue
+ * @description Selectable value of a facet with the number of matching products
+ *
+ * @property {string} value - Value to send in the facet filter
+ * @property {string} label - Display label
+ * @property {number} count - Products matching the value together with the other facet filters
+ * @property {number} [min] - Lower bound (inclusive) of range facets
+ * @property {number|null} [max] - Upper bound (exclusive) of range facets, null when open-ended
+ */
+export interface ProductFacetValue {
+  value: string;
+  label: string;
+  count: number;
+  min?: number;
+  max?: number | null;
+}
+
+/**
+ * @interface ProductFacets
+ * @description Facets of a product listing; keys match the list query filter parameters
+ */
+export interface ProductFacets {
+  category: ProductFacetValue[];
+  material: ProductFacetValue[];
+  color: ProductFacetValue[];
+  priceRange: ProductFacetValue[];
+  size: ProductFacetValue[];
+}
+
+/**
+ * @type ProductFacetKey
+ * @description Name of a product facet
+ */
+export type ProductFacetKey = keyof ProductFacets;
+
 /**
  * @interface ProductListResponse
  * @description Response structure for product listing with pagination
  */
 export interface ProductListResponse {
   items: ProductListItem[];
-  total: number;
-  page: number;
-  pageSize: number;
-  totalPages: number;
-  hasNext: boolean;
-  hasPrevious: boolean;
+  facets: ProductFacets;
+  /** Also sent in the response metadata and pagination headers */
+  pagination: PaginationMetadata;
+}
+
+/**
+ * @interface ProductPublicListItem
+ * @description Storefront representation of a product in listings
+ */
+export interface ProductPublicListItem {
+  id: number;
+  name: string;
+  category: ProductCategory;
+  imageUrl: string;
+  price: ProductPrice | null;
+  availability: ProductAvailability;
+  /** A variant must be chosen to add the product to the cart */
+  hasVariants: boolean;
+}
+
+/**
+ * @interface ProductPublicDetail
+ * @description Storefront representation of a single product
+ */
+export interface ProductPublicDetail {
+  id: number;
+  name: string;
+  description: string | null;
+  category: ProductCategory;
+  imageUrl: string;
+  additionalImages: string[];
+  specifications: ProductSpecifications;
+  attributeGroups: ProductAttributeGroup[];
+  price: ProductPrice | null;
+  availability: ProductAvailability;
+  options: ProductOption[];
+  variants: ProductPublicVariant[];
+}
+
+/**
+ * @interface ProductPublicListResponse
+ * @description Response structure for storefront product listing with pagination
+ */
+export interface ProductPublicListResponse {
+  items: ProductPublicListItem[];
+  facets: ProductFacets;
+  /** Also sent in the response metadata and pagination headers */
+  pagination: PaginationMetadata;
+}
+
+/**
+ * @interface ProductSuggestResponse
+ * @description Search-as-you-type suggestions for a prefix
+ *
+ * @property {Array} products - Best matching visible products
+ * @property {Array} categories - Visible categories whose name matches the prefix
+ * @property {Array} queries - Popular searches starting with the prefix
+ */
+export interface ProductSuggestResponse {
+  products: {
+    id: number;
+    name: string;
+    imageUrl: string;
+    categoryName: string;
+  }[];
+  categories: {
+    id: number;
+    name: string;
+    slug: string;
+  }[];
+  queries: {
+    query: string;
+    count: number;
+  }[];
+}
+
+/**
+ * @interface ProductCreateRequest
+ * @description Request payload for creating a product
+ */
+export interface ProductCreateRequest {
+  name: string;
+  description: string | null;
+  categoryId: number;
+  imageUrl: string;
+  additionalImages?: string[];
+  specifications: ProductSpecifications;
+  pricing: ProductPricing | null;
+  /** Reserved units are kept by orders and cannot be set */
+  inventory: Omit<ProductInventory, 'reserved'>;
+  options?: ProductOption[];
+  variants?: ProductVariantRequest[];
+}
+
+/**
+ * @interface ProductUpdateRequest
+ * @description Request payload for fully updating a product
+ */
+export interface ProductUpdateRequest {
+  name: string;
+  description: string | null;
+  categoryId: number;
+  imageUrl: string;
+  additionalImages: string[];
+  specifications: ProductSpecifications;
+  pricing: ProductPricing | null;
+  /** Reserved units are kept by orders and cannot be set */
+  inventory: Omit<ProductInventory, 'reserved'>;
+  options: ProductOption[];
+  variants: ProductVariantRequest[];
 }
 
 /**
@@ -62,8 +431,63 @@ export interface ProductListResponse {
  */
 export interface ProductListQuery {
   search?: string;
-  category?: string;
-  sortBy?: 'name_asc' | 'name_desc' | 'date_desc' | 'date_asc';
+  /** Category slugs or numeric IDs (multi-select) */
+  category?: string | string[];
+  /** Materials (multi-select) */
+  material?: string | string[];
+  /** Finishes and colors (multi-select) */
+  color?: string | string[];
+  /** Current price bucket keys, e.g. '1000-2000' (multi-select) */
+  priceRange?: string | string[];
+  /** Width bucket keys, e.g. '150-220' (multi-select) */
+  size?: string | string[];
+  /** Include products from subcategories of the filtered category (default: true) */
+  includeDescendants?: boolean;
+  /** Minimum current price in BRL; products priced on request are excluded */
+  minPrice?: number;
+  /** Maximum current price in BRL; products priced on request are excluded */
+  maxPrice?: number;
+  /** Only products with units ready to ship */
+  inStockOnly?: boolean;
+  sortBy?:
+    | 'relevance'
+    | 'name_asc'
+    | 'name_desc'
+    | 'date_desc'
+    | 'date_asc'
+    | 'price_asc'
+    | 'price_desc';
   page?: number;
+  /** Opaque cursor from a previous response's nextCursor; replaces page */
+  cursor?: string;
   pageSize?: number;
 }
+
+/**
+ * @interface ProductStockLine
+ * @description Units of a product taken from or returned to its stock by an order
+ *
+ * @property {number|null} variantId - Variant whose stock is used, null for products without variants
+ */
+export interface ProductStockLine {
+  productId: number;
+  variantId: number | null;
+  quantity: number;
+}
+
+/**
+ * @interface ProductStockReservation
+ * @description Units of an order line held from stock; units beyond them are made to order
+ *
+ * @property {number} productId - Product ID
+ * @property {number|null} variantId - Variant ID, null for products without variants
+ * @property {number} reservedQuantity - Units held from stock
+ * @property {number|null} leadTimeDays - Lead time of the units made to order, null when all
+ *   units come from stock
+ */
+export interface ProductStockReservation {
+  productId: number;
+  variantId: number | null;
+  reservedQuantity: number;
+  leadTimeDays: number | null;
+}
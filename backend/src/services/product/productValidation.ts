@@ -7,24 +7,284 @@
  */
 
 import { z } from 'zod';
-import { PRODUCT_LIMITS } from '@/constants';
+import { PRODUCT_FACET_RANGES, PRODUCT_LIMITS, PRODUCT_SEARCH } from '@/constants';
+import { zFK } from '@/utils';
 
 /**
- * Schema for product list query validation
+ * Schema for product specifications validation
+ */
+export const specificationsSchema = z.object({
+  dimensions: z.object({
+    width: z.number().positive().max(PRODUCT_LIMITS.DIMENSION_MAX_CM).nullable(),
+    height: z.number().positive().max(PRODUCT_LIMITS.DIMENSION_MAX_CM).nullable(),
+    depth: z.number().positive().max(PRODUCT_LIMITS.DIMENSION_MAX_CM).nullable(),
+  }),
+  weight: z.number().positive().max(PRODUCT_LIMITS.WEIGHT_MAX_KG).nullable(),
+  materials: z
+    .array(z.string().trim().min(1).max(PRODUCT_LIMITS.MATERIAL_MAX_LENGTH))
+    .max(PRODUCT_LIMITS.MATERIALS_MAX),
+  finishes: z
+    .array(z.string().trim().min(1).max(PRODUCT_LIMITS.MATERIAL_MAX_LENGTH))
+    .max(PRODUCT_LIMITS.MATERIALS_MAX),
+  /** Checked against the category attribute definitions by the service */
+  attributes: z.record(
+    z.union([z.string().max(PRODUCT_LIMITS.ATTRIBUTE_TEXT_MAX_LENGTH), z.number(), z.boolean()])
+  ),
+});
+
+/**
+ * Schema for product pricing fields, without cross-field rules
+ */
+export const pricingFieldsSchema = z.object({
+  price: z.number().positive().max(PRODUCT_LIMITS.PRICE_MAX),
+  salePrice: z.number().positive().max(PRODUCT_LIMITS.PRICE_MAX).nullable(),
+  saleStartsAt: z.string().datetime({ offset: true }).nullable(),
+  saleEndsAt: z.string().datetime({ offset: true }).nullable(),
+  maxInstallments: z.number().int().min(1).max(PRODUCT_LIMITS.INSTALLMENTS_MAX),
+  installmentInterestRate: z.number().min(0).max(PRODUCT_LIMITS.INTEREST_RATE_MAX),
+});
+
+/**
+ * Schema for product pricing validation
+ */
+export const pricingSchema = pricingFieldsSchema.superRefine((pricing, ctx) => {
+  if (pricing.salePrice !== null && pricing.salePrice >= pricing.price) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['salePrice'],
+      message: 'Sale price must be lower than the regular price',
+    });
+  }
+
+  if (pricing.salePrice === null && (pricing.saleStartsAt || pricing.saleEndsAt)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['salePrice'],
+      message: 'Sale dates require a sale price',
+    });
+  }
+
+  if (
+    pricing.saleStartsAt &&
+    pricing.saleEndsAt &&
+    new Date(pricing.saleEndsAt) <= new Date(pricing.saleStartsAt)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['saleEndsAt'],
+      message: 'Sale end must be after sale start',
+    });
+  }
+});
+
+/**
+ * Schema for product inventory validation. Reserved units are kept by orders and
+ * cannot be set.
  */
-export const listQuerySchema = z.object({
-  search: z.string().max(PRODUCT_LIMITS.SEARCH_MAX_LENGTH).optional(),
-  category: z.string().max(PRODUCT_LIMITS.CATEGORY_MAX_LENGTH).optional(),
-  sortBy: z.enum(['name_asc', 'name_desc', 'date_desc', 'date_asc']).optional(),
-  page: z.coerce.number().int().positive().optional(),
-  pageSize: z.coerce
-    .number()
-    .int()
-    .positive()
-    .refine((val) => [9, 18, 27, 36].includes(val), {
-      message: 'Page size must be 9, 18, 27, or 36',
+export const inventorySchema = z.object({
+  stock: z.number().int().min(0).max(PRODUCT_LIMITS.STOCK_MAX),
+  leadTimeDays: z.number().int().positive().max(PRODUCT_LIMITS.LEAD_TIME_DAYS_MAX).nullable(),
+  lowStockThreshold: z.number().int().min(0).max(PRODUCT_LIMITS.STOCK_MAX),
+});
+
+/**
+ * Schema for product option axes validation
+ */
+export const optionsSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1).max(PRODUCT_LIMITS.OPTION_NAME_MAX_LENGTH),
+      values: z
+        .array(z.string().trim().min(1).max(PRODUCT_LIMITS.OPTION_VALUE_MAX_LENGTH))
+        .min(1)
+        .max(PRODUCT_LIMITS.OPTION_VALUES_MAX)
+        .refine((values) => new Set(values).size === values.length, {
+          message: 'Option values must be unique',
+        }),
     })
-    .optional(),
+  )
+  .max(PRODUCT_LIMITS.OPTIONS_MAX)
+  .refine((options) => new Set(options.map((o) => o.name)).size === options.length, {
+    message: 'Option names must be unique',
+  });
+
+/**
+ * Schema for product variant validation. Option values and SKU uniqueness are checked
+ * against the product by the service.
+ */
+export const variantSchema = z.object({
+  id: z.number().int().positive().optional(),
+  sku: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .min(1)
+    .max(PRODUCT_LIMITS.SKU_MAX_LENGTH)
+    .regex(
+      /^[A-Z0-9][A-Z0-9._-]*$/,
+      'SKU may only contain letters, digits, dots, dashes and underscores'
+    ),
+  options: z.record(z.string()),
+  pricing: pricingSchema.nullable(),
+  inventory: inventorySchema,
+  dimensions: specificationsSchema.shape.dimensions.nullable(),
+  weight: specificationsSchema.shape.weight,
+});
+
+/**
+ * Schema for product create request validation
+ */
+export const createSchema = z.object({
+  name: z.string().min(PRODUCT_LIMITS.NAME_MIN_LENGTH).max(PRODUCT_LIMITS.NAME_MAX_LENGTH),
+  description: z.string().max(PRODUCT_LIMITS.DESCRIPTION_MAX_LENGTH).nullable(),
+  categoryId: zFK,
+  imageUrl: z.string().min(1).max(PRODUCT_LIMITS.IMAGE_URL_MAX_LENGTH),
+  additionalImages: z.array(z.string().min(1).max(PRODUCT_LIMITS.IMAGE_URL_MAX_LENGTH)).optional(),
+  specifications: specificationsSchema,
+  pricing: pricingSchema.nullable(),
+  inventory: inventorySchema,
+  options: optionsSchema.default([]),
+  variants: z.array(variantSchema).max(PRODUCT_LIMITS.VARIANTS_MAX).default([]),
+});
+
+/**
+ * Schema for product full update (PUT) request validation
+ */
+export const updateSchema = z.object({
+  name: z.string().min(PRODUCT_LIMITS.NAME_MIN_LENGTH).max(PRODUCT_LIMITS.NAME_MAX_LENGTH),
+  description: z.string().max(PRODUCT_LIMITS.DESCRIPTION_MAX_LENGTH).nullable(),
+  categoryId: zFK,
+  imageUrl: z.string().min(1).max(PRODUCT_LIMITS.IMAGE_URL_MAX_LENGTH),
+  additionalImages: z.array(z.string().min(1).max(PRODUCT_LIMITS.IMAGE_URL_MAX_LENGTH)),
+  specifications: specificationsSchema,
+  pricing: pricingSchema.nullable(),
+  inventory: inventorySchema,
+  options: optionsSchema,
+  variants: z.array(variantSchema).max(PRODUCT_LIMITS.VARIANTS_MAX),
+});
+
+/**
+ * Schema for product partial update (PATCH) request validation.
+ * Pricing fields are merged with the stored pricing and checked again by the service.
+ */
+export const patchSchema = updateSchema
+  .extend({
+    specifications: specificationsSchema.partial(),
+    pricing: pricingFieldsSchema.partial().nullable(),
+    inventory: inventorySchema.partial(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * Builds the key a facet range is selected by, e.g. { min: 1000, max: 2000 } → '1000-2000'
+ */
+export const facetRangeKey = (range: { min: number; max: number | null }): string =>
+  `${range.min}-${range.max ?? ''}`;
+
+/**
+ * Schema for a multi-select facet filter. Accepts a repeated parameter and/or
+ * comma-separated values.
+ */
+const facetValuesSchema = <T extends z.ZodTypeAny>(valueSchema: T) =>
+  z
+    .preprocess(
+      (value) =>
+        [value]
+          .flat()
+          .flatMap((item) => String(item).split(','))
+          .map((item) => item.trim())
+          .filter(Boolean),
+      z.array(valueSchema).max(PRODUCT_LIMITS.FACET_VALUES_MAX)
+    )
+    .optional();
+
+const rangeKeys = (ranges: readonly { min: number; max: number | null }[]) =>
+  ranges.map(facetRangeKey) as [string, ...string[]];
+
+/**
+ * Schema for product list query validation
+ */
+export const listQuerySchema = z
+  .object({
+    search: z.string().max(PRODUCT_LIMITS.SEARCH_MAX_LENGTH).optional(),
+    category: facetValuesSchema(z.string().max(PRODUCT_LIMITS.CATEGORY_MAX_LENGTH)),
+    material: facetValuesSchema(z.string().max(PRODUCT_LIMITS.MATERIAL_MAX_LENGTH)),
+    color: facetValuesSchema(z.string().max(PRODUCT_LIMITS.MATERIAL_MAX_LENGTH)),
+    priceRange: facetValuesSchema(z.enum(rangeKeys(PRODUCT_FACET_RANGES.PRICE))),
+    size: facetValuesSchema(z.enum(rangeKeys(PRODUCT_FACET_RANGES.WIDTH))),
+    includeDescendants: z
+      .string()
+      .transform((val) => val !== 'false')
+      .optional(),
+    minPrice: z.coerce.number().min(0).optional(),
+    maxPrice: z.coerce.number().min(0).optional(),
+    inStockOnly: z
+      .string()
+      .transform((val) => val === 'true')
+      .optional(),
+    sortBy: z
+      .enum([
+        'relevance',
+        'name_asc',
+        'name_desc',
+        'date_desc',
+        'date_asc',
+        'price_asc',
+        'price_desc',
+      ])
+      .optional(),
+    page: z.coerce.number().int().positive().optional(),
+    cursor: z.string().min(1).max(PRODUCT_LIMITS.CURSOR_MAX_LENGTH).optional(),
+    pageSize: z.coerce
+      .number()
+      .int()
+      .positive()
+      .refine((val) => [9, 18, 27, 36].includes(val), {
+        message: 'Page size must be 9, 18, 27, or 36',
+      })
+      .optional(),
+  })
+  .refine(
+    (query) =>
+      query.minPrice === undefined ||
+      query.maxPrice === undefined ||
+      query.minPrice <= query.maxPrice,
+    { message: 'minPrice must not be greater than maxPrice', path: ['minPrice'] }
+  )
+  .refine((query) => query.page === undefined || query.cursor === undefined, {
+    message: 'Use either page or cursor, not both',
+    path: ['cursor'],
+  });
+
+/**
+ * Schema for search suggestion query validation
+ */
+export const suggestQuerySchema = z.object({
+  q: z.string().trim().min(PRODUCT_SEARCH.SUGGEST_MIN_LENGTH).max(PRODUCT_LIMITS.SEARCH_MAX_LENGTH),
+});
+
+/**
+ * Schema for batch query validation. Accepts a repeated parameter and/or comma-separated IDs;
+ * duplicates are dropped and the order is kept.
+ */
+export const batchQuerySchema = z.object({
+  ids: z.preprocess(
+    (value) =>
+      [value]
+        .flat()
+        .filter((item) => item !== undefined)
+        .flatMap((item) => String(item).split(','))
+        .map((item) => item.trim())
+        .filter(Boolean),
+    z
+      .array(z.coerce.number().int().positive())
+      .min(1, 'At least one ID must be provided')
+      .max(PRODUCT_LIMITS.BATCH_IDS_MAX)
+      .transform((ids) => [...new Set(ids)])
+  ),
 });
 
 /**
@@ -37,5 +297,15 @@ export const productParamsSchema = z.object({
 /**
  * Inferred types from schemas
  */
+export type SpecificationsInput = z.infer<typeof specificationsSchema>;
+export type PricingInput = z.infer<typeof pricingSchema>;
+export type InventoryInput = z.infer<typeof inventorySchema>;
+export type OptionsInput = z.infer<typeof optionsSchema>;
+export type VariantInput = z.infer<typeof variantSchema>;
+export type CreateInput = z.infer<typeof createSchema>;
+export type UpdateInput = z.infer<typeof updateSchema>;
+export type PatchInput = z.infer<typeof patchSchema>;
 export type ListQueryInput = z.infer<typeof listQuerySchema>;
+export type SuggestQueryInput = z.infer<typeof suggestQuerySchema>;
+export type BatchQueryInput = z.infer<typeof batchQuerySchema>;
 export type ProductParamsInput = z.infer<typeof productParamsSchema>;
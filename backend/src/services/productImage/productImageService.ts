@@ -1,24 +1,205 @@
 /**
  * @summary
  * Business logic for Product Image entity.
- * Handles product image gallery operations using in-memory storage.
+ * Handles product image gallery operations and uploaded image processing.
  * All validation and business logic is centralized here.
  *
  * @module services/productImage/productImageService
  */
 
+import { randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
 import { PRODUCT_IMAGE_DEFAULTS } from '@/constants';
-import { productImageStore, productStore } from '@/instances';
+import { fileStorage, productImageStore, productStore, StoredFile } from '@/instances';
 import { ServiceError } from '@/utils';
-import { ProductImageEntity } from './productImageTypes';
+import { categoryGetVisibleIds } from '@/services/category';
 import {
+  ProductImageEntity,
+  ProductImagePublic,
+  ProductImageUploadFile,
+} from './productImageTypes';
+import {
+  CreateInput,
   createSchema,
+  uploadSchema,
   updateSchema,
   productImageParamsSchema,
   productIdParamsSchema,
   reorderSchema,
 } from './productImageValidation';
 
+/**
+ * @summary
+ * Ensures a product has room for another gallery image.
+ *
+ * @function ensureImageCapacity
+ * @param {number} productId - Product receiving the image
+ *
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the product already holds the maximum
+ *   number of images
+ */
+function ensureImageCapacity(productId: number): void {
+  const imageCount = productImageStore.getAll().filter((img) => img.productId === productId).length;
+
+  if (imageCount >= PRODUCT_IMAGE_DEFAULTS.MAX_IMAGES_PER_PRODUCT) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `Maximum of ${PRODUCT_IMAGE_DEFAULTS.MAX_IMAGES_PER_PRODUCT} images per product`,
+      400
+    );
+  }
+}
+
+/**
+ * @summary
+ * Checks that an image is linked only to variants of its product.
+ *
+ * @function validateImageVariants
+ * @param {number} productId - Product the image belongs to
+ * @param {number[]} variantIds - Variants the image shows
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When a variant ID is not one of the product
+ */
+function validateImageVariants(productId: number, variantIds: number[]): void {
+  const product = productStore.getById(productId);
+  const unknownIds = variantIds.filter((id) => !product?.variants.some((v) => v.id === id));
+
+  if (unknownIds.length > 0) {
+    throw new ServiceError('VALIDATION_ERROR', 'Unknown product variant', 400, [
+      { path: ['variantIds'], message: `Unknown variant IDs: ${unknownIds.join(', ')}` },
+    ]);
+  }
+}
+
+/**
+ * @summary
+ * Stores a new image for an existing product, appending it to the gallery by default.
+ *
+ * @function addProductImage
+ * @param {number} productId - Product receiving the image
+ * @param {CreateInput} imageData - Validated image data
+ * @returns {ProductImageEntity} The stored image
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the image references unknown variants
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the gallery is full
+ */
+function addProductImage(productId: number, imageData: CreateInput): ProductImageEntity {
+  ensureImageCapacity(productId);
+  validateImageVariants(productId, imageData.variantIds ?? []);
+
+  const existingImages = productImageStore.getAll().filter((img) => img.productId === productId);
+  const displayOrder =
+    imageData.displayOrder ??
+    (existingImages.length > 0
+      ? Math.max(...existingImages.map((img) => img.displayOrder)) + 1
+      : 1);
+
+  const now = new Date().toISOString();
+  const id = productImageStore.getNextId();
+
+  const newImage: ProductImageEntity = {
+    id,
+    productId,
+    imageUrl: imageData.imageUrl,
+    thumbnailUrl: imageData.thumbnailUrl,
+    highResUrl: imageData.highResUrl,
+    displayOrder,
+    caption: imageData.caption,
+    altText: imageData.altText,
+    viewAngle: imageData.viewAngle,
+    variantIds: imageData.variantIds ?? [],
+    dateCreated: now,
+    dateModified: now,
+  };
+
+  productImageStore.add(newImage);
+  return newImage;
+}
+
+/**
+ * @summary
+ * Reads the format of an uploaded file and enforces the accepted formats and minimum resolution.
+ *
+ * @function readUploadFormat
+ * @param {Buffer} buffer - Uploaded file contents
+ * @returns {Promise<string>} Image format reported by sharp, e.g. 'jpeg'
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the file is not an image in an accepted
+ *   format
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the image is below the minimum resolution
+ */
+async function readUploadFormat(buffer: Buffer): Promise<string> {
+  let metadata: sharp.Metadata;
+
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new ServiceError('VALIDATION_ERROR', 'Uploaded file is not a valid image', 400);
+  }
+
+  const { format, width = 0, height = 0, orientation = 1 } = metadata;
+  const acceptedFormats: readonly string[] = PRODUCT_IMAGE_DEFAULTS.UPLOAD_FORMATS;
+
+  if (!format || !acceptedFormats.includes(format)) {
+    throw new ServiceError('VALIDATION_ERROR', 'Unsupported image format', 400, {
+      acceptedFormats,
+    });
+  }
+
+  // EXIF orientations 5-8 are rotated by 90 degrees, so the displayed sides are swapped
+  const [displayWidth, displayHeight] = orientation >= 5 ? [height, width] : [width, height];
+
+  if (
+    displayWidth < PRODUCT_IMAGE_DEFAULTS.HIGH_RES_MIN_WIDTH ||
+    displayHeight < PRODUCT_IMAGE_DEFAULTS.HIGH_RES_MIN_HEIGHT
+  ) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `Image must be at least ${PRODUCT_IMAGE_DEFAULTS.HIGH_RES_MIN_WIDTH}x${PRODUCT_IMAGE_DEFAULTS.HIGH_RES_MIN_HEIGHT} pixels`,
+      400,
+      { width: displayWidth, height: displayHeight }
+    );
+  }
+
+  return format;
+}
+
+/**
+ * @summary
+ * Generates a WebP variant no wider than the given width and writes it to storage.
+ *
+ * @function storeVariant
+ * @param {Buffer} buffer - Uploaded file contents
+ * @param {string} key - Storage key of the variant
+ * @param {number} width - Maximum width in pixels
+ * @returns {Promise<StoredFile>} The stored variant
+ */
+async function storeVariant(buffer: Buffer, key: string, width: number): Promise<StoredFile> {
+  const variant = await sharp(buffer)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: PRODUCT_IMAGE_DEFAULTS.VARIANT_QUALITY })
+    .toBuffer();
+
+  return fileStorage.save(key, variant, 'image/webp');
+}
+
+/**
+ * @summary
+ * Removes the stored files of an uploaded image. Images pointing at external URLs are left alone.
+ *
+ * @function releaseImageFiles
+ * @param {ProductImageEntity} image - Image whose files are removed
+ */
+async function releaseImageFiles(image: ProductImageEntity): Promise<void> {
+  const key = fileStorage.getKeyFromUrl(image.thumbnailUrl);
+
+  if (key) {
+    await fileStorage.deletePrefix(path.posix.dirname(key));
+  }
+}
+
 /**
  * @summary
  * Lists all images for a specific product.
@@ -58,6 +239,55 @@ export async function productImageList(params: unknown): Promise<ProductImageEnt
   return images;
 }
 
+/**
+ * @summary
+ * Lists the gallery of a storefront product.
+ *
+ * @function productImageListPublic
+ * @module services/productImage
+ *
+ * @param {unknown} params - Raw request params containing productId
+ * @returns {Promise<ProductImagePublic[]>} Product images ordered by displayOrder
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When productId is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product does not exist or its category is hidden
+ *
+ * @example
+ * const images = await productImageListPublic({ productId: '1' });
+ * // Returns: [{ id: 1, imageUrl: '...', thumbnailUrl: '...', displayOrder: 1, ... }]
+ */
+export async function productImageListPublic(params: unknown): Promise<ProductImagePublic[]> {
+  const validation = productIdParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid product ID', 400, validation.error.errors);
+  }
+
+  const { productId } = validation.data;
+  const product = productStore.getById(productId);
+  const visibleCategoryIds = await categoryGetVisibleIds();
+
+  if (!product || !visibleCategoryIds.has(product.categoryId)) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  return productImageStore
+    .getAll()
+    .filter((img) => img.productId === productId)
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map((img) => ({
+      id: img.id,
+      imageUrl: img.imageUrl,
+      thumbnailUrl: img.thumbnailUrl,
+      highResUrl: img.highResUrl,
+      displayOrder: img.displayOrder,
+      caption: img.caption,
+      altText: img.altText,
+      viewAngle: img.viewAngle,
+      variantIds: img.variantIds,
+    }));
+}
+
 /**
  * @summary
  * Retrieves a specific product image by its ID.
@@ -103,7 +333,8 @@ export async function productImageGet(params: unknown): Promise<ProductImageEnti
  * @param {unknown} body - Raw request body to validate
  * @returns {Promise<ProductImageEntity>} The newly created product image entity
  *
- * @throws {ServiceError} VALIDATION_ERROR (400) - When params or body fail validation
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When params or body fail validation or reference
+ *   unknown variants
  * @throws {ServiceError} NOT_FOUND (404) - When product does not exist
  * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When business rules are violated
  *
@@ -140,49 +371,113 @@ export async function productImageCreate(
   }
 
   const { productId } = paramsValidation.data;
-  const imageData = bodyValidation.data;
 
   // Verify product exists
   if (!productStore.exists(productId)) {
     throw new ServiceError('NOT_FOUND', 'Product not found', 404);
   }
 
-  // Check maximum images limit
-  const existingImages = productImageStore.getAll().filter((img) => img.productId === productId);
-  if (existingImages.length >= PRODUCT_IMAGE_DEFAULTS.MAX_IMAGES_PER_PRODUCT) {
+  return addProductImage(productId, bodyValidation.data);
+}
+
+/**
+ * @summary
+ * Uploads an image file for a product.
+ * Stores the original and generates thumbnail, standard and high-res variants,
+ * then creates the image entity pointing at the generated files.
+ *
+ * @function productImageUpload
+ * @module services/productImage
+ *
+ * @param {unknown} params - Raw request params containing productId
+ * @param {ProductImageUploadFile | undefined} file - Uploaded file held in memory
+ * @param {unknown} body - Raw multipart fields (altText, caption, viewAngle, displayOrder,
+ *   variantIds)
+ * @returns {Promise<ProductImageEntity>} The created product image entity
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When params, fields or the file are invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product does not exist
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the image is below the minimum resolution
+ *   or the product has reached the image limit
+ *
+ * @example
+ * const newImage = await productImageUpload(
+ *   { productId: '1' },
+ *   req.file,
+ *   { altText: 'Front view', viewAngle: 'frontal' }
+ * );
+ */
+export async function productImageUpload(
+  params: unknown,
+  file: ProductImageUploadFile | undefined,
+  body: unknown
+): Promise<ProductImageEntity> {
+  const paramsValidation = productIdParamsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
     throw new ServiceError(
-      'BUSINESS_RULE_ERROR',
-      `Maximum of ${PRODUCT_IMAGE_DEFAULTS.MAX_IMAGES_PER_PRODUCT} images per product`,
-      400
+      'VALIDATION_ERROR',
+      'Invalid product ID',
+      400,
+      paramsValidation.error.errors
     );
   }
 
-  // Auto-assign display order if not provided
-  const displayOrder =
-    imageData.displayOrder ??
-    (existingImages.length > 0
-      ? Math.max(...existingImages.map((img) => img.displayOrder)) + 1
-      : 1);
+  const bodyValidation = uploadSchema.safeParse(body);
 
-  const now = new Date().toISOString();
-  const id = productImageStore.getNextId();
+  if (!bodyValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Validation failed',
+      400,
+      bodyValidation.error.errors
+    );
+  }
 
-  const newImage: ProductImageEntity = {
-    id,
-    productId,
-    imageUrl: imageData.imageUrl,
-    thumbnailUrl: imageData.thumbnailUrl,
-    highResUrl: imageData.highResUrl,
-    displayOrder,
-    caption: imageData.caption,
-    altText: imageData.altText,
-    viewAngle: imageData.viewAngle,
-    dateCreated: now,
-    dateModified: now,
-  };
+  if (!file) {
+    throw new ServiceError('VALIDATION_ERROR', 'An image file is required', 400);
+  }
 
-  productImageStore.add(newImage);
-  return newImage;
+  const { productId } = paramsValidation.data;
+  const { displayOrder, caption, altText, viewAngle, variantIds } = bodyValidation.data;
+
+  // Verify product exists
+  if (!productStore.exists(productId)) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  ensureImageCapacity(productId);
+  validateImageVariants(productId, variantIds ?? []);
+
+  const format = await readUploadFormat(file.buffer);
+  const folder = `${PRODUCT_IMAGE_DEFAULTS.STORAGE_PREFIX}/${productId}/${randomUUID()}`;
+
+  try {
+    const [thumbnail, standard, highRes] = await Promise.all([
+      storeVariant(file.buffer, `${folder}/thumbnail.webp`, PRODUCT_IMAGE_DEFAULTS.THUMBNAIL_WIDTH),
+      storeVariant(file.buffer, `${folder}/standard.webp`, PRODUCT_IMAGE_DEFAULTS.STANDARD_WIDTH),
+      storeVariant(file.buffer, `${folder}/high-res.webp`, PRODUCT_IMAGE_DEFAULTS.HIGH_RES_WIDTH),
+      fileStorage.save(
+        `${folder}/original.${format === 'jpeg' ? 'jpg' : format}`,
+        file.buffer,
+        file.mimetype
+      ),
+    ]);
+
+    return addProductImage(productId, {
+      imageUrl: standard.url,
+      thumbnailUrl: thumbnail.url,
+      highResUrl: highRes.url,
+      displayOrder,
+      caption,
+      altText,
+      viewAngle,
+      variantIds,
+    });
+  } catch (error) {
+    await fileStorage.deletePrefix(folder);
+    throw error;
+  }
 }
 
 /**
@@ -196,7 +491,8 @@ export async function productImageCreate(
  * @param {unknown} body - Raw request body with update data
  * @returns {Promise<ProductImageEntity>} The updated product image entity
  *
- * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or body fails validation
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or body fails validation or references
+ *   unknown variants
  * @throws {ServiceError} NOT_FOUND (404) - When image does not exist
  *
  * @example
@@ -235,6 +531,10 @@ export async function productImageUpdate(
 
   const updateData = bodyValidation.data;
 
+  if (updateData.variantIds) {
+    validateImageVariants(existing.productId, updateData.variantIds);
+  }
+
   const updated = productImageStore.update(id, {
     imageUrl: updateData.imageUrl,
     thumbnailUrl: updateData.thumbnailUrl,
@@ -243,6 +543,7 @@ export async function productImageUpdate(
     caption: updateData.caption,
     altText: updateData.altText,
     viewAngle: updateData.viewAngle,
+    variantIds: updateData.variantIds ?? existing.variantIds,
     dateModified: new Date().toISOString(),
   });
 
@@ -291,6 +592,7 @@ export async function productImageDelete(params: unknown): Promise<{ message: st
   }
 
   productImageStore.delete(id);
+  await releaseImageFiles(existing);
   return { message: 'Product image deleted successfully' };
 }
 
@@ -308,6 +610,7 @@ export async function productImageDelete(params: unknown): Promise<{ message: st
  * @throws {ServiceError} VALIDATION_ERROR (400) - When params or body fail validation
  * @throws {ServiceError} NOT_FOUND (404) - When product does not exist
  * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When image IDs don't match product
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When image IDs or display orders repeat
  *
  * @example
  * const result = await productImageReorder(
@@ -349,6 +652,16 @@ export async function productImageReorder(
     throw new ServiceError('NOT_FOUND', 'Product not found', 404);
   }
 
+  const imageIds = new Set(imageOrder.map((item) => item.id));
+  const displayOrders = new Set(imageOrder.map((item) => item.displayOrder));
+  if (imageIds.size !== imageOrder.length || displayOrders.size !== imageOrder.length) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      'Image IDs and display orders must be unique',
+      400
+    );
+  }
+
   // Verify all images belong to the product
   for (const item of imageOrder) {
     const image = productImageStore.getById(item.id);
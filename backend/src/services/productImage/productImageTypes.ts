@@ -33,10 +33,29 @@ export interface ProductImageEntity {
   caption: string | null;
   altText: string;
   viewAngle: ViewAngle;
+  /** Variants of the product the image shows; empty when it applies to all of them */
+  variantIds: number[];
   dateCreated: string;
   dateModified: string;
 }
 
+/**
+ * @interface ProductImagePublic
+ * @description Storefront representation of a product image
+ */
+export interface ProductImagePublic {
+  id: number;
+  imageUrl: string;
+  thumbnailUrl: string;
+  highResUrl: string;
+  displayOrder: number;
+  caption: string | null;
+  altText: string;
+  viewAngle: ViewAngle;
+  /** Empty when the image applies to all variants */
+  variantIds: number[];
+}
+
 /**
  * @interface ProductImageCreateRequest
  * @description Request payload for creating a product image
@@ -49,6 +68,32 @@ export interface ProductImageCreateRequest {
   caption: string | null;
   altText: string;
   viewAngle: ViewAngle;
+  /** Variants the image shows (default: all) */
+  variantIds?: number[];
+}
+
+/**
+ * @interface ProductImageUploadRequest
+ * @description Multipart fields sent along with an uploaded product image
+ */
+export interface ProductImageUploadRequest {
+  displayOrder?: number;
+  caption?: string;
+  altText: string;
+  viewAngle: ViewAngle;
+  /** Comma-separated variant IDs the image shows (default: all) */
+  variantIds?: string;
+}
+
+/**
+ * @interface ProductImageUploadFile
+ * @description Uploaded image file held in memory
+ */
+export interface ProductImageUploadFile {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+  size: number;
 }
 
 /**
@@ -63,6 +108,8 @@ export interface ProductImageUpdateRequest {
   caption: string | null;
   altText: string;
   viewAngle: ViewAngle;
+  /** Variants the image shows; unchanged when omitted */
+  variantIds?: number[];
 }
 
 /**
@@ -7,7 +7,7 @@
  */
 
 import { z } from 'zod';
-import { PRODUCT_IMAGE_LIMITS } from '@/constants';
+import { PRODUCT_IMAGE_LIMITS, PRODUCT_LIMITS } from '@/constants';
 
 /**
  * Valid view angles enum
@@ -23,6 +23,14 @@ const viewAngleEnum = z.enum([
   'ambiente',
 ]);
 
+/**
+ * Schema for the variants an image shows. Checked against the product variants by the service.
+ */
+const variantIdsSchema = z
+  .array(z.number().int().positive())
+  .max(PRODUCT_LIMITS.VARIANTS_MAX)
+  .transform((ids) => [...new Set(ids)]);
+
 /**
  * Schema for product image create request validation
  */
@@ -34,6 +42,33 @@ export const createSchema = z.object({
   caption: z.string().max(PRODUCT_IMAGE_LIMITS.CAPTION_MAX_LENGTH).nullable(),
   altText: z.string().min(1).max(PRODUCT_IMAGE_LIMITS.ALT_TEXT_MAX_LENGTH),
   viewAngle: viewAngleEnum,
+  variantIds: variantIdsSchema.optional(),
+});
+
+/**
+ * Schema for product image upload fields validation (multipart values arrive as strings)
+ */
+export const uploadSchema = z.object({
+  displayOrder: z.coerce.number().int().positive().optional(),
+  caption: z
+    .string()
+    .trim()
+    .max(PRODUCT_IMAGE_LIMITS.CAPTION_MAX_LENGTH)
+    .optional()
+    .transform((caption) => caption || null),
+  altText: z.string().trim().min(1).max(PRODUCT_IMAGE_LIMITS.ALT_TEXT_MAX_LENGTH),
+  viewAngle: viewAngleEnum,
+  variantIds: z
+    .preprocess(
+      (value) =>
+        String(value)
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean)
+          .map(Number),
+      variantIdsSchema
+    )
+    .optional(),
 });
 
 /**
@@ -47,6 +82,7 @@ export const updateSchema = z.object({
   caption: z.string().max(PRODUCT_IMAGE_LIMITS.CAPTION_MAX_LENGTH).nullable(),
   altText: z.string().min(1).max(PRODUCT_IMAGE_LIMITS.ALT_TEXT_MAX_LENGTH),
   viewAngle: viewAngleEnum,
+  variantIds: variantIdsSchema.optional(),
 });
 
 /**
@@ -79,6 +115,7 @@ export const productIdParamsSchema = z.object({
  * Inferred types from schemas
  */
 export type CreateInput = z.infer<typeof createSchema>;
+export type UploadInput = z.infer<typeof uploadSchema>;
 export type UpdateInput = z.infer<typeof updateSchema>;
 export type ReorderInput = z.infer<typeof reorderSchema>;
 export type ProductImageParamsInput = z.infer<typeof productImageParamsSchema>;
@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for User service.
+ *
+ * @module services/user
+ */
+
+export * from './userTypes';
+export * from './userService';
+export * from './userValidation';
@@ -0,0 +1,273 @@
+/**
+ * @summary
+ * Business logic for User entity.
+ * Handles administration of user accounts and their roles.
+ * Passwords are stored only as bcrypt hashes and never returned.
+ *
+ * @module services/user/userService
+ */
+
+import bcrypt from 'bcryptjs';
+import { config } from '@/config';
+import { USER_DEFAULTS, USER_ROLES } from '@/constants';
+import { sessionStore, userStore, UserRecord } from '@/instances';
+import { ServiceError } from '@/utils';
+import { UserEntity } from './userTypes';
+import { createSchema, updateSchema, userParamsSchema } from './userValidation';
+
+/**
+ * @summary
+ * Maps a stored user to its public representation.
+ *
+ * @function toUserEntity
+ * @param {UserRecord} record - Stored user record
+ * @returns {UserEntity} User without password hash
+ */
+function toUserEntity(record: UserRecord): UserEntity {
+  const { passwordHash: _passwordHash, ...entity } = record;
+  return entity;
+}
+
+/**
+ * @summary
+ * Checks whether a user is the only active administrator.
+ *
+ * @function isLastActiveAdmin
+ * @param {UserRecord} record - Stored user record
+ * @returns {boolean} True when removing admin access from the user would leave none
+ */
+function isLastActiveAdmin(record: UserRecord): boolean {
+  if (record.role !== USER_ROLES.ADMIN || !record.active) {
+    return false;
+  }
+
+  return (
+    userStore.getAll().filter((user) => user.role === USER_ROLES.ADMIN && user.active).length === 1
+  );
+}
+
+/**
+ * @summary
+ * Ends every open session of a user.
+ *
+ * @function revokeSessions
+ * @param {number} userId - User identifier
+ */
+function revokeSessions(userId: number): void {
+  sessionStore
+    .getAll()
+    .filter((session) => session.userId === userId)
+    .forEach((session) => sessionStore.delete(session.id));
+}
+
+/**
+ * @summary
+ * Lists all user accounts.
+ *
+ * @function userList
+ * @module services/user
+ *
+ * @returns {Promise<UserEntity[]>} List of users ordered by name
+ *
+ * @example
+ * const users = await userList();
+ * // Returns: [{ id: 1, name: 'Administrador', role: 'admin', ... }]
+ */
+export async function userList(): Promise<UserEntity[]> {
+  return userStore
+    .getAll()
+    .map(toUserEntity)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * @summary
+ * Retrieves a specific user by its ID.
+ *
+ * @function userGet
+ * @module services/user
+ *
+ * @param {unknown} params - Raw request params containing the ID
+ * @returns {Promise<UserEntity>} The found user
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When user does not exist
+ *
+ * @example
+ * const user = await userGet({ id: '1' });
+ */
+export async function userGet(params: unknown): Promise<UserEntity> {
+  const validation = userParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const record = userStore.getById(validation.data.id);
+
+  if (!record) {
+    throw new ServiceError('NOT_FOUND', 'User not found', 404);
+  }
+
+  return toUserEntity(record);
+}
+
+/**
+ * @summary
+ * Creates a new user account.
+ *
+ * @function userCreate
+ * @module services/user
+ *
+ * @param {unknown} body - Raw request body to validate
+ * @returns {Promise<UserEntity>} The newly created user
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails validation
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When email is already in use
+ *
+ * @example
+ * const user = await userCreate({ name: 'Maria', email: 'maria@...', password: '...', role: 'editor' });
+ */
+export async function userCreate(body: unknown): Promise<UserEntity> {
+  const validation = createSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const params = validation.data;
+
+  if (userStore.getByEmail(params.email)) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'Email already in use', 400);
+  }
+
+  const now = new Date().toISOString();
+  const record: UserRecord = {
+    id: userStore.getNextId(),
+    name: params.name,
+    email: params.email,
+    passwordHash: await bcrypt.hash(params.password, config.security.bcryptRounds),
+    role: params.role,
+    active: USER_DEFAULTS.ACTIVE,
+    lastLoginAt: null,
+    dateCreated: now,
+    dateModified: now,
+  };
+
+  userStore.add(record);
+  return toUserEntity(record);
+}
+
+/**
+ * @summary
+ * Updates an existing user account.
+ * Deactivating a user or changing their password ends their open sessions.
+ *
+ * @function userUpdate
+ * @module services/user
+ *
+ * @param {unknown} params - Raw request params containing the ID
+ * @param {unknown} body - Raw request body with update data
+ * @returns {Promise<UserEntity>} The updated user
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or body fails validation
+ * @throws {ServiceError} NOT_FOUND (404) - When user does not exist
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When email is taken or last admin is demoted
+ *
+ * @example
+ * const user = await userUpdate({ id: '2' }, { name: 'Maria', email: '...', role: 'viewer', active: true });
+ */
+export async function userUpdate(params: unknown, body: unknown): Promise<UserEntity> {
+  const paramsValidation = userParamsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
+  }
+
+  const bodyValidation = updateSchema.safeParse(body);
+
+  if (!bodyValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Validation failed',
+      400,
+      bodyValidation.error.errors
+    );
+  }
+
+  const { id } = paramsValidation.data;
+  const existing = userStore.getById(id);
+
+  if (!existing) {
+    throw new ServiceError('NOT_FOUND', 'User not found', 404);
+  }
+
+  const updateData = bodyValidation.data;
+  const emailOwner = userStore.getByEmail(updateData.email);
+
+  if (emailOwner && emailOwner.id !== id) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'Email already in use', 400);
+  }
+
+  if (isLastActiveAdmin(existing) && (updateData.role !== USER_ROLES.ADMIN || !updateData.active)) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'At least one active admin is required', 400);
+  }
+
+  const updated = userStore.update(id, {
+    name: updateData.name,
+    email: updateData.email,
+    role: updateData.role,
+    active: updateData.active,
+    ...(updateData.password && {
+      passwordHash: await bcrypt.hash(updateData.password, config.security.bcryptRounds),
+    }),
+    dateModified: new Date().toISOString(),
+  });
+
+  if (!updateData.active || updateData.password) {
+    revokeSessions(id);
+  }
+
+  return toUserEntity(updated as UserRecord);
+}
+
+/**
+ * @summary
+ * Deletes a user account and its sessions.
+ *
+ * @function userDelete
+ * @module services/user
+ *
+ * @param {unknown} params - Raw request params containing the ID
+ * @returns {Promise<{ message: string }>} Success confirmation message
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When user does not exist
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When deleting the last active admin
+ *
+ * @example
+ * const result = await userDelete({ id: '2' });
+ * // Returns: { message: 'User deleted successfully' }
+ */
+export async function userDelete(params: unknown): Promise<{ message: string }> {
+  const validation = userParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const { id } = validation.data;
+  const existing = userStore.getById(id);
+
+  if (!existing) {
+    throw new ServiceError('NOT_FOUND', 'User not found', 404);
+  }
+
+  if (isLastActiveAdmin(existing)) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'At least one active admin is required', 400);
+  }
+
+  revokeSessions(id);
+  userStore.delete(id);
+  return { message: 'User deleted successfully' };
+}
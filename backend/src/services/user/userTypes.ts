@@ -0,0 +1,46 @@
+/**
+ * @summary
+ * Type definitions for User entity.
+ *
+ * @module services/user/userTypes
+ */
+
+import type { UserRole } from '@/constants';
+
+/**
+ * @interface UserEntity
+ * @description Represents a user account without credentials
+ */
+export interface UserEntity {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  active: boolean;
+  lastLoginAt: string | null;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * @interface UserCreateRequest
+ * @description Request payload for creating a user
+ */
+export interface UserCreateRequest {
+  name: string;
+  email: string;
+  password: string;
+  role?: UserRole;
+}
+
+/**
+ * @interface UserUpdateRequest
+ * @description Request payload for updating a user
+ */
+export interface UserUpdateRequest {
+  name: string;
+  email: string;
+  role: UserRole;
+  active: boolean;
+  password?: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * @summary
+ * Validation schemas for User entity.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/user/userValidation
+ */
+
+import { z } from 'zod';
+import { USER_DEFAULTS, USER_LIMITS, USER_ROLES } from '@/constants';
+
+/**
+ * Schema for role validation
+ */
+export const roleSchema = z.enum([
+  USER_ROLES.ADMIN,
+  USER_ROLES.EDITOR,
+  USER_ROLES.VIEWER,
+  USER_ROLES.CUSTOMER,
+]);
+
+/**
+ * Schema for password validation
+ */
+const passwordSchema = z
+  .string()
+  .min(USER_LIMITS.PASSWORD_MIN_LENGTH)
+  .max(USER_LIMITS.PASSWORD_MAX_LENGTH);
+
+/**
+ * Schema for create request validation
+ */
+export const createSchema = z.object({
+  name: z.string().min(USER_LIMITS.NAME_MIN_LENGTH).max(USER_LIMITS.NAME_MAX_LENGTH),
+  email: z.string().trim().toLowerCase().email().max(USER_LIMITS.EMAIL_MAX_LENGTH),
+  password: passwordSchema,
+  role: roleSchema.default(USER_DEFAULTS.ROLE),
+});
+
+/**
+ * Schema for update request validation
+ */
+export const updateSchema = z.object({
+  name: z.string().min(USER_LIMITS.NAME_MIN_LENGTH).max(USER_LIMITS.NAME_MAX_LENGTH),
+  email: z.string().trim().toLowerCase().email().max(USER_LIMITS.EMAIL_MAX_LENGTH),
+  role: roleSchema,
+  active: z.boolean(),
+  password: passwordSchema.optional(),
+});
+
+/**
+ * Schema for ID parameter validation
+ */
+export const userParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type CreateInput = z.infer<typeof createSchema>;
+export type UpdateInput = z.infer<typeof updateSchema>;
+export type UserParamsInput = z.infer<typeof userParamsSchema>;
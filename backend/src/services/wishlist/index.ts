@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for Wishlist service.
+ *
+ * @module services/wishlist
+ */
+
+export * from './wishlistTypes';
+export * from './wishlistService';
+export * from './wishlistValidation';
@@ -0,0 +1,488 @@
+/**
+ * @summary
+ * Business logic for Wishlist entity.
+ * Keeps the named favorites lists of signed-in users. Lists store only product IDs;
+ * products are resolved at their current price on every read. A list can be shared
+ * through a read-only public link identified by a random token.
+ *
+ * @module services/wishlist/wishlistService
+ */
+
+import crypto from 'crypto';
+import { WISHLIST_DEFAULTS, WISHLIST_LIMITS } from '@/constants';
+import { wishlistStore, WishlistItemRecord, WishlistRecord } from '@/instances';
+import { productGetManyPublic, type ProductPublicListItem } from '@/services/product';
+import { ServiceError } from '@/utils';
+import { WishlistItem, WishlistResponse, WishlistSharedResponse } from './wishlistTypes';
+import {
+  addItemSchema,
+  createSchema,
+  shareTokenParamsSchema,
+  syncSchema,
+  updateSchema,
+  wishlistItemParamsSchema,
+  wishlistParamsSchema,
+} from './wishlistValidation';
+
+/**
+ * @summary
+ * Ensures the request is authenticated.
+ *
+ * @function requireUser
+ * @param {number | undefined} userId - Authenticated user
+ * @returns {number} The user ID
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ */
+function requireUser(userId: number | undefined): number {
+  if (userId === undefined) {
+    throw new ServiceError('UNAUTHORIZED', 'Authentication required', 401);
+  }
+  return userId;
+}
+
+/**
+ * @summary
+ * Finds a list of a user by the ID in the request params.
+ *
+ * @function findUserList
+ * @param {number} userId - Owner of the list
+ * @param {unknown} params - Raw request params containing the list ID
+ * @returns {WishlistRecord} The list
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the ID is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When the user has no list with the ID
+ */
+function findUserList(userId: number, params: unknown): WishlistRecord {
+  const validation = wishlistParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const list = wishlistStore.getById(validation.data.id);
+
+  if (!list || list.userId !== userId) {
+    throw new ServiceError('NOT_FOUND', 'Wishlist not found', 404);
+  }
+
+  return list;
+}
+
+/**
+ * @summary
+ * Creates a list for a user, with a new share token. Lists start private.
+ *
+ * @function createList
+ * @param {number} userId - Owner of the list
+ * @param {string} name - List name
+ * @returns {WishlistRecord} The new list
+ *
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the user already has the maximum number
+ *   of lists or a list with the name
+ */
+function createList(userId: number, name: string): WishlistRecord {
+  const lists = wishlistStore.getByUserId(userId);
+
+  if (lists.length >= WISHLIST_LIMITS.LISTS_MAX) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `At most ${WISHLIST_LIMITS.LISTS_MAX} lists are allowed per customer`,
+      400
+    );
+  }
+
+  if (lists.some((list) => list.name.toLowerCase() === name.toLowerCase())) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'A list with this name already exists', 400);
+  }
+
+  const now = new Date().toISOString();
+  return wishlistStore.add({
+    id: wishlistStore.getNextId(),
+    userId,
+    name,
+    shareToken: crypto.randomBytes(WISHLIST_DEFAULTS.SHARE_TOKEN_BYTES).toString('base64url'),
+    shared: false,
+    items: [],
+    dateCreated: now,
+    dateModified: now,
+  });
+}
+
+/**
+ * @summary
+ * Replaces the products of a list.
+ *
+ * @function saveItems
+ * @param {WishlistRecord} list - List to update
+ * @param {WishlistItemRecord[]} items - New products
+ * @returns {WishlistRecord} Updated list
+ */
+function saveItems(list: WishlistRecord, items: WishlistItemRecord[]): WishlistRecord {
+  return wishlistStore.update(list.id, { items, dateModified: new Date().toISOString() }) ?? list;
+}
+
+/**
+ * @summary
+ * Resolves the products of several lists at once. Products that no longer exist or
+ * are hidden are left out of the response but kept in the list, as hidden products
+ * may be shown again.
+ *
+ * @function toWishlistResponses
+ * @param {WishlistRecord[]} lists - Lists to resolve
+ * @returns {Promise<WishlistResponse[]>} Lists with their products, in the given order
+ */
+async function toWishlistResponses(lists: WishlistRecord[]): Promise<WishlistResponse[]> {
+  const productIds = [...new Set(lists.flatMap((list) => list.items.map((i) => i.productId)))];
+  const products = new Map<number, ProductPublicListItem>(
+    (await productGetManyPublic(productIds)).map((product) => [product.id, product])
+  );
+
+  return lists.map((list) => {
+    const items = list.items.flatMap<WishlistItem>((item) => {
+      const product = products.get(item.productId);
+      return product ? [{ product, dateAdded: item.dateAdded }] : [];
+    });
+
+    return {
+      id: list.id,
+      name: list.name,
+      shared: list.shared,
+      shareToken: list.shareToken,
+      items,
+      itemCount: items.length,
+      dateCreated: list.dateCreated,
+      dateModified: list.dateModified,
+    };
+  });
+}
+
+/**
+ * @summary
+ * Resolves the products of one list.
+ *
+ * @function toWishlistResponse
+ * @param {WishlistRecord} list - List to resolve
+ * @returns {Promise<WishlistResponse>} The list with its products
+ */
+async function toWishlistResponse(list: WishlistRecord): Promise<WishlistResponse> {
+  const [response] = await toWishlistResponses([list]);
+  return response;
+}
+
+/**
+ * @summary
+ * Lists the favorites lists of the signed-in user, oldest first. The first list is the
+ * one favorites are saved to when no list is chosen.
+ *
+ * @function wishlistList
+ * @module services/wishlist
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @returns {Promise<WishlistResponse[]>} The lists with their products
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ *
+ * @example
+ * const lists = await wishlistList(2);
+ * // Returns: [{ id: 1, name: 'Favoritos', shared: false, items: [...], ... }]
+ */
+export async function wishlistList(userId: number | undefined): Promise<WishlistResponse[]> {
+  return toWishlistResponses(wishlistStore.getByUserId(requireUser(userId)));
+}
+
+/**
+ * @summary
+ * Creates an empty list for the signed-in user.
+ *
+ * @function wishlistCreate
+ * @module services/wishlist
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} body - Raw request body with the list name
+ * @returns {Promise<WishlistResponse>} The new list
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the body is invalid
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the user already has the maximum number
+ *   of lists or a list with the name
+ *
+ * @example
+ * const list = await wishlistCreate(2, { name: 'Sala de estar' });
+ */
+export async function wishlistCreate(
+  userId: number | undefined,
+  body: unknown
+): Promise<WishlistResponse> {
+  const owner = requireUser(userId);
+  const validation = createSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  return toWishlistResponse(createList(owner, validation.data.name));
+}
+
+/**
+ * @summary
+ * Renames a list of the signed-in user or turns its public link on or off.
+ *
+ * @function wishlistUpdate
+ * @module services/wishlist
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} params - Raw request params containing the list ID
+ * @param {unknown} body - Raw request body with the name and/or shared flag
+ * @returns {Promise<WishlistResponse>} The updated list
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the ID or body is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When the user has no list with the ID
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When another list of the user has the name
+ *
+ * @example
+ * const list = await wishlistUpdate(2, { id: '1' }, { shared: true });
+ */
+export async function wishlistUpdate(
+  userId: number | undefined,
+  params: unknown,
+  body: unknown
+): Promise<WishlistResponse> {
+  const owner = requireUser(userId);
+  const list = findUserList(owner, params);
+  const validation = updateSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const { name, shared } = validation.data;
+
+  if (
+    name !== undefined &&
+    wishlistStore
+      .getByUserId(owner)
+      .some((other) => other.id !== list.id && other.name.toLowerCase() === name.toLowerCase())
+  ) {
+    throw new ServiceError('BUSINESS_RULE_ERROR', 'A list with this name already exists', 400);
+  }
+
+  const updated = wishlistStore.update(list.id, {
+    ...(name !== undefined && { name }),
+    ...(shared !== undefined && { shared }),
+    dateModified: new Date().toISOString(),
+  });
+
+  return toWishlistResponse(updated ?? list);
+}
+
+/**
+ * @summary
+ * Deletes a list of the signed-in user. Its public link stops working.
+ *
+ * @function wishlistDelete
+ * @module services/wishlist
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} params - Raw request params containing the list ID
+ * @returns {Promise<{ message: string }>} Confirmation message
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the ID is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When the user has no list with the ID
+ *
+ * @example
+ * const result = await wishlistDelete(2, { id: '3' });
+ * // Returns: { message: 'Wishlist deleted successfully' }
+ */
+export async function wishlistDelete(
+  userId: number | undefined,
+  params: unknown
+): Promise<{ message: string }> {
+  const list = findUserList(requireUser(userId), params);
+  wishlistStore.delete(list.id);
+  return { message: 'Wishlist deleted successfully' };
+}
+
+/**
+ * @summary
+ * Saves a product to a list of the signed-in user. Saving a product already in the
+ * list leaves it unchanged.
+ *
+ * @function wishlistAddItem
+ * @module services/wishlist
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} params - Raw request params containing the list ID
+ * @param {unknown} body - Raw request body with the product ID
+ * @returns {Promise<WishlistResponse>} The updated list
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the ID or body is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When the user has no list with the ID, or the product
+ *   does not exist or is hidden
+ * @throws {ServiceError} BUSINESS_RULE_ERROR (400) - When the list is full
+ *
+ * @example
+ * const list = await wishlistAddItem(2, { id: '1' }, { productId: 4 });
+ */
+export async function wishlistAddItem(
+  userId: number | undefined,
+  params: unknown,
+  body: unknown
+): Promise<WishlistResponse> {
+  const list = findUserList(requireUser(userId), params);
+  const validation = addItemSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const { productId } = validation.data;
+  const [product] = await productGetManyPublic([productId]);
+
+  if (!product) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  if (list.items.some((item) => item.productId === productId)) {
+    return toWishlistResponse(list);
+  }
+
+  if (list.items.length >= WISHLIST_LIMITS.ITEMS_MAX) {
+    throw new ServiceError(
+      'BUSINESS_RULE_ERROR',
+      `At most ${WISHLIST_LIMITS.ITEMS_MAX} products are allowed per list`,
+      400
+    );
+  }
+
+  return toWishlistResponse(
+    saveItems(list, [...list.items, { productId, dateAdded: new Date().toISOString() }])
+  );
+}
+
+/**
+ * @summary
+ * Removes a product from a list of the signed-in user.
+ *
+ * @function wishlistRemoveItem
+ * @module services/wishlist
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} params - Raw request params containing the list and product IDs
+ * @returns {Promise<WishlistResponse>} The updated list
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the params are invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When the user has no list with the ID or the product
+ *   is not in it
+ *
+ * @example
+ * const list = await wishlistRemoveItem(2, { id: '1', productId: '4' });
+ */
+export async function wishlistRemoveItem(
+  userId: number | undefined,
+  params: unknown
+): Promise<WishlistResponse> {
+  const owner = requireUser(userId);
+  const validation = wishlistItemParamsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const list = findUserList(owner, validation.data);
+  const { productId } = validation.data;
+
+  if (!list.items.some((item) => item.productId === productId)) {
+    throw new ServiceError('NOT_FOUND', 'Product is not in the list', 404);
+  }
+
+  return toWishlistResponse(
+    saveItems(
+      list,
+      list.items.filter((item) => item.productId !== productId)
+    )
+  );
+}
+
+/**
+ * @summary
+ * Saves favorites kept on the device before signing in to the first list of the
+ * signed-in user, creating it when the user has none. Products already in the list,
+ * hidden products and products beyond the list limit are skipped.
+ *
+ * @function wishlistSync
+ * @module services/wishlist
+ *
+ * @param {number | undefined} userId - Authenticated user
+ * @param {unknown} body - Raw request body with the product IDs
+ * @returns {Promise<WishlistResponse[]>} All lists of the user
+ *
+ * @throws {ServiceError} UNAUTHORIZED (401) - When no user is authenticated
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the body is invalid
+ *
+ * @example
+ * const lists = await wishlistSync(2, { productIds: [1, 4] });
+ */
+export async function wishlistSync(
+  userId: number | undefined,
+  body: unknown
+): Promise<WishlistResponse[]> {
+  const owner = requireUser(userId);
+  const validation = syncSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const products = await productGetManyPublic(validation.data.productIds);
+  const [first] = wishlistStore.getByUserId(owner);
+
+  if (products.length > 0) {
+    const list = first ?? createList(owner, WISHLIST_DEFAULTS.DEFAULT_NAME);
+    const now = new Date().toISOString();
+    const added = products
+      .filter((product) => !list.items.some((item) => item.productId === product.id))
+      .slice(0, Math.max(WISHLIST_LIMITS.ITEMS_MAX - list.items.length, 0))
+      .map((product) => ({ productId: product.id, dateAdded: now }));
+
+    if (added.length > 0) {
+      saveItems(list, [...list.items, ...added]);
+    }
+  }
+
+  return toWishlistResponses(wishlistStore.getByUserId(owner));
+}
+
+/**
+ * @summary
+ * Gets a shared list by the token of its public link. Lists whose owner stopped
+ * sharing them are not found.
+ *
+ * @function wishlistGetShared
+ * @module services/wishlist
+ *
+ * @param {unknown} params - Raw request params containing the share token
+ * @returns {Promise<WishlistSharedResponse>} Name and products of the list
+ *
+ * @throws {ServiceError} NOT_FOUND (404) - When the token is malformed or no shared list has it
+ *
+ * @example
+ * const list = await wishlistGetShared({ token: 'Vq0...' });
+ */
+export async function wishlistGetShared(params: unknown): Promise<WishlistSharedResponse> {
+  const validation = shareTokenParamsSchema.safeParse(params);
+  const list = validation.success
+    ? wishlistStore.getByShareToken(validation.data.token)
+    : undefined;
+
+  if (!list || !list.shared) {
+    throw new ServiceError('NOT_FOUND', 'Wishlist not found', 404);
+  }
+
+  const { name, items, itemCount, dateModified } = await toWishlistResponse(list);
+  return { name, items, itemCount, dateModified };
+}
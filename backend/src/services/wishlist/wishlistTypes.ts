@@ -0,0 +1,87 @@
+/**
+ * @summary
+ * Type definitions for Wishlist entity.
+ *
+ * @module services/wishlist/wishlistTypes
+ */
+
+import type { ProductPublicListItem } from '@/services/product';
+
+/**
+ * @interface WishlistItem
+ * @description Product saved to a list, at its current price
+ *
+ * @property {ProductPublicListItem} product - Product as listed on the storefront
+ * @property {string} dateAdded - When the product was saved (ISO 8601)
+ */
+export interface WishlistItem {
+  product: ProductPublicListItem;
+  dateAdded: string;
+}
+
+/**
+ * @interface WishlistResponse
+ * @description List of the signed-in user
+ *
+ * @property {number} id - List ID
+ * @property {string} name - List name
+ * @property {boolean} shared - Whether the public link works
+ * @property {string} shareToken - Token of the public link
+ * @property {WishlistItem[]} items - Products in the order they were saved; products no longer
+ *   available are left out
+ * @property {number} itemCount - Products listed
+ * @property {string} dateCreated - ISO 8601 timestamp
+ * @property {string} dateModified - ISO 8601 timestamp
+ */
+export interface WishlistResponse {
+  id: number;
+  name: string;
+  shared: boolean;
+  shareToken: string;
+  items: WishlistItem[];
+  itemCount: number;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * @interface WishlistSharedResponse
+ * @description Read-only view of a shared list, without its owner
+ */
+export type WishlistSharedResponse = Pick<
+  WishlistResponse,
+  'name' | 'items' | 'itemCount' | 'dateModified'
+>;
+
+/**
+ * @interface WishlistCreateRequest
+ * @description Request payload for creating a list
+ */
+export interface WishlistCreateRequest {
+  name: string;
+}
+
+/**
+ * @interface WishlistUpdateRequest
+ * @description Request payload for renaming a list or turning its public link on or off
+ */
+export interface WishlistUpdateRequest {
+  name?: string;
+  shared?: boolean;
+}
+
+/**
+ * @interface WishlistAddItemRequest
+ * @description Request payload for saving a product to a list
+ */
+export interface WishlistAddItemRequest {
+  productId: number;
+}
+
+/**
+ * @interface WishlistSyncRequest
+ * @description Request payload for saving favorites kept on the device before signing in
+ */
+export interface WishlistSyncRequest {
+  productIds: number[];
+}
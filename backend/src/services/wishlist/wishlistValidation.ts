@@ -0,0 +1,83 @@
+/**
+ * @summary
+ * Validation schemas for Wishlist entity.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/wishlist/wishlistValidation
+ */
+
+import { z } from 'zod';
+import { WISHLIST_LIMITS } from '@/constants';
+
+const nameSchema = z.string().trim().min(1).max(WISHLIST_LIMITS.NAME_MAX_LENGTH);
+
+/**
+ * Schema for create request validation
+ */
+export const createSchema = z.object({
+  name: nameSchema,
+});
+
+/**
+ * Schema for update request validation
+ */
+export const updateSchema = z
+  .object({
+    name: nameSchema.optional(),
+    shared: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * Schema for add item request validation
+ */
+export const addItemSchema = z.object({
+  productId: z.number().int().positive(),
+});
+
+/**
+ * Schema for sync request validation; repeated products are saved once
+ */
+export const syncSchema = z.object({
+  productIds: z
+    .array(z.number().int().positive())
+    .max(WISHLIST_LIMITS.ITEMS_MAX)
+    .transform((ids) => [...new Set(ids)]),
+});
+
+/**
+ * Schema for ID parameter validation
+ */
+export const wishlistParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+/**
+ * Schema for list item parameter validation
+ */
+export const wishlistItemParamsSchema = wishlistParamsSchema.extend({
+  productId: z.coerce.number().int().positive(),
+});
+
+/**
+ * Schema for share token parameter validation
+ */
+export const shareTokenParamsSchema = z.object({
+  token: z
+    .string()
+    .length(WISHLIST_LIMITS.SHARE_TOKEN_LENGTH)
+    .regex(/^[A-Za-z0-9_-]+$/),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type CreateInput = z.infer<typeof createSchema>;
+export type UpdateInput = z.infer<typeof updateSchema>;
+export type AddItemInput = z.infer<typeof addItemSchema>;
+export type SyncInput = z.infer<typeof syncSchema>;
+export type WishlistParamsInput = z.infer<typeof wishlistParamsSchema>;
+export type WishlistItemParamsInput = z.infer<typeof wishlistItemParamsSchema>;
+export type ShareTokenParamsInput = z.infer<typeof shareTokenParamsSchema>;
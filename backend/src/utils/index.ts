@@ -10,3 +10,5 @@ export * from './response';
 export * from './validation';
 export * from './serviceResult';
 export * from './serviceError';
+export * from './text';
+export * from './pagination';
@@ -0,0 +1,131 @@
+/**
+ * @summary
+ * Pagination helpers shared by list endpoints.
+ * Builds the pagination metadata returned in the response metadata block and
+ * exposes it through the X-Total-Count, X-Page-Count and Link (RFC 8288) headers.
+ *
+ * @module utils/pagination
+ */
+
+import { Request, Response } from 'express';
+
+/**
+ * @interface PaginationMetadata
+ * @description Position of a page within a list
+ *
+ * @property {number} total - Number of items across all pages
+ * @property {number} page - Current page (1-based)
+ * @property {number} pageSize - Items per page
+ * @property {number} totalPages - Number of pages
+ * @property {boolean} hasNext - Whether a next page exists
+ * @property {boolean} hasPrevious - Whether a previous page exists
+ * @property {string|null} [nextCursor] - Cursor of the next page on cursor-paginated lists
+ */
+export interface PaginationMetadata {
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  nextCursor?: string | null;
+}
+
+/**
+ * @summary
+ * Creates pagination metadata for the page starting at the given offset.
+ *
+ * @function createPagination
+ * @module utils/pagination
+ *
+ * @param {number} total - Number of items across all pages
+ * @param {number} offset - Index of the first item of the page
+ * @param {number} pageSize - Items per page
+ *
+ * @returns {PaginationMetadata} Pagination metadata
+ */
+export function createPagination(
+  total: number,
+  offset: number,
+  pageSize: number
+): PaginationMetadata {
+  return {
+    total,
+    page: Math.floor(offset / pageSize) + 1,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+    hasNext: offset + pageSize < total,
+    hasPrevious: offset > 0,
+  };
+}
+
+/**
+ * @summary
+ * Builds the URL of another page of the current request, keeping its other query parameters.
+ * The URL is relative to the host: responses are cached regardless of the Host header the
+ * client sent, so it must not end up in the links.
+ *
+ * @function pageUrl
+ * @param {Request} req - Express request object
+ * @param {object} params - Query parameters to set; null removes a parameter
+ * @returns {string} Page URL, resolved by clients against the request URL
+ */
+function pageUrl(req: Request, params: Record<string, string | null>): string {
+  // Only the path and query are kept; the base is a placeholder
+  const url = new URL(req.originalUrl, 'http://localhost');
+  Object.entries(params).forEach(([name, value]) => {
+    if (value === null) {
+      url.searchParams.delete(name);
+    } else {
+      url.searchParams.set(name, value);
+    }
+  });
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * @summary
+ * Sets the X-Total-Count, X-Page-Count and Link headers of a paginated response.
+ * Page-numbered requests link to the first, previous, next and last pages;
+ * cursor requests link to the first page and to the next cursor.
+ *
+ * @function setPaginationHeaders
+ * @module utils/pagination
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {PaginationMetadata} pagination - Pagination metadata of the response
+ *
+ * @returns {void}
+ */
+export function setPaginationHeaders(
+  req: Request,
+  res: Response,
+  pagination: PaginationMetadata
+): void {
+  res.set('X-Total-Count', String(pagination.total));
+  res.set('X-Page-Count', String(pagination.totalPages));
+
+  const links: [string, Record<string, string | null>][] = [];
+  if (typeof req.query.cursor === 'string') {
+    links.push(['first', { cursor: null, page: null }]);
+    if (pagination.nextCursor) {
+      links.push(['next', { cursor: pagination.nextCursor, page: null }]);
+    }
+  } else {
+    const lastPage = Math.max(pagination.totalPages, 1);
+    links.push(['first', { page: '1' }]);
+    if (pagination.hasPrevious) {
+      links.push(['prev', { page: String(Math.min(pagination.page - 1, lastPage)) }]);
+    }
+    if (pagination.hasNext) {
+      links.push(['next', { page: String(pagination.page + 1) }]);
+    }
+    links.push(['last', { page: String(lastPage) }]);
+  }
+
+  res.set(
+    'Link',
+    links.map(([rel, params]) => `<${pageUrl(req, params)}>; rel="${rel}"`).join(', ')
+  );
+}
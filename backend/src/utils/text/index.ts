@@ -0,0 +1,156 @@
+/**
+ * @summary
+ * Text analysis utilities for search.
+ * Folds accents, splits text into terms and reduces Portuguese words to their stems.
+ *
+ * @module utils/text
+ */
+
+/**
+ * Words too common in product text to carry meaning in a search
+ */
+const PORTUGUESE_STOPWORDS = new Set([
+  'a',
+  'ao',
+  'aos',
+  'as',
+  'com',
+  'da',
+  'das',
+  'de',
+  'do',
+  'dos',
+  'e',
+  'em',
+  'na',
+  'nas',
+  'no',
+  'nos',
+  'o',
+  'os',
+  'ou',
+  'para',
+  'por',
+  'sem',
+  'um',
+  'uma',
+]);
+
+/**
+ * Plural endings and their singular replacements, checked in order
+ */
+const PLURAL_RULES: [string, string][] = [
+  ['oes', 'ao'],
+  ['aes', 'ao'],
+  ['ais', 'al'],
+  ['eis', 'el'],
+  ['ois', 'ol'],
+  ['res', 'r'],
+  ['zes', 'z'],
+  ['les', 'l'],
+  ['ns', 'm'],
+  ['is', 'il'],
+];
+
+/**
+ * Diminutive and adverb endings removed before the final vowel
+ */
+const DERIVATION_SUFFIXES = ['zinho', 'zinha', 'inho', 'inha', 'mente'];
+
+/**
+ * @summary
+ * Lowercases text and strips diacritics through NFD decomposition, e.g. "Sofá" → "sofa".
+ *
+ * @function foldAccents
+ * @param {string} text - Text to fold
+ * @returns {string} Lowercase text without accents
+ */
+export function foldAccents(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * @summary
+ * Reduces a folded Portuguese word to its stem with a light suffix stemmer: plurals,
+ * diminutives, adverbs and the final gender vowel are removed, so "cadeiras",
+ * "cadeirinha" and "cadeira" all become "cadeir". Short words are kept as they are.
+ *
+ * @function stemPortuguese
+ * @param {string} word - Lowercase word without accents
+ * @returns {string} Word stem
+ */
+export function stemPortuguese(word: string): string {
+  if (word.length < 4 || /\d/.test(word)) {
+    return word;
+  }
+
+  let stem = word;
+
+  if (stem.endsWith('s') && !stem.endsWith('ss')) {
+    const rule = PLURAL_RULES.find(([suffix]) => stem.endsWith(suffix));
+    stem = rule ? stem.slice(0, -rule[0].length) + rule[1] : stem.slice(0, -1);
+  }
+
+  const suffix = DERIVATION_SUFFIXES.find((s) => stem.endsWith(s) && stem.length - s.length >= 3);
+  if (suffix) {
+    stem = stem.slice(0, -suffix.length);
+  }
+
+  if (stem.length > 3 && /[aeo]$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+/**
+ * @summary
+ * Splits text into search terms: accents are folded, stopwords dropped and every
+ * remaining word stemmed.
+ *
+ * @function analyzeText
+ * @param {string} text - Text to analyze
+ * @returns {string[]} Terms in text order, repeated terms included
+ */
+export function analyzeText(text: string): string[] {
+  return (foldAccents(text).match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => !PORTUGUESE_STOPWORDS.has(word))
+    .map(stemPortuguese);
+}
+
+/**
+ * @summary
+ * Computes the Levenshtein distance between two strings, giving up once it exceeds a limit.
+ *
+ * @function editDistance
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @param {number} maxDistance - Largest distance of interest
+ * @returns {number} Edit distance, or maxDistance + 1 when it is larger than maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1);
+}
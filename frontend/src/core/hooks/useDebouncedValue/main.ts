@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Returns `value` once it has stopped changing for `delay` milliseconds
+ */
+export const useDebouncedValue = <T>(value: T, delay: number) => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebouncedValue(value), delay);
+    return () => window.clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls `onIntersect` whenever the referenced element scrolls into view.
+ * `rootMargin` starts loading before the element is actually visible.
+ */
+export const useIntersectionObserver = <T extends Element>(
+  onIntersect: () => void,
+  options: { enabled?: boolean; rootMargin?: string } = {}
+) => {
+  const ref = useRef<T>(null);
+  const callbackRef = useRef(onIntersect);
+  const { enabled = true, rootMargin = '400px' } = options;
+
+  useEffect(() => {
+    callbackRef.current = onIntersect;
+  }, [onIntersect]);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!enabled || !element) {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          callbackRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [enabled, rootMargin]);
+
+  return ref;
+};
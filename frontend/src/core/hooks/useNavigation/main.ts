@@ -1,18 +1,44 @@
+import { useMemo } from 'react';
 import { useNavigate, useLocation, useParams } from 'react-router-dom';
 
+export type SearchParamUpdates = Record<string, string | number | null | undefined>;
+
 export const useNavigation = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const params = useParams();
+  const searchParams = useMemo(() => new URLSearchParams(location.search), [location.search]);
 
   const goBack = () => navigate(-1);
   const goHome = () => navigate('/');
   const isCurrentPath = (path: string) => location.pathname === path;
 
+  /**
+   * Merges updates into the query string; null, undefined or empty values remove a param.
+   * `replace` rewrites the current history entry instead of adding one. The scroll
+   * position is kept, as the page itself stays the same.
+   */
+  const setSearchParams = (updates: SearchParamUpdates, options?: { replace?: boolean }) => {
+    const nextParams = new URLSearchParams(location.search);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === null || value === undefined || value === '') {
+        nextParams.delete(key);
+      } else {
+        nextParams.set(key, String(value));
+      }
+    });
+    navigate(
+      { search: nextParams.toString() },
+      { replace: options?.replace, preventScrollReset: true }
+    );
+  };
+
   return {
     navigate,
     location,
     params,
+    searchParams,
+    setSearchParams,
     goBack,
     goHome,
     isCurrentPath,
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { useAuthStore } from '@/core/stores/auth';
 
 export const apiConfig = {
   baseUrl: import.meta.env.VITE_API_URL,
@@ -22,7 +23,20 @@ authenticatedClient.interceptors.request.use((config) => {
 authenticatedClient.interceptors.response.use(
   (res) => res,
   (error) => {
-    if (error.response?.status === 401) window.location.href = '/login';
+    if (error.response?.status === 401) {
+      useAuthStore.getState().clearSession();
+      const { pathname, search } = window.location;
+      if (pathname !== '/login') {
+        window.location.href = `/login?redirect=${encodeURIComponent(pathname + search)}`;
+      }
+    }
     return Promise.reject(error);
   },
 );
+
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error?.message ?? fallback;
+  }
+  return fallback;
+};
@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AuthUser } from '@/domain/auth/types';
+
+const TOKEN_STORAGE_KEY = 'auth_token';
+
+interface AuthStore {
+  user: AuthUser | null;
+  expiresAt: string | null;
+  setSession: (token: string, user: AuthUser, expiresAt: string) => void;
+  clearSession: () => void;
+}
+
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set) => ({
+      user: null,
+      expiresAt: null,
+      setSession: (token, user, expiresAt) => {
+        localStorage.setItem(TOKEN_STORAGE_KEY, token);
+        set({ user, expiresAt });
+      },
+      clearSession: () => {
+        localStorage.removeItem(TOKEN_STORAGE_KEY);
+        set({ user: null, expiresAt: null });
+      },
+    }),
+    { name: 'auth-store' },
+  ),
+);
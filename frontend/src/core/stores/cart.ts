@@ -0,0 +1,22 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface CartStore {
+  /** Anonymous cart token issued by the server; null for user carts */
+  token: string | null;
+  isOpen: boolean;
+  setToken: (token: string | null) => void;
+  setOpen: (isOpen: boolean) => void;
+}
+
+export const useCartStore = create<CartStore>()(
+  persist(
+    (set) => ({
+      token: null,
+      isOpen: false,
+      setToken: (token) => set({ token }),
+      setOpen: (isOpen) => set({ isOpen }),
+    }),
+    { name: 'cart-store', partialize: (state) => ({ token: state.token }) },
+  ),
+);
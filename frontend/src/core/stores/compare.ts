@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { COMPARE_MAX } from '@/domain/compare/constants';
+
+/** What the tray shows before the full products are loaded */
+export interface CompareItem {
+  id: number;
+  name: string;
+  imageUrl: string;
+}
+
+interface CompareStore {
+  items: CompareItem[];
+  /** Ignored once the tray is full */
+  add: (item: CompareItem) => void;
+  remove: (productId: number) => void;
+  clear: () => void;
+}
+
+export const useCompareStore = create<CompareStore>()(
+  persist(
+    (set) => ({
+      items: [],
+      add: (item) =>
+        set(({ items }) => ({
+          items:
+            items.length >= COMPARE_MAX || items.some(({ id }) => id === item.id)
+              ? items
+              : [...items, item],
+        })),
+      remove: (productId) =>
+        set(({ items }) => ({ items: items.filter(({ id }) => id !== productId) })),
+      clear: () => set({ items: [] }),
+    }),
+    { name: 'compare-store' },
+  ),
+);
@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/** Favorites kept on the device, like the lists of signed-in users */
+const FAVORITES_MAX = 100;
+
+interface WishlistStore {
+  /** Favorites of anonymous shoppers; moved to the account on sign in */
+  productIds: number[];
+  toggle: (productId: number) => void;
+  clear: () => void;
+}
+
+export const useWishlistStore = create<WishlistStore>()(
+  persist(
+    (set) => ({
+      productIds: [],
+      toggle: (productId) =>
+        set(({ productIds }) => ({
+          productIds: productIds.includes(productId)
+            ? productIds.filter((id) => id !== productId)
+            : [...productIds, productId].slice(-FAVORITES_MAX),
+        })),
+      clear: () => set({ productIds: [] }),
+    }),
+    { name: 'wishlist-store' },
+  ),
+);
@@ -0,0 +1,5 @@
+// Auth domain module exports
+export * from './components';
+export * from './services';
+export * from './hooks';
+export * from './types';
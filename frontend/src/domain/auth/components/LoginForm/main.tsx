@@ -0,0 +1,97 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { isAxiosError } from 'axios';
+import { AlertCircleIcon } from 'lucide-react';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Alert, AlertDescription } from '@/core/components/alert';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { cn } from '@/core/lib/utils';
+import { useLogin } from '../../hooks/useLogin';
+import type { LoginFormProps } from './types';
+
+const loginSchema = z.object({
+  email: z.string().trim().min(1, 'Informe seu e-mail').email('E-mail inválido'),
+  password: z.string().min(1, 'Informe sua senha'),
+});
+
+type LoginFormValues = z.infer<typeof loginSchema>;
+
+function LoginForm({ onSuccess, className }: LoginFormProps) {
+  const { login, isPending, error } = useLogin({ onSuccess });
+
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: '', password: '' },
+  });
+
+  const handleSubmit = async (values: LoginFormValues) => {
+    try {
+      await login(values);
+    } catch {
+      form.resetField('password');
+    }
+  };
+
+  const errorMessage =
+    error &&
+    (isAxiosError(error) && error.response?.status === 401
+      ? 'E-mail ou senha inválidos'
+      : 'Não foi possível entrar. Tente novamente.');
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(handleSubmit)}
+        className={cn('space-y-4', className)}
+        noValidate
+      >
+        {errorMessage && (
+          <Alert variant="destructive">
+            <AlertCircleIcon />
+            <AlertDescription>{errorMessage}</AlertDescription>
+          </Alert>
+        )}
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>E-mail</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Senha</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending ? 'Entrando...' : 'Entrar'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export { LoginForm };
@@ -0,0 +1,6 @@
+import type { LoginResponse } from '../../types/api';
+
+export interface LoginFormProps {
+  onSuccess?: (response: LoginResponse) => void;
+  className?: string;
+}
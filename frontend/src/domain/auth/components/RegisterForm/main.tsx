@@ -0,0 +1,118 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { isAxiosError } from 'axios';
+import { AlertCircleIcon } from 'lucide-react';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Alert, AlertDescription } from '@/core/components/alert';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { cn } from '@/core/lib/utils';
+import { useRegister } from '../../hooks/useRegister';
+import type { RegisterFormProps } from './types';
+
+const registerSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Informe seu nome')
+    .max(100, 'O nome deve ter no máximo 100 caracteres'),
+  email: z.string().trim().min(1, 'Informe seu e-mail').email('E-mail inválido'),
+  password: z
+    .string()
+    .min(8, 'A senha deve ter pelo menos 8 caracteres')
+    .max(72, 'A senha deve ter no máximo 72 caracteres'),
+});
+
+type RegisterFormValues = z.infer<typeof registerSchema>;
+
+function RegisterForm({ onSuccess, className }: RegisterFormProps) {
+  const { register, isPending, error } = useRegister({ onSuccess });
+
+  const form = useForm<RegisterFormValues>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: { name: '', email: '', password: '' },
+  });
+
+  const handleSubmit = async (values: RegisterFormValues) => {
+    try {
+      await register(values);
+    } catch {
+      form.resetField('password');
+    }
+  };
+
+  const errorMessage =
+    error &&
+    (isAxiosError(error) && error.response?.data?.error?.code === 'BUSINESS_RULE_ERROR'
+      ? 'Este e-mail já está cadastrado. Entre com sua senha.'
+      : 'Não foi possível criar sua conta. Tente novamente.');
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(handleSubmit)}
+        className={cn('space-y-4', className)}
+        noValidate
+      >
+        {errorMessage && (
+          <Alert variant="destructive">
+            <AlertCircleIcon />
+            <AlertDescription>{errorMessage}</AlertDescription>
+          </Alert>
+        )}
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>E-mail</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Senha</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending ? 'Criando conta...' : 'Criar conta'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export { RegisterForm };
@@ -0,0 +1,2 @@
+export * from './LoginForm';
+export * from './RegisterForm';
@@ -0,0 +1,3 @@
+export * from './useLogin';
+export * from './useRegister';
+export * from './useLogout';
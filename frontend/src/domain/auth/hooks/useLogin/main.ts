@@ -0,0 +1,23 @@
+import { useMutation } from '@tanstack/react-query';
+import { useAuthStore } from '@/core/stores/auth';
+import { authService } from '../../services/authService';
+import type { LoginParams } from '../../types/api';
+import type { UseLoginOptions } from './types';
+
+export const useLogin = (options?: UseLoginOptions) => {
+  const setSession = useAuthStore((state) => state.setSession);
+
+  const { mutateAsync, isPending, error } = useMutation({
+    mutationFn: (params: LoginParams) => authService.login(params),
+    onSuccess: (response) => {
+      setSession(response.token, response.user, response.expiresAt);
+      options?.onSuccess?.(response);
+    },
+  });
+
+  return {
+    login: mutateAsync,
+    isPending,
+    error,
+  };
+};
@@ -0,0 +1,21 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/core/stores/auth';
+import { authService } from '../../services/authService';
+
+export const useLogout = () => {
+  const queryClient = useQueryClient();
+  const clearSession = useAuthStore((state) => state.clearSession);
+
+  const { mutateAsync, isPending } = useMutation({
+    mutationFn: () => authService.logout(),
+    onSettled: () => {
+      clearSession();
+      queryClient.clear();
+    },
+  });
+
+  return {
+    logout: mutateAsync,
+    isPending,
+  };
+};
@@ -0,0 +1,23 @@
+import { useMutation } from '@tanstack/react-query';
+import { useAuthStore } from '@/core/stores/auth';
+import { authService } from '../../services/authService';
+import type { RegisterParams } from '../../types/api';
+import type { UseRegisterOptions } from './types';
+
+export const useRegister = (options?: UseRegisterOptions) => {
+  const setSession = useAuthStore((state) => state.setSession);
+
+  const { mutateAsync, isPending, error } = useMutation({
+    mutationFn: (params: RegisterParams) => authService.register(params),
+    onSuccess: (response) => {
+      setSession(response.token, response.user, response.expiresAt);
+      options?.onSuccess?.(response);
+    },
+  });
+
+  return {
+    register: mutateAsync,
+    isPending,
+    error,
+  };
+};
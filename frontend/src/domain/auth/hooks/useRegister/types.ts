@@ -0,0 +1,5 @@
+import type { LoginResponse } from '../../types/api';
+
+export interface UseRegisterOptions {
+  onSuccess?: (response: LoginResponse) => void;
+}
@@ -0,0 +1,49 @@
+/**
+ * @service AuthService
+ * @domain auth
+ * @type REST API
+ */
+import { authenticatedClient, publicClient } from '@/core/lib/api';
+import type { LoginParams, LoginResponse, RegisterParams } from '../types/api';
+import type { AuthUser } from '../types/models';
+
+export const authService = {
+  /**
+   * Exchange credentials for an access token
+   */
+  async login(params: LoginParams): Promise<LoginResponse> {
+    const { data } = await publicClient.post<{ success: boolean; data: LoginResponse }>(
+      '/auth/login',
+      params
+    );
+    return data.data;
+  },
+
+  /**
+   * Create a customer account and sign it in
+   */
+  async register(params: RegisterParams): Promise<LoginResponse> {
+    const { data } = await publicClient.post<{ success: boolean; data: LoginResponse }>(
+      '/auth/register',
+      params
+    );
+    return data.data;
+  },
+
+  /**
+   * End the current session
+   */
+  async logout(): Promise<void> {
+    await authenticatedClient.post('/auth/logout');
+  },
+
+  /**
+   * Get the authenticated user
+   */
+  async me(): Promise<AuthUser> {
+    const { data } = await authenticatedClient.get<{ success: boolean; data: AuthUser }>(
+      '/auth/me'
+    );
+    return data.data;
+  },
+};
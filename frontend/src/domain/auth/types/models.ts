@@ -0,0 +1,8 @@
+export type UserRole = 'admin' | 'editor' | 'viewer' | 'customer';
+
+export interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+}
@@ -0,0 +1,6 @@
+// Cart domain module exports
+export * from './components';
+export * from './services';
+export * from './hooks';
+export * from './types';
+export * from './constants';
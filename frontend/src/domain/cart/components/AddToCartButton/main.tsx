@@ -0,0 +1,74 @@
+import { ShoppingCartIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/core/components/button';
+import { getApiErrorMessage } from '@/core/lib/api';
+import { useCartStore } from '@/core/stores/cart';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useCartMutations } from '../../hooks/useCartMutations';
+import type { AddToCartButtonProps } from './types';
+
+/**
+ * Adds a product to the cart; products priced on request cannot be bought online and render nothing,
+ * sold-out products render a disabled button. Products with variants without a chosen variant
+ * link to the product page to choose one.
+ */
+function AddToCartButton({
+  product,
+  productVariant,
+  quantity = 1,
+  variant,
+  size,
+  className,
+}: AddToCartButtonProps) {
+  const { addItem, isAdding } = useCartMutations();
+  const setOpen = useCartStore((state) => state.setOpen);
+  const { navigate } = useNavigation();
+
+  const { price, availability } = productVariant ?? product;
+
+  if (!price) return null;
+
+  if (product.hasVariants && !productVariant) {
+    const handleChoose = (event: React.MouseEvent<HTMLButtonElement>) => {
+      event.stopPropagation();
+      navigate(`/product/${product.id}`);
+    };
+
+    return (
+      <Button variant={variant} size={size} className={className} onClick={handleChoose}>
+        <ShoppingCartIcon />
+        Escolher opções
+      </Button>
+    );
+  }
+
+  const isSoldOut = availability.status === 'out_of_stock';
+
+  const handleClick = async (event: React.MouseEvent<HTMLButtonElement>) => {
+    // Cards navigate to the product on click
+    event.stopPropagation();
+    try {
+      await addItem({ productId: product.id, variantId: productVariant?.id, quantity });
+      toast.success('Produto adicionado ao carrinho', {
+        action: { label: 'Ver carrinho', onClick: () => setOpen(true) },
+      });
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível adicionar o produto ao carrinho'));
+    }
+  };
+
+  return (
+    <Button
+      variant={variant}
+      size={size}
+      className={className}
+      onClick={handleClick}
+      disabled={isAdding || isSoldOut}
+    >
+      <ShoppingCartIcon />
+      {isSoldOut ? 'Esgotado' : 'Adicionar ao carrinho'}
+    </Button>
+  );
+}
+
+export { AddToCartButton };
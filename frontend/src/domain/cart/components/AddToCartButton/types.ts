@@ -0,0 +1,12 @@
+import type { VariantProps } from 'class-variance-authority';
+import type { buttonVariants } from '@/core/components/button';
+import type { ProductListItem, ProductVariant } from '@/domain/product/types/models';
+
+export interface AddToCartButtonProps extends VariantProps<typeof buttonVariants> {
+  product: Pick<ProductListItem, 'id' | 'price' | 'availability'> &
+    Partial<Pick<ProductListItem, 'hasVariants'>>;
+  /** Chosen variant; its price and availability apply instead of the product's */
+  productVariant?: Pick<ProductVariant, 'id' | 'price' | 'availability'> | null;
+  quantity?: number;
+  className?: string;
+}
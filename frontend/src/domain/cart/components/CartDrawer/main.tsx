@@ -0,0 +1,230 @@
+import { useEffect, useRef } from 'react';
+import { MinusIcon, PlusIcon, ShoppingCartIcon, Trash2Icon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/core/components/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/core/components/sheet';
+import { Empty, EmptyDescription, EmptyHeader, EmptyTitle } from '@/core/components/empty';
+import { Separator } from '@/core/components/separator';
+import { getApiErrorMessage } from '@/core/lib/api';
+import { cn } from '@/core/lib/utils';
+import { useCartStore } from '@/core/stores/cart';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { formatPrice } from '@/domain/product/utils';
+import { useCart } from '../../hooks/useCart';
+import { useCartMutations } from '../../hooks/useCartMutations';
+import { CART_QUANTITY_MAX } from '../../constants';
+import type { CartLine } from '../../types/models';
+import type { CartDrawerProps } from './types';
+
+// Products not made to order cannot exceed the units in stock
+const getQuantityLimit = ({ product, variant }: CartLine) => {
+  const { availability } = variant ?? product;
+  return availability.leadTimeDays === null
+    ? Math.min(CART_QUANTITY_MAX, availability.available)
+    : CART_QUANTITY_MAX;
+};
+
+const getLineKey = ({ product, variant }: CartLine) => ({
+  productId: product.id,
+  variantId: variant?.id ?? null,
+});
+
+/**
+ * Header cart button with the item count; opens the cart in a side panel
+ */
+function CartDrawer({ className }: CartDrawerProps) {
+  const { navigate } = useNavigation();
+  const isOpen = useCartStore((state) => state.isOpen);
+  const setOpen = useCartStore((state) => state.setOpen);
+  const { cart, itemCount, isLoading } = useCart();
+  const { updateItem, removeItem, clearCart, isUpdating } = useCartMutations();
+
+  // Unavailable products are reported on every read until the cart changes; notify once
+  const notifiedIdsRef = useRef(new Set<number>());
+
+  useEffect(() => {
+    const notifiedIds = notifiedIdsRef.current;
+    const removedIds = cart?.removedProductIds.filter((id) => !notifiedIds.has(id)) ?? [];
+    removedIds.forEach((id) => notifiedIds.add(id));
+    if (removedIds.length > 0) {
+      toast.info(
+        removedIds.length === 1
+          ? 'Um produto do seu carrinho não está mais disponível e foi removido'
+          : `${removedIds.length} produtos do seu carrinho não estão mais disponíveis e foram removidos`
+      );
+    }
+  }, [cart]);
+
+  const handleError = (err: unknown) => {
+    toast.error(getApiErrorMessage(err, 'Não foi possível atualizar o carrinho'));
+  };
+
+  const handleQuantity = (line: CartLine, quantity: number) => {
+    updateItem({ ...getLineKey(line), quantity }).catch(handleError);
+  };
+
+  const handleRemove = (line: CartLine) => {
+    removeItem(getLineKey(line)).catch(handleError);
+  };
+
+  const handleClear = () => {
+    clearCart().catch(handleError);
+  };
+
+  const handleCheckout = () => {
+    setOpen(false);
+    navigate('/checkout');
+  };
+
+  const handleOpenProduct = (line: CartLine) => {
+    setOpen(false);
+    navigate(
+      line.variant
+        ? `/product/${line.product.id}?variant=${line.variant.id}`
+        : `/product/${line.product.id}`
+    );
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative', className)}
+          aria-label={`Carrinho (${itemCount} ${itemCount === 1 ? 'item' : 'itens'})`}
+        >
+          <ShoppingCartIcon />
+          {itemCount > 0 && (
+            <span className="bg-primary text-primary-foreground absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-xs font-semibold">
+              {itemCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="flex w-full flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Carrinho</SheetTitle>
+          <SheetDescription>
+            {itemCount === 0
+              ? 'Nenhum produto adicionado'
+              : `${itemCount} ${itemCount === 1 ? 'item' : 'itens'}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {!cart || cart.items.length === 0 ? (
+          <Empty className="flex-1">
+            <EmptyHeader>
+              <EmptyTitle>
+                {isLoading ? 'Carregando carrinho...' : 'Seu carrinho está vazio'}
+              </EmptyTitle>
+              {!isLoading && (
+                <EmptyDescription>
+                  Explore o catálogo e adicione os móveis que deseja comprar.
+                </EmptyDescription>
+              )}
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <>
+            <ul className="flex-1 space-y-4 overflow-y-auto px-4">
+              {cart.items.map((line) => (
+                <li key={`${line.product.id}-${line.variant?.id ?? ''}`} className="flex gap-3">
+                  <img
+                    src={line.product.imageUrl}
+                    alt={line.product.name}
+                    loading="lazy"
+                    className="bg-muted h-20 w-20 shrink-0 rounded-md object-cover"
+                  />
+                  <div className="flex min-w-0 flex-1 flex-col gap-2">
+                    <button
+                      type="button"
+                      className="line-clamp-2 text-left text-sm font-medium hover:underline"
+                      onClick={() => handleOpenProduct(line)}
+                    >
+                      {line.product.name}
+                    </button>
+                    {line.variant && (
+                      <span className="text-muted-foreground text-xs">{line.variant.label}</span>
+                    )}
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="outline"
+                          size="icon-sm"
+                          aria-label="Diminuir quantidade"
+                          disabled={isUpdating || line.quantity <= 1}
+                          onClick={() => handleQuantity(line, line.quantity - 1)}
+                        >
+                          <MinusIcon />
+                        </Button>
+                        <span className="w-8 text-center text-sm tabular-nums">
+                          {line.quantity}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="icon-sm"
+                          aria-label="Aumentar quantidade"
+                          disabled={isUpdating || line.quantity >= getQuantityLimit(line)}
+                          onClick={() => handleQuantity(line, line.quantity + 1)}
+                        >
+                          <PlusIcon />
+                        </Button>
+                      </div>
+                      <span className="text-sm font-semibold">{formatPrice(line.lineTotal)}</span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label={`Remover ${line.product.name}`}
+                    disabled={isUpdating}
+                    onClick={() => handleRemove(line)}
+                  >
+                    <Trash2Icon />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+
+            <SheetFooter className="gap-3">
+              <Separator />
+              <dl className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Subtotal</dt>
+                  <dd>{formatPrice(cart.listTotal)}</dd>
+                </div>
+                {cart.discount > 0 && (
+                  <div className="text-destructive flex justify-between">
+                    <dt>Descontos</dt>
+                    <dd>-{formatPrice(cart.discount)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between text-base font-semibold">
+                  <dt>Total</dt>
+                  <dd>{formatPrice(cart.subtotal)}</dd>
+                </div>
+              </dl>
+              <Button disabled={isUpdating} onClick={handleCheckout}>
+                Finalizar compra
+              </Button>
+              <Button variant="outline" disabled={isUpdating} onClick={handleClear}>
+                Limpar carrinho
+              </Button>
+            </SheetFooter>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export { CartDrawer };
@@ -0,0 +1,3 @@
+export interface CartDrawerProps {
+  className?: string;
+}
@@ -0,0 +1,2 @@
+export * from './AddToCartButton';
+export * from './CartDrawer';
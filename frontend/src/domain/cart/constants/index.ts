@@ -0,0 +1 @@
+export const CART_QUANTITY_MAX = 20;
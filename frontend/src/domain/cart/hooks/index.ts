@@ -0,0 +1,2 @@
+export * from './useCart';
+export * from './useCartMutations';
@@ -0,0 +1,2 @@
+export * from './main';
+export type * from './types';
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { useCartStore } from '@/core/stores/cart';
+import { cartService } from '../../services/cartService';
+import type { UseCartOptions } from './types';
+
+export const useCart = (options?: UseCartOptions) => {
+  const setToken = useCartStore((state) => state.setToken);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['cart'],
+    queryFn: async () => {
+      const cart = await cartService.get();
+      // The server drops tokens of carts that no longer exist
+      setToken(cart.token);
+      return cart;
+    },
+    enabled: options?.enabled !== false,
+    // Prices and availability change; always revalidate when the cart is shown
+    staleTime: 0,
+  });
+
+  return {
+    cart: data,
+    itemCount: data?.itemCount ?? 0,
+    isLoading,
+    error,
+    refetch,
+  };
+};
@@ -0,0 +1,3 @@
+export interface UseCartOptions {
+  enabled?: boolean;
+}
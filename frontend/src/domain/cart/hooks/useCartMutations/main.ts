@@ -0,0 +1,50 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCartStore } from '@/core/stores/cart';
+import { cartService } from '../../services/cartService';
+import type { AddCartItemParams, CartItemKey, UpdateCartItemParams } from '../../types/api';
+import type { Cart } from '../../types/models';
+
+export const useCartMutations = () => {
+  const queryClient = useQueryClient();
+  const setToken = useCartStore((state) => state.setToken);
+
+  const onSuccess = (cart: Cart) => {
+    setToken(cart.token);
+    queryClient.setQueryData(['cart'], cart);
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (params: AddCartItemParams) => cartService.addItem(params),
+    onSuccess,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (params: UpdateCartItemParams) => cartService.updateItem(params),
+    onSuccess,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (key: CartItemKey) => cartService.removeItem(key),
+    onSuccess,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => cartService.clear(),
+    onSuccess,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: () => cartService.merge(),
+    onSuccess,
+  });
+
+  return {
+    addItem: addMutation.mutateAsync,
+    updateItem: updateMutation.mutateAsync,
+    removeItem: removeMutation.mutateAsync,
+    clearCart: clearMutation.mutateAsync,
+    mergeCart: mergeMutation.mutateAsync,
+    isAdding: addMutation.isPending,
+    isUpdating: updateMutation.isPending || removeMutation.isPending || clearMutation.isPending,
+  };
+};
@@ -0,0 +1,95 @@
+/**
+ * @service CartService
+ * @domain cart
+ * @type REST API
+ */
+import { publicClient } from '@/core/lib/api';
+import { useCartStore } from '@/core/stores/cart';
+import type { AddCartItemParams, CartItemKey, UpdateCartItemParams } from '../types/api';
+import type { Cart } from '../types/models';
+
+/**
+ * Path of a cart line
+ */
+const itemPath = ({ productId, variantId }: CartItemKey) =>
+  variantId === null ? `/cart/items/${productId}` : `/cart/items/${productId}/${variantId}`;
+
+/**
+ * Identifies the cart: the signed-in user's cart, otherwise the anonymous cart token
+ */
+const cartHeaders = () => {
+  const headers: Record<string, string> = {};
+  const authToken = localStorage.getItem('auth_token');
+  const { token } = useCartStore.getState();
+  if (authToken) headers.Authorization = `Bearer ${authToken}`;
+  if (token) headers['X-Cart-Token'] = token;
+  return headers;
+};
+
+export const cartService = {
+  /**
+   * Get the current cart priced at current product prices
+   */
+  async get(): Promise<Cart> {
+    const { data } = await publicClient.get<{ success: boolean; data: Cart }>('/cart', {
+      headers: cartHeaders(),
+    });
+    return data.data;
+  },
+
+  /**
+   * Add units of a product, creating the cart if needed
+   */
+  async addItem(params: AddCartItemParams): Promise<Cart> {
+    const { data } = await publicClient.post<{ success: boolean; data: Cart }>(
+      '/cart/items',
+      params,
+      { headers: cartHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * Set the quantity of a cart line
+   */
+  async updateItem({ quantity, ...key }: UpdateCartItemParams): Promise<Cart> {
+    const { data } = await publicClient.patch<{ success: boolean; data: Cart }>(
+      itemPath(key),
+      { quantity },
+      { headers: cartHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * Remove a line from the cart
+   */
+  async removeItem(key: CartItemKey): Promise<Cart> {
+    const { data } = await publicClient.delete<{ success: boolean; data: Cart }>(itemPath(key), {
+      headers: cartHeaders(),
+    });
+    return data.data;
+  },
+
+  /**
+   * Remove every product from the cart
+   */
+  async clear(): Promise<Cart> {
+    const { data } = await publicClient.delete<{ success: boolean; data: Cart }>('/cart', {
+      headers: cartHeaders(),
+    });
+    return data.data;
+  },
+
+  /**
+   * Move the anonymous cart into the signed-in user's cart
+   */
+  async merge(): Promise<Cart> {
+    const { data } = await publicClient.post<{ success: boolean; data: Cart }>(
+      '/cart/merge',
+      undefined,
+      { headers: cartHeaders() }
+    );
+    return data.data;
+  },
+};
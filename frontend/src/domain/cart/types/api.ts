@@ -0,0 +1,18 @@
+export interface AddCartItemParams {
+  productId: number;
+  /** Required for products with variants */
+  variantId?: number;
+  quantity?: number;
+}
+
+/**
+ * Identifies a cart line; lines of products without variants have no variantId
+ */
+export interface CartItemKey {
+  productId: number;
+  variantId: number | null;
+}
+
+export interface UpdateCartItemParams extends CartItemKey {
+  quantity: number;
+}
@@ -0,0 +1,29 @@
+import type { ProductListItem, ProductVariant } from '@/domain/product/types/models';
+
+/**
+ * Cart line priced at the current price of the product or its chosen variant
+ */
+export interface CartLine {
+  product: ProductListItem;
+  /** Chosen variant, whose price and availability apply to the line; null for products without variants */
+  variant: ProductVariant | null;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  dateAdded: string;
+}
+
+export interface Cart {
+  /** Anonymous cart token; null for user carts and before the first item is added */
+  token: string | null;
+  items: CartLine[];
+  itemCount: number;
+  /** Total at regular prices */
+  listTotal: number;
+  /** Savings from active promotions */
+  discount: number;
+  /** Total at current prices */
+  subtotal: number;
+  /** Products dropped on the last request because they are no longer available */
+  removedProductIds: number[];
+}
@@ -3,3 +3,5 @@ export * from './components';
 export * from './services';
 export * from './hooks';
 export * from './types';
+export * from './constants';
+export * from './utils';
@@ -0,0 +1,501 @@
+import { useMemo } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Textarea } from '@/core/components/textarea';
+import { Switch } from '@/core/components/switch';
+import { PlusIcon, Trash2Icon } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { FieldGroup, FieldLegend, FieldSet } from '@/core/components/field';
+import { CATEGORY_ATTRIBUTE_TYPE_LABELS, CATEGORY_MAX_HIERARCHY_LEVEL } from '../../constants';
+import { collectDescendantIds, getSubtreeDepth, sortCategoryTree } from '../../utils';
+import type { CategoryAttributeType } from '../../types/models';
+import type { CategoryFormProps } from './types';
+
+const NO_PARENT = 'none';
+
+const attributeTypes = Object.keys(CATEGORY_ATTRIBUTE_TYPE_LABELS) as [
+  CategoryAttributeType,
+  ...CategoryAttributeType[],
+];
+
+const attributeSchema = z
+  .object({
+    label: z
+      .string()
+      .trim()
+      .min(1, 'Informe o nome')
+      .max(60, 'O nome deve ter no máximo 60 caracteres'),
+    key: z
+      .string()
+      .trim()
+      .regex(/^[a-z][a-z0-9_]*$/, 'Use letras minúsculas, números e _')
+      .max(40, 'A chave deve ter no máximo 40 caracteres'),
+    group: z
+      .string()
+      .trim()
+      .min(1, 'Informe o grupo')
+      .max(60, 'O grupo deve ter no máximo 60 caracteres'),
+    type: z.enum(attributeTypes),
+    unit: z.string().max(10, 'A unidade deve ter no máximo 10 caracteres'),
+    options: z.string(),
+  })
+  .refine((attribute) => attribute.type !== 'option' || attribute.options.trim() !== '', {
+    message: 'Informe as opções separadas por vírgula',
+    path: ['options'],
+  });
+
+// Keys are derived from the label until edited, e.g. "Tamanho do colchão" → "tamanho_do_colchao"
+const toAttributeKey = (label: string) =>
+  label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[_0-9]+|_+$/g, '');
+
+const splitOptions = (value: string) =>
+  value
+    .split(',')
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+const categorySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'O nome deve ter ao menos 2 caracteres')
+    .max(50, 'O nome deve ter no máximo 50 caracteres'),
+  parentId: z.string(),
+  description: z.string().max(500, 'A descrição deve ter no máximo 500 caracteres'),
+  imageUrl: z.string().max(500, 'A URL deve ter no máximo 500 caracteres'),
+  displayOrder: z.number({ error: 'Informe a ordem' }).int().min(0),
+  active: z.boolean(),
+  featured: z.boolean(),
+  metaTitle: z.string().max(70, 'O título SEO deve ter no máximo 70 caracteres'),
+  metaDescription: z.string().max(160, 'A descrição SEO deve ter no máximo 160 caracteres'),
+  attributes: z
+    .array(attributeSchema)
+    .max(30, 'Use no máximo 30 atributos')
+    .refine(
+      (attributes) => new Set(attributes.map((a) => a.key)).size === attributes.length,
+      'As chaves dos atributos devem ser únicas'
+    ),
+});
+
+type CategoryFormValues = z.infer<typeof categorySchema>;
+
+const toNullable = (value: string) => (value.trim() === '' ? null : value.trim());
+
+function CategoryForm({
+  category,
+  categories,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: CategoryFormProps) {
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categorySchema),
+    defaultValues: {
+      name: category?.name ?? '',
+      parentId: category?.parentId ? String(category.parentId) : NO_PARENT,
+      description: category?.description ?? '',
+      imageUrl: category?.imageUrl ?? '',
+      displayOrder: category?.displayOrder ?? 0,
+      active: category?.active ?? true,
+      featured: category?.featured ?? false,
+      metaTitle: category?.metaTitle ?? '',
+      metaDescription: category?.metaDescription ?? '',
+      attributes:
+        category?.attributes.map((attribute) => ({
+          ...attribute,
+          unit: attribute.unit ?? '',
+          options: attribute.options.join(', '),
+        })) ?? [],
+    },
+  });
+
+  const attributeFields = useFieldArray({ control: form.control, name: 'attributes' });
+
+  // A parent is valid when the category and its whole subtree still fit within the maximum depth
+  const parentOptions = useMemo(() => {
+    const excluded = category ? collectDescendantIds(categories, category.id) : new Set<number>();
+    if (category) excluded.add(category.id);
+    const subtreeDepth = category ? getSubtreeDepth(categories, category.id) : 0;
+
+    return sortCategoryTree(categories).filter(
+      (option) =>
+        !excluded.has(option.id) && option.level + 1 + subtreeDepth <= CATEGORY_MAX_HIERARCHY_LEVEL
+    );
+  }, [categories, category]);
+
+  const handleSubmit = async (values: CategoryFormValues) => {
+    await onSubmit({
+      name: values.name,
+      parentId: values.parentId === NO_PARENT ? null : Number(values.parentId),
+      description: toNullable(values.description),
+      imageUrl: toNullable(values.imageUrl),
+      displayOrder: values.displayOrder,
+      active: values.active,
+      featured: values.featured,
+      metaTitle: toNullable(values.metaTitle),
+      metaDescription: toNullable(values.metaDescription),
+      attributes: values.attributes.map((attribute) => ({
+        key: attribute.key,
+        label: attribute.label,
+        group: attribute.group,
+        type: attribute.type,
+        unit: attribute.type === 'number' ? toNullable(attribute.unit) : null,
+        options: attribute.type === 'option' ? splitOptions(attribute.options) : [],
+      })),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6" noValidate>
+        <FieldGroup>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome</FormLabel>
+                <FormControl>
+                  <Input autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="parentId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Categoria pai</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>Nenhuma (nível principal)</SelectItem>
+                    {parentOptions.map((option) => (
+                      <SelectItem key={option.id} value={String(option.id)}>
+                        <span style={{ paddingLeft: `${(option.level - 1) * 12}px` }}>
+                          {option.name}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Até {CATEGORY_MAX_HIERARCHY_LEVEL} níveis de categorias
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Descrição</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid gap-4 sm:grid-cols-[1fr_120px]">
+            <FormField
+              control={form.control}
+              name="imageUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>URL da imagem</FormLabel>
+                  <FormControl>
+                    <Input type="url" placeholder="https://" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="displayOrder"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ordem</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <div className="flex flex-wrap gap-6">
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel>Ativa</FormLabel>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="featured"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel>Destaque na página inicial</FormLabel>
+                </FormItem>
+              )}
+            />
+          </div>
+        </FieldGroup>
+
+        <FieldSet>
+          <FieldLegend variant="label">SEO</FieldLegend>
+          <FieldGroup>
+            <FormField
+              control={form.control}
+              name="metaTitle"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Título</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="metaDescription"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrição</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </FieldGroup>
+        </FieldSet>
+
+        <FieldSet>
+          <FieldLegend variant="label">Atributos dos produtos</FieldLegend>
+          <p className="text-muted-foreground text-sm">
+            Especificações que os produtos desta categoria e das subcategorias podem informar, como
+            número de lugares ou tamanho do colchão.
+          </p>
+          {attributeFields.fields.map((item, index) => {
+            const type = form.watch(`attributes.${index}.type`);
+            return (
+              <div key={item.id} className="space-y-3 rounded-md border p-3">
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name={`attributes.${index}.label`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            onChange={(e) => {
+                              const { key, label } = form.getValues(`attributes.${index}`);
+                              if (key === toAttributeKey(label)) {
+                                form.setValue(
+                                  `attributes.${index}.key`,
+                                  toAttributeKey(e.target.value)
+                                );
+                              }
+                              field.onChange(e);
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`attributes.${index}.key`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Chave</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`attributes.${index}.group`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Grupo</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Conforto" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`attributes.${index}.type`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tipo</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {attributeTypes.map((attributeType) => (
+                              <SelectItem key={attributeType} value={attributeType}>
+                                {CATEGORY_ATTRIBUTE_TYPE_LABELS[attributeType]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {type === 'number' && (
+                    <FormField
+                      control={form.control}
+                      name={`attributes.${index}.unit`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Unidade</FormLabel>
+                          <FormControl>
+                            <Input placeholder="kg" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {type === 'option' && (
+                    <FormField
+                      control={form.control}
+                      name={`attributes.${index}.options`}
+                      render={({ field }) => (
+                        <FormItem className="sm:col-span-2">
+                          <FormLabel>Opções</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Solteiro, Casal, Queen, King" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+                <div className="flex justify-end">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => attributeFields.remove(index)}
+                  >
+                    <Trash2Icon />
+                    Remover
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+          <FormField
+            control={form.control}
+            name="attributes"
+            render={() => (
+              <FormItem>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                attributeFields.append({
+                  label: '',
+                  key: '',
+                  group: '',
+                  type: 'text',
+                  unit: '',
+                  options: '',
+                })
+              }
+            >
+              <PlusIcon />
+              Adicionar atributo
+            </Button>
+          </div>
+        </FieldSet>
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export { CategoryForm };
@@ -0,0 +1,10 @@
+import type { CategoryPayload } from '../../types/api';
+import type { AdminCategory } from '../../types/models';
+
+export interface CategoryFormProps {
+  category?: AdminCategory;
+  categories: AdminCategory[];
+  isSubmitting?: boolean;
+  onSubmit: (payload: CategoryPayload) => Promise<void> | void;
+  onCancel?: () => void;
+}
@@ -13,9 +13,7 @@ import {
 import { Badge } from '@/core/components/badge';
 
 function CategoryMenu({ className, onCategorySelect }: CategoryMenuProps) {
-  const { categories, isLoading } = useCategoryList({
-    filters: { activeOnly: true },
-  });
+  const { categories, isLoading } = useCategoryList();
 
   const topLevelCategories = categories.filter((cat) => cat.level === 1);
 
@@ -1,3 +1,4 @@
 export * from './CategoryCard';
 export * from './CategoryMenu';
 export * from './CategoryBreadcrumb';
+export * from './CategoryForm';
@@ -0,0 +1,13 @@
+import type { CategoryAttributeType } from '../types/models';
+
+/**
+ * Maximum depth of the category tree, mirrored from the backend CATEGORY_DEFAULTS
+ */
+export const CATEGORY_MAX_HIERARCHY_LEVEL = 3;
+
+export const CATEGORY_ATTRIBUTE_TYPE_LABELS: Record<CategoryAttributeType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  boolean: 'Sim/Não',
+  option: 'Lista de opções',
+};
@@ -1,3 +1,5 @@
 export * from './useCategoryList';
 export * from './useFeaturedCategories';
 export * from './useCategoryBySlug';
+export * from './useAdminCategoryList';
+export * from './useCategoryMutations';
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { categoryAdminService } from '../../services/categoryAdminService';
+
+export const useAdminCategoryList = () => {
+  const queryKey = ['admin', 'categories'];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => categoryAdminService.list(),
+  });
+
+  return {
+    categories: data?.items ?? [],
+    isLoading,
+    error,
+    refetch,
+  };
+};
@@ -0,0 +1,37 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { categoryAdminService } from '../../services/categoryAdminService';
+import type { CategoryPayload } from '../../types/api';
+
+export const useCategoryMutations = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'categories'] });
+    queryClient.invalidateQueries({ queryKey: ['categories'] });
+    queryClient.invalidateQueries({ queryKey: ['category'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (payload: CategoryPayload) => categoryAdminService.create(payload),
+    onSuccess: invalidate,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, payload }: { id: number; payload: CategoryPayload }) =>
+      categoryAdminService.update(id, payload),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => categoryAdminService.delete(id),
+    onSuccess: invalidate,
+  });
+
+  return {
+    createCategory: createMutation.mutateAsync,
+    updateCategory: updateMutation.mutateAsync,
+    deleteCategory: deleteMutation.mutateAsync,
+    isSaving: createMutation.isPending || updateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  };
+};
@@ -0,0 +1,50 @@
+/**
+ * @service CategoryAdminService
+ * @domain category
+ * @type REST API
+ */
+import { authenticatedClient } from '@/core/lib/api';
+import type { AdminCategoryListResponse, CategoryPayload } from '../types/api';
+import type { AdminCategory } from '../types/models';
+
+export const categoryAdminService = {
+  /**
+   * List all categories, including inactive ones
+   */
+  async list(): Promise<AdminCategoryListResponse> {
+    const { data } = await authenticatedClient.get<{
+      success: boolean;
+      data: AdminCategoryListResponse;
+    }>('/category', { params: { activeOnly: false } });
+    return data.data;
+  },
+
+  /**
+   * Create a category
+   */
+  async create(payload: CategoryPayload): Promise<AdminCategory> {
+    const { data } = await authenticatedClient.post<{ success: boolean; data: AdminCategory }>(
+      '/category',
+      payload
+    );
+    return data.data;
+  },
+
+  /**
+   * Update a category
+   */
+  async update(id: number, payload: CategoryPayload): Promise<AdminCategory> {
+    const { data } = await authenticatedClient.put<{ success: boolean; data: AdminCategory }>(
+      `/category/${id}`,
+      payload
+    );
+    return data.data;
+  },
+
+  /**
+   * Delete a category
+   */
+  async delete(id: number): Promise<void> {
+    await authenticatedClient.delete(`/category/${id}`);
+  },
+};
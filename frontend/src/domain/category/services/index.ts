@@ -1 +1,2 @@
 export * from './categoryService';
+export * from './categoryAdminService';
@@ -1,8 +1,13 @@
-import type { CategoryListItem, Category, FeaturedCategory } from './models';
+import type {
+  CategoryListItem,
+  Category,
+  FeaturedCategory,
+  AdminCategory,
+  CategoryAttributeDefinition,
+} from './models';
 
 export interface CategoryListParams {
   parentId?: number;
-  activeOnly?: boolean;
   featured?: boolean;
 }
 
@@ -14,10 +19,6 @@ export interface CategoryBySlugParams {
   slug: string;
 }
 
-export interface CategoryByIdParams {
-  id: number;
-}
-
 export interface CategoryResponse {
   data: Category;
 }
@@ -25,3 +26,20 @@ export interface CategoryResponse {
 export interface FeaturedCategoriesResponse {
   data: FeaturedCategory[];
 }
+
+export interface AdminCategoryListResponse {
+  items: AdminCategory[];
+}
+
+export interface CategoryPayload {
+  name: string;
+  parentId: number | null;
+  description: string | null;
+  imageUrl: string | null;
+  displayOrder: number;
+  active: boolean;
+  featured: boolean;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  attributes: CategoryAttributeDefinition[];
+}
@@ -6,14 +6,9 @@ export interface Category {
   level: number;
   description: string | null;
   imageUrl: string | null;
-  displayOrder: number;
-  active: boolean;
-  featured: boolean;
+  productCount: number;
   metaTitle: string | null;
   metaDescription: string | null;
-  productCount: number;
-  dateCreated: string;
-  dateModified: string;
 }
 
 export interface CategoryListItem {
@@ -24,11 +19,7 @@ export interface CategoryListItem {
   level: number;
   description: string | null;
   imageUrl: string | null;
-  displayOrder: number;
-  active: boolean;
-  featured: boolean;
   productCount: number;
-  dateCreated: string;
 }
 
 export interface FeaturedCategory {
@@ -39,3 +30,37 @@ export interface FeaturedCategory {
   imageUrl: string | null;
   productCount: number;
 }
+
+/**
+ * Attribute products of a category and of its subcategories can specify
+ */
+export interface CategoryAttributeDefinition {
+  key: string;
+  label: string;
+  group: string;
+  type: 'text' | 'number' | 'boolean' | 'option';
+  unit: string | null;
+  options: string[];
+}
+
+export type CategoryAttributeType = CategoryAttributeDefinition['type'];
+
+export interface AdminCategory {
+  id: number;
+  name: string;
+  slug: string;
+  parentId: number | null;
+  level: number;
+  description: string | null;
+  imageUrl: string | null;
+  displayOrder: number;
+  active: boolean;
+  featured: boolean;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  attributes: CategoryAttributeDefinition[];
+  directProductCount: number;
+  productCount: number;
+  dateCreated: string;
+  dateModified: string;
+}
@@ -0,0 +1,79 @@
+import type { AdminCategory, CategoryAttributeDefinition } from '../types/models';
+
+interface TreeNode {
+  id: number;
+  name: string;
+  parentId: number | null;
+  displayOrder?: number;
+}
+
+const byDisplayOrder = (a: TreeNode, b: TreeNode) =>
+  (a.displayOrder ?? 0) - (b.displayOrder ?? 0) || a.name.localeCompare(b.name);
+
+/**
+ * Orders categories depth-first so each category is followed by its subcategories
+ */
+export const sortCategoryTree = <T extends TreeNode>(categories: T[]): T[] => {
+  const sorted: T[] = [];
+  const visit = (parentId: number | null) => {
+    categories
+      .filter((category) => category.parentId === parentId)
+      .sort(byDisplayOrder)
+      .forEach((category) => {
+        sorted.push(category);
+        visit(category.id);
+      });
+  };
+  visit(null);
+  return sorted;
+};
+
+/**
+ * Collects the IDs of every category below the given one
+ */
+export const collectDescendantIds = (categories: TreeNode[], categoryId: number): Set<number> => {
+  const descendants = new Set<number>();
+  let frontier = [categoryId];
+  while (frontier.length > 0) {
+    frontier = categories
+      .filter((category) => category.parentId !== null && frontier.includes(category.parentId))
+      .map((category) => category.id)
+      .filter((id) => !descendants.has(id));
+    frontier.forEach((id) => descendants.add(id));
+  }
+  return descendants;
+};
+
+/**
+ * Attributes available to products of a category, including those inherited from its
+ * ancestors; a subcategory overrides an ancestor attribute with the same key
+ */
+export const collectAttributeDefinitions = (
+  categories: AdminCategory[],
+  categoryId: number
+): CategoryAttributeDefinition[] => {
+  const chain: AdminCategory[] = [];
+  let current = categories.find((category) => category.id === categoryId);
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    const parentId = current.parentId;
+    current = categories.find((category) => category.id === parentId);
+  }
+
+  const definitions = new Map<string, CategoryAttributeDefinition>();
+  chain.forEach((category) =>
+    category.attributes.forEach((definition) => {
+      definitions.delete(definition.key);
+      definitions.set(definition.key, definition);
+    })
+  );
+  return [...definitions.values()];
+};
+
+/**
+ * Number of hierarchy levels below the given category (0 for a leaf)
+ */
+export const getSubtreeDepth = (categories: TreeNode[], categoryId: number): number =>
+  categories
+    .filter((category) => category.parentId === categoryId)
+    .reduce((depth, child) => Math.max(depth, getSubtreeDepth(categories, child.id) + 1), 0);
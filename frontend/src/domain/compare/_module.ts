@@ -0,0 +1,6 @@
+// Compare domain module exports
+export * from './components';
+export * from './hooks';
+export * from './constants';
+export * from './utils';
+export * from './types';
@@ -0,0 +1,46 @@
+import { CheckIcon, ScaleIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/core/components/button';
+import { useCompareStore } from '@/core/stores/compare';
+import { COMPARE_MAX } from '../../constants';
+import type { CompareButtonProps } from './types';
+
+/**
+ * Adds a product to the comparison tray or takes it out
+ */
+function CompareButton({ product, variant = 'ghost', size, className }: CompareButtonProps) {
+  const items = useCompareStore((state) => state.items);
+  const add = useCompareStore((state) => state.add);
+  const remove = useCompareStore((state) => state.remove);
+
+  const isSelected = items.some((item) => item.id === product.id);
+
+  const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
+    // Cards navigate to the product on click
+    event.stopPropagation();
+    if (isSelected) {
+      remove(product.id);
+      return;
+    }
+    if (items.length >= COMPARE_MAX) {
+      toast.error(`Compare até ${COMPARE_MAX} produtos por vez`);
+      return;
+    }
+    add({ id: product.id, name: product.name, imageUrl: product.imageUrl });
+  };
+
+  return (
+    <Button
+      variant={variant}
+      size={size}
+      className={className}
+      onClick={handleClick}
+      aria-pressed={isSelected}
+    >
+      {isSelected ? <CheckIcon /> : <ScaleIcon />}
+      {isSelected ? 'Na comparação' : 'Comparar'}
+    </Button>
+  );
+}
+
+export { CompareButton };
@@ -0,0 +1,8 @@
+import type { VariantProps } from 'class-variance-authority';
+import type { buttonVariants } from '@/core/components/button';
+import type { ProductListItem } from '@/domain/product/types/models';
+
+export interface CompareButtonProps extends VariantProps<typeof buttonVariants> {
+  product: Pick<ProductListItem, 'id' | 'name' | 'imageUrl'>;
+  className?: string;
+}
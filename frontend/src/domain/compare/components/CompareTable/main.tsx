@@ -0,0 +1,136 @@
+import { XIcon } from 'lucide-react';
+import { Button } from '@/core/components/button';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { cn } from '@/core/lib/utils';
+import { AddToCartButton } from '@/domain/cart/components/AddToCartButton';
+import type { CompareTableProps } from './types';
+
+/**
+ * Products side by side, one column each. Rows where the products differ are highlighted.
+ */
+function CompareTable({
+  products,
+  groups,
+  differencesOnly = false,
+  onRemove,
+  className,
+}: CompareTableProps) {
+  const { navigate } = useNavigation();
+
+  const shownGroups = groups
+    .map((group) => ({
+      ...group,
+      rows: differencesOnly ? group.rows.filter((row) => row.differs) : group.rows,
+    }))
+    .filter((group) => group.rows.length > 0);
+
+  return (
+    <div className={cn('overflow-x-auto rounded-lg border', className)}>
+      <table className="w-full min-w-[640px] table-fixed border-collapse text-sm">
+        <colgroup>
+          <col className="w-40" />
+          {products.map((product) => (
+            <col key={product.id} />
+          ))}
+        </colgroup>
+        <thead>
+          <tr className="border-b">
+            <th scope="col" className="sr-only">
+              Produto
+            </th>
+            {products.map((product) => (
+              <th key={product.id} scope="col" className="p-4 text-left align-top font-normal">
+                <div className="space-y-3">
+                  <div className="relative">
+                    <img
+                      src={product.imageUrl}
+                      alt={product.name}
+                      className="bg-muted aspect-square w-full rounded-md object-cover"
+                    />
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute top-2 right-2 rounded-full"
+                      onClick={() => onRemove(product.id)}
+                      aria-label={`Remover ${product.name} da comparação`}
+                    >
+                      <XIcon />
+                    </Button>
+                  </div>
+                  <button
+                    type="button"
+                    className="line-clamp-2 text-left font-semibold hover:underline"
+                    onClick={() => navigate(`/product/${product.id}`)}
+                  >
+                    {product.name}
+                  </button>
+                  <AddToCartButton
+                    product={{ ...product, hasVariants: product.variants.length > 0 }}
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                  />
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {products.some((product) => product.additionalImages.length > 0) && (
+            <tr className="border-b">
+              <th scope="row" className="text-muted-foreground p-4 text-left font-medium">
+                Imagens
+              </th>
+              {products.map((product) => (
+                <td key={product.id} className="p-4">
+                  <div className="flex flex-wrap gap-2">
+                    {product.additionalImages.map((url) => (
+                      <img
+                        key={url}
+                        src={url}
+                        alt=""
+                        loading="lazy"
+                        className="bg-muted h-12 w-12 rounded object-cover"
+                      />
+                    ))}
+                  </div>
+                </td>
+              ))}
+            </tr>
+          )}
+          {shownGroups.map((group) => [
+            <tr key={group.name} className="bg-muted/50 border-b">
+              <th
+                scope="colgroup"
+                colSpan={products.length + 1}
+                className="text-muted-foreground px-4 py-2 text-left text-xs font-semibold tracking-wide uppercase"
+              >
+                {group.name}
+              </th>
+            </tr>,
+            ...group.rows.map((row) => (
+              <tr
+                key={`${group.name}-${row.label}`}
+                className={cn('border-b last:border-b-0', row.differs && 'bg-amber-50/60')}
+              >
+                <th scope="row" className="text-muted-foreground p-4 text-left font-medium">
+                  {row.label}
+                </th>
+                {row.values.map((value, index) => (
+                  <td
+                    key={products[index].id}
+                    className={cn('p-4', row.differs && 'font-semibold')}
+                  >
+                    {value ?? '—'}
+                  </td>
+                ))}
+              </tr>
+            )),
+          ])}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export { CompareTable };
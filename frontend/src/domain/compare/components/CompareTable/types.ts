@@ -0,0 +1,11 @@
+import type { Product } from '@/domain/product/types/models';
+import type { ComparisonGroup } from '../../types/models';
+
+export interface CompareTableProps {
+  products: Product[];
+  groups: ComparisonGroup[];
+  /** Hides the rows where every product is the same */
+  differencesOnly?: boolean;
+  onRemove: (productId: number) => void;
+  className?: string;
+}
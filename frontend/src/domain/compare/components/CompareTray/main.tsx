@@ -0,0 +1,66 @@
+import { XIcon } from 'lucide-react';
+import { Button } from '@/core/components/button';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useCompareStore } from '@/core/stores/compare';
+import { cn } from '@/core/lib/utils';
+import { COMPARE_MAX } from '../../constants';
+import type { CompareTrayProps } from './types';
+
+/**
+ * Bar pinned to the bottom of the storefront with the products picked for comparison.
+ * Hidden on the comparison page itself.
+ */
+function CompareTray({ className }: CompareTrayProps) {
+  const { navigate, location } = useNavigation();
+  const items = useCompareStore((state) => state.items);
+  const remove = useCompareStore((state) => state.remove);
+  const clear = useCompareStore((state) => state.clear);
+
+  if (items.length === 0 || location.pathname === '/compare') {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        'bg-background fixed inset-x-0 bottom-0 z-40 border-t px-9 py-3 shadow-lg',
+        className
+      )}
+    >
+      <div className="container flex flex-wrap items-center gap-4">
+        <ul className="flex flex-1 gap-3">
+          {items.map((item) => (
+            <li key={item.id} className="relative">
+              <img
+                src={item.imageUrl}
+                alt={item.name}
+                title={item.name}
+                className="bg-muted h-14 w-14 rounded object-cover"
+              />
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute -top-2 -right-2 h-5 w-5 rounded-full"
+                onClick={() => remove(item.id)}
+                aria-label={`Remover ${item.name} da comparação`}
+              >
+                <XIcon className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <span className="text-muted-foreground text-sm">
+          {items.length} de {COMPARE_MAX} produtos
+        </span>
+        <Button variant="ghost" onClick={clear}>
+          Limpar
+        </Button>
+        <Button onClick={() => navigate('/compare')} disabled={items.length < 2}>
+          Comparar
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export { CompareTray };
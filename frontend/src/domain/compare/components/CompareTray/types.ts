@@ -0,0 +1,3 @@
+export interface CompareTrayProps {
+  className?: string;
+}
@@ -0,0 +1,3 @@
+export * from './CompareButton';
+export * from './CompareTray';
+export * from './CompareTable';
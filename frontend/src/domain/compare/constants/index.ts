@@ -0,0 +1,2 @@
+/** Products that fit side by side in the comparison table */
+export const COMPARE_MAX = 4;
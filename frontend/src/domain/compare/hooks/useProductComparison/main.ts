@@ -0,0 +1,24 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { productService } from '@/domain/product/services/productService';
+import { buildComparison } from '../../utils';
+import type { UseProductComparisonOptions } from './types';
+
+export const useProductComparison = ({ productIds }: UseProductComparisonOptions) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['product', 'batch', productIds],
+    queryFn: () => productService.getBatch(productIds),
+    enabled: productIds.length > 0,
+    // Keep the table in place while a product is removed from it
+    placeholderData: keepPreviousData,
+  });
+
+  // Products removed from the catalog are left out by the server
+  const products = (data ?? []).filter((product) => productIds.includes(product.id));
+
+  return {
+    products,
+    groups: buildComparison(products),
+    isLoading,
+    error,
+  };
+};
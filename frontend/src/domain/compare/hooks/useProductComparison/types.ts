@@ -0,0 +1,3 @@
+export interface UseProductComparisonOptions {
+  productIds: number[];
+}
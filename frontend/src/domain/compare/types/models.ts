@@ -0,0 +1,15 @@
+/**
+ * One characteristic across the compared products
+ */
+export interface ComparisonRow {
+  label: string;
+  /** One per product, in table order; null when the product does not state it */
+  values: (string | null)[];
+  /** Whether the products differ on this characteristic */
+  differs: boolean;
+}
+
+export interface ComparisonGroup {
+  name: string;
+  rows: ComparisonRow[];
+}
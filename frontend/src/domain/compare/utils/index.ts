@@ -0,0 +1,114 @@
+import type { Product } from '@/domain/product/types/models';
+import {
+  formatAttributeValue,
+  formatAvailability,
+  formatMeasurement,
+  formatPrice,
+} from '@/domain/product/utils';
+import type { ComparisonGroup, ComparisonRow } from '../types/models';
+
+const formatCentimeters = (value: number | null) =>
+  value === null ? null : formatMeasurement(value, 'cm');
+
+const toRow = (label: string, values: (string | null)[]): ComparisonRow => ({
+  label,
+  values,
+  differs: new Set(values).size > 1,
+});
+
+/**
+ * Category attributes of every product, aligned by group and key. Products of categories
+ * without an attribute get null in its row.
+ */
+const toAttributeGroups = (products: Product[]): ComparisonGroup[] => {
+  const groups = new Map<string, Map<string, string>>();
+
+  products.forEach((product) =>
+    product.attributeGroups.forEach((group) => {
+      const labels = groups.get(group.name) ?? new Map<string, string>();
+      group.attributes.forEach((attribute) => labels.set(attribute.key, attribute.label));
+      groups.set(group.name, labels);
+    })
+  );
+
+  return [...groups].map(([name, labels]) => ({
+    name,
+    rows: [...labels].map(([key, label]) =>
+      toRow(
+        label,
+        products.map((product) => {
+          const attribute = product.attributeGroups
+            .find((group) => group.name === name)
+            ?.attributes.find((item) => item.key === key);
+          return attribute ? formatAttributeValue(attribute.value, attribute.unit) : null;
+        })
+      )
+    ),
+  }));
+};
+
+/**
+ * Builds the rows of the comparison table; rows no product states are left out
+ */
+export const buildComparison = (products: Product[]): ComparisonGroup[] =>
+  [
+    {
+      name: 'Geral',
+      rows: [
+        toRow(
+          'Preço',
+          products.map(({ price }) => (price ? formatPrice(price.currentPrice) : 'Sob consulta'))
+        ),
+        toRow(
+          'Disponibilidade',
+          products.map(({ availability }) => formatAvailability(availability))
+        ),
+        toRow(
+          'Categoria',
+          products.map(({ category }) => category.path.map((item) => item.name).join(' › '))
+        ),
+      ],
+    },
+    {
+      name: 'Medidas',
+      rows: [
+        toRow(
+          'Largura',
+          products.map(({ specifications }) => formatCentimeters(specifications.dimensions.width))
+        ),
+        toRow(
+          'Altura',
+          products.map(({ specifications }) => formatCentimeters(specifications.dimensions.height))
+        ),
+        toRow(
+          'Profundidade',
+          products.map(({ specifications }) => formatCentimeters(specifications.dimensions.depth))
+        ),
+        toRow(
+          'Peso',
+          products.map(({ specifications }) =>
+            specifications.weight === null ? null : formatMeasurement(specifications.weight, 'kg')
+          )
+        ),
+      ],
+    },
+    {
+      name: 'Materiais e acabamentos',
+      rows: [
+        toRow(
+          'Materiais',
+          products.map(({ specifications }) => specifications.materials.join(', ') || null)
+        ),
+        toRow(
+          'Acabamentos e cores',
+          products.map(({ specifications }) => specifications.finishes.join(', ') || null)
+        ),
+      ],
+    },
+    ...toAttributeGroups(products),
+  ]
+    .map((group) => ({
+      ...group,
+      rows: group.rows.filter((row) => row.values.some((value) => value !== null)),
+    }))
+    .filter((group) => group.rows.length > 0);
@@ -1,3 +1,8 @@
 // Domain modules export
 export * as product from './product/_module';
 export * as category from './category/_module';
+export * as auth from './auth/_module';
+export * as cart from './cart/_module';
+export * as order from './order/_module';
+export * as wishlist from './wishlist/_module';
+export * as compare from './compare/_module';
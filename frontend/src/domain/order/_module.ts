@@ -0,0 +1,7 @@
+// Order domain module exports
+export * from './components';
+export * from './services';
+export * from './hooks';
+export * from './types';
+export * from './constants';
+export * from './utils';
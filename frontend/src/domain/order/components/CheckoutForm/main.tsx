@@ -0,0 +1,382 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Textarea } from '@/core/components/textarea';
+import { RadioGroup, RadioGroupItem } from '@/core/components/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { FieldGroup, FieldLegend, FieldSet } from '@/core/components/field';
+import { formatPrice } from '@/domain/product/utils';
+import { BRAZILIAN_STATES, ORDER_NOTES_MAX_LENGTH, PAYMENT_METHOD_LABELS } from '../../constants';
+import { formatCep, formatPhone } from '../../utils';
+import type { PaymentMethod } from '../../types/models';
+import type { CheckoutFormProps } from './types';
+
+const paymentMethods = Object.keys(PAYMENT_METHOD_LABELS) as [PaymentMethod, ...PaymentMethod[]];
+
+const requiredText = (message: string, max = 120) =>
+  z.string().trim().min(1, message).max(max, `Use no máximo ${max} caracteres`);
+
+const checkoutSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'O nome deve ter ao menos 3 caracteres')
+    .max(100, 'O nome deve ter no máximo 100 caracteres'),
+  email: z
+    .string()
+    .trim()
+    .min(1, 'Informe seu e-mail')
+    .email('E-mail inválido')
+    .max(100, 'O e-mail deve ter no máximo 100 caracteres'),
+  phone: z
+    .string()
+    .refine(
+      (value) => [10, 11].includes(value.replace(/\D/g, '').length),
+      'Informe o telefone com DDD'
+    ),
+  cep: z.string().regex(/^\d{5}-\d{3}$/, 'Informe um CEP válido'),
+  street: requiredText('Informe a rua'),
+  number: requiredText('Informe o número', 20),
+  complement: z.string().max(120, 'Use no máximo 120 caracteres'),
+  neighborhood: requiredText('Informe o bairro'),
+  city: requiredText('Informe a cidade'),
+  state: z.string().min(1, 'Selecione o estado'),
+  method: z.enum(paymentMethods),
+  installments: z.string(),
+  notes: z
+    .string()
+    .max(
+      ORDER_NOTES_MAX_LENGTH,
+      `As observações devem ter no máximo ${ORDER_NOTES_MAX_LENGTH} caracteres`
+    ),
+});
+
+type CheckoutFormValues = z.infer<typeof checkoutSchema>;
+
+function CheckoutForm({
+  customer,
+  maxInstallments,
+  total,
+  isSubmitting,
+  onSubmit,
+}: CheckoutFormProps) {
+  const form = useForm<CheckoutFormValues>({
+    resolver: zodResolver(checkoutSchema),
+    defaultValues: {
+      name: customer?.name ?? '',
+      email: customer?.email ?? '',
+      phone: customer?.phone ? formatPhone(customer.phone) : '',
+      cep: '',
+      street: '',
+      number: '',
+      complement: '',
+      neighborhood: '',
+      city: '',
+      state: '',
+      method: 'pix',
+      installments: '1',
+      notes: '',
+    },
+  });
+
+  const method = form.watch('method');
+  const installmentOptions = Array.from({ length: maxInstallments }, (_, index) => index + 1);
+
+  const handleSubmit = async (values: CheckoutFormValues) => {
+    await onSubmit({
+      customer: {
+        name: values.name,
+        email: values.email,
+        phone: values.phone.replace(/\D/g, ''),
+      },
+      deliveryAddress: {
+        cep: values.cep,
+        street: values.street,
+        number: values.number,
+        complement: values.complement.trim() === '' ? null : values.complement.trim(),
+        neighborhood: values.neighborhood,
+        city: values.city,
+        state: values.state,
+      },
+      payment: {
+        method: values.method,
+        installments: values.method === 'credit_card' ? Number(values.installments) : 1,
+      },
+      notes: values.notes.trim() === '' ? null : values.notes.trim(),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6" noValidate>
+        <FieldSet>
+          <FieldLegend variant="label">Contato</FieldLegend>
+          <FieldGroup>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome completo</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>E-mail</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" {...field} />
+                    </FormControl>
+                    <FormDescription>Use este e-mail para acompanhar o pedido</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Telefone</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="tel"
+                        autoComplete="tel-national"
+                        placeholder="(27) 99999-0000"
+                        {...field}
+                        onChange={(e) => field.onChange(formatPhone(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </FieldGroup>
+        </FieldSet>
+
+        <FieldSet>
+          <FieldLegend variant="label">Endereço de entrega</FieldLegend>
+          <FieldGroup>
+            <div className="grid gap-4 sm:grid-cols-[160px_1fr]">
+              <FormField
+                control={form.control}
+                name="cep"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>CEP</FormLabel>
+                    <FormControl>
+                      <Input
+                        inputMode="numeric"
+                        autoComplete="postal-code"
+                        placeholder="00000-000"
+                        {...field}
+                        onChange={(e) => field.onChange(formatCep(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="street"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rua</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="address-line1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-[160px_1fr]">
+              <FormField
+                control={form.control}
+                name="number"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Número</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="complement"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Complemento</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="address-line2" placeholder="Opcional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-[1fr_1fr_120px]">
+              <FormField
+                control={form.control}
+                name="neighborhood"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bairro</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="city"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cidade</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="address-level2" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="state"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estado</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="UF" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {BRAZILIAN_STATES.map((state) => (
+                          <SelectItem key={state} value={state}>
+                            {state}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </FieldGroup>
+        </FieldSet>
+
+        <FieldSet>
+          <FieldLegend variant="label">Pagamento</FieldLegend>
+          <FieldGroup>
+            <FormField
+              control={form.control}
+              name="method"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange}>
+                      {paymentMethods.map((paymentMethod) => (
+                        <FormItem key={paymentMethod} className="flex items-center gap-2">
+                          <FormControl>
+                            <RadioGroupItem value={paymentMethod} />
+                          </FormControl>
+                          <FormLabel className="font-normal">
+                            {PAYMENT_METHOD_LABELS[paymentMethod]}
+                          </FormLabel>
+                        </FormItem>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {method === 'credit_card' && (
+              <FormField
+                control={form.control}
+                name="installments"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parcelas</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full sm:w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {installmentOptions.map((count) => (
+                          <SelectItem key={count} value={String(count)}>
+                            {count === 1
+                              ? `À vista (${formatPrice(total)})`
+                              : `${count}x de ${formatPrice(total / count)} sem juros`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </FieldGroup>
+        </FieldSet>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Observações</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder="Opcional" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" size="lg" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? 'Finalizando pedido...' : 'Finalizar pedido'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export { CheckoutForm };
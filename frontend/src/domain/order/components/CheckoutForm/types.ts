@@ -0,0 +1,13 @@
+import type { CheckoutPayload } from '../../types/api';
+import type { OrderCustomer } from '../../types/models';
+
+export interface CheckoutFormProps {
+  /** Contact of the signed-in user, used to prefill the form */
+  customer?: Partial<OrderCustomer>;
+  /** Most credit card installments the cart can be split in */
+  maxInstallments: number;
+  /** Cart total, used to show the installment values */
+  total: number;
+  isSubmitting?: boolean;
+  onSubmit: (payload: Omit<CheckoutPayload, 'expectedTotal'>) => Promise<void> | void;
+}
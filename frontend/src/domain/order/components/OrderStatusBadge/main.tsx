@@ -0,0 +1,23 @@
+import { Badge } from '@/core/components/badge';
+import { ORDER_STATUS_LABELS } from '../../constants';
+import type { OrderStatus } from '../../types/models';
+import type { OrderStatusBadgeProps } from './types';
+
+const STATUS_VARIANTS: Record<OrderStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  confirmed: 'secondary',
+  in_production: 'secondary',
+  shipped: 'secondary',
+  delivered: 'default',
+  cancelled: 'destructive',
+};
+
+function OrderStatusBadge({ status, className }: OrderStatusBadgeProps) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} className={className}>
+      {ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+export { OrderStatusBadge };
@@ -0,0 +1,6 @@
+import type { OrderStatus } from '../../types/models';
+
+export interface OrderStatusBadgeProps {
+  status: OrderStatus;
+  className?: string;
+}
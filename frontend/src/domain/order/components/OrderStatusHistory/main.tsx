@@ -0,0 +1,31 @@
+import { cn } from '@/core/lib/utils';
+import { ORDER_STATUS_LABELS } from '../../constants';
+import { formatOrderDate } from '../../utils';
+import type { OrderStatusHistoryProps } from './types';
+
+/**
+ * Timeline of the status changes of an order, newest first
+ */
+function OrderStatusHistory({ history, className }: OrderStatusHistoryProps) {
+  const entries = [...history].reverse();
+
+  return (
+    <ol className={cn('border-muted space-y-4 border-l pl-4', className)}>
+      {entries.map((entry, index) => (
+        <li key={`${entry.status}-${entry.date}`} className="relative">
+          <span
+            className={cn(
+              'absolute top-1.5 -left-[21px] h-2.5 w-2.5 rounded-full',
+              index === 0 ? 'bg-primary' : 'bg-muted-foreground/40'
+            )}
+          />
+          <p className="text-sm font-medium">{ORDER_STATUS_LABELS[entry.status]}</p>
+          <p className="text-muted-foreground text-xs">{formatOrderDate(entry.date)}</p>
+          {entry.note && <p className="mt-1 text-sm">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export { OrderStatusHistory };
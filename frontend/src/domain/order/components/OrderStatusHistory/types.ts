@@ -0,0 +1,6 @@
+import type { OrderStatusChange } from '../../types/models';
+
+export interface OrderStatusHistoryProps {
+  history: OrderStatusChange[];
+  className?: string;
+}
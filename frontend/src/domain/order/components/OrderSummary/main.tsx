@@ -0,0 +1,68 @@
+import { Separator } from '@/core/components/separator';
+import { cn } from '@/core/lib/utils';
+import { formatPrice } from '@/domain/product/utils';
+import type { OrderSummaryProps } from './types';
+
+/**
+ * Order lines with the prices paid and the order totals
+ */
+function OrderSummary({ items, listTotal, discount, total, className }: OrderSummaryProps) {
+  return (
+    <div className={cn('space-y-4', className)}>
+      <ul className="space-y-3">
+        {items.map((line) => (
+          <li key={`${line.productId}-${line.variantId ?? ''}`} className="flex gap-3">
+            <img
+              src={line.imageUrl}
+              alt={line.name}
+              loading="lazy"
+              className="bg-muted h-16 w-16 shrink-0 rounded-md object-cover"
+            />
+            <div className="min-w-0 flex-1">
+              <p className="line-clamp-2 text-sm font-medium">{line.name}</p>
+              {line.variantLabel && (
+                <p className="text-muted-foreground text-xs">
+                  {line.variantLabel} · {line.sku}
+                </p>
+              )}
+              <p className="text-muted-foreground text-xs">
+                {line.quantity} × {formatPrice(line.unitPrice)}
+                {line.unitPrice < line.listPrice && (
+                  <span className="ml-1 line-through">{formatPrice(line.listPrice)}</span>
+                )}
+              </p>
+              {line.reservedQuantity < line.quantity && line.leadTimeDays !== null && (
+                <p className="text-muted-foreground text-xs">
+                  {line.reservedQuantity === 0
+                    ? 'Sob encomenda'
+                    : `${line.quantity - line.reservedQuantity} sob encomenda`}
+                  : até {line.leadTimeDays} dias
+                </p>
+              )}
+            </div>
+            <span className="text-sm font-semibold">{formatPrice(line.lineTotal)}</span>
+          </li>
+        ))}
+      </ul>
+      <Separator />
+      <dl className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <dt className="text-muted-foreground">Subtotal</dt>
+          <dd>{formatPrice(listTotal)}</dd>
+        </div>
+        {discount > 0 && (
+          <div className="text-destructive flex justify-between">
+            <dt>Descontos</dt>
+            <dd>-{formatPrice(discount)}</dd>
+          </div>
+        )}
+        <div className="flex justify-between text-base font-semibold">
+          <dt>Total</dt>
+          <dd>{formatPrice(total)}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
+
+export { OrderSummary };
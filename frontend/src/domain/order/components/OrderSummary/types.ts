@@ -0,0 +1,9 @@
+import type { OrderLine } from '../../types/models';
+
+export interface OrderSummaryProps {
+  items: OrderLine[];
+  listTotal: number;
+  discount: number;
+  total: number;
+  className?: string;
+}
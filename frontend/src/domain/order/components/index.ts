@@ -0,0 +1,4 @@
+export * from './CheckoutForm';
+export * from './OrderStatusBadge';
+export * from './OrderStatusHistory';
+export * from './OrderSummary';
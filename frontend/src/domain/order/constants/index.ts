@@ -0,0 +1,55 @@
+import type { OrderStatus, PaymentMethod, PaymentStatus } from '../types/models';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Aguardando confirmação',
+  confirmed: 'Confirmado',
+  in_production: 'Em produção',
+  shipped: 'Enviado',
+  delivered: 'Entregue',
+  cancelled: 'Cancelado',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'Pix',
+  credit_card: 'Cartão de crédito',
+  boleto: 'Boleto',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Aguardando pagamento',
+  authorized: 'Aprovado',
+  declined: 'Recusado',
+  refunded: 'Estornado',
+};
+
+export const BRAZILIAN_STATES = [
+  'AC',
+  'AL',
+  'AP',
+  'AM',
+  'BA',
+  'CE',
+  'DF',
+  'ES',
+  'GO',
+  'MA',
+  'MT',
+  'MS',
+  'MG',
+  'PA',
+  'PB',
+  'PR',
+  'PE',
+  'PI',
+  'RJ',
+  'RN',
+  'RS',
+  'RO',
+  'RR',
+  'SC',
+  'SP',
+  'SE',
+  'TO',
+];
+
+export const ORDER_NOTES_MAX_LENGTH = 500;
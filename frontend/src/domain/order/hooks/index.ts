@@ -0,0 +1,7 @@
+export * from './useCheckout';
+export * from './useOrderHistory';
+export * from './useOrderDetail';
+export * from './useOrderMutations';
+export * from './useAdminOrderList';
+export * from './useAdminOrder';
+export * from './useAdminOrderMutations';
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { orderAdminService } from '../../services/orderAdminService';
+import type { UseAdminOrderOptions } from './types';
+
+export const useAdminOrder = (options: UseAdminOrderOptions) => {
+  const queryKey = ['admin', 'order', options.id];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => orderAdminService.getById(options.id),
+    enabled: options.enabled !== false && !!options.id,
+  });
+
+  return {
+    order: data,
+    isLoading,
+    error,
+    refetch,
+  };
+};
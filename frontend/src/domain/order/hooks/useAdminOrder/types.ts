@@ -0,0 +1,4 @@
+export interface UseAdminOrderOptions {
+  id: number;
+  enabled?: boolean;
+}
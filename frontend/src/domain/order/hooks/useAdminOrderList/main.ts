@@ -0,0 +1,25 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { orderAdminService } from '../../services/orderAdminService';
+import type { UseAdminOrderListOptions } from './types';
+
+export const useAdminOrderList = (options: UseAdminOrderListOptions) => {
+  const queryKey = ['admin', 'orders', options.filters];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => orderAdminService.list(options.filters),
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    orders: data?.items ?? [],
+    total: data?.total ?? 0,
+    page: data?.page ?? 1,
+    totalPages: data?.totalPages ?? 1,
+    hasNext: data?.hasNext ?? false,
+    hasPrevious: data?.hasPrevious ?? false,
+    isLoading,
+    error,
+    refetch,
+  };
+};
@@ -0,0 +1,5 @@
+import type { AdminOrderListParams } from '../../types/api';
+
+export interface UseAdminOrderListOptions {
+  filters: AdminOrderListParams;
+}
@@ -0,0 +1,21 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { orderAdminService } from '../../services/orderAdminService';
+import type { OrderStatusPayload } from '../../types/api';
+
+export const useAdminOrderMutations = () => {
+  const queryClient = useQueryClient();
+
+  const updateStatusMutation = useMutation({
+    mutationFn: ({ id, payload }: { id: number; payload: OrderStatusPayload }) =>
+      orderAdminService.updateStatus(id, payload),
+    onSuccess: (order) => {
+      queryClient.setQueryData(['admin', 'order', order.id], order);
+      queryClient.invalidateQueries({ queryKey: ['admin', 'orders'] });
+    },
+  });
+
+  return {
+    updateStatus: updateStatusMutation.mutateAsync,
+    isUpdating: updateStatusMutation.isPending,
+  };
+};
@@ -0,0 +1,23 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { orderService } from '../../services/orderService';
+import type { CheckoutPayload } from '../../types/api';
+
+export const useCheckout = () => {
+  const queryClient = useQueryClient();
+
+  const { mutateAsync, isPending, error } = useMutation({
+    mutationFn: (payload: CheckoutPayload) => orderService.checkout(payload),
+    onSuccess: (order) => {
+      queryClient.setQueryData(['order', order.code], order);
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+    // Placed orders empty the cart; declined ones may have dropped unavailable products
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['cart'] }),
+  });
+
+  return {
+    checkout: mutateAsync,
+    isPending,
+    error,
+  };
+};
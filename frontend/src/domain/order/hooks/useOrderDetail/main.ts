@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { orderService } from '../../services/orderService';
+import type { UseOrderDetailOptions } from './types';
+
+export const useOrderDetail = (options: UseOrderDetailOptions) => {
+  const queryKey = ['order', options.code, options.email];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => orderService.getByCode(options.code, options.email),
+    enabled: options.enabled !== false && !!options.code,
+    retry: false,
+  });
+
+  return {
+    order: data,
+    isLoading,
+    error,
+    refetch,
+  };
+};
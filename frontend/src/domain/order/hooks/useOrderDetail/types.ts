@@ -0,0 +1,6 @@
+export interface UseOrderDetailOptions {
+  code: string;
+  /** Email given at checkout, for guests */
+  email?: string;
+  enabled?: boolean;
+}
@@ -0,0 +1,26 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { orderService } from '../../services/orderService';
+import type { UseOrderHistoryOptions } from './types';
+
+export const useOrderHistory = (options: UseOrderHistoryOptions) => {
+  const queryKey = ['orders', options.filters];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => orderService.list(options.filters),
+    enabled: options.enabled !== false,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    orders: data?.items ?? [],
+    total: data?.total ?? 0,
+    page: data?.page ?? 1,
+    totalPages: data?.totalPages ?? 1,
+    hasNext: data?.hasNext ?? false,
+    hasPrevious: data?.hasPrevious ?? false,
+    isLoading,
+    error,
+    refetch,
+  };
+};
@@ -0,0 +1,6 @@
+import type { OrderListParams } from '../../types/api';
+
+export interface UseOrderHistoryOptions {
+  filters: OrderListParams;
+  enabled?: boolean;
+}
@@ -0,0 +1,20 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { orderService } from '../../services/orderService';
+
+export const useOrderMutations = () => {
+  const queryClient = useQueryClient();
+
+  const cancelMutation = useMutation({
+    mutationFn: ({ code, note }: { code: string; note: string | null }) =>
+      orderService.cancel(code, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['order'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+
+  return {
+    cancelOrder: cancelMutation.mutateAsync,
+    isCancelling: cancelMutation.isPending,
+  };
+};
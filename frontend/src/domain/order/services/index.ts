@@ -0,0 +1,2 @@
+export * from './orderService';
+export * from './orderAdminService';
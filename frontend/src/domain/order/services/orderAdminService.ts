@@ -0,0 +1,54 @@
+/**
+ * @service OrderAdminService
+ * @domain order
+ * @type REST API
+ */
+import { authenticatedClient } from '@/core/lib/api';
+import type {
+  AdminOrderListParams,
+  AdminOrderListResponse,
+  OrderListPagination,
+  OrderStatusPayload,
+} from '../types/api';
+import type { AdminOrder } from '../types/models';
+
+export const orderAdminService = {
+  /**
+   * List orders with filters and pagination
+   */
+  async list(params?: AdminOrderListParams): Promise<AdminOrderListResponse> {
+    const { data } = await authenticatedClient.get<{
+      success: boolean;
+      data: Pick<AdminOrderListResponse, 'items'>;
+      metadata: { pagination: OrderListPagination };
+    }>('/order', {
+      params: {
+        ...params,
+        status: params?.status?.join(',') || undefined,
+        paymentStatus: params?.paymentStatus?.join(',') || undefined,
+      },
+    });
+    return { ...data.data, ...data.metadata.pagination };
+  },
+
+  /**
+   * Get order by ID
+   */
+  async getById(id: number): Promise<AdminOrder> {
+    const { data } = await authenticatedClient.get<{ success: boolean; data: AdminOrder }>(
+      `/order/${id}`
+    );
+    return data.data;
+  },
+
+  /**
+   * Move an order to another status
+   */
+  async updateStatus(id: number, payload: OrderStatusPayload): Promise<AdminOrder> {
+    const { data } = await authenticatedClient.post<{ success: boolean; data: AdminOrder }>(
+      `/order/${id}/status`,
+      payload
+    );
+    return data.data;
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * @service OrderService
+ * @domain order
+ * @type REST API
+ */
+import { publicClient } from '@/core/lib/api';
+import { useCartStore } from '@/core/stores/cart';
+import type {
+  CheckoutPayload,
+  OrderListPagination,
+  OrderListParams,
+  OrderListResponse,
+} from '../types/api';
+import type { Order } from '../types/models';
+
+/**
+ * Identifies the customer: the signed-in user, and for checkout the anonymous cart token
+ */
+const customerHeaders = () => {
+  const headers: Record<string, string> = {};
+  const authToken = localStorage.getItem('auth_token');
+  const { token } = useCartStore.getState();
+  if (authToken) headers.Authorization = `Bearer ${authToken}`;
+  if (token) headers['X-Cart-Token'] = token;
+  return headers;
+};
+
+export const orderService = {
+  /**
+   * Place an order from the current cart
+   */
+  async checkout(payload: CheckoutPayload): Promise<Order> {
+    const { data } = await publicClient.post<{ success: boolean; data: Order }>(
+      '/order/checkout',
+      payload,
+      { headers: customerHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * List the orders of the signed-in customer, newest first
+   */
+  async list(params?: OrderListParams): Promise<OrderListResponse> {
+    const { data } = await publicClient.get<{
+      success: boolean;
+      data: Pick<OrderListResponse, 'items'>;
+      metadata: { pagination: OrderListPagination };
+    }>('/order', { params, headers: customerHeaders() });
+    return { ...data.data, ...data.metadata.pagination };
+  },
+
+  /**
+   * Get an order by code; guests identify it with the email given at checkout
+   */
+  async getByCode(code: string, email?: string): Promise<Order> {
+    const { data } = await publicClient.get<{ success: boolean; data: Order }>(
+      `/order/${encodeURIComponent(code)}`,
+      { params: { email }, headers: customerHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * Cancel an order awaiting confirmation
+   */
+  async cancel(code: string, note: string | null): Promise<Order> {
+    const { data } = await publicClient.post<{ success: boolean; data: Order }>(
+      `/order/${encodeURIComponent(code)}/cancel`,
+      { note },
+      { headers: customerHeaders() }
+    );
+    return data.data;
+  },
+};
@@ -0,0 +1,67 @@
+import type {
+  AdminOrderListItem,
+  OrderCustomer,
+  OrderListItem,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+} from './models';
+
+export interface CheckoutPayload {
+  customer: OrderCustomer;
+  deliveryAddress: {
+    cep: string;
+    street: string;
+    number: string;
+    complement: string | null;
+    neighborhood: string;
+    city: string;
+    state: string;
+  };
+  payment: {
+    method: PaymentMethod;
+    installments: number;
+  };
+  notes: string | null;
+  /** Cart total shown to the customer; checkout fails when prices changed since */
+  expectedTotal: number;
+}
+
+export interface OrderListParams {
+  page?: number;
+  pageSize?: number;
+}
+
+export interface AdminOrderListParams extends OrderListParams {
+  status?: OrderStatus[];
+  paymentStatus?: PaymentStatus[];
+  /** Order code, customer name or customer email */
+  search?: string;
+  /** YYYY-MM-DD */
+  dateFrom?: string;
+  /** YYYY-MM-DD */
+  dateTo?: string;
+  sortBy?: 'date_desc' | 'date_asc' | 'total_desc' | 'total_asc';
+}
+
+export interface OrderListPagination {
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+}
+
+export interface OrderListResponse extends OrderListPagination {
+  items: OrderListItem[];
+}
+
+export interface AdminOrderListResponse extends OrderListPagination {
+  items: AdminOrderListItem[];
+}
+
+export interface OrderStatusPayload {
+  status: OrderStatus;
+  note: string | null;
+}
@@ -0,0 +1,120 @@
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'in_production'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled';
+
+export type PaymentMethod = 'pix' | 'credit_card' | 'boleto';
+
+export type PaymentStatus = 'pending' | 'authorized' | 'declined' | 'refunded';
+
+/**
+ * Product line copied from the cart at checkout; later product changes do not affect it
+ */
+export interface OrderLine {
+  productId: number;
+  /** Null for products without variants */
+  variantId: number | null;
+  sku: string | null;
+  /** Option values of the variant at checkout, e.g. "Linho / Bege" */
+  variantLabel: string | null;
+  name: string;
+  imageUrl: string;
+  categoryName: string;
+  quantity: number;
+  listPrice: number;
+  unitPrice: number;
+  lineTotal: number;
+  /** Units taken from stock; the rest of the quantity is made to order */
+  reservedQuantity: number;
+  /** Lead time of the units made to order, null when the whole line ships from stock */
+  leadTimeDays: number | null;
+}
+
+export interface OrderCustomer {
+  name: string;
+  email: string;
+  /** Digits only, with area code */
+  phone: string;
+}
+
+export interface OrderAddress {
+  /** Formatted as 00000-000 */
+  cep: string;
+  street: string;
+  number: string;
+  complement: string | null;
+  neighborhood: string;
+  city: string;
+  state: string;
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  note: string | null;
+  date: string;
+}
+
+/**
+ * Order as shown to the customer who placed it
+ */
+export interface Order {
+  code: string;
+  status: OrderStatus;
+  canCancel: boolean;
+  customer: OrderCustomer;
+  deliveryAddress: OrderAddress;
+  items: OrderLine[];
+  itemCount: number;
+  listTotal: number;
+  discount: number;
+  total: number;
+  payment: {
+    method: PaymentMethod;
+    installments: number;
+    status: PaymentStatus;
+  };
+  notes: string | null;
+  statusHistory: OrderStatusChange[];
+  dateCreated: string;
+}
+
+export interface OrderListItem {
+  code: string;
+  status: OrderStatus;
+  imageUrl: string;
+  itemCount: number;
+  total: number;
+  dateCreated: string;
+}
+
+export interface AdminOrderListItem {
+  id: number;
+  code: string;
+  status: OrderStatus;
+  customerName: string;
+  customerEmail: string;
+  city: string;
+  state: string;
+  itemCount: number;
+  total: number;
+  paymentMethod: PaymentMethod;
+  paymentStatus: PaymentStatus;
+  dateCreated: string;
+}
+
+export interface AdminOrder extends Omit<Order, 'canCancel' | 'payment' | 'statusHistory'> {
+  id: number;
+  /** Customer user, null for guest checkouts */
+  userId: number | null;
+  /** Statuses the order may move to next */
+  allowedTransitions: OrderStatus[];
+  payment: Order['payment'] & {
+    provider: string;
+    transactionId: string | null;
+  };
+  statusHistory: (OrderStatusChange & { userId: number | null })[];
+  dateModified: string;
+}
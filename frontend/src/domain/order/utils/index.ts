@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { getApiErrorMessage } from '@/core/lib/api';
+import type { CartLine } from '@/domain/cart/types/models';
+
+/**
+ * Masks a CEP while it is typed, e.g. "29100000" → "29100-000"
+ */
+export const formatCep = (value: string): string => {
+  const digits = value.replace(/\D/g, '').slice(0, 8);
+  return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+};
+
+/**
+ * Masks a phone number with area code while it is typed, e.g. "27999990000" → "(27) 99999-0000"
+ */
+export const formatPhone = (value: string): string => {
+  const digits = value.replace(/\D/g, '').slice(0, 11);
+  if (digits.length <= 2) return digits;
+  const split = digits.length === 11 ? 7 : 6;
+  if (digits.length <= split) return `(${digits.slice(0, 2)}) ${digits.slice(2)}`;
+  return `(${digits.slice(0, 2)}) ${digits.slice(2, split)}-${digits.slice(split)}`;
+};
+
+const dateFormatter = new Intl.DateTimeFormat('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Formats an order timestamp, e.g. "19/10/2026, 14:59"
+ */
+export const formatOrderDate = (value: string): string => dateFormatter.format(new Date(value));
+
+/**
+ * Most installments a cart can be split in: orders are split only as far as every product
+ * offers interest-free installments
+ */
+export const getMaxInstallments = (lines: CartLine[]): number =>
+  lines.reduce(
+    (max, line) =>
+      Math.min(
+        max,
+        line.product.price?.installments?.interestFree ? line.product.price.installments.count : 1
+      ),
+    Infinity
+  );
+
+/**
+ * Explains why a checkout failed, using the details the server sends for each business rule
+ */
+export const getCheckoutErrorMessage = (error: unknown): string => {
+  const details = axios.isAxiosError(error) ? error.response?.data?.error?.details : undefined;
+  if (details?.code) {
+    return `Pagamento recusado. O pedido ${details.code} foi cancelado; tente outra forma de pagamento.`;
+  }
+  if (details?.removedProductIds) {
+    return 'Alguns produtos não estão mais disponíveis e foram removidos do carrinho. Revise seu pedido.';
+  }
+  if (details?.total !== undefined) {
+    return 'Os preços mudaram desde que você revisou o carrinho. Confira o novo total.';
+  }
+  return getApiErrorMessage(error, 'Não foi possível finalizar o pedido');
+};
@@ -0,0 +1,40 @@
+import { Badge } from '@/core/components/badge';
+import { cn } from '@/core/lib/utils';
+import { formatAvailability } from '../../utils';
+import type { ProductAvailabilityStatus } from '../../types/models';
+import type { ProductAvailabilityBadgeProps } from './types';
+
+const STATUS_VARIANTS: Record<
+  ProductAvailabilityStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  in_stock: 'secondary',
+  low_stock: 'outline',
+  made_to_order: 'outline',
+  out_of_stock: 'destructive',
+};
+
+function ProductAvailabilityBadge({
+  availability,
+  size = 'sm',
+  className,
+}: ProductAvailabilityBadgeProps) {
+  const { status, leadTimeDays } = availability;
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <Badge variant={STATUS_VARIANTS[status]}>{formatAvailability(availability)}</Badge>
+      {size === 'lg' && status !== 'made_to_order' && (
+        <p className="text-muted-foreground text-sm">
+          {status === 'out_of_stock'
+            ? 'Este produto não está disponível no momento.'
+            : leadTimeDays !== null
+              ? `Pronta entrega; unidades além do estoque são feitas sob encomenda em até ${leadTimeDays} dias.`
+              : 'Pronta entrega.'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export { ProductAvailabilityBadge };
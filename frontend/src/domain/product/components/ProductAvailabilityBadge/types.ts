@@ -0,0 +1,8 @@
+import type { ProductAvailability } from '../../types/models';
+
+export interface ProductAvailabilityBadgeProps {
+  availability: ProductAvailability;
+  /** `lg` is used on the product page and also explains when units beyond the stock ship */
+  size?: 'sm' | 'lg';
+  className?: string;
+}
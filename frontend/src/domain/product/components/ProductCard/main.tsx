@@ -1,8 +1,13 @@
 import { Card, CardContent } from '@/core/components/card';
 import { Badge } from '@/core/components/badge';
 import { cn } from '@/core/lib/utils';
+import { ProductPriceTag } from '../ProductPriceTag';
+import { ProductAvailabilityBadge } from '../ProductAvailabilityBadge';
 import type { ProductCardProps } from './types';
 import { useNavigation } from '@/core/hooks/useNavigation';
+import { AddToCartButton } from '@/domain/cart/components/AddToCartButton';
+import { WishlistButton } from '@/domain/wishlist/components/WishlistButton';
+import { CompareButton } from '@/domain/compare/components/CompareButton';
 
 function ProductCard({ product, className }: ProductCardProps) {
   const { navigate } = useNavigation();
@@ -26,12 +31,21 @@ function ProductCard({ product, className }: ProductCardProps) {
           loading="lazy"
           className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
         />
+        <WishlistButton
+          productId={product.id}
+          variant="secondary"
+          className="absolute top-2 right-2 rounded-full"
+        />
       </div>
       <CardContent className="space-y-2 p-4">
         <Badge variant="secondary" className="text-xs">
-          {product.category}
+          {product.category.name}
         </Badge>
         <h3 className="line-clamp-2 text-base font-semibold leading-tight">{product.name}</h3>
+        <ProductPriceTag price={product.price} />
+        <ProductAvailabilityBadge availability={product.availability} />
+        <AddToCartButton product={product} variant="outline" size="sm" className="w-full" />
+        <CompareButton product={product} size="sm" className="w-full" />
       </CardContent>
     </Card>
   );
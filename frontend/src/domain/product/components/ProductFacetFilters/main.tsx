@@ -0,0 +1,63 @@
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/core/components/accordion';
+import { Checkbox } from '@/core/components/checkbox';
+import { Label } from '@/core/components/label';
+import { cn } from '@/core/lib/utils';
+import { PRODUCT_FACET_LABELS } from '../../constants';
+import type { ProductFacetKey } from '../../types/models';
+import type { ProductFacetFiltersProps } from './types';
+
+const facetKeys = Object.keys(PRODUCT_FACET_LABELS) as ProductFacetKey[];
+
+function ProductFacetFilters({ facets, selected, onChange, className }: ProductFacetFiltersProps) {
+  const toggleValue = (facet: ProductFacetKey, value: string, checked: boolean) => {
+    const current = selected[facet] ?? [];
+    onChange(facet, checked ? [...current, value] : current.filter((item) => item !== value));
+  };
+
+  const visibleKeys = facetKeys.filter((facet) => (facets?.[facet].length ?? 0) > 0);
+
+  if (!facets || visibleKeys.length === 0) {
+    return null;
+  }
+
+  return (
+    <Accordion type="multiple" defaultValue={visibleKeys} className={cn('w-full', className)}>
+      {visibleKeys.map((facet) => (
+        <AccordionItem key={facet} value={facet}>
+          <AccordionTrigger>{PRODUCT_FACET_LABELS[facet]}</AccordionTrigger>
+          <AccordionContent>
+            <ul className="space-y-2">
+              {facets[facet].map((option) => {
+                const id = `facet-${facet}-${option.value}`;
+                const isChecked = selected[facet]?.includes(option.value) ?? false;
+                return (
+                  <li key={option.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={isChecked}
+                      disabled={!isChecked && option.count === 0}
+                      onCheckedChange={(checked) =>
+                        toggleValue(facet, option.value, checked === true)
+                      }
+                    />
+                    <Label htmlFor={id} className="flex-1 font-normal">
+                      {option.label}
+                    </Label>
+                    <span className="text-muted-foreground text-xs">{option.count}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
+
+export { ProductFacetFilters };
@@ -0,0 +1,10 @@
+import type { ProductFacetKey, ProductFacets } from '../../types/models';
+
+export type ProductFacetSelection = Partial<Record<ProductFacetKey, string[]>>;
+
+export interface ProductFacetFiltersProps {
+  facets?: ProductFacets;
+  selected: ProductFacetSelection;
+  onChange: (facet: ProductFacetKey, values: string[]) => void;
+  className?: string;
+}
@@ -0,0 +1,1088 @@
+import { useMemo } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Textarea } from '@/core/components/textarea';
+import { PlusIcon, Trash2Icon } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { FieldGroup, FieldLegend, FieldSet } from '@/core/components/field';
+import { collectAttributeDefinitions, sortCategoryTree } from '@/domain/category/utils';
+import type { CategoryAttributeDefinition } from '@/domain/category/types/models';
+import type { ProductVariantPayload } from '../../types/api';
+import type { AdminProductVariant, ProductAttributeValue } from '../../types/models';
+import type { ProductFormProps } from './types';
+
+const NOT_INFORMED = 'none';
+
+const measurementSchema = (max: number, unit: string) =>
+  z
+    .string()
+    .refine(
+      (value) => value === '' || (Number(value) > 0 && Number(value) <= max),
+      `Use um valor entre 0 e ${max} ${unit}`
+    );
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const listSchema = (name: string) =>
+  z
+    .string()
+    .refine((value) => splitList(value).length <= 20, `Informe no máximo 20 ${name}`)
+    .refine(
+      (value) => splitList(value).every((item) => item.length <= 100),
+      'Cada item deve ter no máximo 100 caracteres'
+    );
+
+const countSchema = (min: number, max: number, message: string) =>
+  z
+    .string()
+    .refine(
+      (value) => /^\d+$/.test(value.trim()) && Number(value) >= min && Number(value) <= max,
+      message
+    );
+
+// Prices are typed with a decimal comma; an empty regular price means "preço sob consulta"
+const parseAmount = (value: string) => Number(value.trim().replace(/\./g, '').replace(',', '.'));
+const formatAmount = (value: number | null | undefined) =>
+  value === null || value === undefined ? '' : value.toFixed(2).replace('.', ',');
+
+/** Empty when the product is not made to order */
+const leadTimeSchema = z
+  .string()
+  .refine(
+    (value) =>
+      value.trim() === '' ||
+      (/^\d+$/.test(value.trim()) && Number(value) >= 1 && Number(value) <= 365),
+    'Use de 1 a 365 dias'
+  );
+
+const optionSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Informe o nome da opção')
+    .max(50, 'O nome deve ter no máximo 50 caracteres'),
+  values: listSchema('valores').refine(
+    (value) => splitList(value).length > 0,
+    'Informe ao menos um valor'
+  ),
+});
+
+// Variants without a price, dimensions or weight use those of the product
+const variantSchema = z
+  .object({
+    /** Stored variant ID, undefined for new variants */
+    variantId: z.number().optional(),
+    sku: z
+      .string()
+      .trim()
+      .min(1, 'Informe o SKU')
+      .max(50, 'O SKU deve ter no máximo 50 caracteres')
+      .regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, 'Use letras, números, ponto, hífen ou sublinhado'),
+    /** Option values keyed by option name */
+    options: z.record(z.string(), z.string()),
+    price: z.string(),
+    salePrice: z.string(),
+    stock: countSchema(0, 100000, 'Use um número inteiro entre 0 e 100000'),
+    leadTimeDays: leadTimeSchema,
+    width: measurementSchema(1000, 'cm'),
+    height: measurementSchema(1000, 'cm'),
+    depth: measurementSchema(1000, 'cm'),
+    weight: measurementSchema(2000, 'kg'),
+  })
+  .superRefine((values, ctx) => {
+    if (values.price.trim() === '') {
+      if (values.salePrice.trim() !== '') {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['price'],
+          message: 'Informe o preço para definir uma promoção',
+        });
+      }
+      return;
+    }
+
+    const price = parseAmount(values.price);
+    if (!Number.isFinite(price) || price <= 0) {
+      ctx.addIssue({ code: 'custom', path: ['price'], message: 'Informe um preço válido' });
+      return;
+    }
+
+    if (values.salePrice.trim() !== '') {
+      const salePrice = parseAmount(values.salePrice);
+      if (!Number.isFinite(salePrice) || salePrice <= 0 || salePrice >= price) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['salePrice'],
+          message: 'O preço promocional deve ser menor que o preço normal',
+        });
+      }
+    }
+  });
+
+const measurementFields = [
+  { name: 'width', label: 'Largura (cm)' },
+  { name: 'height', label: 'Altura (cm)' },
+  { name: 'depth', label: 'Profundidade (cm)' },
+  { name: 'weight', label: 'Peso (kg)' },
+] as const;
+
+const productSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Informe o nome do produto')
+    .max(200, 'O nome deve ter no máximo 200 caracteres'),
+  description: z.string().max(5000, 'A descrição deve ter no máximo 5000 caracteres'),
+  categoryId: z.string().min(1, 'Selecione uma categoria'),
+  imageUrl: z
+    .string()
+    .trim()
+    .min(1, 'Informe a URL da imagem principal')
+    .max(500, 'A URL deve ter no máximo 500 caracteres'),
+  additionalImages: z.string(),
+  width: measurementSchema(1000, 'cm'),
+  height: measurementSchema(1000, 'cm'),
+  depth: measurementSchema(1000, 'cm'),
+  weight: measurementSchema(2000, 'kg'),
+  materials: listSchema('materiais'),
+  finishes: listSchema('acabamentos'),
+  /** Category attribute values as typed in the form, keyed by attribute key */
+  attributes: z.record(z.string(), z.string()),
+  price: z.string(),
+  salePrice: z.string(),
+  saleStartsAt: z.string(),
+  saleEndsAt: z.string(),
+  maxInstallments: z.string(),
+  installmentInterestRate: z.string(),
+  stock: countSchema(0, 100000, 'Use um número inteiro entre 0 e 100000'),
+  leadTimeDays: leadTimeSchema,
+  lowStockThreshold: countSchema(0, 100000, 'Use um número inteiro entre 0 e 100000'),
+  options: z
+    .array(optionSchema)
+    .max(3, 'Use no máximo 3 opções')
+    .refine(
+      (options) => new Set(options.map((o) => o.name.trim())).size === options.length,
+      'Os nomes das opções devem ser únicos'
+    ),
+  variants: z.array(variantSchema).max(50, 'Cadastre no máximo 50 variações'),
+});
+
+type ProductFormValues = z.infer<typeof productSchema>;
+type VariantFormValues = ProductFormValues['variants'][number];
+
+const toNullable = (value: string) => (value.trim() === '' ? null : value.trim());
+const toMeasurement = (value: string) => (value === '' ? null : Number(value));
+const fromMeasurement = (value: number | null | undefined) =>
+  value === null || value === undefined ? '' : String(value);
+
+// Attribute values the selected category does not define are dropped on submit
+const toAttributeValues = (
+  definitions: CategoryAttributeDefinition[],
+  values: Record<string, string>
+): Record<string, ProductAttributeValue> =>
+  Object.fromEntries(
+    definitions.flatMap<[string, ProductAttributeValue]>((definition) => {
+      const value = values[definition.key]?.trim() ?? '';
+      if (value === '') return [];
+      if (definition.type === 'number') return [[definition.key, Number(value)]];
+      if (definition.type === 'boolean') return [[definition.key, value === 'true']];
+      return [[definition.key, value]];
+    })
+  );
+
+// datetime-local inputs work in local time without an offset
+const toDateTimeLocal = (iso: string | null | undefined) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromDateTimeLocal = (value: string) => (value === '' ? null : new Date(value).toISOString());
+
+const toVariantValues = (variant: AdminProductVariant): VariantFormValues => ({
+  variantId: variant.id,
+  sku: variant.sku,
+  options: variant.options,
+  price: formatAmount(variant.pricing?.price),
+  salePrice: formatAmount(variant.pricing?.salePrice),
+  stock: String(variant.inventory.stock),
+  leadTimeDays: fromMeasurement(variant.inventory.leadTimeDays),
+  width: fromMeasurement(variant.dimensions?.width),
+  height: fromMeasurement(variant.dimensions?.height),
+  depth: fromMeasurement(variant.dimensions?.depth),
+  weight: fromMeasurement(variant.weight),
+});
+
+// Variant prices follow the sale dates, installments and stock alert of the product
+const toVariantPayload = (
+  variant: VariantFormValues,
+  values: ProductFormValues
+): ProductVariantPayload => {
+  const onSale = variant.salePrice.trim() !== '';
+  const hasDimensions = [variant.width, variant.height, variant.depth].some(Boolean);
+  return {
+    id: variant.variantId,
+    sku: variant.sku,
+    options: variant.options,
+    pricing:
+      variant.price.trim() === ''
+        ? null
+        : {
+            price: parseAmount(variant.price),
+            salePrice: onSale ? parseAmount(variant.salePrice) : null,
+            saleStartsAt: onSale ? fromDateTimeLocal(values.saleStartsAt) : null,
+            saleEndsAt: onSale ? fromDateTimeLocal(values.saleEndsAt) : null,
+            maxInstallments: Number(values.maxInstallments),
+            installmentInterestRate: parseAmount(values.installmentInterestRate),
+          },
+    inventory: {
+      stock: Number(variant.stock),
+      leadTimeDays: toMeasurement(variant.leadTimeDays.trim()),
+      lowStockThreshold: Number(values.lowStockThreshold),
+    },
+    dimensions: hasDimensions
+      ? {
+          width: toMeasurement(variant.width),
+          height: toMeasurement(variant.height),
+          depth: toMeasurement(variant.depth),
+        }
+      : null,
+    weight: toMeasurement(variant.weight),
+  };
+};
+
+const toOptions = (options: ProductFormValues['options']) =>
+  options.map((option) => ({ name: option.name.trim(), values: splitList(option.values) }));
+
+const pricingSchema = productSchema
+  .pick({
+    price: true,
+    salePrice: true,
+    saleStartsAt: true,
+    saleEndsAt: true,
+    maxInstallments: true,
+    installmentInterestRate: true,
+  })
+  .superRefine((values, ctx) => {
+    if (values.price.trim() === '') {
+      if (values.salePrice.trim() !== '') {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['price'],
+          message: 'Informe o preço para definir uma promoção',
+        });
+      }
+      return;
+    }
+
+    const price = parseAmount(values.price);
+    if (!Number.isFinite(price) || price <= 0) {
+      ctx.addIssue({ code: 'custom', path: ['price'], message: 'Informe um preço válido' });
+      return;
+    }
+
+    if (values.salePrice.trim() !== '') {
+      const salePrice = parseAmount(values.salePrice);
+      if (!Number.isFinite(salePrice) || salePrice <= 0 || salePrice >= price) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['salePrice'],
+          message: 'O preço promocional deve ser menor que o preço normal',
+        });
+      }
+    } else if (values.saleStartsAt || values.saleEndsAt) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['salePrice'],
+        message: 'Informe o preço promocional para definir a vigência',
+      });
+    }
+
+    if (values.saleStartsAt && values.saleEndsAt && values.saleEndsAt <= values.saleStartsAt) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['saleEndsAt'],
+        message: 'O fim da promoção deve ser posterior ao início',
+      });
+    }
+
+    const maxInstallments = Number(values.maxInstallments);
+    if (!Number.isInteger(maxInstallments) || maxInstallments < 1 || maxInstallments > 24) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['maxInstallments'],
+        message: 'Use de 1 a 24 parcelas',
+      });
+    }
+
+    const rate = parseAmount(values.installmentInterestRate);
+    if (!Number.isFinite(rate) || rate < 0 || rate > 10) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['installmentInterestRate'],
+        message: 'Use uma taxa entre 0 e 10% ao mês',
+      });
+    }
+  });
+
+const productFormSchema = productSchema.and(pricingSchema);
+
+function ProductForm({ product, categories, isSubmitting, onSubmit, onCancel }: ProductFormProps) {
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: {
+      name: product?.name ?? '',
+      description: product?.description ?? '',
+      categoryId: product ? String(product.categoryId) : '',
+      imageUrl: product?.imageUrl ?? '',
+      additionalImages: product?.additionalImages.join('\n') ?? '',
+      width: fromMeasurement(product?.specifications.dimensions.width),
+      height: fromMeasurement(product?.specifications.dimensions.height),
+      depth: fromMeasurement(product?.specifications.dimensions.depth),
+      weight: fromMeasurement(product?.specifications.weight),
+      materials: product?.specifications.materials.join(', ') ?? '',
+      finishes: product?.specifications.finishes.join(', ') ?? '',
+      attributes: Object.fromEntries(
+        Object.entries(product?.specifications.attributes ?? {}).map(([key, value]) => [
+          key,
+          String(value),
+        ])
+      ),
+      price: formatAmount(product?.pricing?.price),
+      salePrice: formatAmount(product?.pricing?.salePrice),
+      saleStartsAt: toDateTimeLocal(product?.pricing?.saleStartsAt),
+      saleEndsAt: toDateTimeLocal(product?.pricing?.saleEndsAt),
+      maxInstallments: String(product?.pricing?.maxInstallments ?? 10),
+      installmentInterestRate: formatAmount(product?.pricing?.installmentInterestRate ?? 0),
+      stock: String(product?.inventory.stock ?? 0),
+      leadTimeDays: fromMeasurement(product?.inventory.leadTimeDays),
+      lowStockThreshold: String(product?.inventory.lowStockThreshold ?? 2),
+      options:
+        product?.options.map((option) => ({
+          name: option.name,
+          values: option.values.join(', '),
+        })) ?? [],
+      variants: product?.variants.map(toVariantValues) ?? [],
+    },
+  });
+
+  const optionFields = useFieldArray({ control: form.control, name: 'options' });
+  const variantFields = useFieldArray({ control: form.control, name: 'variants' });
+  const options = toOptions(form.watch('options'));
+
+  // Adds a variant for every combination of option values that has none yet
+  const handleGenerateVariants = () => {
+    const axes = options.filter((option) => option.name && option.values.length > 0);
+    if (axes.length === 0) return;
+
+    const combinations = axes.reduce<Record<string, string>[]>(
+      (combos, option) =>
+        combos.flatMap((combo) =>
+          option.values.map((value) => ({ ...combo, [option.name]: value }))
+        ),
+      [{}]
+    );
+    const existing = form.getValues('variants');
+    const missing = combinations.filter(
+      (combo) =>
+        !existing.some((variant) =>
+          axes.every((axis) => variant.options[axis.name] === combo[axis.name])
+        )
+    );
+
+    variantFields.append(
+      missing.map((combo) => ({
+        sku: '',
+        options: combo,
+        price: '',
+        salePrice: '',
+        stock: '0',
+        leadTimeDays: '',
+        width: '',
+        height: '',
+        depth: '',
+        weight: '',
+      }))
+    );
+  };
+
+  const categoryOptions = useMemo(() => sortCategoryTree(categories), [categories]);
+
+  const selectedCategoryId = form.watch('categoryId');
+  const attributeDefinitions = useMemo(
+    () =>
+      selectedCategoryId ? collectAttributeDefinitions(categories, Number(selectedCategoryId)) : [],
+    [categories, selectedCategoryId]
+  );
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    await onSubmit({
+      name: values.name,
+      description: toNullable(values.description),
+      categoryId: Number(values.categoryId),
+      imageUrl: values.imageUrl,
+      additionalImages: values.additionalImages
+        .split('\n')
+        .map((url) => url.trim())
+        .filter(Boolean),
+      specifications: {
+        dimensions: {
+          width: toMeasurement(values.width),
+          height: toMeasurement(values.height),
+          depth: toMeasurement(values.depth),
+        },
+        weight: toMeasurement(values.weight),
+        materials: splitList(values.materials),
+        finishes: splitList(values.finishes),
+        attributes: toAttributeValues(attributeDefinitions, values.attributes),
+      },
+      pricing:
+        values.price.trim() === ''
+          ? null
+          : {
+              price: parseAmount(values.price),
+              salePrice: values.salePrice.trim() === '' ? null : parseAmount(values.salePrice),
+              saleStartsAt: fromDateTimeLocal(values.saleStartsAt),
+              saleEndsAt: fromDateTimeLocal(values.saleEndsAt),
+              maxInstallments: Number(values.maxInstallments),
+              installmentInterestRate: parseAmount(values.installmentInterestRate),
+            },
+      inventory: {
+        stock: Number(values.stock),
+        leadTimeDays: toMeasurement(values.leadTimeDays.trim()),
+        lowStockThreshold: Number(values.lowStockThreshold),
+      },
+      options: toOptions(values.options),
+      variants: values.variants.map((variant) => toVariantPayload(variant, values)),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6" noValidate>
+        <FieldGroup>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome</FormLabel>
+                <FormControl>
+                  <Input autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="categoryId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Categoria</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione uma categoria" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {categoryOptions.map((option) => (
+                      <SelectItem key={option.id} value={String(option.id)}>
+                        <span style={{ paddingLeft: `${(option.level - 1) * 12}px` }}>
+                          {option.name}
+                          {!option.active && ' (inativa)'}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Descrição</FormLabel>
+                <FormControl>
+                  <Textarea rows={4} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="imageUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>URL da imagem principal</FormLabel>
+                <FormControl>
+                  <Input type="url" placeholder="https://" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="additionalImages"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Imagens adicionais</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} placeholder="https://" {...field} />
+                </FormControl>
+                <FormDescription>Uma URL por linha</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </FieldGroup>
+
+        <FieldSet>
+          <FieldLegend variant="label">Especificações</FieldLegend>
+          <div className="grid gap-4 sm:grid-cols-4">
+            {measurementFields.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="materials"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Materiais</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Madeira maciça, Tecido suede" {...field} />
+                  </FormControl>
+                  <FormDescription>Separados por vírgula</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="finishes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Acabamentos e cores</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Cinza, Bege" {...field} />
+                  </FormControl>
+                  <FormDescription>Separados por vírgula</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          {attributeDefinitions.length > 0 && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              {attributeDefinitions.map((definition) => (
+                <FormField
+                  key={definition.key}
+                  control={form.control}
+                  name={`attributes.${definition.key}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {definition.label}
+                        {definition.unit && ` (${definition.unit})`}
+                      </FormLabel>
+                      {definition.type === 'boolean' || definition.type === 'option' ? (
+                        <Select
+                          value={field.value || NOT_INFORMED}
+                          onValueChange={(value) =>
+                            field.onChange(value === NOT_INFORMED ? '' : value)
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NOT_INFORMED}>Não informado</SelectItem>
+                            {definition.type === 'boolean' ? (
+                              <>
+                                <SelectItem value="true">Sim</SelectItem>
+                                <SelectItem value="false">Não</SelectItem>
+                              </>
+                            ) : (
+                              definition.options.map((option) => (
+                                <SelectItem key={option} value={option}>
+                                  {option}
+                                </SelectItem>
+                              ))
+                            )}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <FormControl>
+                          <Input
+                            type={definition.type === 'number' ? 'number' : 'text'}
+                            min={definition.type === 'number' ? 0 : undefined}
+                            {...field}
+                            value={field.value ?? ''}
+                          />
+                        </FormControl>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+          )}
+        </FieldSet>
+
+        <FieldSet>
+          <FieldLegend variant="label">Preço</FieldLegend>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preço (R$)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" placeholder="1.299,90" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Deixe em branco para exibir "Preço sob consulta"
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="salePrice"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preço promocional (R$)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="saleStartsAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Início da promoção</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="saleEndsAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fim da promoção</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="maxInstallments"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Máximo de parcelas</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={24} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="installmentInterestRate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Juros ao mês (%)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" {...field} />
+                  </FormControl>
+                  <FormDescription>Use 0 para parcelamento sem juros</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </FieldSet>
+
+        <FieldSet>
+          <FieldLegend variant="label">Estoque</FieldLegend>
+          <div className="grid gap-4 sm:grid-cols-3">
+            {variantFields.fields.length === 0 && (
+              <FormField
+                control={form.control}
+                name="stock"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unidades em estoque</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} />
+                    </FormControl>
+                    {!!product?.inventory.reserved && (
+                      <FormDescription>
+                        {product.inventory.reserved} reservadas por pedidos em aberto
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="lowStockThreshold"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Alerta de estoque baixo</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} {...field} />
+                  </FormControl>
+                  <FormDescription>Exibe "Últimas unidades" a partir deste número</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="leadTimeDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prazo sob encomenda (dias)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={365} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Deixe em branco se o produto não é feito sob encomenda
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          {variantFields.fields.length > 0 && (
+            <p className="text-muted-foreground text-sm">
+              Produtos com variações têm estoque e prazo sob encomenda por variação.
+            </p>
+          )}
+        </FieldSet>
+
+        <FieldSet>
+          <FieldLegend variant="label">Opções</FieldLegend>
+          <p className="text-muted-foreground text-sm">
+            Características em que o produto é vendido, como tecido, cor ou tamanho. Cada combinação
+            vendida é uma variação, com SKU e estoque próprios.
+          </p>
+          {optionFields.fields.map((item, index) => (
+            <div
+              key={item.id}
+              className="grid gap-3 rounded-md border p-3 sm:grid-cols-[1fr_2fr_auto]"
+            >
+              <FormField
+                control={form.control}
+                name={`options.${index}.name`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Tecido" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`options.${index}.values`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valores</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Linho, Veludo" {...field} />
+                    </FormControl>
+                    <FormDescription>Separados por vírgula</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex items-start sm:pt-6">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => optionFields.remove(index)}
+                >
+                  <Trash2Icon />
+                  Remover
+                </Button>
+              </div>
+            </div>
+          ))}
+          <FormField
+            control={form.control}
+            name="options"
+            render={() => (
+              <FormItem>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={optionFields.fields.length >= 3}
+              onClick={() => optionFields.append({ name: '', values: '' })}
+            >
+              <PlusIcon />
+              Adicionar opção
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={optionFields.fields.length === 0}
+              onClick={handleGenerateVariants}
+            >
+              <PlusIcon />
+              Gerar variações
+            </Button>
+          </div>
+        </FieldSet>
+
+        {variantFields.fields.length > 0 && (
+          <FieldSet>
+            <FieldLegend variant="label">Variações</FieldLegend>
+            <p className="text-muted-foreground text-sm">
+              Preço, medidas e peso em branco usam os do produto. A promoção segue a vigência e o
+              parcelamento do produto.
+            </p>
+            {variantFields.fields.map((item, index) => {
+              const reserved = product?.variants.find((v) => v.id === item.variantId)?.inventory
+                .reserved;
+              return (
+                <div key={item.id} className="space-y-3 rounded-md border p-3">
+                  <div className="grid gap-3 sm:grid-cols-4">
+                    <FormField
+                      control={form.control}
+                      name={`variants.${index}.sku`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>SKU</FormLabel>
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`variants.${index}.options`}
+                      render={({ field }) => (
+                        <>
+                          {options.map((option) => (
+                            <FormItem key={option.name}>
+                              <FormLabel>{option.name}</FormLabel>
+                              <Select
+                                value={field.value[option.name] ?? ''}
+                                onValueChange={(value) =>
+                                  field.onChange({ ...field.value, [option.name]: value })
+                                }
+                              >
+                                <FormControl>
+                                  <SelectTrigger className="w-full">
+                                    <SelectValue placeholder="Selecione" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {option.values.map((value) => (
+                                    <SelectItem key={value} value={value}>
+                                      {value}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          ))}
+                        </>
+                      )}
+                    />
+                  </div>
+                  <div className="grid gap-3 sm:grid-cols-4">
+                    <FormField
+                      control={form.control}
+                      name={`variants.${index}.price`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Preço (R$)</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`variants.${index}.salePrice`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Preço promocional (R$)</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`variants.${index}.stock`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Unidades em estoque</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} {...field} />
+                          </FormControl>
+                          {!!reserved && (
+                            <FormDescription>
+                              {reserved} reservadas por pedidos em aberto
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`variants.${index}.leadTimeDays`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Prazo sob encomenda (dias)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} max={365} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="grid gap-3 sm:grid-cols-4">
+                    {measurementFields.map(({ name, label }) => (
+                      <FormField
+                        key={name}
+                        control={form.control}
+                        name={`variants.${index}.${name}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{label}</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={0} step="0.1" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={!!reserved}
+                      onClick={() => variantFields.remove(index)}
+                    >
+                      <Trash2Icon />
+                      Remover
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            <FormField
+              control={form.control}
+              name="variants"
+              render={() => (
+                <FormItem>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </FieldSet>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export { ProductForm };
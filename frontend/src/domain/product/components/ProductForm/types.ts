@@ -0,0 +1,11 @@
+import type { AdminCategory } from '@/domain/category/types/models';
+import type { ProductPayload } from '../../types/api';
+import type { AdminProduct } from '../../types/models';
+
+export interface ProductFormProps {
+  product?: AdminProduct;
+  categories: AdminCategory[];
+  isSubmitting?: boolean;
+  onSubmit: (payload: ProductPayload) => Promise<void> | void;
+  onCancel?: () => void;
+}
@@ -0,0 +1,336 @@
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  GripVerticalIcon,
+  PencilIcon,
+  Trash2Icon,
+} from 'lucide-react';
+import { cn } from '@/core/lib/utils';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { VIEW_ANGLE_LABELS } from '../../constants';
+import type { AdminProductImage, ViewAngle } from '../../types/models';
+import type { ProductGalleryEditorProps, ProductGalleryImageFields } from './types';
+
+const viewAngles = Object.keys(VIEW_ANGLE_LABELS) as [ViewAngle, ...ViewAngle[]];
+
+const galleryImageSchema = z.object({
+  caption: z.string().max(100, 'A legenda deve ter no máximo 100 caracteres'),
+  altText: z
+    .string()
+    .trim()
+    .min(1, 'Informe o texto alternativo')
+    .max(100, 'O texto alternativo deve ter no máximo 100 caracteres'),
+  viewAngle: z.enum(viewAngles),
+});
+
+type GalleryImageValues = z.infer<typeof galleryImageSchema>;
+
+interface GalleryImageCardProps {
+  image: AdminProductImage;
+  position: number;
+  total: number;
+  canDelete: boolean;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  isReordering?: boolean;
+  onMove: (offset: number) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDragEnter: () => void;
+  onDrop: () => void;
+  onUpdate: (fields: ProductGalleryImageFields) => Promise<void>;
+  onDelete: () => void;
+  onEdit?: () => void;
+}
+
+function GalleryImageCard({
+  image,
+  position,
+  total,
+  canDelete,
+  isDragging,
+  isDropTarget,
+  isReordering,
+  onMove,
+  onDragStart,
+  onDragEnd,
+  onDragEnter,
+  onDrop,
+  onUpdate,
+  onDelete,
+  onEdit,
+}: GalleryImageCardProps) {
+  const form = useForm<GalleryImageValues>({
+    resolver: zodResolver(galleryImageSchema),
+    defaultValues: {
+      caption: image.caption ?? '',
+      altText: image.altText,
+      viewAngle: image.viewAngle,
+    },
+  });
+
+  const handleSubmit = async (values: GalleryImageValues) => {
+    await onUpdate({
+      ...values,
+      caption: values.caption.trim() === '' ? null : values.caption.trim(),
+    });
+    form.reset(values);
+  };
+
+  return (
+    <div
+      className={cn(
+        'bg-card overflow-hidden rounded-lg border transition-shadow',
+        isDragging && 'opacity-50',
+        isDropTarget && 'ring-primary ring-2'
+      )}
+      onDragEnter={onDragEnter}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+    >
+      <div
+        draggable={!isReordering}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', String(image.id));
+          onDragStart();
+        }}
+        onDragEnd={onDragEnd}
+        className="relative cursor-grab active:cursor-grabbing"
+      >
+        <img
+          src={image.thumbnailUrl}
+          alt={image.altText}
+          loading="lazy"
+          draggable={false}
+          className="bg-muted aspect-[4/3] w-full object-cover"
+        />
+        <span className="bg-background/90 absolute top-2 left-2 flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-medium">
+          <GripVerticalIcon className="h-3 w-3" />
+          {position + 1}
+        </span>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-3 p-3" noValidate>
+          <FormField
+            control={form.control}
+            name="altText"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-xs">Texto alternativo</FormLabel>
+                <FormControl>
+                  <Input className="h-8" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="caption"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-xs">Legenda</FormLabel>
+                <FormControl>
+                  <Input className="h-8" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="viewAngle"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-xs">Ângulo</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger size="sm" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {viewAngles.map((angle) => (
+                      <SelectItem key={angle} value={angle}>
+                        {VIEW_ANGLE_LABELS[angle]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex items-center justify-between gap-1">
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                disabled={position === 0 || isReordering}
+                onClick={() => onMove(-1)}
+                aria-label="Mover para a esquerda"
+              >
+                <ChevronLeftIcon />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                disabled={position === total - 1 || isReordering}
+                onClick={() => onMove(1)}
+                aria-label="Mover para a direita"
+              >
+                <ChevronRightIcon />
+              </Button>
+            </div>
+            <div className="flex gap-1">
+              {onEdit && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={onEdit}
+                  aria-label="Editar URLs da imagem"
+                >
+                  <PencilIcon />
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                disabled={!canDelete}
+                onClick={onDelete}
+                aria-label="Excluir imagem"
+              >
+                <Trash2Icon />
+              </Button>
+              <Button
+                type="submit"
+                size="sm"
+                disabled={!form.formState.isDirty || form.formState.isSubmitting}
+              >
+                {form.formState.isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
+
+function ProductGalleryEditor({
+  images,
+  isReordering,
+  onReorder,
+  onUpdate,
+  onDelete,
+  onEdit,
+}: ProductGalleryEditorProps) {
+  const [draftOrder, setDraftOrder] = useState<number[] | null>(null);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+
+  // While a reorder is in flight the draft order is shown so the gallery does not jump back
+  const orderedImages = useMemo(() => {
+    if (!draftOrder) return images;
+    const imagesById = new Map(images.map((image) => [image.id, image]));
+    return draftOrder
+      .map((id) => imagesById.get(id))
+      .filter((image): image is AdminProductImage => image !== undefined);
+  }, [images, draftOrder]);
+
+  const canDelete = orderedImages.length > 1;
+
+  const commitOrder = async (ids: number[]) => {
+    setDraftOrder(ids);
+    try {
+      await onReorder(ids.map((id, index) => ({ id, displayOrder: index + 1 })));
+    } finally {
+      setDraftOrder(null);
+    }
+  };
+
+  const moveImage = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex || toIndex < 0 || toIndex >= orderedImages.length) return;
+    const ids = orderedImages.map((image) => image.id);
+    const [movedId] = ids.splice(fromIndex, 1);
+    ids.splice(toIndex, 0, movedId);
+    void commitOrder(ids);
+  };
+
+  const handleDrop = (targetId: number) => {
+    if (draggedId !== null) {
+      const fromIndex = orderedImages.findIndex((image) => image.id === draggedId);
+      const toIndex = orderedImages.findIndex((image) => image.id === targetId);
+      moveImage(fromIndex, toIndex);
+    }
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-muted-foreground text-sm">
+        Arraste as miniaturas para definir a ordem da galeria. A primeira imagem é exibida como
+        destaque.
+        {!canDelete && ' Todo produto precisa manter ao menos uma imagem.'}
+      </p>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {orderedImages.map((image, index) => (
+          <GalleryImageCard
+            key={image.id}
+            image={image}
+            position={index}
+            total={orderedImages.length}
+            canDelete={canDelete}
+            isDragging={draggedId === image.id}
+            isDropTarget={dropTargetId === image.id && draggedId !== image.id}
+            isReordering={isReordering}
+            onMove={(offset) => moveImage(index, index + offset)}
+            onDragStart={() => setDraggedId(image.id)}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropTargetId(null);
+            }}
+            onDragEnter={() => setDropTargetId(image.id)}
+            onDrop={() => handleDrop(image.id)}
+            onUpdate={(fields) => onUpdate(image, fields)}
+            onDelete={() => onDelete(image)}
+            onEdit={onEdit ? () => onEdit(image) : undefined}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export { ProductGalleryEditor };
@@ -0,0 +1,16 @@
+import type { ProductImagePayload, ProductImageReorderItem } from '../../types/api';
+import type { AdminProductImage } from '../../types/models';
+
+export type ProductGalleryImageFields = Pick<
+  ProductImagePayload,
+  'caption' | 'altText' | 'viewAngle'
+>;
+
+export interface ProductGalleryEditorProps {
+  images: AdminProductImage[];
+  isReordering?: boolean;
+  onReorder: (imageOrder: ProductImageReorderItem[]) => Promise<void>;
+  onUpdate: (image: AdminProductImage, fields: ProductGalleryImageFields) => Promise<void>;
+  onDelete: (image: AdminProductImage) => void;
+  onEdit?: (image: AdminProductImage) => void;
+}
@@ -0,0 +1,211 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { FieldGroup } from '@/core/components/field';
+import { ProductImageVariantPicker } from '../ProductImageVariantPicker';
+import { VIEW_ANGLE_LABELS } from '../../constants';
+import type { ViewAngle } from '../../types/models';
+import type { ProductImageFormProps } from './types';
+
+const viewAngles = Object.keys(VIEW_ANGLE_LABELS) as [ViewAngle, ...ViewAngle[]];
+
+const urlField = z
+  .string()
+  .trim()
+  .min(1, 'Informe a URL')
+  .max(500, 'A URL deve ter no máximo 500 caracteres');
+
+const productImageSchema = z.object({
+  imageUrl: urlField,
+  thumbnailUrl: urlField,
+  highResUrl: urlField,
+  caption: z.string().max(100, 'A legenda deve ter no máximo 100 caracteres'),
+  altText: z
+    .string()
+    .trim()
+    .min(1, 'Informe o texto alternativo')
+    .max(100, 'O texto alternativo deve ter no máximo 100 caracteres'),
+  viewAngle: z.enum(viewAngles),
+  variantIds: z.array(z.number()),
+});
+
+type ProductImageFormValues = z.infer<typeof productImageSchema>;
+
+function ProductImageForm({
+  image,
+  variants = [],
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: ProductImageFormProps) {
+  const form = useForm<ProductImageFormValues>({
+    resolver: zodResolver(productImageSchema),
+    defaultValues: {
+      imageUrl: image?.imageUrl ?? '',
+      thumbnailUrl: image?.thumbnailUrl ?? '',
+      highResUrl: image?.highResUrl ?? '',
+      caption: image?.caption ?? '',
+      altText: image?.altText ?? '',
+      viewAngle: image?.viewAngle ?? 'frontal',
+      variantIds: image?.variantIds ?? [],
+    },
+  });
+
+  const handleSubmit = async (values: ProductImageFormValues) => {
+    await onSubmit({
+      ...values,
+      caption: values.caption.trim() === '' ? null : values.caption.trim(),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6" noValidate>
+        <FieldGroup>
+          <FormField
+            control={form.control}
+            name="imageUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>URL da imagem</FormLabel>
+                <FormControl>
+                  <Input type="url" placeholder="https://" autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="thumbnailUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>URL da miniatura</FormLabel>
+                <FormControl>
+                  <Input type="url" placeholder="https://" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="highResUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>URL em alta resolução</FormLabel>
+                <FormControl>
+                  <Input type="url" placeholder="https://" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="altText"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Texto alternativo</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="caption"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Legenda</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="viewAngle"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ângulo</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {viewAngles.map((angle) => (
+                        <SelectItem key={angle} value={angle}>
+                          {VIEW_ANGLE_LABELS[angle]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          {variants.length > 0 && (
+            <FormField
+              control={form.control}
+              name="variantIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Variações</FormLabel>
+                  <ProductImageVariantPicker
+                    variants={variants}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                  <FormDescription>
+                    Nenhuma marcada exibe a imagem em todas as variações
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </FieldGroup>
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export { ProductImageForm };
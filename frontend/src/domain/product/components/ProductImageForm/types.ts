@@ -0,0 +1,11 @@
+import type { ProductImagePayload } from '../../types/api';
+import type { AdminProductImage, AdminProductVariant } from '../../types/models';
+
+export interface ProductImageFormProps {
+  image?: AdminProductImage;
+  /** Variants of the product the image can be linked to */
+  variants?: AdminProductVariant[];
+  isSubmitting?: boolean;
+  onSubmit: (payload: ProductImagePayload) => Promise<void> | void;
+  onCancel?: () => void;
+}
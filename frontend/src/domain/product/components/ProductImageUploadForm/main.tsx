@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { FieldGroup } from '@/core/components/field';
+import { ProductImageVariantPicker } from '../ProductImageVariantPicker';
+import {
+  PRODUCT_IMAGE_MIN_HEIGHT,
+  PRODUCT_IMAGE_MIN_WIDTH,
+  PRODUCT_IMAGE_UPLOAD_TYPES,
+  VIEW_ANGLE_LABELS,
+} from '../../constants';
+import type { ViewAngle } from '../../types/models';
+import type { ProductImageUploadFormProps } from './types';
+
+const viewAngles = Object.keys(VIEW_ANGLE_LABELS) as [ViewAngle, ...ViewAngle[]];
+
+// Files the browser cannot decode are left for the server to reject
+const meetsMinimumSize = async (file: File) => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const fits =
+      bitmap.width >= PRODUCT_IMAGE_MIN_WIDTH && bitmap.height >= PRODUCT_IMAGE_MIN_HEIGHT;
+    bitmap.close();
+    return fits;
+  } catch {
+    return true;
+  }
+};
+
+const productImageUploadSchema = z.object({
+  file: z
+    .instanceof(File, { message: 'Selecione uma imagem' })
+    .refine((file) => PRODUCT_IMAGE_UPLOAD_TYPES.includes(file.type), 'Use JPEG, PNG ou WebP')
+    .refine(
+      meetsMinimumSize,
+      `A imagem deve ter ao menos ${PRODUCT_IMAGE_MIN_WIDTH}x${PRODUCT_IMAGE_MIN_HEIGHT} pixels`
+    ),
+  caption: z.string().max(100, 'A legenda deve ter no máximo 100 caracteres'),
+  altText: z
+    .string()
+    .trim()
+    .min(1, 'Informe o texto alternativo')
+    .max(100, 'O texto alternativo deve ter no máximo 100 caracteres'),
+  viewAngle: z.enum(viewAngles),
+  variantIds: z.array(z.number()),
+});
+
+type ProductImageUploadFormInput = z.input<typeof productImageUploadSchema>;
+type ProductImageUploadFormValues = z.output<typeof productImageUploadSchema>;
+
+function ProductImageUploadForm({
+  variants = [],
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: ProductImageUploadFormProps) {
+  const form = useForm<ProductImageUploadFormInput, unknown, ProductImageUploadFormValues>({
+    resolver: zodResolver(productImageUploadSchema),
+    defaultValues: {
+      file: undefined,
+      caption: '',
+      altText: '',
+      viewAngle: 'frontal',
+      variantIds: [],
+    },
+  });
+
+  const selectedFile = form.watch('file');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!(selectedFile instanceof File)) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selectedFile);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedFile]);
+
+  const handleSubmit = async (values: ProductImageUploadFormValues) => {
+    await onSubmit({
+      ...values,
+      caption: values.caption.trim() === '' ? null : values.caption.trim(),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6" noValidate>
+        <FieldGroup>
+          <FormField
+            control={form.control}
+            name="file"
+            render={({ field: { name, ref, onBlur, onChange } }) => (
+              <FormItem>
+                <FormLabel>Arquivo</FormLabel>
+                <FormControl>
+                  <Input
+                    type="file"
+                    accept={PRODUCT_IMAGE_UPLOAD_TYPES.join(',')}
+                    name={name}
+                    ref={ref}
+                    onBlur={onBlur}
+                    onChange={(e) => onChange(e.target.files?.[0])}
+                  />
+                </FormControl>
+                <FormDescription>
+                  JPEG, PNG ou WebP com ao menos {PRODUCT_IMAGE_MIN_WIDTH}x
+                  {PRODUCT_IMAGE_MIN_HEIGHT} pixels. Miniatura e versões em alta resolução são
+                  geradas automaticamente.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {previewUrl && (
+            <img
+              src={previewUrl}
+              alt="Pré-visualização"
+              className="bg-muted aspect-[4/3] w-full rounded-md object-contain"
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="altText"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Texto alternativo</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="caption"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Legenda</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="viewAngle"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ângulo</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {viewAngles.map((angle) => (
+                        <SelectItem key={angle} value={angle}>
+                          {VIEW_ANGLE_LABELS[angle]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          {variants.length > 0 && (
+            <FormField
+              control={form.control}
+              name="variantIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Variações</FormLabel>
+                  <ProductImageVariantPicker
+                    variants={variants}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                  <FormDescription>
+                    Nenhuma marcada exibe a imagem em todas as variações
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </FieldGroup>
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Enviando...' : 'Enviar'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export { ProductImageUploadForm };
@@ -0,0 +1,10 @@
+import type { ProductImageUploadPayload } from '../../types/api';
+import type { AdminProductVariant } from '../../types/models';
+
+export interface ProductImageUploadFormProps {
+  /** Variants of the product the image can be linked to */
+  variants?: AdminProductVariant[];
+  isSubmitting?: boolean;
+  onSubmit: (payload: ProductImageUploadPayload) => Promise<void> | void;
+  onCancel?: () => void;
+}
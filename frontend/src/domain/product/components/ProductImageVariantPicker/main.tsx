@@ -0,0 +1,41 @@
+import { Checkbox } from '@/core/components/checkbox';
+import { Label } from '@/core/components/label';
+import { cn } from '@/core/lib/utils';
+import type { ProductImageVariantPickerProps } from './types';
+
+/**
+ * Links an image to the variants it shows, e.g. the photo of one fabric
+ */
+function ProductImageVariantPicker({
+  variants,
+  value,
+  onChange,
+  className,
+}: ProductImageVariantPickerProps) {
+  const toggleVariant = (id: number, checked: boolean) => {
+    onChange(checked ? [...value, id] : value.filter((item) => item !== id));
+  };
+
+  return (
+    <ul className={cn('space-y-2', className)}>
+      {variants.map((variant) => {
+        const id = `image-variant-${variant.id}`;
+        return (
+          <li key={variant.id} className="flex items-center gap-2">
+            <Checkbox
+              id={id}
+              checked={value.includes(variant.id)}
+              onCheckedChange={(checked) => toggleVariant(variant.id, checked === true)}
+            />
+            <Label htmlFor={id} className="flex-1 font-normal">
+              {Object.values(variant.options).join(' / ')}
+            </Label>
+            <span className="text-muted-foreground text-xs">{variant.sku}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export { ProductImageVariantPicker };
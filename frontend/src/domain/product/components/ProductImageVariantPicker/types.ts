@@ -0,0 +1,9 @@
+import type { AdminProductVariant } from '../../types/models';
+
+export interface ProductImageVariantPickerProps {
+  variants: AdminProductVariant[];
+  /** IDs of the variants the image shows; empty when it applies to all of them */
+  value: number[];
+  onChange: (value: number[]) => void;
+  className?: string;
+}
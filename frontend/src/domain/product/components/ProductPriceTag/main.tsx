@@ -0,0 +1,52 @@
+import { Badge } from '@/core/components/badge';
+import { cn } from '@/core/lib/utils';
+import { formatPrice } from '../../utils';
+import type { ProductPriceTagProps } from './types';
+
+function ProductPriceTag({ price, size = 'sm', className }: ProductPriceTagProps) {
+  if (!price) {
+    return (
+      <p className={cn('text-muted-foreground font-medium', size === 'lg' && 'text-lg', className)}>
+        Preço sob consulta
+      </p>
+    );
+  }
+
+  const { installments } = price;
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      {price.onSale && (
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground text-sm line-through">
+            {formatPrice(price.listPrice)}
+          </span>
+          {price.discountPercent !== null && (
+            <Badge variant="destructive" className="text-xs">
+              -{price.discountPercent}%
+            </Badge>
+          )}
+        </div>
+      )}
+      <p className={cn('font-bold', size === 'lg' ? 'text-3xl' : 'text-xl')}>
+        {formatPrice(price.currentPrice)}
+      </p>
+      <p className="text-muted-foreground text-sm">
+        {installments
+          ? `ou ${installments.count}x de ${formatPrice(installments.value)}${
+              installments.interestFree
+                ? ' sem juros'
+                : ` (total ${formatPrice(installments.total)})`
+            }`
+          : 'à vista'}
+      </p>
+      {size === 'lg' && price.saleEndsAt && (
+        <p className="text-destructive text-sm font-medium">
+          Oferta válida até {new Date(price.saleEndsAt).toLocaleDateString('pt-BR')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export { ProductPriceTag };
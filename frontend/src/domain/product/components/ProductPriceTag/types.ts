@@ -0,0 +1,8 @@
+import type { ProductPrice } from '../../types/models';
+
+export interface ProductPriceTagProps {
+  price: ProductPrice | null;
+  /** `lg` is used on the product page and also shows the promotion deadline */
+  size?: 'sm' | 'lg';
+  className?: string;
+}
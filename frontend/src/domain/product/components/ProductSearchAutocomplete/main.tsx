@@ -0,0 +1,212 @@
+import { useId, useRef, useState } from 'react';
+import { FolderIcon, SearchIcon } from 'lucide-react';
+import { Input } from '@/core/components/input';
+import { Popover, PopoverAnchor, PopoverContent } from '@/core/components/popover';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { cn } from '@/core/lib/utils';
+import { useProductSuggestions } from '../../hooks/useProductSuggestions';
+import type { ProductSuggestions } from '../../types/api';
+import type { ProductSearchAutocompleteProps } from './types';
+
+type SuggestionOption =
+  | { type: 'query'; key: string; label: string }
+  | { type: 'category'; key: string; label: string; slug: string }
+  | {
+      type: 'product';
+      key: string;
+      label: string;
+      id: number;
+      imageUrl: string;
+      categoryName: string;
+    };
+
+const GROUP_LABELS: Record<SuggestionOption['type'], string> = {
+  query: 'Buscas populares',
+  category: 'Categorias',
+  product: 'Produtos',
+};
+
+const toOptions = (suggestions?: ProductSuggestions): SuggestionOption[] =>
+  suggestions
+    ? [
+        ...suggestions.queries.map((item) => ({
+          type: 'query' as const,
+          key: `query-${item.query}`,
+          label: item.query,
+        })),
+        ...suggestions.categories.map((item) => ({
+          type: 'category' as const,
+          key: `category-${item.id}`,
+          label: item.name,
+          slug: item.slug,
+        })),
+        ...suggestions.products.map((item) => ({
+          type: 'product' as const,
+          key: `product-${item.id}`,
+          label: item.name,
+          id: item.id,
+          imageUrl: item.imageUrl,
+          categoryName: item.categoryName,
+        })),
+      ]
+    : [];
+
+function ProductSearchAutocomplete({
+  value,
+  onValueChange,
+  onSearch,
+  placeholder = 'Buscar produtos...',
+  className,
+}: ProductSearchAutocompleteProps) {
+  const { navigate } = useNavigation();
+  const listboxId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const { suggestions } = useProductSuggestions({ term: value, enabled: isOpen });
+  const options = toOptions(suggestions);
+  const isExpanded = isOpen && options.length > 0;
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const selectOption = (option: SuggestionOption) => {
+    close();
+    switch (option.type) {
+      case 'query':
+        onValueChange(option.label);
+        onSearch(option.label);
+        break;
+      case 'category':
+        navigate(`/catalog?category=${option.slug}`);
+        break;
+      case 'product':
+        navigate(`/product/${option.id}`);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => (options.length > 0 ? (index + 1) % options.length : -1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((index) =>
+          options.length > 0 ? (index <= 0 ? options.length - 1 : index - 1) : -1
+        );
+        break;
+      case 'Enter':
+        // Without a highlighted suggestion Enter submits the surrounding search form
+        if (isExpanded && options[activeIndex]) {
+          e.preventDefault();
+          selectOption(options[activeIndex]);
+        } else {
+          close();
+        }
+        break;
+      case 'Escape':
+        if (isExpanded) {
+          e.preventDefault();
+        }
+        close();
+        break;
+    }
+  };
+
+  return (
+    <Popover open={isExpanded} onOpenChange={(open) => !open && close()}>
+      <PopoverAnchor asChild>
+        <Input
+          ref={inputRef}
+          type="search"
+          role="combobox"
+          aria-expanded={isExpanded}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={
+            isExpanded && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined
+          }
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            onValueChange(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          className={className}
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-(--radix-popover-trigger-width) p-1"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+        onInteractOutside={(e) => {
+          // Clicking the input keeps the suggestions open
+          if (e.target === inputRef.current) {
+            e.preventDefault();
+          }
+        }}
+      >
+        <ul id={listboxId} role="listbox" aria-label="Sugestões de busca">
+          {options.map((option, index) => (
+            <li key={option.key} role="presentation">
+              {options[index - 1]?.type !== option.type && (
+                <p className="text-muted-foreground px-2 pt-2 pb-1 text-xs font-medium">
+                  {GROUP_LABELS[option.type]}
+                </p>
+              )}
+              <div
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn(
+                  'flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => selectOption(option)}
+              >
+                {option.type === 'product' ? (
+                  <>
+                    <img
+                      src={option.imageUrl}
+                      alt=""
+                      className="bg-muted size-8 shrink-0 rounded object-cover"
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate">{option.label}</span>
+                      <span className="text-muted-foreground block truncate text-xs">
+                        {option.categoryName}
+                      </span>
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    {option.type === 'query' ? (
+                      <SearchIcon className="text-muted-foreground size-4 shrink-0" />
+                    ) : (
+                      <FolderIcon className="text-muted-foreground size-4 shrink-0" />
+                    )}
+                    <span className="truncate">{option.label}</span>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export { ProductSearchAutocomplete };
@@ -0,0 +1,8 @@
+export interface ProductSearchAutocompleteProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  /** Runs a search for the term, e.g. when a popular search is picked */
+  onSearch: (term: string) => void;
+  placeholder?: string;
+  className?: string;
+}
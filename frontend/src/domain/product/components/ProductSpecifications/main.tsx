@@ -1,25 +1,58 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/core/components/card';
 import { Separator } from '@/core/components/separator';
 import { cn } from '@/core/lib/utils';
+import { formatAttributeValue, formatMeasurement } from '../../utils';
 import type { ProductSpecificationsProps } from './types';
 
+interface SpecGroup {
+  name: string;
+  specs: { label: string; value: string | null }[];
+}
+
+const formatCentimeters = (value: number | null) =>
+  value === null ? null : formatMeasurement(value, 'cm');
+
 function ProductSpecifications({ product, className }: ProductSpecificationsProps) {
-  const specs = [
+  const { dimensions, weight, materials, finishes } = product.specifications;
+
+  const groups: SpecGroup[] = [
     {
-      label: 'Dimensões',
-      value: product.specifications.dimensions,
+      name: 'Medidas',
+      specs: [
+        { label: 'Largura', value: formatCentimeters(dimensions.width) },
+        { label: 'Altura', value: formatCentimeters(dimensions.height) },
+        { label: 'Profundidade', value: formatCentimeters(dimensions.depth) },
+        { label: 'Peso', value: weight === null ? null : formatMeasurement(weight, 'kg') },
+      ],
     },
     {
-      label: 'Material',
-      value: product.specifications.material,
+      name: 'Materiais e acabamentos',
+      specs: [
+        { label: 'Materiais', value: materials.join(', ') },
+        { label: 'Acabamentos e cores', value: finishes.join(', ') },
+      ],
     },
+    ...product.attributeGroups.map((group) => ({
+      name: group.name,
+      specs: group.attributes.map((attribute) => ({
+        label: attribute.label,
+        value: formatAttributeValue(attribute.value, attribute.unit),
+      })),
+    })),
     {
-      label: 'Categoria',
-      value: product.category,
+      name: 'Geral',
+      specs: [
+        {
+          label: 'Categoria',
+          value: product.category.path.map((item) => item.name).join(' › '),
+        },
+      ],
     },
-  ].filter((spec) => spec.value);
+  ]
+    .map((group) => ({ ...group, specs: group.specs.filter((spec) => spec.value) }))
+    .filter((group) => group.specs.length > 0);
 
-  if (specs.length === 0) {
+  if (groups.length === 0) {
     return null;
   }
 
@@ -28,15 +61,22 @@ function ProductSpecifications({ product, className }: ProductSpecificationsProp
       <CardHeader>
         <CardTitle>Especificações Técnicas</CardTitle>
       </CardHeader>
-      <CardContent className="space-y-4">
-        {specs.map((spec, index) => (
-          <div key={spec.label}>
-            {index > 0 && <Separator className="mb-4" />}
-            <div className="flex justify-between">
-              <span className="text-muted-foreground font-medium">{spec.label}</span>
-              <span className="text-right font-semibold">{spec.value}</span>
-            </div>
-          </div>
+      <CardContent className="space-y-6">
+        {groups.map((group) => (
+          <section key={group.name} className="space-y-3">
+            <h3 className="text-muted-foreground text-xs font-semibold tracking-wide uppercase">
+              {group.name}
+            </h3>
+            {group.specs.map((spec, index) => (
+              <div key={spec.label}>
+                {index > 0 && <Separator className="mb-3" />}
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground font-medium">{spec.label}</span>
+                  <span className="text-right font-semibold">{spec.value}</span>
+                </div>
+              </div>
+            ))}
+          </section>
         ))}
       </CardContent>
     </Card>
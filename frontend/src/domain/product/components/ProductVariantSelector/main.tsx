@@ -0,0 +1,52 @@
+import { Button } from '@/core/components/button';
+import { cn } from '@/core/lib/utils';
+import { findVariantByOption } from '../../utils';
+import type { ProductVariantSelectorProps } from './types';
+
+/**
+ * Chooses a variant one option value at a time; values no variant is sold in are disabled
+ * and values whose variant is sold out are struck through
+ */
+function ProductVariantSelector({
+  options,
+  variants,
+  value,
+  onChange,
+  className,
+}: ProductVariantSelectorProps) {
+  return (
+    <div className={cn('space-y-4', className)}>
+      {options.map((option) => (
+        <div key={option.name} className="space-y-2">
+          <p className="text-sm font-medium">
+            {option.name}:{' '}
+            <span className="text-muted-foreground">{value.options[option.name]}</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((optionValue) => {
+              const target = findVariantByOption(variants, value, option.name, optionValue);
+              const isSelected = value.options[option.name] === optionValue;
+
+              return (
+                <Button
+                  key={optionValue}
+                  type="button"
+                  size="sm"
+                  variant={isSelected ? 'default' : 'outline'}
+                  aria-pressed={isSelected}
+                  disabled={!target}
+                  className={cn(target?.availability.status === 'out_of_stock' && 'line-through')}
+                  onClick={() => target && onChange(target)}
+                >
+                  {optionValue}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export { ProductVariantSelector };
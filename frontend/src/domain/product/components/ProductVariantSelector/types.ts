@@ -0,0 +1,9 @@
+import type { ProductOption, ProductVariant } from '../../types/models';
+
+export interface ProductVariantSelectorProps {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  value: ProductVariant;
+  onChange: (variant: ProductVariant) => void;
+  className?: string;
+}
@@ -1,3 +1,13 @@
 export * from './ProductCard';
 export * from './ProductImageGallery';
 export * from './ProductSpecifications';
+export * from './ProductPriceTag';
+export * from './ProductAvailabilityBadge';
+export * from './ProductVariantSelector';
+export * from './ProductForm';
+export * from './ProductImageForm';
+export * from './ProductGalleryEditor';
+export * from './ProductImageUploadForm';
+export * from './ProductImageVariantPicker';
+export * from './ProductFacetFilters';
+export * from './ProductSearchAutocomplete';
@@ -0,0 +1,27 @@
+import type { ProductFacetKey, ViewAngle } from '../types/models';
+
+export const VIEW_ANGLE_LABELS: Record<ViewAngle, string> = {
+  frontal: 'Frontal',
+  lateral_esquerda: 'Lateral esquerda',
+  lateral_direita: 'Lateral direita',
+  superior: 'Superior',
+  inferior: 'Inferior',
+  traseira: 'Traseira',
+  detalhe: 'Detalhe',
+  ambiente: 'Ambiente',
+};
+
+export const PRODUCT_IMAGE_MIN_WIDTH = 1500;
+export const PRODUCT_IMAGE_MIN_HEIGHT = 1500;
+export const PRODUCT_IMAGE_UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const PRODUCT_FACET_LABELS: Record<ProductFacetKey, string> = {
+  category: 'Categoria',
+  priceRange: 'Preço',
+  material: 'Material',
+  color: 'Cor',
+  size: 'Largura',
+};
+
+export const PRODUCT_SUGGEST_MIN_LENGTH = 2;
+export const PRODUCT_SUGGEST_DEBOUNCE_MS = 250;
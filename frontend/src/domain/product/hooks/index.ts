@@ -1,3 +1,10 @@
 export * from './useProductList';
+export * from './useInfiniteProductList';
 export * from './useProductDetail';
 export * from './useProductImages';
+export * from './useAdminProductList';
+export * from './useAdminProduct';
+export * from './useProductMutations';
+export * from './useAdminProductImages';
+export * from './useProductImageMutations';
+export * from './useProductSuggestions';
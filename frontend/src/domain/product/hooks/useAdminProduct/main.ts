@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { productAdminService } from '../../services/productAdminService';
+import type { UseAdminProductOptions } from './types';
+
+export const useAdminProduct = (options: UseAdminProductOptions) => {
+  const queryKey = ['admin', 'product', options.id];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => productAdminService.getById(options.id),
+    enabled: options.enabled !== false && !!options.id,
+  });
+
+  return {
+    product: data,
+    isLoading,
+    error,
+    refetch,
+  };
+};
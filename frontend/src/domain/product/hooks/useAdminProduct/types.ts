@@ -0,0 +1,4 @@
+export interface UseAdminProductOptions {
+  id: number;
+  enabled?: boolean;
+}
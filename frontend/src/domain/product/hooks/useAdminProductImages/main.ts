@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { productImageAdminService } from '../../services/productImageAdminService';
+import type { UseAdminProductImagesOptions } from './types';
+
+export const useAdminProductImages = (options: UseAdminProductImagesOptions) => {
+  const queryKey = ['admin', 'product-images', options.productId];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => productImageAdminService.list(options.productId),
+    enabled: options.enabled !== false && !!options.productId,
+  });
+
+  return {
+    images: data ?? [],
+    isLoading,
+    error,
+    refetch,
+  };
+};
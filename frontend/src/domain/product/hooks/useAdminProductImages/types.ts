@@ -0,0 +1,4 @@
+export interface UseAdminProductImagesOptions {
+  productId: number;
+  enabled?: boolean;
+}
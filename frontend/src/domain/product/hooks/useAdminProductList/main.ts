@@ -0,0 +1,25 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { productAdminService } from '../../services/productAdminService';
+import type { UseAdminProductListOptions } from './types';
+
+export const useAdminProductList = (options: UseAdminProductListOptions) => {
+  const queryKey = ['admin', 'products', options.filters];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => productAdminService.list(options.filters),
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    products: data?.items ?? [],
+    total: data?.total ?? 0,
+    page: data?.page ?? 1,
+    totalPages: data?.totalPages ?? 1,
+    hasNext: data?.hasNext ?? false,
+    hasPrevious: data?.hasPrevious ?? false,
+    isLoading,
+    error,
+    refetch,
+  };
+};
@@ -0,0 +1,5 @@
+import type { ProductListParams } from '../../types/api';
+
+export interface UseAdminProductListOptions {
+  filters: ProductListParams;
+}
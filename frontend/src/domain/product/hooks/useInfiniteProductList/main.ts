@@ -0,0 +1,32 @@
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query';
+import { productService } from '../../services/productService';
+import type { UseInfiniteProductListOptions } from './types';
+
+export const useInfiniteProductList = (options: UseInfiniteProductListOptions) => {
+  const queryKey = ['products', 'infinite', options.filters];
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage, refetch } =
+    useInfiniteQuery({
+      queryKey,
+      queryFn: ({ pageParam }) => productService.list({ ...options.filters, cursor: pageParam }),
+      initialPageParam: undefined as string | undefined,
+      getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+      enabled: options.enabled !== false,
+      staleTime: 1000 * 60 * 5, // 5 minutes
+      placeholderData: keepPreviousData,
+    });
+
+  const firstPage = data?.pages[0];
+
+  return {
+    products: data?.pages.flatMap((page) => page.items) ?? [],
+    facets: firstPage?.facets,
+    total: firstPage?.total ?? 0,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    isLoading,
+    error,
+    refetch,
+  };
+};
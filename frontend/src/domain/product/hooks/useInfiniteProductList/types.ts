@@ -0,0 +1,7 @@
+import type { ProductListParams } from '../../types/api';
+
+export interface UseInfiniteProductListOptions {
+  /** List filters; `page` and `cursor` are managed by the hook */
+  filters?: Omit<ProductListParams, 'page' | 'cursor'>;
+  enabled?: boolean;
+}
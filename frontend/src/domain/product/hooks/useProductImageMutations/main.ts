@@ -0,0 +1,58 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { productImageAdminService } from '../../services/productImageAdminService';
+import type {
+  ProductImagePayload,
+  ProductImageReorderItem,
+  ProductImageUploadPayload,
+} from '../../types/api';
+
+export const useProductImageMutations = (productId: number) => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['admin', 'product-images', productId] }),
+      queryClient.invalidateQueries({ queryKey: ['product-images', productId] }),
+    ]);
+
+  const createMutation = useMutation({
+    mutationFn: (payload: ProductImagePayload) =>
+      productImageAdminService.create(productId, payload),
+    onSuccess: invalidate,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (payload: ProductImageUploadPayload) =>
+      productImageAdminService.upload(productId, payload),
+    onSuccess: invalidate,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, payload }: { id: number; payload: Required<ProductImagePayload> }) =>
+      productImageAdminService.update(id, payload),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => productImageAdminService.delete(id),
+    onSuccess: invalidate,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (imageOrder: ProductImageReorderItem[]) =>
+      productImageAdminService.reorder(productId, imageOrder),
+    onSuccess: invalidate,
+  });
+
+  return {
+    createImage: createMutation.mutateAsync,
+    uploadImage: uploadMutation.mutateAsync,
+    updateImage: updateMutation.mutateAsync,
+    deleteImage: deleteMutation.mutateAsync,
+    reorderImages: reorderMutation.mutateAsync,
+    isSaving: createMutation.isPending || updateMutation.isPending,
+    isUploading: uploadMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+    isReordering: reorderMutation.isPending,
+  };
+};
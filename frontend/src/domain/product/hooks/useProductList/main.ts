@@ -1,4 +1,4 @@
-import { useQuery } from '@tanstack/react-query';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import { productService } from '../../services/productService';
 import type { UseProductListOptions } from './types';
 
@@ -8,11 +8,15 @@ export const useProductList = (options: UseProductListOptions) => {
   const { data, isLoading, error, refetch } = useQuery({
     queryKey,
     queryFn: () => productService.list(options.filters),
+    enabled: options.enabled !== false,
     staleTime: 1000 * 60 * 5, // 5 minutes
+    // Keeps the facet sidebar in place while a new filter combination loads
+    placeholderData: keepPreviousData,
   });
 
   return {
     products: data?.items ?? [],
+    facets: data?.facets,
     total: data?.total ?? 0,
     page: data?.page ?? 1,
     pageSize: data?.pageSize ?? 9,
@@ -2,4 +2,5 @@ import type { ProductListParams } from '../../types/api';
 
 export interface UseProductListOptions {
   filters?: ProductListParams;
+  enabled?: boolean;
 }
@@ -0,0 +1,23 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useDebouncedValue } from '@/core/hooks/useDebouncedValue';
+import { productService } from '../../services/productService';
+import { PRODUCT_SUGGEST_DEBOUNCE_MS, PRODUCT_SUGGEST_MIN_LENGTH } from '../../constants';
+import type { UseProductSuggestionsOptions } from './types';
+
+export const useProductSuggestions = (options: UseProductSuggestionsOptions) => {
+  const term = useDebouncedValue(options.term.trim(), PRODUCT_SUGGEST_DEBOUNCE_MS);
+  const enabled = options.enabled !== false && term.length >= PRODUCT_SUGGEST_MIN_LENGTH;
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['product-suggestions', term],
+    queryFn: () => productService.suggest(term),
+    enabled,
+    staleTime: 1000 * 60, // 1 minute
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    suggestions: enabled ? data : undefined,
+    isFetching,
+  };
+};
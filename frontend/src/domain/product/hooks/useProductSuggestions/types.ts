@@ -0,0 +1,4 @@
+export interface UseProductSuggestionsOptions {
+  term: string;
+  enabled?: boolean;
+}
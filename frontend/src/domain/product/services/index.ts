@@ -1,2 +1,4 @@
 export * from './productService';
 export * from './productImageService';
+export * from './productAdminService';
+export * from './productImageAdminService';
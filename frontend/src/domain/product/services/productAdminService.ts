@@ -0,0 +1,67 @@
+/**
+ * @service ProductAdminService
+ * @domain product
+ * @type REST API
+ */
+import { authenticatedClient } from '@/core/lib/api';
+import type {
+  AdminProductListResponse,
+  ProductListPagination,
+  ProductListParams,
+  ProductPayload,
+} from '../types/api';
+import { toProductListQuery } from '../utils';
+import type { AdminProduct } from '../types/models';
+
+export const productAdminService = {
+  /**
+   * List all products with pagination and search
+   */
+  async list(params?: ProductListParams): Promise<AdminProductListResponse> {
+    const { data } = await authenticatedClient.get<{
+      success: boolean;
+      data: Pick<AdminProductListResponse, 'items' | 'facets'>;
+      metadata: { pagination: ProductListPagination };
+    }>('/product', { params: toProductListQuery(params) });
+    return { ...data.data, ...data.metadata.pagination };
+  },
+
+  /**
+   * Get product by ID
+   */
+  async getById(id: number): Promise<AdminProduct> {
+    const { data } = await authenticatedClient.get<{ success: boolean; data: AdminProduct }>(
+      `/product/${id}`
+    );
+    return data.data;
+  },
+
+  /**
+   * Create a product
+   */
+  async create(payload: ProductPayload): Promise<AdminProduct> {
+    const { data } = await authenticatedClient.post<{ success: boolean; data: AdminProduct }>(
+      '/product',
+      payload
+    );
+    return data.data;
+  },
+
+  /**
+   * Replace a product
+   */
+  async update(id: number, payload: ProductPayload): Promise<AdminProduct> {
+    const { data } = await authenticatedClient.put<{ success: boolean; data: AdminProduct }>(
+      `/product/${id}`,
+      payload
+    );
+    return data.data;
+  },
+
+  /**
+   * Delete a product and its images
+   */
+  async delete(id: number): Promise<void> {
+    await authenticatedClient.delete(`/product/${id}`);
+  },
+};
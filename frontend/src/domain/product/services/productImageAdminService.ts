@@ -0,0 +1,80 @@
+/**
+ * @service ProductImageAdminService
+ * @domain product
+ * @type REST API
+ */
+import { authenticatedClient } from '@/core/lib/api';
+import type {
+  ProductImagePayload,
+  ProductImageReorderItem,
+  ProductImageUploadPayload,
+} from '../types/api';
+import type { AdminProductImage } from '../types/models';
+
+export const productImageAdminService = {
+  /**
+   * List the images of a product
+   */
+  async list(productId: number): Promise<AdminProductImage[]> {
+    const { data } = await authenticatedClient.get<{
+      success: boolean;
+      data: AdminProductImage[];
+    }>(`/product/${productId}/image`);
+    return data.data;
+  },
+
+  /**
+   * Add an image to a product
+   */
+  async create(productId: number, payload: ProductImagePayload): Promise<AdminProductImage> {
+    const { data } = await authenticatedClient.post<{ success: boolean; data: AdminProductImage }>(
+      `/product/${productId}/image`,
+      payload
+    );
+    return data.data;
+  },
+
+  /**
+   * Upload an image file; the server generates the thumbnail, standard and high-res variants
+   */
+  async upload(productId: number, payload: ProductImageUploadPayload): Promise<AdminProductImage> {
+    const formData = new FormData();
+    formData.append('file', payload.file);
+    formData.append('altText', payload.altText);
+    formData.append('viewAngle', payload.viewAngle);
+    if (payload.caption) formData.append('caption', payload.caption);
+    if (payload.displayOrder) formData.append('displayOrder', String(payload.displayOrder));
+    if (payload.variantIds.length > 0) formData.append('variantIds', payload.variantIds.join(','));
+
+    const { data } = await authenticatedClient.post<{ success: boolean; data: AdminProductImage }>(
+      `/product/${productId}/image/upload`,
+      formData
+    );
+    return data.data;
+  },
+
+  /**
+   * Update an image
+   */
+  async update(id: number, payload: Required<ProductImagePayload>): Promise<AdminProductImage> {
+    const { data } = await authenticatedClient.put<{ success: boolean; data: AdminProductImage }>(
+      `/product-image/${id}`,
+      payload
+    );
+    return data.data;
+  },
+
+  /**
+   * Persist a new gallery order for a product
+   */
+  async reorder(productId: number, imageOrder: ProductImageReorderItem[]): Promise<void> {
+    await authenticatedClient.put(`/product/${productId}/image/reorder`, { imageOrder });
+  },
+
+  /**
+   * Delete an image
+   */
+  async delete(id: number): Promise<void> {
+    await authenticatedClient.delete(`/product-image/${id}`);
+  },
+};
@@ -3,8 +3,14 @@
  * @domain product
  * @type REST API
  */
-import { authenticatedClient } from '@/core/lib/api';
-import type { ProductListParams, ProductListResponse } from '../types/api';
+import { publicClient } from '@/core/lib/api';
+import type {
+  ProductListPagination,
+  ProductListParams,
+  ProductListResponse,
+  ProductSuggestions,
+} from '../types/api';
+import { toProductListQuery } from '../utils';
 import type { Product } from '../types/models';
 
 export const productService = {
@@ -12,9 +18,21 @@ export const productService = {
    * List products with pagination, search, and sorting
    */
   async list(params?: ProductListParams): Promise<ProductListResponse> {
-    const { data } = await authenticatedClient.get<{ success: boolean; data: ProductListResponse }>(
-      '/product',
-      { params }
+    const { data } = await publicClient.get<{
+      success: boolean;
+      data: Pick<ProductListResponse, 'items' | 'facets'>;
+      metadata: { pagination: ProductListPagination };
+    }>('/product', { params: toProductListQuery(params) });
+    return { ...data.data, ...data.metadata.pagination };
+  },
+
+  /**
+   * Suggest products, categories and popular searches for a typed prefix
+   */
+  async suggest(q: string): Promise<ProductSuggestions> {
+    const { data } = await publicClient.get<{ success: boolean; data: ProductSuggestions }>(
+      '/product/suggest',
+      { params: { q } }
     );
     return data.data;
   },
@@ -23,8 +41,18 @@ export const productService = {
    * Get product details by ID
    */
   async getById(id: number): Promise<Product> {
-    const { data } = await authenticatedClient.get<{ success: boolean; data: Product }>(
-      `/product/${id}`
+    const { data } = await publicClient.get<{ success: boolean; data: Product }>(`/product/${id}`);
+    return data.data;
+  },
+
+  /**
+   * Get the details of several products in one call, in the given order; products no longer
+   * available are left out
+   */
+  async getBatch(ids: number[]): Promise<Product[]> {
+    const { data } = await publicClient.get<{ success: boolean; data: Product[] }>(
+      '/product/batch',
+      { params: { ids: ids.join(',') } }
     );
     return data.data;
   },
@@ -1,19 +1,120 @@
-import type { ProductListItem } from './models';
+import type {
+  AdminProductListItem,
+  AdminProductVariant,
+  ProductFacets,
+  ProductInventory,
+  ProductListItem,
+  ProductOption,
+  ProductPricing,
+  ProductSpecificationValues,
+  ViewAngle,
+} from './models';
 
 export interface ProductListParams {
   search?: string;
-  category?: string;
-  sortBy?: 'name_asc' | 'name_desc' | 'date_desc' | 'date_asc';
+  /** Category slugs or IDs */
+  category?: string[];
+  /** Include products from subcategories (default: true) */
+  includeDescendants?: boolean;
+  /** Current price bounds in BRL; products priced on request are excluded */
+  minPrice?: number;
+  maxPrice?: number;
+  /** Multi-select facet filters; values within a facet are combined with OR */
+  material?: string[];
+  color?: string[];
+  /** Price bucket keys, e.g. "1000-2000" */
+  priceRange?: string[];
+  /** Width bucket keys in cm, e.g. "80-150" */
+  size?: string[];
+  /** Only products with units ready to ship */
+  inStockOnly?: boolean;
+  /** `relevance` ranks search matches; it is the server default while searching */
+  sortBy?:
+    | 'relevance'
+    | 'name_asc'
+    | 'name_desc'
+    | 'date_desc'
+    | 'date_asc'
+    | 'price_asc'
+    | 'price_desc';
   page?: number;
+  /** Opaque cursor from a previous response's `nextCursor`; replaces `page` */
+  cursor?: string;
   pageSize?: 9 | 18 | 27 | 36;
 }
 
-export interface ProductListResponse {
-  items: ProductListItem[];
+/** Pagination of a product list, sent in the response metadata */
+export interface ProductListPagination {
   total: number;
   page: number;
   pageSize: number;
   totalPages: number;
   hasNext: boolean;
   hasPrevious: boolean;
+  /** Cursor of the next page, null on the last page */
+  nextCursor: string | null;
+}
+
+export interface ProductListResponse extends ProductListPagination {
+  items: ProductListItem[];
+  facets: ProductFacets;
+}
+
+export interface AdminProductListResponse extends Omit<ProductListResponse, 'items'> {
+  items: AdminProductListItem[];
+}
+
+export interface ProductSuggestions {
+  products: { id: number; name: string; imageUrl: string; categoryName: string }[];
+  categories: { id: number; name: string; slug: string }[];
+  /** Popular searches starting with the typed prefix */
+  queries: { query: string; count: number }[];
+}
+
+export interface ProductPayload {
+  name: string;
+  description: string | null;
+  categoryId: number;
+  imageUrl: string;
+  additionalImages: string[];
+  specifications: ProductSpecificationValues;
+  pricing: ProductPricing | null;
+  inventory: Omit<ProductInventory, 'reserved'>;
+  options: ProductOption[];
+  variants: ProductVariantPayload[];
+}
+
+/**
+ * Variant sent with a product; variants without an ID are added and stored variants left out
+ * are removed
+ */
+export interface ProductVariantPayload extends Omit<AdminProductVariant, 'id' | 'inventory'> {
+  id?: number;
+  inventory: Omit<ProductInventory, 'reserved'>;
+}
+
+export interface ProductImagePayload {
+  imageUrl: string;
+  thumbnailUrl: string;
+  highResUrl: string;
+  displayOrder?: number;
+  caption: string | null;
+  altText: string;
+  viewAngle: ViewAngle;
+  /** Empty when the image applies to all variants */
+  variantIds: number[];
+}
+
+export interface ProductImageUploadPayload {
+  file: File;
+  displayOrder?: number;
+  caption: string | null;
+  altText: string;
+  viewAngle: ViewAngle;
+  variantIds: number[];
+}
+
+export interface ProductImageReorderItem {
+  id: number;
+  displayOrder: number;
 }
@@ -1,29 +1,182 @@
+export interface ProductCategoryPathItem {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+export interface ProductCategory {
+  id: number;
+  name: string;
+  slug: string;
+  path: ProductCategoryPathItem[];
+}
+
+/**
+ * Measurements in centimeters
+ */
+export interface ProductDimensions {
+  width: number | null;
+  height: number | null;
+  depth: number | null;
+}
+
+export type ProductAttributeValue = string | number | boolean;
+
+export interface ProductSpecificationValues {
+  dimensions: ProductDimensions;
+  /** Weight in kilograms */
+  weight: number | null;
+  materials: string[];
+  finishes: string[];
+  /** Values of the attributes defined by the product category, keyed by attribute key */
+  attributes: Record<string, ProductAttributeValue>;
+}
+
+export interface ProductAttributeGroup {
+  name: string;
+  attributes: {
+    key: string;
+    label: string;
+    value: ProductAttributeValue;
+    unit: string | null;
+  }[];
+}
+
+export interface ProductInstallmentPlan {
+  count: number;
+  value: number;
+  total: number;
+  interestFree: boolean;
+}
+
+/**
+ * Price resolved by the server at request time; null on a product means "preço sob consulta"
+ */
+export interface ProductPrice {
+  listPrice: number;
+  currentPrice: number;
+  onSale: boolean;
+  discountPercent: number | null;
+  saleEndsAt: string | null;
+  installments: ProductInstallmentPlan | null;
+}
+
+export interface ProductPricing {
+  price: number;
+  salePrice: number | null;
+  saleStartsAt: string | null;
+  saleEndsAt: string | null;
+  maxInstallments: number;
+  installmentInterestRate: number;
+}
+
+export type ProductAvailabilityStatus = 'in_stock' | 'low_stock' | 'made_to_order' | 'out_of_stock';
+
+/**
+ * Availability resolved by the server from the stock not reserved by open orders
+ */
+export interface ProductAvailability {
+  status: ProductAvailabilityStatus;
+  /** Units ready to ship */
+  available: number;
+  /** Days to make units beyond the stock; null when the product is not made to order */
+  leadTimeDays: number | null;
+}
+
+export interface ProductInventory {
+  stock: number;
+  /** Units held by open orders */
+  reserved: number;
+  leadTimeDays: number | null;
+  lowStockThreshold: number;
+}
+
+/**
+ * Option axis a product is sold in, e.g. Tecido with its fabrics
+ */
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Purchasable combination of option values, with the product fallbacks applied by the server
+ */
+export interface ProductVariant {
+  id: number;
+  sku: string;
+  /** Value of every option axis, keyed by axis name */
+  options: Record<string, string>;
+  /** Option values joined for display, e.g. "Linho / Bege" */
+  label: string;
+  price: ProductPrice | null;
+  availability: ProductAvailability;
+  dimensions: ProductDimensions;
+  weight: number | null;
+}
+
+/**
+ * Stored variant; null pricing, dimensions and weight fall back to the product
+ */
+export interface AdminProductVariant {
+  id: number;
+  sku: string;
+  options: Record<string, string>;
+  pricing: ProductPricing | null;
+  inventory: ProductInventory;
+  dimensions: ProductDimensions | null;
+  weight: number | null;
+}
+
 export interface Product {
   id: number;
   name: string;
   description: string | null;
-  category: string;
+  category: ProductCategory;
   imageUrl: string;
   additionalImages: string[];
-  specifications: {
-    dimensions: string | null;
-    material: string | null;
-  };
-  dateCreated: string;
-  dateModified: string;
+  specifications: ProductSpecificationValues;
+  attributeGroups: ProductAttributeGroup[];
+  price: ProductPrice | null;
+  availability: ProductAvailability;
+  options: ProductOption[];
+  /** Empty for products sold as a single item */
+  variants: ProductVariant[];
 }
 
 export interface ProductListItem {
   id: number;
   name: string;
-  category: string;
+  category: ProductCategory;
   imageUrl: string;
-  dateCreated: string;
+  price: ProductPrice | null;
+  availability: ProductAvailability;
+  /** A variant must be chosen before the product can be added to the cart */
+  hasVariants: boolean;
+}
+
+export interface ProductFacetValue {
+  value: string;
+  label: string;
+  /** Products carrying the value among those matching the other active filters */
+  count: number;
+  /** Bounds of range buckets (price in BRL, width in cm) */
+  min?: number;
+  max?: number | null;
+}
+
+export interface ProductFacets {
+  category: ProductFacetValue[];
+  material: ProductFacetValue[];
+  color: ProductFacetValue[];
+  priceRange: ProductFacetValue[];
+  size: ProductFacetValue[];
 }
 
+export type ProductFacetKey = keyof ProductFacets;
+
 export interface ProductImage {
   id: number;
-  productId: number;
   imageUrl: string;
   thumbnailUrl: string;
   highResUrl: string;
@@ -39,9 +192,33 @@ export interface ProductImage {
     | 'traseira'
     | 'detalhe'
     | 'ambiente';
+  /** Variants the image shows; empty when it applies to all of them */
+  variantIds: number[];
+}
+
+export interface AdminProduct extends Omit<Product, 'variants'> {
+  categoryId: number;
+  pricing: ProductPricing | null;
+  /** Stock of products without variants; products with variants are stocked per variant */
+  inventory: ProductInventory;
+  variants: AdminProductVariant[];
+  dateCreated: string;
+  dateModified: string;
+}
+
+export interface AdminProductListItem extends ProductListItem {
+  categoryId: number;
   dateCreated: string;
 }
 
+export interface AdminProductImage extends ProductImage {
+  productId: number;
+  dateCreated: string;
+  dateModified: string;
+}
+
+export type ViewAngle = ProductImage['viewAngle'];
+
 export interface ProductImageListParams {
   productId: number;
 }
@@ -0,0 +1,81 @@
+import type { ProductListParams } from '../types/api';
+import type { ProductAttributeValue, ProductAvailability, ProductVariant } from '../types/models';
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * Formats an amount in BRL, e.g. 1299.9 → "R$ 1.299,90"
+ */
+export const formatPrice = (value: number): string => currencyFormatter.format(value);
+
+const numberFormatter = new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 2 });
+
+/**
+ * Formats a number with an optional unit, e.g. (1.5, 'kg') → "1,5 kg"
+ */
+export const formatMeasurement = (value: number, unit?: string | null): string =>
+  unit ? `${numberFormatter.format(value)} ${unit}` : numberFormatter.format(value);
+
+/**
+ * Formats a category attribute for display, e.g. true → "Sim", (3, 'lugares') → "3 lugares"
+ */
+export const formatAttributeValue = (value: ProductAttributeValue, unit: string | null): string => {
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'number') return formatMeasurement(value, unit);
+  return value;
+};
+
+/**
+ * Converts list params to query params, joining multi-select filters with commas
+ * so they read as `material=MDF,Veludo`
+ */
+export const toProductListQuery = (params?: ProductListParams) =>
+  params &&
+  Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.join(',') || undefined : value,
+    ])
+  );
+
+/**
+ * Describes the availability of a product, e.g. "Últimas 2 unidades" or "Sob encomenda (até 30 dias)"
+ */
+export const formatAvailability = ({ status, available, leadTimeDays }: ProductAvailability) => {
+  switch (status) {
+    case 'in_stock':
+      return 'Em estoque';
+    case 'low_stock':
+      return available === 1 ? 'Última unidade' : `Últimas ${available} unidades`;
+    case 'made_to_order':
+      return `Sob encomenda (até ${leadTimeDays} dias)`;
+    case 'out_of_stock':
+      return 'Esgotado';
+  }
+};
+
+/**
+ * Variant shown before the customer chooses one: the first that can be bought, otherwise the first
+ */
+export const getDefaultVariant = (variants: ProductVariant[]): ProductVariant | undefined =>
+  variants.find((variant) => variant.availability.status !== 'out_of_stock') ?? variants[0];
+
+/**
+ * Finds the variant with an option value, keeping as many of the other values of the
+ * current variant as possible
+ */
+export const findVariantByOption = (
+  variants: ProductVariant[],
+  current: ProductVariant,
+  name: string,
+  value: string
+): ProductVariant | undefined => {
+  const matches = (variant: ProductVariant) =>
+    Object.entries(current.options).filter(([key, val]) => variant.options[key] === val).length;
+
+  return variants
+    .filter((variant) => variant.options[name] === value)
+    .reduce<
+      ProductVariant | undefined
+    >((best, variant) => (!best || matches(variant) > matches(best) ? variant : best), undefined);
+};
@@ -0,0 +1,40 @@
+import { HeartIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/core/components/button';
+import { getApiErrorMessage } from '@/core/lib/api';
+import { cn } from '@/core/lib/utils';
+import { useFavorite } from '../../hooks/useFavorite';
+import type { WishlistButtonProps } from './types';
+
+/**
+ * Heart toggle that saves a product to favorites
+ */
+function WishlistButton({ productId, variant = 'ghost', className }: WishlistButtonProps) {
+  const { isFavorite, toggle, isSaving } = useFavorite({ productId });
+
+  const handleClick = async (event: React.MouseEvent<HTMLButtonElement>) => {
+    // Cards navigate to the product on click
+    event.stopPropagation();
+    try {
+      await toggle();
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível atualizar seus favoritos'));
+    }
+  };
+
+  return (
+    <Button
+      variant={variant}
+      size="icon"
+      className={className}
+      onClick={handleClick}
+      disabled={isSaving}
+      aria-pressed={isFavorite}
+      aria-label={isFavorite ? 'Remover dos favoritos' : 'Adicionar aos favoritos'}
+    >
+      <HeartIcon className={cn(isFavorite && 'fill-red-500 text-red-500')} />
+    </Button>
+  );
+}
+
+export { WishlistButton };
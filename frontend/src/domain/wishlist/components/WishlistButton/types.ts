@@ -0,0 +1,7 @@
+import type { VariantProps } from 'class-variance-authority';
+import type { buttonVariants } from '@/core/components/button';
+
+export interface WishlistButtonProps extends Pick<VariantProps<typeof buttonVariants>, 'variant'> {
+  productId: number;
+  className?: string;
+}
@@ -0,0 +1,72 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { WISHLIST_NAME_MAX_LENGTH } from '../../constants';
+import type { WishlistNameFormProps } from './types';
+
+const wishlistNameSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Informe o nome da lista')
+    .max(WISHLIST_NAME_MAX_LENGTH, `Use no máximo ${WISHLIST_NAME_MAX_LENGTH} caracteres`),
+});
+
+type WishlistNameFormValues = z.infer<typeof wishlistNameSchema>;
+
+/**
+ * Names a new list or renames an existing one
+ */
+function WishlistNameForm({
+  defaultName = '',
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: WishlistNameFormProps) {
+  const form = useForm<WishlistNameFormValues>({
+    resolver: zodResolver(wishlistNameSchema),
+    defaultValues: { name: defaultName },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" noValidate>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome da lista</FormLabel>
+              <FormControl>
+                <Input placeholder="Ex.: Sala de estar" autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export { WishlistNameForm };
@@ -0,0 +1,8 @@
+import type { WishlistPayload } from '../../types/api';
+
+export interface WishlistNameFormProps {
+  defaultName?: string;
+  isSubmitting?: boolean;
+  onSubmit: (payload: WishlistPayload) => Promise<void> | void;
+  onCancel?: () => void;
+}
@@ -0,0 +1,2 @@
+export * from './WishlistButton';
+export * from './WishlistNameForm';
@@ -0,0 +1 @@
+export const WISHLIST_NAME_MAX_LENGTH = 60;
@@ -0,0 +1,5 @@
+export * from './useWishlists';
+export * from './useWishlistMutations';
+export * from './useFavorite';
+export * from './useSharedWishlist';
+export * from './useLocalFavorites';
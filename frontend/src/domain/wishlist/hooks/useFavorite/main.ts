@@ -0,0 +1,52 @@
+import { useAuthStore } from '@/core/stores/auth';
+import { useWishlistStore } from '@/core/stores/wishlist';
+import { useWishlists } from '../useWishlists';
+import { useWishlistMutations } from '../useWishlistMutations';
+import type { UseFavoriteOptions } from './types';
+
+/**
+ * Heart state of a product. Signed-in customers save to their first list; anonymous
+ * shoppers keep favorites on the device until they sign in.
+ */
+export const useFavorite = ({ productId }: UseFavoriteOptions) => {
+  const user = useAuthStore((state) => state.user);
+  const localIds = useWishlistStore((state) => state.productIds);
+  const toggleLocal = useWishlistStore((state) => state.toggle);
+  const { wishlists } = useWishlists();
+  const { addItem, removeItem, syncFavorites, isSaving } = useWishlistMutations();
+
+  const defaultList = wishlists[0];
+  const isFavorite = user
+    ? wishlists.some((list) => list.items.some((item) => item.product.id === productId))
+    : localIds.includes(productId);
+
+  const toggle = async () => {
+    if (!user) {
+      toggleLocal(productId);
+      return;
+    }
+
+    if (isFavorite) {
+      // Unfavoriting removes the product from every list it was saved to
+      const lists = wishlists.filter((list) =>
+        list.items.some((item) => item.product.id === productId)
+      );
+      for (const list of lists) {
+        await removeItem({ listId: list.id, productId });
+      }
+      return;
+    }
+
+    if (defaultList) {
+      await addItem({ listId: defaultList.id, productId });
+    } else {
+      await syncFavorites([productId]);
+    }
+  };
+
+  return {
+    isFavorite,
+    toggle,
+    isSaving,
+  };
+};
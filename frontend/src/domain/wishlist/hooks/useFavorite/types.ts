@@ -0,0 +1,3 @@
+export interface UseFavoriteOptions {
+  productId: number;
+}
@@ -0,0 +1,29 @@
+import { useQueries } from '@tanstack/react-query';
+import { useWishlistStore } from '@/core/stores/wishlist';
+import { productService } from '@/domain/product/services/productService';
+import type { ProductListItem } from '@/domain/product/types/models';
+
+/**
+ * Products favorited on this device before signing in. Products that were removed from the
+ * catalog are left out.
+ */
+export const useLocalFavorites = () => {
+  const productIds = useWishlistStore((state) => state.productIds);
+
+  const results = useQueries({
+    queries: productIds.map((id) => ({
+      queryKey: ['product', id],
+      queryFn: () => productService.getById(id),
+      retry: false,
+    })),
+  });
+
+  const products = results.flatMap(({ data }): ProductListItem[] =>
+    data ? [{ ...data, hasVariants: data.variants.length > 0 }] : []
+  );
+
+  return {
+    products,
+    isLoading: results.some((result) => result.isLoading),
+  };
+};
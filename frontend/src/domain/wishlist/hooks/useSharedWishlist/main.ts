@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { wishlistService } from '../../services/wishlistService';
+import type { UseSharedWishlistOptions } from './types';
+
+export const useSharedWishlist = ({ token }: UseSharedWishlistOptions) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['wishlist', 'shared', token],
+    queryFn: () => wishlistService.getShared(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  return {
+    wishlist: data,
+    isLoading,
+    error,
+  };
+};
@@ -0,0 +1,3 @@
+export interface UseSharedWishlistOptions {
+  token: string;
+}
@@ -0,0 +1,64 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { wishlistService } from '../../services/wishlistService';
+import type { UpdateWishlistParams, WishlistItemParams, WishlistPayload } from '../../types/api';
+import type { Wishlist } from '../../types/models';
+
+export const useWishlistMutations = () => {
+  const queryClient = useQueryClient();
+
+  const replaceList = (wishlist: Wishlist) => {
+    queryClient.setQueryData<Wishlist[]>(['wishlists'], (lists) =>
+      lists?.some((list) => list.id === wishlist.id)
+        ? lists.map((list) => (list.id === wishlist.id ? wishlist : list))
+        : [...(lists ?? []), wishlist]
+    );
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (payload: WishlistPayload) => wishlistService.create(payload),
+    onSuccess: replaceList,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (params: UpdateWishlistParams) => wishlistService.update(params),
+    onSuccess: replaceList,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => wishlistService.delete(id),
+    onSuccess: (_, id) => {
+      queryClient.setQueryData<Wishlist[]>(['wishlists'], (lists) =>
+        lists?.filter((list) => list.id !== id)
+      );
+    },
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: (params: WishlistItemParams) => wishlistService.addItem(params),
+    onSuccess: replaceList,
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: (params: WishlistItemParams) => wishlistService.removeItem(params),
+    onSuccess: replaceList,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: (productIds: number[]) => wishlistService.sync(productIds),
+    onSuccess: (lists) => {
+      queryClient.setQueryData(['wishlists'], lists);
+    },
+  });
+
+  return {
+    createList: createMutation.mutateAsync,
+    updateList: updateMutation.mutateAsync,
+    deleteList: deleteMutation.mutateAsync,
+    addItem: addItemMutation.mutateAsync,
+    removeItem: removeItemMutation.mutateAsync,
+    syncFavorites: syncMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    isUpdating: updateMutation.isPending || deleteMutation.isPending,
+    isSaving: addItemMutation.isPending || removeItemMutation.isPending || syncMutation.isPending,
+  };
+};
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuthStore } from '@/core/stores/auth';
+import { wishlistService } from '../../services/wishlistService';
+import type { UseWishlistsOptions } from './types';
+
+export const useWishlists = (options?: UseWishlistsOptions) => {
+  const user = useAuthStore((state) => state.user);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['wishlists'],
+    queryFn: () => wishlistService.list(),
+    // Only signed-in customers have lists; anonymous favorites stay on the device
+    enabled: options?.enabled !== false && !!user,
+  });
+
+  return {
+    wishlists: data ?? [],
+    isLoading,
+    error,
+    refetch,
+  };
+};
@@ -0,0 +1,3 @@
+export interface UseWishlistsOptions {
+  enabled?: boolean;
+}
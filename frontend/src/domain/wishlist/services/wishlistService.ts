@@ -0,0 +1,106 @@
+/**
+ * @service WishlistService
+ * @domain wishlist
+ * @type REST API
+ */
+import { publicClient } from '@/core/lib/api';
+import type { UpdateWishlistParams, WishlistItemParams, WishlistPayload } from '../types/api';
+import type { SharedWishlist, Wishlist } from '../types/models';
+
+/**
+ * Identifies the signed-in customer who owns the lists
+ */
+const authHeaders = () => {
+  const headers: Record<string, string> = {};
+  const authToken = localStorage.getItem('auth_token');
+  if (authToken) headers.Authorization = `Bearer ${authToken}`;
+  return headers;
+};
+
+export const wishlistService = {
+  /**
+   * List the lists of the signed-in customer, oldest first; favorites go to the first one
+   */
+  async list(): Promise<Wishlist[]> {
+    const { data } = await publicClient.get<{ success: boolean; data: Wishlist[] }>('/wishlist', {
+      headers: authHeaders(),
+    });
+    return data.data;
+  },
+
+  /**
+   * Create an empty list
+   */
+  async create(payload: WishlistPayload): Promise<Wishlist> {
+    const { data } = await publicClient.post<{ success: boolean; data: Wishlist }>(
+      '/wishlist',
+      payload,
+      { headers: authHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * Rename a list or turn its public link on or off
+   */
+  async update({ id, payload }: UpdateWishlistParams): Promise<Wishlist> {
+    const { data } = await publicClient.patch<{ success: boolean; data: Wishlist }>(
+      `/wishlist/${id}`,
+      payload,
+      { headers: authHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * Delete a list; its public link stops working
+   */
+  async delete(id: number): Promise<void> {
+    await publicClient.delete(`/wishlist/${id}`, { headers: authHeaders() });
+  },
+
+  /**
+   * Save a product to a list
+   */
+  async addItem({ listId, productId }: WishlistItemParams): Promise<Wishlist> {
+    const { data } = await publicClient.post<{ success: boolean; data: Wishlist }>(
+      `/wishlist/${listId}/items`,
+      { productId },
+      { headers: authHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * Remove a product from a list
+   */
+  async removeItem({ listId, productId }: WishlistItemParams): Promise<Wishlist> {
+    const { data } = await publicClient.delete<{ success: boolean; data: Wishlist }>(
+      `/wishlist/${listId}/items/${productId}`,
+      { headers: authHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * Save favorites to the first list, created as "Favoritos" when there is none
+   */
+  async sync(productIds: number[]): Promise<Wishlist[]> {
+    const { data } = await publicClient.post<{ success: boolean; data: Wishlist[] }>(
+      '/wishlist/sync',
+      { productIds },
+      { headers: authHeaders() }
+    );
+    return data.data;
+  },
+
+  /**
+   * Get a list through its public link
+   */
+  async getShared(token: string): Promise<SharedWishlist> {
+    const { data } = await publicClient.get<{ success: boolean; data: SharedWishlist }>(
+      `/wishlist/shared/${encodeURIComponent(token)}`
+    );
+    return data.data;
+  },
+};
@@ -0,0 +1,13 @@
+export interface WishlistPayload {
+  name: string;
+}
+
+export interface UpdateWishlistParams {
+  id: number;
+  payload: Partial<WishlistPayload> & { shared?: boolean };
+}
+
+export interface WishlistItemParams {
+  listId: number;
+  productId: number;
+}
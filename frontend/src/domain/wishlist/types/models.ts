@@ -0,0 +1,30 @@
+import type { ProductListItem } from '@/domain/product/types/models';
+
+/**
+ * Product saved to a list, at its current price
+ */
+export interface WishlistItem {
+  product: ProductListItem;
+  dateAdded: string;
+}
+
+/**
+ * Favorites list of the signed-in customer
+ */
+export interface Wishlist {
+  id: number;
+  name: string;
+  /** Whether the public link works */
+  shared: boolean;
+  shareToken: string;
+  /** Products no longer available are left out */
+  items: WishlistItem[];
+  itemCount: number;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * Read-only view of a list opened through its public link
+ */
+export type SharedWishlist = Pick<Wishlist, 'name' | 'items' | 'itemCount' | 'dateModified'>;
@@ -0,0 +1,112 @@
+import { Suspense } from 'react';
+import { Navigate, NavLink, Outlet } from 'react-router-dom';
+import { FolderTreeIcon, LogOutIcon, PackageIcon, ReceiptIcon, StoreIcon } from 'lucide-react';
+import { ErrorBoundary } from '@/router/error-boundary';
+import { Button } from '@/core/components/button';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useAuthStore } from '@/core/stores/auth';
+import { useLogout } from '@/domain/auth/hooks/useLogout';
+import { cn } from '@/core/lib/utils';
+
+const ADMIN_ROLES = ['admin', 'editor'];
+
+const navItems = [
+  { to: '/admin/categories', label: 'Categorias', icon: FolderTreeIcon },
+  { to: '/admin/products', label: 'Produtos', icon: PackageIcon },
+  { to: '/admin/orders', label: 'Pedidos', icon: ReceiptIcon },
+];
+
+function AdminLayout() {
+  const { location, navigate } = useNavigation();
+  const user = useAuthStore((state) => state.user);
+  const { logout, isPending } = useLogout();
+
+  if (!user) {
+    const redirect = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/login?redirect=${redirect}`} replace />;
+  }
+
+  const handleLogout = async () => {
+    await logout().catch(() => undefined);
+    navigate('/login', { replace: true });
+  };
+
+  return (
+    <ErrorBoundary resetKey={location.pathname}>
+      <div className="bg-background flex min-h-screen flex-col font-sans antialiased md:flex-row">
+        <aside className="border-b md:w-60 md:border-r md:border-b-0">
+          <div className="flex items-center justify-between gap-2 px-6 py-5">
+            <span className="text-lg font-semibold">Administração</span>
+          </div>
+          <nav className="flex gap-1 px-3 pb-3 md:flex-col">
+            {navItems.map(({ to, label, icon: Icon }) => (
+              <NavLink
+                key={to}
+                to={to}
+                className={({ isActive }) =>
+                  cn(
+                    'hover:bg-accent flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium',
+                    isActive && 'bg-accent'
+                  )
+                }
+              >
+                <Icon className="h-4 w-4" />
+                {label}
+              </NavLink>
+            ))}
+            <NavLink
+              to="/"
+              className="hover:bg-accent text-muted-foreground flex items-center gap-2 rounded-md px-3 py-2 text-sm"
+            >
+              <StoreIcon className="h-4 w-4" />
+              Ver loja
+            </NavLink>
+          </nav>
+          <div className="hidden border-t px-6 py-4 md:block">
+            <p className="truncate text-sm font-medium">{user.name}</p>
+            <p className="text-muted-foreground truncate text-xs">{user.email}</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="mt-2 gap-2 px-0"
+              onClick={handleLogout}
+              disabled={isPending}
+            >
+              <LogOutIcon className="h-4 w-4" />
+              Sair
+            </Button>
+          </div>
+        </aside>
+        <main className="flex-1 px-6 py-6 md:px-9">
+          {ADMIN_ROLES.includes(user.role) ? (
+            <Suspense
+              fallback={
+                <div className="flex h-full w-full items-center justify-center">
+                  <LoadingSpinner />
+                </div>
+              }
+            >
+              <Outlet />
+            </Suspense>
+          ) : (
+            <Empty className="min-h-[400px]">
+              <EmptyHeader>
+                <EmptyTitle>Acesso restrito</EmptyTitle>
+                <EmptyDescription>
+                  Seu perfil não tem permissão para gerenciar o catálogo.
+                </EmptyDescription>
+              </EmptyHeader>
+              <Button variant="outline" onClick={handleLogout}>
+                Entrar com outra conta
+              </Button>
+            </Empty>
+          )}
+        </main>
+      </div>
+    </ErrorBoundary>
+  );
+}
+
+export { AdminLayout };
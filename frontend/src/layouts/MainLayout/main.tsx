@@ -1,16 +1,35 @@
 import { ErrorBoundary } from '@/router/error-boundary';
 import { useNavigation } from '@/core/hooks/useNavigation';
-import { Outlet } from 'react-router-dom';
+import { Link, Outlet, ScrollRestoration } from 'react-router-dom';
 import { Suspense } from 'react';
+import { HeartIcon } from 'lucide-react';
 import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Button } from '@/core/components/button';
+import { useAuthStore } from '@/core/stores/auth';
+import { CartDrawer } from '@/domain/cart/components/CartDrawer';
+import { CompareTray } from '@/domain/compare/components/CompareTray';
 
 function MainLayout() {
   const { location } = useNavigation();
+  const user = useAuthStore((state) => state.user);
 
   return (
     <ErrorBoundary resetKey={location.pathname}>
       <div className="bg-background relative flex min-h-screen flex-col font-sans antialiased">
-        <header className="px-9 py-9"></header>
+        <header className="flex items-center justify-end gap-2 px-9 py-9">
+          <Button variant="ghost" asChild>
+            <Link to="/wishlist">
+              <HeartIcon />
+              Favoritos
+            </Link>
+          </Button>
+          {user && (
+            <Button variant="ghost" asChild>
+              <Link to="/orders">Meus pedidos</Link>
+            </Button>
+          )}
+          <CartDrawer />
+        </header>
         <main className="flex h-full min-h-fit flex-1">
           <div className="max-w-dvw container flex-1 px-9 py-0">
             <Suspense
@@ -25,6 +44,9 @@ function MainLayout() {
           </div>
         </main>
         <footer className="px-9 py-9"></footer>
+        <CompareTray />
+        {/* New pages open at the top; Back returns to the previous position, e.g. in the catalog */}
+        <ScrollRestoration />
       </div>
     </ErrorBoundary>
   );
@@ -0,0 +1,197 @@
+import { useMemo, useState } from 'react';
+import { PencilIcon, PlusIcon, Trash2Icon } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAdminCategoryList } from '@/domain/category/hooks/useAdminCategoryList';
+import { useCategoryMutations } from '@/domain/category/hooks/useCategoryMutations';
+import { CategoryForm } from '@/domain/category/components/CategoryForm';
+import { sortCategoryTree } from '@/domain/category/utils';
+import type { AdminCategory } from '@/domain/category/types/models';
+import type { CategoryPayload } from '@/domain/category/types/api';
+import { Button } from '@/core/components/button';
+import { Badge } from '@/core/components/badge';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/core/components/alert-dialog';
+import { getApiErrorMessage } from '@/core/lib/api';
+
+function AdminCategoriesPage() {
+  const { categories, isLoading, error } = useAdminCategoryList();
+  const { createCategory, updateCategory, deleteCategory, isSaving, isDeleting } =
+    useCategoryMutations();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<AdminCategory | undefined>();
+  const [pendingDelete, setPendingDelete] = useState<AdminCategory | null>(null);
+
+  const sortedCategories = useMemo(() => sortCategoryTree(categories), [categories]);
+
+  const openCreate = () => {
+    setEditing(undefined);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (category: AdminCategory) => {
+    setEditing(category);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (payload: CategoryPayload) => {
+    try {
+      if (editing) {
+        await updateCategory({ id: editing.id, payload });
+        toast.success('Categoria atualizada');
+      } else {
+        await createCategory(payload);
+        toast.success('Categoria criada');
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível salvar a categoria'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteCategory(pendingDelete.id);
+      toast.success('Categoria excluída');
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível excluir a categoria'));
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Categorias</h1>
+          <p className="text-muted-foreground text-sm">
+            Organize a navegação do catálogo em até três níveis
+          </p>
+        </div>
+        <Button onClick={openCreate} className="gap-2">
+          <PlusIcon className="h-4 w-4" />
+          Nova categoria
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Erro ao carregar categorias</EmptyTitle>
+            <EmptyDescription>Tente novamente em instantes.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : sortedCategories.length === 0 ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Nenhuma categoria cadastrada</EmptyTitle>
+            <EmptyDescription>
+              Crie a primeira categoria para organizar os produtos.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {sortedCategories.map((category) => (
+            <div key={category.id} className="flex items-center gap-4 px-4 py-3">
+              <div
+                className="min-w-0 flex-1"
+                style={{ paddingLeft: `${(category.level - 1) * 24}px` }}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="truncate font-medium">{category.name}</span>
+                  {!category.active && <Badge variant="outline">Inativa</Badge>}
+                  {category.featured && <Badge variant="secondary">Destaque</Badge>}
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  /{category.slug} · {category.directProductCount} produto(s) diretos ·{' '}
+                  {category.productCount} no total
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => openEdit(category)}
+                  aria-label={`Editar ${category.name}`}
+                >
+                  <PencilIcon />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setPendingDelete(category)}
+                  aria-label={`Excluir ${category.name}`}
+                >
+                  <Trash2Icon />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Editar categoria' : 'Nova categoria'}</DialogTitle>
+            <DialogDescription>
+              {editing ? `Alterando "${editing.name}"` : 'Preencha os dados da nova categoria'}
+            </DialogDescription>
+          </DialogHeader>
+          <CategoryForm
+            key={editing?.id ?? 'new'}
+            category={editing}
+            categories={categories}
+            isSubmitting={isSaving}
+            onSubmit={handleSubmit}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir categoria?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" será removida permanentemente. Categorias com subcategorias ou
+              produtos não podem ser excluídas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting}>
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export { AdminCategoriesPage };
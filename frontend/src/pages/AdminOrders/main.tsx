@@ -0,0 +1,352 @@
+import { useState } from 'react';
+import { EyeIcon, SearchIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAdminOrderList } from '@/domain/order/hooks/useAdminOrderList';
+import { useAdminOrder } from '@/domain/order/hooks/useAdminOrder';
+import { useAdminOrderMutations } from '@/domain/order/hooks/useAdminOrderMutations';
+import { OrderStatusBadge } from '@/domain/order/components/OrderStatusBadge';
+import { OrderStatusHistory } from '@/domain/order/components/OrderStatusHistory';
+import { OrderSummary } from '@/domain/order/components/OrderSummary';
+import {
+  ORDER_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+} from '@/domain/order/constants';
+import { formatOrderDate, formatPhone } from '@/domain/order/utils';
+import type { OrderStatus } from '@/domain/order/types/models';
+import type { AdminOrderListParams } from '@/domain/order/types/api';
+import { formatPrice } from '@/domain/product/utils';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Textarea } from '@/core/components/textarea';
+import { Toggle } from '@/core/components/toggle';
+import { Separator } from '@/core/components/separator';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/dialog';
+import { getApiErrorMessage } from '@/core/lib/api';
+
+const statuses = Object.keys(ORDER_STATUS_LABELS) as OrderStatus[];
+
+const SORT_OPTIONS: { value: NonNullable<AdminOrderListParams['sortBy']>; label: string }[] = [
+  { value: 'date_desc', label: 'Mais recentes' },
+  { value: 'date_asc', label: 'Mais antigos' },
+  { value: 'total_desc', label: 'Maior valor' },
+  { value: 'total_asc', label: 'Menor valor' },
+];
+
+function AdminOrdersPage() {
+  const [filters, setFilters] = useState<AdminOrderListParams>({
+    sortBy: 'date_desc',
+    page: 1,
+    pageSize: 20,
+  });
+  const [searchTerm, setSearchTerm] = useState('');
+  const [viewingId, setViewingId] = useState<number | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+
+  const { orders, total, page, totalPages, hasNext, hasPrevious, isLoading, error } =
+    useAdminOrderList({ filters });
+  const { order: viewing, isLoading: isViewingLoading } = useAdminOrder({
+    id: viewingId ?? 0,
+    enabled: viewingId !== null,
+  });
+  const { updateStatus, isUpdating } = useAdminOrderMutations();
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters((prev) => ({ ...prev, search: searchTerm.trim() || undefined, page: 1 }));
+  };
+
+  const toggleStatus = (status: OrderStatus, pressed: boolean) => {
+    setFilters((prev) => {
+      const current = prev.status ?? [];
+      const next = pressed ? [...current, status] : current.filter((item) => item !== status);
+      return { ...prev, status: next.length > 0 ? next : undefined, page: 1 };
+    });
+  };
+
+  const openOrder = (id: number) => {
+    setStatusNote('');
+    setViewingId(id);
+  };
+
+  const handleStatusChange = async (status: OrderStatus) => {
+    if (viewingId === null) return;
+    try {
+      await updateStatus({ id: viewingId, payload: { status, note: statusNote.trim() || null } });
+      setStatusNote('');
+      toast.success(`Pedido marcado como "${ORDER_STATUS_LABELS[status]}"`);
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível alterar o status do pedido'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Pedidos</h1>
+        <p className="text-muted-foreground text-sm">{total} pedido(s) encontrados</p>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-end gap-2">
+          <form onSubmit={handleSearch} className="flex w-full max-w-md gap-2">
+            <Input
+              placeholder="Buscar por código, nome ou e-mail"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <Button type="submit" variant="outline" size="icon" aria-label="Buscar">
+              <SearchIcon />
+            </Button>
+          </form>
+          <Input
+            type="date"
+            className="w-40"
+            aria-label="Data inicial"
+            value={filters.dateFrom ?? ''}
+            onChange={(e) =>
+              setFilters((prev) => ({ ...prev, dateFrom: e.target.value || undefined, page: 1 }))
+            }
+          />
+          <Input
+            type="date"
+            className="w-40"
+            aria-label="Data final"
+            value={filters.dateTo ?? ''}
+            onChange={(e) =>
+              setFilters((prev) => ({ ...prev, dateTo: e.target.value || undefined, page: 1 }))
+            }
+          />
+          <Select
+            value={filters.sortBy}
+            onValueChange={(value) =>
+              setFilters((prev) => ({
+                ...prev,
+                sortBy: value as AdminOrderListParams['sortBy'],
+                page: 1,
+              }))
+            }
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {statuses.map((status) => (
+            <Toggle
+              key={status}
+              variant="outline"
+              size="sm"
+              pressed={filters.status?.includes(status) ?? false}
+              onPressedChange={(pressed) => toggleStatus(status, pressed)}
+            >
+              {ORDER_STATUS_LABELS[status]}
+            </Toggle>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Erro ao carregar pedidos</EmptyTitle>
+            <EmptyDescription>Tente novamente em instantes.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : orders.length === 0 ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Nenhum pedido encontrado</EmptyTitle>
+            <EmptyDescription>Ajuste a busca ou os filtros.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {orders.map((order) => (
+            <div key={order.id} className="flex items-center gap-4 px-4 py-3">
+              <div className="min-w-0 flex-1">
+                <p className="font-medium">
+                  {order.code} · <span className="font-normal">{order.customerName}</span>
+                </p>
+                <p className="text-muted-foreground truncate text-xs">
+                  {formatOrderDate(order.dateCreated)} · {order.city} - {order.state} ·{' '}
+                  {PAYMENT_METHOD_LABELS[order.paymentMethod]} (
+                  {PAYMENT_STATUS_LABELS[order.paymentStatus].toLowerCase()})
+                </p>
+              </div>
+              <OrderStatusBadge status={order.status} />
+              <span className="w-28 text-right text-sm font-semibold">
+                {formatPrice(order.total)}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => openOrder(order.id)}
+                aria-label={`Ver pedido ${order.code}`}
+              >
+                <EyeIcon />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!hasPrevious}
+            onClick={() => setFilters((prev) => ({ ...prev, page: page - 1 }))}
+          >
+            Anterior
+          </Button>
+          <span className="text-muted-foreground text-sm">
+            Página {page} de {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!hasNext}
+            onClick={() => setFilters((prev) => ({ ...prev, page: page + 1 }))}
+          >
+            Próxima
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={viewingId !== null} onOpenChange={(open) => !open && setViewingId(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-3">
+              Pedido {viewing?.code}
+              {viewing && <OrderStatusBadge status={viewing.status} />}
+            </DialogTitle>
+            <DialogDescription>
+              {viewing && `Realizado em ${formatOrderDate(viewing.dateCreated)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {isViewingLoading || !viewing ? (
+            <div className="flex min-h-[200px] items-center justify-center">
+              <LoadingSpinner />
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid gap-4 text-sm sm:grid-cols-2">
+                <div className="space-y-1">
+                  <p className="font-medium">Cliente</p>
+                  <p>{viewing.customer.name}</p>
+                  <p>{viewing.customer.email}</p>
+                  <p>{formatPhone(viewing.customer.phone)}</p>
+                </div>
+                <div className="space-y-1">
+                  <p className="font-medium">Entrega</p>
+                  <p>
+                    {viewing.deliveryAddress.street}, {viewing.deliveryAddress.number}
+                    {viewing.deliveryAddress.complement &&
+                      ` - ${viewing.deliveryAddress.complement}`}
+                  </p>
+                  <p>
+                    {viewing.deliveryAddress.neighborhood}, {viewing.deliveryAddress.city} -{' '}
+                    {viewing.deliveryAddress.state}
+                  </p>
+                  <p>CEP {viewing.deliveryAddress.cep}</p>
+                </div>
+                <div className="space-y-1">
+                  <p className="font-medium">Pagamento</p>
+                  <p>
+                    {PAYMENT_METHOD_LABELS[viewing.payment.method]}
+                    {viewing.payment.installments > 1 && ` em ${viewing.payment.installments}x`}
+                    {' · '}
+                    {PAYMENT_STATUS_LABELS[viewing.payment.status]}
+                  </p>
+                  {viewing.payment.transactionId && (
+                    <p className="text-muted-foreground text-xs">
+                      {viewing.payment.provider} · {viewing.payment.transactionId}
+                    </p>
+                  )}
+                </div>
+                {viewing.notes && (
+                  <div className="space-y-1">
+                    <p className="font-medium">Observações</p>
+                    <p className="whitespace-pre-line">{viewing.notes}</p>
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+              <OrderSummary
+                items={viewing.items}
+                listTotal={viewing.listTotal}
+                discount={viewing.discount}
+                total={viewing.total}
+              />
+              <Separator />
+
+              <div className="grid gap-6 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Histórico</p>
+                  <OrderStatusHistory history={viewing.statusHistory} />
+                </div>
+                {viewing.allowedTransitions.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Alterar status</p>
+                    <Textarea
+                      rows={2}
+                      placeholder="Observação para o histórico (opcional)"
+                      value={statusNote}
+                      maxLength={500}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      {viewing.allowedTransitions.map((status) => (
+                        <Button
+                          key={status}
+                          size="sm"
+                          variant={status === 'cancelled' ? 'destructive' : 'default'}
+                          disabled={isUpdating}
+                          onClick={() => handleStatusChange(status)}
+                        >
+                          {ORDER_STATUS_LABELS[status]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export { AdminOrdersPage };
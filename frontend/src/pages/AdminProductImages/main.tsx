@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { ArrowLeftIcon, LinkIcon, UploadIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAdminProduct } from '@/domain/product/hooks/useAdminProduct';
+import { useAdminProductImages } from '@/domain/product/hooks/useAdminProductImages';
+import { useProductImageMutations } from '@/domain/product/hooks/useProductImageMutations';
+import { ProductImageForm } from '@/domain/product/components/ProductImageForm';
+import { ProductImageUploadForm } from '@/domain/product/components/ProductImageUploadForm';
+import {
+  ProductGalleryEditor,
+  type ProductGalleryImageFields,
+} from '@/domain/product/components/ProductGalleryEditor';
+import type { AdminProductImage } from '@/domain/product/types/models';
+import type {
+  ProductImagePayload,
+  ProductImageReorderItem,
+  ProductImageUploadPayload,
+} from '@/domain/product/types/api';
+import { Button } from '@/core/components/button';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/core/components/alert-dialog';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { getApiErrorMessage } from '@/core/lib/api';
+
+function AdminProductImagesPage() {
+  const { params, navigate } = useNavigation();
+  const productId = Number(params.id);
+
+  const { product, isLoading: isProductLoading } = useAdminProduct({ id: productId });
+  const { images, isLoading, error } = useAdminProductImages({ productId });
+  const {
+    createImage,
+    uploadImage,
+    updateImage,
+    deleteImage,
+    reorderImages,
+    isSaving,
+    isUploading,
+    isDeleting,
+    isReordering,
+  } = useProductImageMutations(productId);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [editing, setEditing] = useState<AdminProductImage | undefined>();
+  const [pendingDelete, setPendingDelete] = useState<AdminProductImage | null>(null);
+
+  const openCreate = () => {
+    setEditing(undefined);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (image: AdminProductImage) => {
+    setEditing(image);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (payload: ProductImagePayload) => {
+    try {
+      if (editing) {
+        await updateImage({
+          id: editing.id,
+          payload: { ...payload, displayOrder: editing.displayOrder },
+        });
+        toast.success('Imagem atualizada');
+      } else {
+        await createImage(payload);
+        toast.success('Imagem adicionada');
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível salvar a imagem'));
+    }
+  };
+
+  const handleUpload = async (payload: ProductImageUploadPayload) => {
+    try {
+      await uploadImage(payload);
+      toast.success('Imagem enviada');
+      setIsUploadOpen(false);
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível enviar a imagem'));
+    }
+  };
+
+  const handleInlineUpdate = async (
+    image: AdminProductImage,
+    fields: ProductGalleryImageFields
+  ) => {
+    try {
+      await updateImage({
+        id: image.id,
+        payload: {
+          imageUrl: image.imageUrl,
+          thumbnailUrl: image.thumbnailUrl,
+          highResUrl: image.highResUrl,
+          displayOrder: image.displayOrder,
+          variantIds: image.variantIds,
+          ...fields,
+        },
+      });
+      toast.success('Imagem atualizada');
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível salvar a imagem'));
+      throw err;
+    }
+  };
+
+  const handleReorder = async (imageOrder: ProductImageReorderItem[]) => {
+    try {
+      await reorderImages(imageOrder);
+      toast.success('Ordem da galeria atualizada');
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível reordenar as imagens'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteImage(pendingDelete.id);
+      toast.success('Imagem excluída');
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível excluir a imagem'));
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  if (isProductLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <Empty className="min-h-[400px]">
+        <EmptyHeader>
+          <EmptyTitle>Produto não encontrado</EmptyTitle>
+          <EmptyDescription>O produto pode ter sido removido.</EmptyDescription>
+        </EmptyHeader>
+        <Button variant="outline" onClick={() => navigate('/admin/products')}>
+          Voltar para produtos
+        </Button>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-2 px-0"
+        onClick={() => navigate('/admin/products')}
+      >
+        <ArrowLeftIcon className="h-4 w-4" />
+        Produtos
+      </Button>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Imagens</h1>
+          <p className="text-muted-foreground text-sm">{product.name}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={openCreate} className="gap-2">
+            <LinkIcon className="h-4 w-4" />
+            Adicionar por URL
+          </Button>
+          <Button onClick={() => setIsUploadOpen(true)} className="gap-2">
+            <UploadIcon className="h-4 w-4" />
+            Enviar imagem
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Erro ao carregar imagens</EmptyTitle>
+            <EmptyDescription>Tente novamente em instantes.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : images.length === 0 ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Nenhuma imagem cadastrada</EmptyTitle>
+            <EmptyDescription>Adicione imagens para montar a galeria do produto.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <ProductGalleryEditor
+          images={images}
+          isReordering={isReordering}
+          onReorder={handleReorder}
+          onUpdate={handleInlineUpdate}
+          onDelete={setPendingDelete}
+          onEdit={openEdit}
+        />
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Editar imagem' : 'Adicionar imagem por URL'}</DialogTitle>
+            <DialogDescription>{product.name}</DialogDescription>
+          </DialogHeader>
+          <ProductImageForm
+            key={editing?.id ?? 'new'}
+            image={editing}
+            variants={product?.variants}
+            isSubmitting={isSaving}
+            onSubmit={handleSubmit}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Enviar imagem</DialogTitle>
+            <DialogDescription>{product.name}</DialogDescription>
+          </DialogHeader>
+          {isUploadOpen && (
+            <ProductImageUploadForm
+              variants={product?.variants}
+              isSubmitting={isUploading}
+              onSubmit={handleUpload}
+              onCancel={() => setIsUploadOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir imagem?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A imagem será removida da galeria. Todo produto precisa manter ao menos uma imagem.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting}>
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export { AdminProductImagesPage };
@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { ImagesIcon, PencilIcon, PlusIcon, SearchIcon, Trash2Icon } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAdminProductList } from '@/domain/product/hooks/useAdminProductList';
+import { useAdminProduct } from '@/domain/product/hooks/useAdminProduct';
+import { useProductMutations } from '@/domain/product/hooks/useProductMutations';
+import { ProductForm } from '@/domain/product/components/ProductForm';
+import { ProductAvailabilityBadge } from '@/domain/product/components/ProductAvailabilityBadge';
+import type { AdminProductListItem } from '@/domain/product/types/models';
+import type { ProductListParams, ProductPayload } from '@/domain/product/types/api';
+import { useAdminCategoryList } from '@/domain/category/hooks/useAdminCategoryList';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/core/components/alert-dialog';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { getApiErrorMessage } from '@/core/lib/api';
+
+function AdminProductsPage() {
+  const { navigate } = useNavigation();
+  const [filters, setFilters] = useState<ProductListParams>({
+    sortBy: 'name_asc',
+    page: 1,
+    pageSize: 18,
+  });
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const { products, total, page, totalPages, hasNext, hasPrevious, isLoading, error } =
+    useAdminProductList({ filters });
+  const { categories } = useAdminCategoryList();
+  const { createProduct, updateProduct, deleteProduct, isSaving, isDeleting } =
+    useProductMutations();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AdminProductListItem | null>(null);
+
+  const { product: editing, isLoading: isEditingLoading } = useAdminProduct({
+    id: editingId ?? 0,
+    enabled: editingId !== null,
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters((prev) => ({ ...prev, search: searchTerm.trim() || undefined, page: 1 }));
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (product: AdminProductListItem) => {
+    setEditingId(product.id);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (payload: ProductPayload) => {
+    try {
+      if (editingId !== null) {
+        await updateProduct({ id: editingId, payload });
+        toast.success('Produto atualizado');
+      } else {
+        await createProduct(payload);
+        toast.success('Produto criado');
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível salvar o produto'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteProduct(pendingDelete.id);
+      toast.success('Produto excluído');
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível excluir o produto'));
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Produtos</h1>
+          <p className="text-muted-foreground text-sm">{total} produto(s) cadastrados</p>
+        </div>
+        <Button onClick={openCreate} className="gap-2">
+          <PlusIcon className="h-4 w-4" />
+          Novo produto
+        </Button>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex max-w-md gap-2">
+        <Input
+          placeholder="Buscar por nome ou descrição"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <Button type="submit" variant="outline" size="icon" aria-label="Buscar">
+          <SearchIcon />
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Erro ao carregar produtos</EmptyTitle>
+            <EmptyDescription>Tente novamente em instantes.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : products.length === 0 ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Nenhum produto encontrado</EmptyTitle>
+            <EmptyDescription>Ajuste a busca ou cadastre um novo produto.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {products.map((product) => (
+            <div key={product.id} className="flex items-center gap-4 px-4 py-3">
+              <img
+                src={product.imageUrl}
+                alt={product.name}
+                loading="lazy"
+                className="bg-muted h-12 w-16 shrink-0 rounded object-cover"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-medium">{product.name}</p>
+                <p className="text-muted-foreground truncate text-xs">
+                  {product.category.path.map((item) => item.name).join(' › ')}
+                </p>
+              </div>
+              <ProductAvailabilityBadge
+                availability={product.availability}
+                className="hidden sm:block"
+              />
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => navigate(`/admin/products/${product.id}/images`)}
+                  aria-label={`Imagens de ${product.name}`}
+                >
+                  <ImagesIcon />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => openEdit(product)}
+                  aria-label={`Editar ${product.name}`}
+                >
+                  <PencilIcon />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setPendingDelete(product)}
+                  aria-label={`Excluir ${product.name}`}
+                >
+                  <Trash2Icon />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!hasPrevious}
+            onClick={() => setFilters((prev) => ({ ...prev, page: page - 1 }))}
+          >
+            Anterior
+          </Button>
+          <span className="text-muted-foreground text-sm">
+            Página {page} de {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!hasNext}
+            onClick={() => setFilters((prev) => ({ ...prev, page: page + 1 }))}
+          >
+            Próxima
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId !== null ? 'Editar produto' : 'Novo produto'}</DialogTitle>
+            <DialogDescription>
+              {editing && editingId !== null
+                ? `Alterando "${editing.name}"`
+                : 'Preencha os dados do produto'}
+            </DialogDescription>
+          </DialogHeader>
+          {editingId !== null && (isEditingLoading || !editing) ? (
+            <div className="flex min-h-[200px] items-center justify-center">
+              <LoadingSpinner />
+            </div>
+          ) : (
+            <ProductForm
+              key={editingId ?? 'new'}
+              product={editingId !== null ? editing : undefined}
+              categories={categories}
+              isSubmitting={isSaving}
+              onSubmit={handleSubmit}
+              onCancel={() => setIsFormOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir produto?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" e todas as suas imagens serão removidos permanentemente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting}>
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export { AdminProductsPage };
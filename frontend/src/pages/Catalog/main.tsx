@@ -1,10 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useProductList } from '@/domain/product/hooks/useProductList';
+import { useInfiniteProductList } from '@/domain/product/hooks/useInfiniteProductList';
 import { ProductCard } from '@/domain/product/components/ProductCard';
+import { ProductSearchAutocomplete } from '@/domain/product/components/ProductSearchAutocomplete';
+import {
+  ProductFacetFilters,
+  type ProductFacetSelection,
+} from '@/domain/product/components/ProductFacetFilters';
 import { CategoryMenu } from '@/domain/category/components/CategoryMenu';
 import { CategoryBreadcrumb } from '@/domain/category/components/CategoryBreadcrumb';
 import { Button } from '@/core/components/button';
-import { Input } from '@/core/components/input';
+import { Label } from '@/core/components/label';
+import { Switch } from '@/core/components/switch';
 import {
   Select,
   SelectContent,
@@ -23,71 +30,170 @@ import {
   PaginationPrevious,
   PaginationEllipsis,
 } from '@/core/components/pagination';
-import { SearchIcon, GridIcon, ListIcon, XIcon } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/core/components/sheet';
+import {
+  SearchIcon,
+  GridIcon,
+  ListIcon,
+  XIcon,
+  SlidersHorizontalIcon,
+  InfinityIcon,
+} from 'lucide-react';
 import { cn } from '@/core/lib/utils';
 import type { ProductListParams } from '@/domain/product/types/api';
+import type { ProductFacetKey } from '@/domain/product/types/models';
+import { PRODUCT_FACET_LABELS } from '@/domain/product/constants';
 import { useNavigation } from '@/core/hooks/useNavigation';
+import { useIntersectionObserver } from '@/core/hooks/useIntersectionObserver';
+
+const facetKeys = Object.keys(PRODUCT_FACET_LABELS) as ProductFacetKey[];
+
+type SortOption = NonNullable<ProductListParams['sortBy']>;
+type PageSize = NonNullable<ProductListParams['pageSize']>;
+type ViewMode = 'grid' | 'list';
+
+const SORT_OPTIONS: SortOption[] = [
+  'relevance',
+  'date_desc',
+  'date_asc',
+  'name_asc',
+  'name_desc',
+  'price_asc',
+  'price_desc',
+];
+const PAGE_SIZES: PageSize[] = [9, 18, 27, 36];
+const DEFAULT_PAGE_SIZE: PageSize = 9;
+
+// Facet selections live in the URL as comma-separated lists, e.g. ?material=MDF,Veludo
+const readFacetSelection = (searchParams: URLSearchParams): ProductFacetSelection =>
+  Object.fromEntries(
+    facetKeys.flatMap((facet) => {
+      const values = searchParams.get(facet)?.split(',').filter(Boolean) ?? [];
+      return values.length > 0 ? [[facet, values]] : [];
+    })
+  );
+
+// Defaults are left out of the URL; unknown or malformed values fall back to them
+const readCatalogFilters = (searchParams: URLSearchParams): ProductListParams => {
+  const search = searchParams.get('search')?.trim() || undefined;
+  const defaultSort: SortOption = search ? 'relevance' : 'date_desc';
+  const sortBy =
+    SORT_OPTIONS.find(
+      (option) => option === searchParams.get('sortBy') && (option !== 'relevance' || search)
+    ) ?? defaultSort;
+  const page = Math.max(1, parseInt(searchParams.get('page') ?? '') || 1);
+  const pageSize =
+    PAGE_SIZES.find((size) => String(size) === searchParams.get('pageSize')) ?? DEFAULT_PAGE_SIZE;
+  const inStockOnly = searchParams.get('inStockOnly') === 'true' || undefined;
+
+  return { search, sortBy, page, pageSize, inStockOnly };
+};
 
 function CatalogPage() {
-  const { location, navigate } = useNavigation();
-  const searchParams = new URLSearchParams(location.search);
-  const categoryParam = searchParams.get('category');
-
-  const [filters, setFilters] = useState<ProductListParams>({
-    sortBy: 'date_desc',
-    page: 1,
-    pageSize: 9,
-    category: categoryParam ?? undefined,
-  });
-  const [searchTerm, setSearchTerm] = useState('');
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const { searchParams, setSearchParams } = useNavigation();
+  const facetSelection = readFacetSelection(searchParams);
+  const filters = readCatalogFilters(searchParams);
+  const hasActiveFilters = Object.keys(facetSelection).length > 0 || !!filters.inStockOnly;
+  const viewMode: ViewMode = searchParams.get('view') === 'list' ? 'list' : 'grid';
 
-  const { products, total, page, totalPages, hasNext, hasPrevious, isLoading, error } =
-    useProductList({ filters });
+  const [searchTerm, setSearchTerm] = useState(filters.search ?? '');
 
+  // Keep the search box in step with the URL on back/forward navigation
   useEffect(() => {
-    if (categoryParam) {
-      setFilters((prev) => ({ ...prev, category: categoryParam, page: 1 }));
-    }
-  }, [categoryParam]);
+    setSearchTerm(filters.search ?? '');
+  }, [filters.search]);
+
+  const isInfinite = searchParams.get('paging') === 'infinite';
+
+  const { page: requestedPage, ...listFilters } = { ...filters, ...facetSelection };
+  const pagedList = useProductList({
+    filters: { ...listFilters, page: requestedPage },
+    enabled: !isInfinite,
+  });
+  const infiniteList = useInfiniteProductList({ filters: listFilters, enabled: isInfinite });
+  const { products, facets, total, isLoading, error } = isInfinite ? infiniteList : pagedList;
+  const { page, totalPages, hasNext, hasPrevious } = pagedList;
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = infiniteList;
+
+  const loaderRef = useIntersectionObserver<HTMLDivElement>(() => fetchNextPage(), {
+    enabled: isInfinite && hasNextPage && !isFetchingNextPage,
+  });
+
+  // Changes to what is listed push a history entry so Back returns to the previous results;
+  // presentation changes (sort, page size, view) replace the current one.
+  const applySearch = (term: string) => {
+    // Dropping the sort makes a search rank by relevance and an empty search by date
+    setSearchParams({ search: term, sortBy: null, page: null });
+  };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (searchTerm.length >= 3 || searchTerm.length === 0) {
-      setFilters((prev) => ({ ...prev, search: searchTerm || undefined, page: 1 }));
+      applySearch(searchTerm);
     }
   };
 
   const handleCategorySelect = (slug: string) => {
-    navigate(`/catalog?category=${slug}`);
+    setSearchParams({ category: slug, page: null });
+  };
+
+  const handleFacetChange = (facet: ProductFacetKey, values: string[]) => {
+    setSearchParams({ [facet]: values.join(','), page: null });
+  };
+
+  const handleInStockChange = (checked: boolean) => {
+    setSearchParams({ inStockOnly: checked ? 'true' : null, page: null });
   };
 
-  const handleClearCategory = () => {
-    setFilters((prev) => ({ ...prev, category: undefined, page: 1 }));
-    navigate('/catalog');
+  const handleClearFilters = () => {
+    setSearchParams({
+      ...Object.fromEntries(facetKeys.map((facet) => [facet, null])),
+      inStockOnly: null,
+      page: null,
+    });
   };
 
+  const facetFilters = (
+    <div className="space-y-2">
+      <Label className="justify-between py-2">
+        Pronta entrega
+        <Switch checked={!!filters.inStockOnly} onCheckedChange={handleInStockChange} />
+      </Label>
+      <ProductFacetFilters facets={facets} selected={facetSelection} onChange={handleFacetChange} />
+    </div>
+  );
+
   const handleSortChange = (value: string) => {
-    setFilters((prev) => ({
-      ...prev,
-      sortBy: value as ProductListParams['sortBy'],
-      page: 1,
-    }));
+    setSearchParams({ sortBy: value, page: null }, { replace: true });
   };
 
   const handlePageSizeChange = (value: string) => {
-    setFilters((prev) => ({
-      ...prev,
-      pageSize: parseInt(value) as ProductListParams['pageSize'],
-      page: 1,
-    }));
+    setSearchParams(
+      { pageSize: value === String(DEFAULT_PAGE_SIZE) ? null : value, page: null },
+      { replace: true }
+    );
   };
 
   const handlePageChange = (newPage: number) => {
-    setFilters((prev) => ({ ...prev, page: newPage }));
+    setSearchParams({ page: newPage === 1 ? null : newPage });
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const handleViewModeChange = (mode: ViewMode) => {
+    setSearchParams({ view: mode === 'grid' ? null : mode }, { replace: true });
+  };
+
+  const handlePagingToggle = () => {
+    setSearchParams({ paging: isInfinite ? null : 'infinite', page: null }, { replace: true });
+  };
+
   const renderPaginationItems = () => {
     const items = [];
     const maxVisible = 5;
@@ -159,7 +265,7 @@ function CatalogPage() {
   return (
     <div className="space-y-8 py-8">
       {/* Breadcrumb */}
-      <CategoryBreadcrumb categorySlug={filters.category} />
+      <CategoryBreadcrumb categorySlug={facetSelection.category?.[0]} />
 
       {/* Header */}
       <div className="space-y-4">
@@ -176,7 +282,7 @@ function CatalogPage() {
             <Button
               variant={viewMode === 'grid' ? 'default' : 'outline'}
               size="icon"
-              onClick={() => setViewMode('grid')}
+              onClick={() => handleViewModeChange('grid')}
               aria-label="Visualização em grade"
             >
               <GridIcon />
@@ -184,11 +290,20 @@ function CatalogPage() {
             <Button
               variant={viewMode === 'list' ? 'default' : 'outline'}
               size="icon"
-              onClick={() => setViewMode('list')}
+              onClick={() => handleViewModeChange('list')}
               aria-label="Visualização em lista"
             >
               <ListIcon />
             </Button>
+            <Button
+              variant={isInfinite ? 'default' : 'outline'}
+              size="icon"
+              onClick={handlePagingToggle}
+              aria-label="Rolagem contínua"
+              aria-pressed={isInfinite}
+            >
+              <InfinityIcon />
+            </Button>
           </div>
         </div>
 
@@ -196,9 +311,24 @@ function CatalogPage() {
         <div className="space-y-4">
           <div className="flex items-center gap-2">
             <CategoryMenu onCategorySelect={handleCategorySelect} />
-            {filters.category && (
-              <Button variant="ghost" size="sm" onClick={handleClearCategory} className="gap-1">
-                Limpar filtro
+            <Sheet>
+              <SheetTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-1 lg:hidden">
+                  <SlidersHorizontalIcon className="h-4 w-4" />
+                  Filtros
+                </Button>
+              </SheetTrigger>
+              <SheetContent side="left" className="overflow-y-auto">
+                <SheetHeader>
+                  <SheetTitle>Filtros</SheetTitle>
+                  <SheetDescription>Refine os produtos exibidos no catálogo.</SheetDescription>
+                </SheetHeader>
+                <div className="px-4 pb-4">{facetFilters}</div>
+              </SheetContent>
+            </Sheet>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" onClick={handleClearFilters} className="gap-1">
+                Limpar filtros
                 <XIcon className="h-4 w-4" />
               </Button>
             )}
@@ -208,11 +338,10 @@ function CatalogPage() {
         {/* Search and Filters */}
         <div className="flex flex-col gap-4 md:flex-row">
           <form onSubmit={handleSearch} className="flex flex-1 gap-2">
-            <Input
-              type="search"
-              placeholder="Buscar produtos..."
+            <ProductSearchAutocomplete
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onValueChange={setSearchTerm}
+              onSearch={applySearch}
               className="flex-1"
             />
             <Button
@@ -230,10 +359,13 @@ function CatalogPage() {
                 <SelectValue placeholder="Ordenar por" />
               </SelectTrigger>
               <SelectContent>
+                {filters.search && <SelectItem value="relevance">Mais relevantes</SelectItem>}
                 <SelectItem value="date_desc">Mais recentes</SelectItem>
                 <SelectItem value="date_asc">Mais antigos</SelectItem>
                 <SelectItem value="name_asc">Nome (A-Z)</SelectItem>
                 <SelectItem value="name_desc">Nome (Z-A)</SelectItem>
+                <SelectItem value="price_asc">Menor preço</SelectItem>
+                <SelectItem value="price_desc">Maior preço</SelectItem>
               </SelectContent>
             </Select>
 
@@ -252,88 +384,107 @@ function CatalogPage() {
         </div>
       </div>
 
-      {/* Loading State */}
-      {isLoading && (
-        <div className="flex min-h-[400px] items-center justify-center">
-          <div className="flex flex-col items-center gap-4">
-            <LoadingSpinner className="h-8 w-8" />
-            <p className="text-muted-foreground text-sm">Carregando produtos...</p>
-          </div>
-        </div>
-      )}
+      <div className="grid gap-8 lg:grid-cols-[240px_1fr]">
+        {/* Facet Filters */}
+        <aside className="hidden lg:block">{facetFilters}</aside>
 
-      {/* Empty State */}
-      {!isLoading && products.length === 0 && (
-        <Empty className="min-h-[400px]">
-          <EmptyHeader>
-            <EmptyTitle>Nenhum produto encontrado</EmptyTitle>
-            <EmptyDescription>
-              {filters.search || filters.category
-                ? 'Tente ajustar sua busca ou remover filtros para ver mais resultados.'
-                : 'Não há produtos disponíveis no momento.'}
-            </EmptyDescription>
-          </EmptyHeader>
-          {(filters.search || filters.category) && (
-            <div className="flex gap-2">
-              {filters.search && (
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setSearchTerm('');
-                    setFilters((prev) => ({ ...prev, search: undefined, page: 1 }));
-                  }}
-                >
-                  Limpar busca
-                </Button>
+        <div className="space-y-8">
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex min-h-[400px] items-center justify-center">
+              <div className="flex flex-col items-center gap-4">
+                <LoadingSpinner className="h-8 w-8" />
+                <p className="text-muted-foreground text-sm">Carregando produtos...</p>
+              </div>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!isLoading && products.length === 0 && (
+            <Empty className="min-h-[400px]">
+              <EmptyHeader>
+                <EmptyTitle>Nenhum produto encontrado</EmptyTitle>
+                <EmptyDescription>
+                  {filters.search || hasActiveFilters
+                    ? 'Tente ajustar sua busca ou remover filtros para ver mais resultados.'
+                    : 'Não há produtos disponíveis no momento.'}
+                </EmptyDescription>
+              </EmptyHeader>
+              {(filters.search || hasActiveFilters) && (
+                <div className="flex gap-2">
+                  {filters.search && (
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setSearchTerm('');
+                        applySearch('');
+                      }}
+                    >
+                      Limpar busca
+                    </Button>
+                  )}
+                  {hasActiveFilters && (
+                    <Button variant="outline" onClick={handleClearFilters}>
+                      Limpar filtros
+                    </Button>
+                  )}
+                </div>
               )}
-              {filters.category && (
-                <Button variant="outline" onClick={handleClearCategory}>
-                  Limpar categoria
-                </Button>
+            </Empty>
+          )}
+
+          {/* Products Grid/List */}
+          {!isLoading && products.length > 0 && (
+            <div
+              className={cn(
+                'gap-6',
+                viewMode === 'grid'
+                  ? 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3'
+                  : 'flex flex-col'
               )}
+            >
+              {products.map((product) => (
+                <ProductCard
+                  key={product.id}
+                  product={product}
+                  className={cn(viewMode === 'list' && 'flex-row')}
+                />
+              ))}
             </div>
           )}
-        </Empty>
-      )}
-
-      {/* Products Grid/List */}
-      {!isLoading && products.length > 0 && (
-        <div
-          className={cn(
-            'gap-6',
-            viewMode === 'grid' ? 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3' : 'flex flex-col'
+
+          {/* Infinite Scroll Loader */}
+          {isInfinite && !isLoading && products.length > 0 && (
+            <div ref={loaderRef} className="flex min-h-16 items-center justify-center">
+              {isFetchingNextPage && <LoadingSpinner className="h-6 w-6" />}
+              {!hasNextPage && (
+                <p className="text-muted-foreground text-sm">Você viu todos os {total} produtos.</p>
+              )}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {!isInfinite && !isLoading && products.length > 0 && totalPages > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    onClick={() => hasPrevious && handlePageChange(page - 1)}
+                    className={cn(!hasPrevious && 'pointer-events-none opacity-50')}
+                  />
+                </PaginationItem>
+                {renderPaginationItems()}
+                <PaginationItem>
+                  <PaginationNext
+                    onClick={() => hasNext && handlePageChange(page + 1)}
+                    className={cn(!hasNext && 'pointer-events-none opacity-50')}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
           )}
-        >
-          {products.map((product) => (
-            <ProductCard
-              key={product.id}
-              product={product}
-              className={cn(viewMode === 'list' && 'flex-row')}
-            />
-          ))}
         </div>
-      )}
-
-      {/* Pagination */}
-      {!isLoading && products.length > 0 && totalPages > 1 && (
-        <Pagination>
-          <PaginationContent>
-            <PaginationItem>
-              <PaginationPrevious
-                onClick={() => hasPrevious && handlePageChange(page - 1)}
-                className={cn(!hasPrevious && 'pointer-events-none opacity-50')}
-              />
-            </PaginationItem>
-            {renderPaginationItems()}
-            <PaginationItem>
-              <PaginationNext
-                onClick={() => hasNext && handlePageChange(page + 1)}
-                className={cn(!hasNext && 'pointer-events-none opacity-50')}
-              />
-            </PaginationItem>
-          </PaginationContent>
-        </Pagination>
-      )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { toast } from 'sonner';
+import { CheckoutForm } from '@/domain/order/components/CheckoutForm';
+import { OrderSummary } from '@/domain/order/components/OrderSummary';
+import { useCheckout } from '@/domain/order/hooks/useCheckout';
+import { getCheckoutErrorMessage, getMaxInstallments } from '@/domain/order/utils';
+import { useCart } from '@/domain/cart/hooks/useCart';
+import type { CheckoutPayload } from '@/domain/order/types/api';
+import { Button } from '@/core/components/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/core/components/card';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useAuthStore } from '@/core/stores/auth';
+
+function CheckoutPage() {
+  const { navigate } = useNavigation();
+  const user = useAuthStore((state) => state.user);
+  const { cart, isLoading } = useCart();
+  const { checkout, isPending } = useCheckout();
+
+  const lines = useMemo(
+    () =>
+      cart?.items.map((line) => {
+        const { price, availability } = line.variant ?? line.product;
+        return {
+          productId: line.product.id,
+          variantId: line.variant?.id ?? null,
+          sku: line.variant?.sku ?? null,
+          variantLabel: line.variant?.label ?? null,
+          name: line.product.name,
+          imageUrl: line.product.imageUrl,
+          categoryName: line.product.category.name,
+          quantity: line.quantity,
+          listPrice: price?.listPrice ?? line.unitPrice,
+          unitPrice: line.unitPrice,
+          lineTotal: line.lineTotal,
+          reservedQuantity: Math.min(line.quantity, availability.available),
+          leadTimeDays: availability.leadTimeDays,
+        };
+      }) ?? [],
+    [cart]
+  );
+
+  const handleSubmit = async (payload: Omit<CheckoutPayload, 'expectedTotal'>) => {
+    if (!cart) return;
+    try {
+      // The total shown here is sent back so the order is never charged at prices not reviewed
+      const order = await checkout({ ...payload, expectedTotal: cart.subtotal });
+      toast.success(`Pedido ${order.code} realizado com sucesso`);
+      const search = new URLSearchParams({ email: order.customer.email });
+      navigate(`/orders/${order.code}?${search}`, { replace: true });
+    } catch (err) {
+      toast.error(getCheckoutErrorMessage(err));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <LoadingSpinner className="h-8 w-8" />
+      </div>
+    );
+  }
+
+  if (!cart || cart.items.length === 0) {
+    return (
+      <Empty className="min-h-[400px]">
+        <EmptyHeader>
+          <EmptyTitle>Seu carrinho está vazio</EmptyTitle>
+          <EmptyDescription>
+            Adicione produtos ao carrinho para finalizar a compra.
+          </EmptyDescription>
+        </EmptyHeader>
+        <Button onClick={() => navigate('/catalog')}>Ver Catálogo</Button>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-6 py-8">
+      <h1 className="text-3xl font-bold">Finalizar compra</h1>
+      <div className="grid gap-8 lg:grid-cols-[1fr_380px]">
+        <CheckoutForm
+          customer={user ? { name: user.name, email: user.email } : undefined}
+          maxInstallments={getMaxInstallments(cart.items)}
+          total={cart.subtotal}
+          isSubmitting={isPending}
+          onSubmit={handleSubmit}
+        />
+        <Card className="h-fit lg:sticky lg:top-4">
+          <CardHeader>
+            <CardTitle>Resumo do pedido</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <OrderSummary
+              items={lines}
+              listTotal={cart.listTotal}
+              discount={cart.discount}
+              total={cart.subtotal}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export { CheckoutPage };
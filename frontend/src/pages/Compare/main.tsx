@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { CompareTable } from '@/domain/compare/components/CompareTable';
+import { useProductComparison } from '@/domain/compare/hooks/useProductComparison';
+import { Button } from '@/core/components/button';
+import { Label } from '@/core/components/label';
+import { Switch } from '@/core/components/switch';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useCompareStore } from '@/core/stores/compare';
+
+function ComparePage() {
+  const { navigate } = useNavigation();
+  const items = useCompareStore((state) => state.items);
+  const remove = useCompareStore((state) => state.remove);
+  const clear = useCompareStore((state) => state.clear);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const { products, groups, isLoading, error } = useProductComparison({
+    productIds: items.map((item) => item.id),
+  });
+
+  return (
+    <div className="space-y-6 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">Comparar produtos</h1>
+        {products.length > 0 && (
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="compare-differences-only"
+                checked={differencesOnly}
+                onCheckedChange={setDifferencesOnly}
+              />
+              <Label htmlFor="compare-differences-only">Mostrar só as diferenças</Label>
+            </div>
+            <Button variant="outline" onClick={clear}>
+              Limpar comparação
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Nenhum produto para comparar</EmptyTitle>
+            <EmptyDescription>
+              Use o botão "Comparar" nos produtos do catálogo para colocá-los lado a lado.
+            </EmptyDescription>
+          </EmptyHeader>
+          <Button onClick={() => navigate('/catalog')}>Ver Catálogo</Button>
+        </Empty>
+      ) : isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Erro ao carregar a comparação</EmptyTitle>
+            <EmptyDescription>Tente novamente em instantes.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <>
+          <CompareTable
+            products={products}
+            groups={groups}
+            differencesOnly={differencesOnly}
+            onRemove={remove}
+          />
+          {products.length < 2 && (
+            <p className="text-muted-foreground text-sm">
+              Adicione mais um produto do catálogo para ver as diferenças.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export { ComparePage };
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { LoginForm } from '@/domain/auth/components/LoginForm';
+import { RegisterForm } from '@/domain/auth/components/RegisterForm';
+import { Button } from '@/core/components/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/core/components/card';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useCartMutations } from '@/domain/cart/hooks/useCartMutations';
+import { useWishlistMutations } from '@/domain/wishlist/hooks/useWishlistMutations';
+import { useWishlistStore } from '@/core/stores/wishlist';
+
+function LoginPage() {
+  const { navigate } = useNavigation();
+  const [searchParams] = useSearchParams();
+  const { mergeCart } = useCartMutations();
+  const { syncFavorites } = useWishlistMutations();
+  const localFavorites = useWishlistStore((state) => state.productIds);
+  const clearLocalFavorites = useWishlistStore((state) => state.clear);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const isRegister = mode === 'register';
+
+  const handleSuccess = async () => {
+    // Keep what was added to the cart before signing in; the cart is still usable if this fails
+    await mergeCart().catch(() => undefined);
+    // Favorites saved before signing in move to the account; kept on the device if this fails
+    if (localFavorites.length > 0) {
+      await syncFavorites(localFavorites)
+        .then(() => clearLocalFavorites())
+        .catch(() => undefined);
+    }
+    const redirect = searchParams.get('redirect');
+    // Only follow same-origin paths to avoid open redirects
+    const isSafeRedirect = !!redirect && redirect.startsWith('/') && !redirect.startsWith('//');
+    navigate(isSafeRedirect ? redirect : '/', { replace: true });
+  };
+
+  return (
+    <div className="flex min-h-[60vh] items-center justify-center px-4 py-12">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-2xl">{isRegister ? 'Criar conta' : 'Entrar'}</CardTitle>
+          <CardDescription>
+            {isRegister
+              ? 'Crie sua conta para acompanhar seus pedidos e guardar seus favoritos'
+              : 'Entre com seu e-mail e senha para acompanhar seus pedidos e favoritos ou acessar a área administrativa'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isRegister ? (
+            <RegisterForm onSuccess={handleSuccess} />
+          ) : (
+            <LoginForm onSuccess={handleSuccess} />
+          )}
+          <p className="text-muted-foreground text-center text-sm">
+            {isRegister ? 'Já tem uma conta?' : 'Ainda não tem conta?'}
+            <Button
+              variant="link"
+              className="h-auto px-1"
+              onClick={() => setMode(isRegister ? 'login' : 'register')}
+            >
+              {isRegister ? 'Entrar' : 'Criar conta'}
+            </Button>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export { LoginPage };
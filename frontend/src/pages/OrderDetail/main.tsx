@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeftIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { useOrderDetail } from '@/domain/order/hooks/useOrderDetail';
+import { useOrderMutations } from '@/domain/order/hooks/useOrderMutations';
+import { OrderStatusBadge } from '@/domain/order/components/OrderStatusBadge';
+import { OrderStatusHistory } from '@/domain/order/components/OrderStatusHistory';
+import { OrderSummary } from '@/domain/order/components/OrderSummary';
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from '@/domain/order/constants';
+import { formatOrderDate, formatPhone } from '@/domain/order/utils';
+import { Button } from '@/core/components/button';
+import { Input } from '@/core/components/input';
+import { Textarea } from '@/core/components/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/core/components/card';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/core/components/alert-dialog';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { getApiErrorMessage } from '@/core/lib/api';
+import { useAuthStore } from '@/core/stores/auth';
+
+function OrderDetailPage() {
+  const { code = '' } = useParams<{ code: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { navigate } = useNavigation();
+  const user = useAuthStore((state) => state.user);
+  const email = searchParams.get('email') ?? undefined;
+  const [emailInput, setEmailInput] = useState('');
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+  const [cancelNote, setCancelNote] = useState('');
+
+  // Guests identify their orders by the email given at checkout
+  const canLookup = !!user || !!email;
+  const { order, isLoading, error } = useOrderDetail({ code, email, enabled: canLookup });
+  const { cancelOrder, isCancelling } = useOrderMutations();
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (emailInput.trim()) setSearchParams({ email: emailInput.trim() });
+  };
+
+  const handleCancel = async () => {
+    try {
+      await cancelOrder({ code, note: cancelNote.trim() || null });
+      toast.success('Pedido cancelado');
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível cancelar o pedido'));
+    } finally {
+      setIsCancelOpen(false);
+    }
+  };
+
+  if (!canLookup || (error && !user)) {
+    return (
+      <div className="mx-auto max-w-md space-y-4 py-12">
+        <h1 className="text-2xl font-bold">Acompanhar pedido {code.toUpperCase()}</h1>
+        <p className="text-muted-foreground text-sm">
+          {error
+            ? 'Não encontramos um pedido com este código e e-mail. Confira os dados e tente novamente.'
+            : 'Informe o e-mail usado na compra para ver o pedido.'}
+        </p>
+        <form onSubmit={handleLookup} className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="seu@email.com"
+            value={emailInput}
+            onChange={(e) => setEmailInput(e.target.value)}
+          />
+          <Button type="submit">Buscar</Button>
+        </form>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <LoadingSpinner className="h-8 w-8" />
+          <p className="text-muted-foreground text-sm">Carregando pedido...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <Empty className="min-h-[400px]">
+        <EmptyHeader>
+          <EmptyTitle>Pedido não encontrado</EmptyTitle>
+          <EmptyDescription>
+            O pedido solicitado não existe ou não pertence à sua conta.
+          </EmptyDescription>
+        </EmptyHeader>
+        <Button onClick={() => navigate('/orders')}>Meus pedidos</Button>
+      </Empty>
+    );
+  }
+
+  const { deliveryAddress: address, payment } = order;
+
+  return (
+    <div className="space-y-6 py-8">
+      {user && (
+        <Button variant="ghost" onClick={() => navigate('/orders')} className="gap-2">
+          <ArrowLeftIcon className="h-4 w-4" />
+          Meus pedidos
+        </Button>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">Pedido {order.code}</h1>
+            <OrderStatusBadge status={order.status} />
+          </div>
+          <p className="text-muted-foreground text-sm">
+            Realizado em {formatOrderDate(order.dateCreated)}
+          </p>
+        </div>
+        {order.canCancel && user && (
+          <Button variant="outline" onClick={() => setIsCancelOpen(true)}>
+            Cancelar pedido
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_380px]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Itens</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <OrderSummary
+              items={order.items}
+              listTotal={order.listTotal}
+              discount={order.discount}
+              total={order.total}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Acompanhamento</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderStatusHistory history={order.statusHistory} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Entrega</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p className="font-medium">{order.customer.name}</p>
+              <p>
+                {address.street}, {address.number}
+                {address.complement && ` - ${address.complement}`}
+              </p>
+              <p>
+                {address.neighborhood}, {address.city} - {address.state}
+              </p>
+              <p>CEP {address.cep}</p>
+              <p className="text-muted-foreground">{formatPhone(order.customer.phone)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Pagamento</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p>
+                {PAYMENT_METHOD_LABELS[payment.method]}
+                {payment.installments > 1 && ` em ${payment.installments}x sem juros`}
+              </p>
+              <p className="text-muted-foreground">{PAYMENT_STATUS_LABELS[payment.status]}</p>
+            </CardContent>
+          </Card>
+          {order.notes && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Observações</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm whitespace-pre-line">{order.notes}</CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar pedido {order.code}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Pagamentos aprovados serão estornados. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            rows={3}
+            placeholder="Motivo do cancelamento (opcional)"
+            value={cancelNote}
+            maxLength={500}
+            onChange={(e) => setCancelNote(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} disabled={isCancelling}>
+              Cancelar pedido
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export { OrderDetailPage };
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { ChevronRightIcon } from 'lucide-react';
+import { useOrderHistory } from '@/domain/order/hooks/useOrderHistory';
+import { OrderStatusBadge } from '@/domain/order/components/OrderStatusBadge';
+import { formatOrderDate } from '@/domain/order/utils';
+import type { OrderListParams } from '@/domain/order/types/api';
+import { formatPrice } from '@/domain/product/utils';
+import { Button } from '@/core/components/button';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useAuthStore } from '@/core/stores/auth';
+
+function OrdersPage() {
+  const { navigate } = useNavigation();
+  const user = useAuthStore((state) => state.user);
+  const [filters, setFilters] = useState<OrderListParams>({ page: 1, pageSize: 10 });
+
+  const { orders, page, totalPages, hasNext, hasPrevious, isLoading, error } = useOrderHistory({
+    filters,
+    enabled: !!user,
+  });
+
+  if (!user) {
+    return <Navigate to="/login?redirect=%2Forders" replace />;
+  }
+
+  return (
+    <div className="space-y-6 py-8">
+      <h1 className="text-3xl font-bold">Meus pedidos</h1>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Erro ao carregar pedidos</EmptyTitle>
+            <EmptyDescription>Tente novamente em instantes.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : orders.length === 0 ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Você ainda não fez pedidos</EmptyTitle>
+            <EmptyDescription>Os pedidos realizados com sua conta aparecem aqui.</EmptyDescription>
+          </EmptyHeader>
+          <Button onClick={() => navigate('/catalog')}>Ver Catálogo</Button>
+        </Empty>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {orders.map((order) => (
+            <button
+              key={order.code}
+              type="button"
+              className="hover:bg-muted/50 flex w-full items-center gap-4 px-4 py-3 text-left"
+              onClick={() => navigate(`/orders/${order.code}`)}
+            >
+              <img
+                src={order.imageUrl}
+                alt=""
+                loading="lazy"
+                className="bg-muted h-12 w-16 shrink-0 rounded object-cover"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="font-medium">{order.code}</p>
+                <p className="text-muted-foreground text-xs">
+                  {formatOrderDate(order.dateCreated)} · {order.itemCount}{' '}
+                  {order.itemCount === 1 ? 'item' : 'itens'}
+                </p>
+              </div>
+              <OrderStatusBadge status={order.status} />
+              <span className="w-28 text-right text-sm font-semibold">
+                {formatPrice(order.total)}
+              </span>
+              <ChevronRightIcon className="text-muted-foreground h-4 w-4" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!hasPrevious}
+            onClick={() => setFilters((prev) => ({ ...prev, page: page - 1 }))}
+          >
+            Anterior
+          </Button>
+          <span className="text-muted-foreground text-sm">
+            Página {page} de {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!hasNext}
+            onClick={() => setFilters((prev) => ({ ...prev, page: page + 1 }))}
+          >
+            Próxima
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { OrdersPage };
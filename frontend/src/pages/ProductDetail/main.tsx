@@ -3,6 +3,12 @@ import { useProductDetail } from '@/domain/product/hooks/useProductDetail';
 import { useProductImages } from '@/domain/product/hooks/useProductImages';
 import { ProductImageGallery } from '@/domain/product/components/ProductImageGallery';
 import { ProductSpecifications } from '@/domain/product/components/ProductSpecifications';
+import { ProductPriceTag } from '@/domain/product/components/ProductPriceTag';
+import { ProductAvailabilityBadge } from '@/domain/product/components/ProductAvailabilityBadge';
+import { ProductVariantSelector } from '@/domain/product/components/ProductVariantSelector';
+import { getDefaultVariant } from '@/domain/product/utils';
+import { AddToCartButton } from '@/domain/cart/components/AddToCartButton';
+import { WishlistButton } from '@/domain/wishlist/components/WishlistButton';
 import { Button } from '@/core/components/button';
 import { LoadingSpinner } from '@/core/components/loading-spinner';
 import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
@@ -12,7 +18,7 @@ import { toast } from 'sonner';
 
 function ProductDetailPage() {
   const { id } = useParams<{ id: string }>();
-  const { navigate, goBack } = useNavigation();
+  const { navigate, goBack, searchParams, setSearchParams } = useNavigation();
   const productId = id ? parseInt(id, 10) : 0;
 
   const {
@@ -29,6 +35,12 @@ function ProductDetailPage() {
     enabled: !!productId,
   });
 
+  // The chosen variant is kept in the URL so the link shares it
+  const variantParam = Number(searchParams.get('variant'));
+  const variants = product?.variants ?? [];
+  const selectedVariant =
+    variants.find((variant) => variant.id === variantParam) ?? getDefaultVariant(variants);
+
   const handleShare = async () => {
     const url = window.location.href;
     if (navigator.share) {
@@ -110,6 +122,24 @@ function ProductDetailPage() {
     );
   }
 
+  // Images linked to variants are shown only with their variants
+  const variantImages = selectedVariant
+    ? images.filter(
+        (image) => image.variantIds.length === 0 || image.variantIds.includes(selectedVariant.id)
+      )
+    : images;
+
+  const shownProduct = selectedVariant
+    ? {
+        ...product,
+        specifications: {
+          ...product.specifications,
+          dimensions: selectedVariant.dimensions,
+          weight: selectedVariant.weight,
+        },
+      }
+    : product;
+
   return (
     <div className="space-y-8 py-8">
       {/* Header */}
@@ -118,10 +148,13 @@ function ProductDetailPage() {
           <ArrowLeftIcon className="h-4 w-4" />
           Voltar
         </Button>
-        <Button variant="outline" onClick={handleShare} className="gap-2">
-          <ShareIcon className="h-4 w-4" />
-          Compartilhar
-        </Button>
+        <div className="flex gap-2">
+          <WishlistButton productId={product.id} variant="outline" />
+          <Button variant="outline" onClick={handleShare} className="gap-2">
+            <ShareIcon className="h-4 w-4" />
+            Compartilhar
+          </Button>
+        </div>
       </div>
 
       {/* Product Content */}
@@ -133,7 +166,11 @@ function ProductDetailPage() {
               <LoadingSpinner className="h-8 w-8" />
             </div>
           ) : (
-            <ProductImageGallery images={images} productName={product.name} />
+            <ProductImageGallery
+              key={variantImages.map((image) => image.id).join()}
+              images={variantImages}
+              productName={product.name}
+            />
           )}
         </div>
 
@@ -141,9 +178,27 @@ function ProductDetailPage() {
         <div className="space-y-6">
           <div className="space-y-2">
             <h1 className="text-3xl font-bold tracking-tight">{product.name}</h1>
-            <p className="text-muted-foreground text-sm">{product.category}</p>
+            <p className="text-muted-foreground text-sm">
+              {product.category.path.map((item) => item.name).join(' › ')}
+            </p>
           </div>
 
+          <ProductPriceTag price={(selectedVariant ?? product).price} size="lg" />
+
+          <ProductAvailabilityBadge
+            availability={(selectedVariant ?? product).availability}
+            size="lg"
+          />
+
+          {selectedVariant && (
+            <ProductVariantSelector
+              options={product.options}
+              variants={product.variants}
+              value={selectedVariant}
+              onChange={(variant) => setSearchParams({ variant: variant.id }, { replace: true })}
+            />
+          )}
+
           {product.description && (
             <div className="space-y-2">
               <h2 className="text-lg font-semibold">Descrição</h2>
@@ -151,10 +206,20 @@ function ProductDetailPage() {
             </div>
           )}
 
-          <ProductSpecifications product={product} />
+          <ProductSpecifications product={shownProduct} />
 
           <div className="flex gap-4">
-            <Button size="lg" className="flex-1">
+            <AddToCartButton
+              product={product}
+              productVariant={selectedVariant}
+              size="lg"
+              className="flex-1"
+            />
+            <Button
+              size="lg"
+              variant={(selectedVariant ?? product).price ? 'outline' : 'default'}
+              className="flex-1"
+            >
               Solicitar Orçamento
             </Button>
           </div>
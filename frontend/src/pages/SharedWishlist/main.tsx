@@ -0,0 +1,66 @@
+import { useParams } from 'react-router-dom';
+import { ProductCard } from '@/domain/product/components/ProductCard';
+import { useSharedWishlist } from '@/domain/wishlist/hooks/useSharedWishlist';
+import { Button } from '@/core/components/button';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import { useNavigation } from '@/core/hooks/useNavigation';
+
+/**
+ * Read-only view of a list shared through its public link
+ */
+function SharedWishlistPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const { navigate } = useNavigation();
+  const { wishlist, isLoading, error } = useSharedWishlist({ token });
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error || !wishlist) {
+    return (
+      <Empty className="min-h-[400px]">
+        <EmptyHeader>
+          <EmptyTitle>Lista não encontrada</EmptyTitle>
+          <EmptyDescription>
+            O link pode ter expirado ou a lista deixou de ser compartilhada.
+          </EmptyDescription>
+        </EmptyHeader>
+        <Button onClick={() => navigate('/catalog')}>Ver Catálogo</Button>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-6 py-8">
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold">{wishlist.name}</h1>
+        <p className="text-muted-foreground text-sm">
+          {wishlist.itemCount} {wishlist.itemCount === 1 ? 'produto' : 'produtos'}
+        </p>
+      </div>
+
+      {wishlist.items.length === 0 ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Lista vazia</EmptyTitle>
+            <EmptyDescription>Nenhum produto foi salvo nesta lista ainda.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {wishlist.items.map(({ product }) => (
+            <ProductCard key={product.id} product={product} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export { SharedWishlistPage };
@@ -0,0 +1,307 @@
+import { useState } from 'react';
+import { CopyIcon, PencilIcon, PlusIcon, Trash2Icon } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProductCard } from '@/domain/product/components/ProductCard';
+import { WishlistNameForm } from '@/domain/wishlist/components/WishlistNameForm';
+import { useLocalFavorites } from '@/domain/wishlist/hooks/useLocalFavorites';
+import { useWishlists } from '@/domain/wishlist/hooks/useWishlists';
+import { useWishlistMutations } from '@/domain/wishlist/hooks/useWishlistMutations';
+import type { WishlistPayload } from '@/domain/wishlist/types/api';
+import type { Wishlist } from '@/domain/wishlist/types/models';
+import { Button } from '@/core/components/button';
+import { Label } from '@/core/components/label';
+import { Switch } from '@/core/components/switch';
+import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/core/components/tabs';
+import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/core/components/alert-dialog';
+import { getApiErrorMessage } from '@/core/lib/api';
+import { useNavigation } from '@/core/hooks/useNavigation';
+import { useAuthStore } from '@/core/stores/auth';
+
+const getShareUrl = (wishlist: Wishlist) =>
+  `${window.location.origin}/wishlist/shared/${wishlist.shareToken}`;
+
+/**
+ * Favorites kept on the device; shown until the shopper signs in
+ */
+function LocalFavorites() {
+  const { navigate } = useNavigation();
+  const { products, isLoading } = useLocalFavorites();
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-muted/50 flex flex-wrap items-center justify-between gap-4 rounded-lg border p-4">
+        <p className="text-muted-foreground text-sm">
+          Entre na sua conta para guardar seus favoritos, organizá-los em listas e compartilhá-las.
+        </p>
+        <Button variant="outline" onClick={() => navigate('/login?redirect=%2Fwishlist')}>
+          Entrar
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : products.length === 0 ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Nenhum favorito ainda</EmptyTitle>
+            <EmptyDescription>Toque no coração dos produtos para guardá-los aqui.</EmptyDescription>
+          </EmptyHeader>
+          <Button onClick={() => navigate('/catalog')}>Ver Catálogo</Button>
+        </Empty>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {products.map((product) => (
+            <ProductCard key={product.id} product={product} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function WishlistPage() {
+  const { navigate } = useNavigation();
+  const user = useAuthStore((state) => state.user);
+  const { wishlists, isLoading, error } = useWishlists();
+  const { createList, updateList, deleteList, removeItem, isCreating, isUpdating } =
+    useWishlistMutations();
+
+  const [selectedId, setSelectedId] = useState<string>();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Wishlist | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Wishlist | null>(null);
+
+  // Falls back to the first list when the selected one was deleted
+  const activeList = wishlists.find((list) => String(list.id) === selectedId) ?? wishlists[0];
+
+  const handleCreate = () => {
+    setEditing(null);
+    setIsFormOpen(true);
+  };
+
+  const handleRename = (wishlist: Wishlist) => {
+    setEditing(wishlist);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (payload: WishlistPayload) => {
+    try {
+      if (editing) {
+        await updateList({ id: editing.id, payload });
+        toast.success('Lista renomeada');
+      } else {
+        const created = await createList(payload);
+        setSelectedId(String(created.id));
+        toast.success('Lista criada');
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível salvar a lista'));
+    }
+  };
+
+  const handleShareChange = async (wishlist: Wishlist, shared: boolean) => {
+    try {
+      await updateList({ id: wishlist.id, payload: { shared } });
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível atualizar o compartilhamento'));
+    }
+  };
+
+  const handleCopyLink = async (wishlist: Wishlist) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(wishlist));
+      toast.success('Link copiado para a área de transferência');
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast.error('Não foi possível copiar o link');
+    }
+  };
+
+  const handleRemoveItem = async (wishlist: Wishlist, productId: number) => {
+    try {
+      await removeItem({ listId: wishlist.id, productId });
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível remover o produto'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteList(pendingDelete.id);
+      toast.success('Lista excluída');
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Não foi possível excluir a lista'));
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 py-8">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">Favoritos</h1>
+        {user && (
+          <Button variant="outline" onClick={handleCreate} className="gap-2">
+            <PlusIcon className="h-4 w-4" />
+            Nova lista
+          </Button>
+        )}
+      </div>
+
+      {!user ? (
+        <LocalFavorites />
+      ) : isLoading ? (
+        <div className="flex min-h-[300px] items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Erro ao carregar favoritos</EmptyTitle>
+            <EmptyDescription>Tente novamente em instantes.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : !activeList ? (
+        <Empty className="min-h-[300px]">
+          <EmptyHeader>
+            <EmptyTitle>Nenhum favorito ainda</EmptyTitle>
+            <EmptyDescription>Toque no coração dos produtos para guardá-los aqui.</EmptyDescription>
+          </EmptyHeader>
+          <Button onClick={() => navigate('/catalog')}>Ver Catálogo</Button>
+        </Empty>
+      ) : (
+        <Tabs value={String(activeList.id)} onValueChange={setSelectedId}>
+          <TabsList className="flex-wrap">
+            {wishlists.map((list) => (
+              <TabsTrigger key={list.id} value={String(list.id)}>
+                {list.name} ({list.itemCount})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {wishlists.map((list) => (
+            <TabsContent key={list.id} value={String(list.id)} className="space-y-6 pt-4">
+              <div className="flex flex-wrap items-center justify-between gap-4 rounded-lg border p-4">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id={`wishlist-shared-${list.id}`}
+                    checked={list.shared}
+                    onCheckedChange={(shared) => handleShareChange(list, shared)}
+                    disabled={isUpdating}
+                  />
+                  <Label htmlFor={`wishlist-shared-${list.id}`}>
+                    {list.shared ? 'Qualquer pessoa com o link pode ver' : 'Lista privada'}
+                  </Label>
+                  {list.shared && (
+                    <Button variant="ghost" size="sm" onClick={() => handleCopyLink(list)}>
+                      <CopyIcon />
+                      Copiar link
+                    </Button>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => handleRename(list)}>
+                    <PencilIcon />
+                    Renomear
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setPendingDelete(list)}>
+                    <Trash2Icon />
+                    Excluir
+                  </Button>
+                </div>
+              </div>
+
+              {list.items.length === 0 ? (
+                <Empty className="min-h-[300px]">
+                  <EmptyHeader>
+                    <EmptyTitle>Lista vazia</EmptyTitle>
+                    <EmptyDescription>
+                      Os produtos favoritados são salvos na primeira lista.
+                    </EmptyDescription>
+                  </EmptyHeader>
+                </Empty>
+              ) : (
+                <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                  {list.items.map(({ product }) => (
+                    <div key={product.id} className="space-y-2">
+                      <ProductCard product={product} />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => handleRemoveItem(list, product.id)}
+                      >
+                        <Trash2Icon />
+                        Remover da lista
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Renomear lista' : 'Nova lista'}</DialogTitle>
+            <DialogDescription>
+              Separe os favoritos por ambiente ou projeto, como "Sala de estar".
+            </DialogDescription>
+          </DialogHeader>
+          <WishlistNameForm
+            key={editing?.id ?? 'new'}
+            defaultName={editing?.name}
+            isSubmitting={isCreating || isUpdating}
+            onSubmit={handleSubmit}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir lista?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A lista "{pendingDelete?.name}" e seus produtos salvos serão removidos. O link
+              compartilhado deixará de funcionar.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isUpdating}>
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export { WishlistPage };
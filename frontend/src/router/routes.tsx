@@ -1,8 +1,12 @@
 import { lazy, Suspense } from 'react';
-import { createBrowserRouter } from 'react-router-dom';
+import { createBrowserRouter, Navigate } from 'react-router-dom';
 import { LoadingSpinner } from '@/core/components/loading-spinner';
 import { MainLayout } from '@/layouts/MainLayout';
 
+const AdminLayout = lazy(() =>
+  import('@/layouts/AdminLayout').then((module) => ({ default: module.AdminLayout }))
+);
+
 const HomePage = lazy(() =>
   import('@/pages/Home').then((module) => ({ default: module.HomePage }))
 );
@@ -12,6 +16,41 @@ const CatalogPage = lazy(() =>
 const ProductDetailPage = lazy(() =>
   import('@/pages/ProductDetail').then((module) => ({ default: module.ProductDetailPage }))
 );
+const LoginPage = lazy(() =>
+  import('@/pages/Login').then((module) => ({ default: module.LoginPage }))
+);
+const CheckoutPage = lazy(() =>
+  import('@/pages/Checkout').then((module) => ({ default: module.CheckoutPage }))
+);
+const OrdersPage = lazy(() =>
+  import('@/pages/Orders').then((module) => ({ default: module.OrdersPage }))
+);
+const OrderDetailPage = lazy(() =>
+  import('@/pages/OrderDetail').then((module) => ({ default: module.OrderDetailPage }))
+);
+const WishlistPage = lazy(() =>
+  import('@/pages/Wishlist').then((module) => ({ default: module.WishlistPage }))
+);
+const SharedWishlistPage = lazy(() =>
+  import('@/pages/SharedWishlist').then((module) => ({ default: module.SharedWishlistPage }))
+);
+const ComparePage = lazy(() =>
+  import('@/pages/Compare').then((module) => ({ default: module.ComparePage }))
+);
+const AdminCategoriesPage = lazy(() =>
+  import('@/pages/AdminCategories').then((module) => ({ default: module.AdminCategoriesPage }))
+);
+const AdminProductsPage = lazy(() =>
+  import('@/pages/AdminProducts').then((module) => ({ default: module.AdminProductsPage }))
+);
+const AdminProductImagesPage = lazy(() =>
+  import('@/pages/AdminProductImages').then((module) => ({
+    default: module.AdminProductImagesPage,
+  }))
+);
+const AdminOrdersPage = lazy(() =>
+  import('@/pages/AdminOrders').then((module) => ({ default: module.AdminOrdersPage }))
+);
 const NotFoundPage = lazy(() =>
   import('@/pages/NotFound').then((module) => ({ default: module.NotFoundPage }))
 );
@@ -43,6 +82,34 @@ const routes = createBrowserRouter([
         path: 'product/:id',
         element: <ProductDetailPage />,
       },
+      {
+        path: 'login',
+        element: <LoginPage />,
+      },
+      {
+        path: 'checkout',
+        element: <CheckoutPage />,
+      },
+      {
+        path: 'orders',
+        element: <OrdersPage />,
+      },
+      {
+        path: 'orders/:code',
+        element: <OrderDetailPage />,
+      },
+      {
+        path: 'wishlist',
+        element: <WishlistPage />,
+      },
+      {
+        path: 'wishlist/shared/:token',
+        element: <SharedWishlistPage />,
+      },
+      {
+        path: 'compare',
+        element: <ComparePage />,
+      },
       {
         path: '*',
         element: (
@@ -59,6 +126,42 @@ const routes = createBrowserRouter([
       },
     ],
   },
+  {
+    path: '/admin',
+    element: (
+      <Suspense
+        fallback={
+          <div className="flex h-screen w-screen items-center justify-center">
+            <LoadingSpinner />
+          </div>
+        }
+      >
+        <AdminLayout />
+      </Suspense>
+    ),
+    children: [
+      {
+        index: true,
+        element: <Navigate to="categories" replace />,
+      },
+      {
+        path: 'categories',
+        element: <AdminCategoriesPage />,
+      },
+      {
+        path: 'products',
+        element: <AdminProductsPage />,
+      },
+      {
+        path: 'products/:id/images',
+        element: <AdminProductImagesPage />,
+      },
+      {
+        path: 'orders',
+        element: <AdminOrdersPage />,
+      },
+    ],
+  },
 ]);
 
 export { routes };